@@ -76,6 +76,7 @@ export default function AIAnalysisPage() {
         category: t.category ?? '',
         description: t.description ?? '',
         date: t.date,
+        splits: t.splits ?? null,
       }))
       const res = await fetch('/api/analyze-finance', {
         method: 'POST',
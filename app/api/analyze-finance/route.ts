@@ -1,8 +1,10 @@
 import { NextResponse } from 'next/server'
+import { getCategoryAmounts, type TransactionSplit } from '@/src/domain/split/split'
 
 /**
- * Request body: transactions from the app (type, amount, category, description?, date).
+ * Request body: transactions from the app (type, amount, category, description?, date, splits?).
  * We summarize them server-side and send to OpenAI to avoid token limits.
+ * Split transactions are attributed per line, so each category gets its own share.
  */
 type TransactionInput = {
   type: 'income' | 'expense'
@@ -10,6 +12,16 @@ type TransactionInput = {
   category?: string
   description?: string
   date: string
+  splits?: TransactionSplit[] | null
+}
+
+/** Keep only well-formed split lines from the request body. */
+function parseSplits(raw: unknown): TransactionSplit[] | null {
+  if (!Array.isArray(raw)) return null
+  const lines = raw
+    .filter((s: any) => s && typeof s === 'object' && typeof s.amount === 'number')
+    .map((s: any) => ({ category: String(s.category ?? ''), amount: Number(s.amount) }))
+  return lines.length > 0 ? lines : null
 }
 
 function buildSummaryForAI(transactions: TransactionInput[]): string {
@@ -21,8 +33,10 @@ function buildSummaryForAI(transactions: TransactionInput[]): string {
 
   const byCategory: Record<string, number> = {}
   expense.forEach((t) => {
-    const cat = (t.category || '').trim() || 'ไม่ระบุหมวด'
-    byCategory[cat] = (byCategory[cat] || 0) + Number(t.amount)
+    getCategoryAmounts(t).forEach((line) => {
+      const cat = line.category.trim() || 'ไม่ระบุหมวด'
+      byCategory[cat] = (byCategory[cat] || 0) + line.amount
+    })
   })
   const categoryLines = Object.entries(byCategory)
     .sort((a, b) => b[1] - a[1])
@@ -41,7 +55,11 @@ function buildSummaryForAI(transactions: TransactionInput[]): string {
   const sortedExpense = [...expense].sort((a, b) => Number(b.amount) - Number(a.amount))
   const topExpenses = sortedExpense.slice(0, 15).map((t) => ({
     date: t.date,
-    category: (t.category || '').trim() || '-',
+    category:
+      getCategoryAmounts(t)
+        .map((line) => line.category.trim())
+        .filter(Boolean)
+        .join(' + ') || '-',
     amount: Number(t.amount),
     desc: (t.description || '').slice(0, 50),
   }))
@@ -108,12 +126,15 @@ export async function POST(request: Request) {
 
     const transactions: TransactionInput[] = raw
       .filter((t: unknown) => t && typeof t === 'object' && (t as any).type && typeof (t as any).amount === 'number' && (t as any).date)
+      // Transfers between own accounts are neither income nor expense
+      .filter((t: any) => t.type !== 'transfer')
       .map((t: any) => ({
         type: t.type === 'income' ? 'income' : 'expense',
         amount: Number(t.amount),
         category: t.category ?? '',
         description: t.description ?? '',
         date: String(t.date),
+        splits: parseSplits(t.splits),
       }))
 
     if (transactions.length === 0) {
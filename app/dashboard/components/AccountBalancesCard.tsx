@@ -0,0 +1,49 @@
+'use client'
+
+import { Landmark } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { ACCOUNT_KIND_LABELS, type AccountBalance } from '@/src/domain/account/account'
+
+type Props = {
+  balances: AccountBalance[]
+}
+
+export default function AccountBalancesCard({ balances }: Props) {
+  if (balances.length === 0) return null
+
+  const total = balances.reduce((sum, b) => sum + b.balance, 0)
+
+  return (
+    <Card className="shadow-card border-0">
+      <CardContent className="p-0">
+        <div className="flex items-center gap-2 px-4 pt-4 pb-3">
+          <Landmark className="w-4 h-4 text-muted-foreground" />
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+            ยอดเงินแยกตามบัญชี
+          </h3>
+        </div>
+        <ul className="divide-y divide-border">
+          {balances.map((b) => (
+            <li key={b.accountId ?? 'unassigned'} className="flex justify-between items-center px-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{b.name}</p>
+                {b.kind && (
+                  <p className="text-xs text-muted-foreground">{ACCOUNT_KIND_LABELS[b.kind]}</p>
+                )}
+              </div>
+              <span className={`text-sm font-semibold tabular-nums ${b.balance < 0 ? 'text-danger' : 'text-foreground'}`}>
+                ฿{b.balance.toLocaleString('th-TH')}
+              </span>
+            </li>
+          ))}
+          <li className="flex justify-between items-center px-4 py-3 bg-secondary/50 rounded-b-xl">
+            <span className="text-sm font-medium text-muted-foreground">รวมทุกบัญชี</span>
+            <span className="text-sm font-bold tabular-nums text-foreground">
+              ฿{total.toLocaleString('th-TH')}
+            </span>
+          </li>
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
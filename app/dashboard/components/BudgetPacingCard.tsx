@@ -0,0 +1,88 @@
+'use client'
+
+import { Gauge } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  PACING_STATUS_LABELS,
+  getExpectedOverruns,
+  type CategoryPacing,
+  type PacingStatus,
+} from '@/src/domain/budget/budget-pacing'
+
+const formatCurrency = (n: number) => Math.round(n).toLocaleString('th-TH')
+
+const STATUS_BADGE: Record<PacingStatus, 'danger' | 'warning' | 'success'> = {
+  over_budget: 'danger',
+  will_overrun: 'danger',
+  ahead: 'warning',
+  on_pace: 'success',
+}
+
+const BAR_CLASS: Record<PacingStatus, string> = {
+  over_budget: 'bg-danger',
+  will_overrun: 'bg-danger',
+  ahead: 'bg-warning',
+  on_pace: 'bg-primary',
+}
+
+type Props = {
+  pacing: CategoryPacing[]
+}
+
+export default function BudgetPacingCard({ pacing }: Props) {
+  if (pacing.length === 0) return null
+
+  const overruns = getExpectedOverruns(pacing)
+  const elapsedPercent = pacing[0].elapsedPercent
+
+  return (
+    <Card className="shadow-card border-0">
+      <CardContent className="p-0">
+        <div className="flex items-center gap-2 px-4 pt-4 pb-1">
+          <Gauge className="w-4 h-4 text-muted-foreground" />
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+            ความเร็วการใช้งบรายหมวด
+          </h3>
+        </div>
+        <p className="px-4 pb-3 text-xs text-muted-foreground">
+          ผ่านรอบไปแล้ว {Math.round(elapsedPercent)}%
+          {overruns.length > 0 ? ` · ${overruns.length} หมวดคาดว่าจะเกินงบ` : ' · ทุกหมวดยังอยู่ในงบ'}
+        </p>
+        <ul className="divide-y divide-border">
+          {pacing.map((p) => (
+            <li key={p.category} className="px-4 py-3 space-y-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-foreground truncate">{p.category}</span>
+                <Badge variant={STATUS_BADGE[p.status]}>{PACING_STATUS_LABELS[p.status]}</Badge>
+              </div>
+              {/* Spent % of budget, with a marker at how much of the cycle has gone by */}
+              <div className="relative h-2 w-full rounded-full bg-muted">
+                <div
+                  className={`h-full rounded-full ${BAR_CLASS[p.status]}`}
+                  style={{ width: `${Math.min(100, p.spentPercent)}%` }}
+                />
+                {p.kind === 'variable' && (
+                  <div
+                    className="absolute -top-0.5 h-3 w-0.5 bg-foreground/60"
+                    style={{ left: `${Math.min(100, p.elapsedPercent)}%` }}
+                    aria-hidden
+                  />
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground tabular-nums">
+                ใช้ไป ฿{formatCurrency(p.spent)} / ฿{formatCurrency(p.budget)} ({Math.round(p.spentPercent)}%)
+                {p.kind === 'fixed'
+                  ? ' · รายจ่ายคงที่'
+                  : ` · คาดสิ้นรอบ ฿${formatCurrency(p.projectedSpend)}`}
+                {p.projectedOverrun > 0 && (
+                  <span className="text-danger"> (เกิน ฿{formatCurrency(p.projectedOverrun)})</span>
+                )}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
@@ -17,13 +17,24 @@ import {
   type ProfileRow as Profile,
   type TransactionRow as Transaction,
   fetchDebtItems,
+  fetchAccounts,
+  toDomainAccounts,
+  fetchRecurringRules,
+  toDomainRecurringRules,
   type DebtItemRow,
+  type AccountRow,
+  type RecurringRuleRow,
 } from "@/src/infrastructure/supabase/supabase";
+import { runRecurringAutoPost } from "@/src/infrastructure/recurring/recurring-autopost";
+import { runBudgetAlertCheck } from "@/src/infrastructure/budget/budget-alerts";
+import { loadLocalDebtItems } from "@/src/presentation/sync/local-data";
+import { dataRepository } from "@/src/infrastructure/data/data-repository";
 import BottomNavigation from "@/components/BottomNavigation";
 import MonthSelector from "@/components/MonthSelector";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import {
+  computeSpentByCategory,
   getCurrentBalance,
   getFinancialStatus,
   getTodayExpense,
@@ -36,7 +47,11 @@ import {
   getActivePeriodMonth,
   getRemainingDaysInPeriod,
 } from "@/src/domain/period/period";
-import { formatCycleLabel } from "@/src/domain/budget/budget-cycle";
+import { formatCycleLabel, toCycleStartKey } from "@/src/domain/budget/budget-cycle";
+import { getEffectiveBudgets, type BudgetHistory } from "@/src/domain/budget/budget-history";
+import { computeBudgetPacing } from "@/src/domain/budget/budget-pacing";
+import { computeAccountBalances } from "@/src/domain/account/account";
+import { TRANSFER_LABEL } from "@/src/domain/transfer/transfer";
 import {
   computeVariableDailyRate,
   computePlannedRemaining,
@@ -46,6 +61,8 @@ import { useExpenseCategories } from "@/src/presentation/categories/use-expense-
 import { getDailySpendingForPeriod } from "@/lib/chart-data";
 import { getIncludeCarriedOver, setIncludeCarriedOver } from "@/lib/storage";
 import CategoryIcon from "@/components/CategoryIcon";
+import AccountBalancesCard from "./components/AccountBalancesCard";
+import BudgetPacingCard from "./components/BudgetPacingCard";
 import {
   TrendingUpIcon,
   WalletIcon,
@@ -76,8 +93,13 @@ export default function DashboardPage() {
   const [loading, setLoading] = useState(true);
   const [user, setUser] = useState<any>(null);
   const [debtItems, setDebtItems] = useState<DebtItemRow[]>([]);
+  const [accounts, setAccounts] = useState<AccountRow[]>([]);
+  const [recurringRules, setRecurringRules] = useState<RecurringRuleRow[]>([]);
+  const [budgetHistory, setBudgetHistory] = useState<BudgetHistory>({});
   const [selectedMonth, setSelectedMonth] = useState(new Date());
+  const [dataVersion, setDataVersion] = useState(0);
   const initialMonthSetRef = useRef(false);
+  const autoPostRanRef = useRef(false);
 
   const checkUser = useCallback(async () => {
     const {
@@ -91,19 +113,36 @@ export default function DashboardPage() {
   }, [router]);
 
   const loadProfile = async (userId: string) => {
+    // Show this device's copy first; the server answer below replaces it.
+    const localDebts = await loadLocalDebtItems(userId);
+    if (localDebts.length > 0) setDebtItems(localDebts);
+
     try {
-      const { data: profileData, error: profileError } = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("id", userId)
-        .single();
-
-      if (profileError && profileError.code !== "PGRST116") {
-        console.error("Error loading profile:", profileError);
-      } else if (profileData) {
-        setProfile(profileData);
+      const profileData = await dataRepository.profile(userId, (row) => {
+        if (!row) return;
+        setProfile(row);
+        setLoading(false);
+      });
+      const [debts, accountRows, ruleRows] = await Promise.all([
+        fetchDebtItems(userId),
+        fetchAccounts(userId),
+        fetchRecurringRules(userId),
+        dataRepository.categoryBudgets(userId, (history) => setBudgetHistory(history ?? {})),
+      ]);
+      if (debts.length > 0 || localDebts.length === 0) setDebtItems(debts);
+      setAccounts(accountRows);
+      setRecurringRules(ruleRows);
+
+      // Post due recurring transactions once per visit, then reload month data.
+      if (!autoPostRanRef.current) {
+        autoPostRanRef.current = true;
+        runRecurringAutoPost(userId, profileData?.month_end_day ?? 0)
+          .then((result) => {
+            if (result.posted.length > 0) setDataVersion((v) => v + 1);
+            if (result.posted.some((o) => o.type === "expense")) runBudgetAlertCheck(userId);
+          })
+          .catch((err) => console.error("Recurring auto-post failed:", err));
       }
-      setDebtItems(await fetchDebtItems(userId));
     } catch (error) {
       console.error("Error loading profile:", error);
     } finally {
@@ -117,44 +156,35 @@ export default function DashboardPage() {
 
       try {
         const { start, end } = getMonthRange(month, monthEndDayVal);
-
-        const { data: transactionsData, error: transactionsError } =
-          await supabase
-            .from("transactions")
-            .select("*")
-            .eq("user_id", user.id)
-            .gte("date", format(start, "yyyy-MM-dd"))
-            .lte("date", format(end, "yyyy-MM-dd"))
-            .order("date", { ascending: false });
-
-        if (transactionsError) {
-          console.error("Error loading transactions:", transactionsError);
-        } else if (transactionsData) {
-          setTransactions(transactionsData);
-          const income = transactionsData
-            .filter((t) => t.type === "income")
-            .reduce((sum, t) => sum + Number(t.amount), 0);
-          const expense = transactionsData
-            .filter((t) => t.type === "expense")
-            .reduce((sum, t) => sum + Number(t.amount), 0);
-          setTotalIncome(income);
-          setTotalExpense(expense);
-        }
+        const showMonth = (rows: Transaction[]) => {
+          setTransactions(rows);
+          setTotalIncome(
+            rows.filter((t) => t.type === "income").reduce((sum, t) => sum + Number(t.amount), 0),
+          );
+          setTotalExpense(
+            rows.filter((t) => t.type === "expense").reduce((sum, t) => sum + Number(t.amount), 0),
+          );
+        };
+
+        // This device's copy first; replaced by the server rows when they arrive.
+        await dataRepository.transactions(
+          user.id,
+          { from: format(start, "yyyy-MM-dd"), to: format(end, "yyyy-MM-dd") },
+          showMonth,
+        );
 
         // Carry-forward: always compute from the previous cycle (works for both
         // calendar months and custom salary-day cycles).
         const prevMonth = addMonths(month, -1);
         const { start: prevStart, end: prevEnd } = getMonthRange(prevMonth, monthEndDayVal);
-        const { data: prevData } = await supabase
-          .from("transactions")
-          .select("type, amount")
-          .eq("user_id", user.id)
-          .gte("date", format(prevStart, "yyyy-MM-dd"))
-          .lte("date", format(prevEnd, "yyyy-MM-dd"));
-        const prevIncome = (prevData || [])
+        const prevRows = await dataRepository.transactions(user.id, {
+          from: format(prevStart, "yyyy-MM-dd"),
+          to: format(prevEnd, "yyyy-MM-dd"),
+        });
+        const prevIncome = prevRows
           .filter((t) => t.type === "income")
           .reduce((s, t) => s + Number(t.amount), 0);
-        const prevExpense = (prevData || [])
+        const prevExpense = prevRows
           .filter((t) => t.type === "expense")
           .reduce((s, t) => s + Number(t.amount), 0);
         setCarriedOverBalance(prevIncome - prevExpense);
@@ -169,17 +199,7 @@ export default function DashboardPage() {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
-        .from("transactions")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("date", { ascending: false });
-
-      if (error) {
-        console.error("Error loading all transactions:", error);
-      } else {
-        setAllTransactions(data || []);
-      }
+      await dataRepository.transactions(user.id, undefined, setAllTransactions);
     } catch (error) {
       console.error("Error loading all transactions:", error);
     }
@@ -209,7 +229,7 @@ export default function DashboardPage() {
     }
     loadMonthData(selectedMonth, monthEndDay);
     loadAllTransactions();
-  }, [user, profile, selectedMonth, monthEndDay, loadMonthData, loadAllTransactions]);
+  }, [user, profile, selectedMonth, monthEndDay, dataVersion, loadMonthData, loadAllTransactions]);
 
   useEffect(() => {
     if (typeof window === "undefined" || !user) return;
@@ -256,20 +276,46 @@ export default function DashboardPage() {
   );
 
   const txLike = allTransactions.map((t) => ({
-    type: t.type as "income" | "expense",
+    type: t.type,
     amount: Number(t.amount),
     category: t.category ?? undefined,
     date: t.date,
+    account_id: t.account_id ?? null,
+    transfer_id: t.transfer_id ?? null,
+    transfer_direction: t.transfer_direction ?? null,
+    recurring_id: t.recurring_id ?? null,
+    splits: t.splits ?? null,
   }));
   const variableDailyRate = computeVariableDailyRate(txLike, now, variableCategoryNames);
-  const plannedRemaining = computePlannedRemaining(txLike, now, monthRange.start, monthRange.end, fixedCategoryNames);
+  const plannedRemaining = computePlannedRemaining(txLike, now, monthRange.start, monthRange.end, fixedCategoryNames, {
+    rules: toDomainRecurringRules(recurringRules),
+    salaryDay: monthEndDay,
+  });
   const forecast = computeForecastEnd(currentBalance, variableDailyRate, plannedRemaining, remainingDays);
   const projectedBalance = forecast.forecastEnd;
   const daysLeft = variableDailyRate > 0 ? currentBalance / variableDailyRate : currentBalance >= 0 ? Infinity : 0;
   const financialStatus = getFinancialStatus(projectedBalance, daysLeft, remainingDays);
   const todayStr = format(now, "yyyy-MM-dd");
+  // Per-account balances are all-time (opening balance + every transaction up to today),
+  // not scoped to the selected cycle — a wallet's balance does not reset each month.
+  const accountBalances = accounts.length > 0
+    ? computeAccountBalances(toDomainAccounts(accounts), txLike, todayStr)
+    : [];
+  // Category pacing only means something while the cycle is running.
+  const budgetPacing = isViewingCurrentMonth
+    ? computeBudgetPacing({
+        asOf: now,
+        range: monthRange,
+        budgets: getEffectiveBudgets(budgetHistory, toCycleStartKey({ startDate: monthRange.start })),
+        spentByCategory: computeSpentByCategory(txLike, monthRange),
+        transactions: txLike,
+        classification: { fixed: fixedCategoryNames, variable: variableCategoryNames },
+      })
+    : [];
   const todayExpense = isViewingCurrentMonth ? getTodayExpense(transactions, todayStr) : 0;
   const topCategories = getTopExpenseCategories(transactions, 5);
+  // A transfer is stored as two legs; show it once (the outgoing leg).
+  const recentTransactions = transactions.filter((t) => t.transfer_direction !== "in").slice(0, 5);
   const recommendation = (() => {
     if (financialStatus === "Risk") return "คาดการณ์ปลายเดือนอาจติดลบ ลองลดรายจ่ายหรือหารายได้เสริม";
     if (financialStatus === "Warning") return "ยอดคงเหลืออาจไม่พอถึงปลายเดือน ลดรายจ่ายผันแปรวันละนิดก็ช่วยได้";
@@ -379,6 +425,20 @@ export default function DashboardPage() {
         </p>
       )}
 
+      {/* Per-account balances (only once the user has set up accounts) */}
+      {accountBalances.length > 0 && (
+        <div className="px-4 mb-6">
+          <AccountBalancesCard balances={accountBalances} />
+        </div>
+      )}
+
+      {/* Category budget pacing (current cycle, budgeted categories only) */}
+      {budgetPacing.length > 0 && (
+        <div className="px-4 mb-6">
+          <BudgetPacingCard pacing={budgetPacing} />
+        </div>
+      )}
+
       {/* Savings Goals — always show links to goal pages */}
       <div className="px-4 mb-6">
         <div className="flex items-center justify-between mb-3">
@@ -473,20 +533,22 @@ export default function DashboardPage() {
         </div>
         <Card className="shadow-card border-0">
           <CardContent className="p-0">
-            {transactions.length === 0 ? (
+            {recentTransactions.length === 0 ? (
               <div className="p-8 text-center text-muted-foreground text-sm">
                 ยังไม่มีรายการในเดือนนี้
               </div>
             ) : (
-              transactions.slice(0, 5).map((tx, i) => (
-                <div key={tx.id} className={`flex items-center gap-3 px-4 py-3 ${i !== Math.min(transactions.length, 5) - 1 ? "border-b border-border" : ""}`}>
+              recentTransactions.map((tx, i) => (
+                <div key={tx.id} className={`flex items-center gap-3 px-4 py-3 ${i !== recentTransactions.length - 1 ? "border-b border-border" : ""}`}>
                   <CategoryIcon category={tx.category || ""} />
                   <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium text-foreground truncate">{tx.category || "-"}</p>
+                    <p className="text-sm font-medium text-foreground truncate">
+                      {tx.type === "transfer" ? TRANSFER_LABEL : tx.category || "-"}
+                    </p>
                     <p className="text-xs text-muted-foreground">{tx.date}</p>
                   </div>
-                  <span className={`text-sm font-semibold tabular-nums ${tx.type === "income" ? "text-success" : "text-foreground"}`}>
-                    {tx.type === "income" ? "+" : "-"}฿{formatCurrency(Number(tx.amount))}
+                  <span className={`text-sm font-semibold tabular-nums ${tx.type === "income" ? "text-success" : tx.type === "transfer" ? "text-muted-foreground" : "text-foreground"}`}>
+                    {tx.type === "income" ? "+" : tx.type === "transfer" ? "" : "-"}฿{formatCurrency(Number(tx.amount))}
                   </span>
                 </div>
               ))
@@ -0,0 +1,158 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getAppLockPin, getAppLockTimeoutMinutes, setAppLockPin, setAppLockTimeoutMinutes } from '@/lib/storage'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { APP_LOCK_CHANGED_EVENT } from '@/components/AppLock'
+import { hashPin, verifyPin } from '@/src/infrastructure/security/app-lock-pin'
+import { isWebCryptoAvailable } from '@/src/infrastructure/offline/offline-crypto'
+import {
+  APP_LOCK_PIN_MAX_LENGTH,
+  APP_LOCK_TIMEOUT_OPTIONS,
+  describePinError,
+  formatAppLockTimeout,
+  validateNewPin,
+} from '@/src/domain/security/app-lock'
+
+const inputClass =
+  'w-full px-4 py-2 border border-border rounded-xl text-foreground text-sm placeholder:text-muted-foreground bg-card'
+const buttonClass =
+  'flex-1 py-2 rounded-xl border border-border text-sm text-foreground hover:bg-secondary disabled:opacity-50'
+
+function PinInput({ value, onChange, placeholder }: { value: string; onChange: (v: string) => void; placeholder: string }) {
+  return (
+    <input
+      type="password"
+      inputMode="numeric"
+      pattern="[0-9]*"
+      autoComplete="off"
+      maxLength={APP_LOCK_PIN_MAX_LENGTH}
+      value={value}
+      onChange={(e) => onChange(e.target.value.replace(/\D/g, ''))}
+      placeholder={placeholder}
+      className={inputClass}
+    />
+  )
+}
+
+export default function AppLockSection() {
+  const [enabled, setEnabled] = useState<boolean | null>(null)
+  const [timeout, setTimeoutState] = useState(getAppLockTimeoutMinutes())
+  const [currentPin, setCurrentPin] = useState('')
+  const [pin, setPin] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    setEnabled(getAppLockPin() !== null)
+  }, [])
+
+  const reset = () => {
+    setCurrentPin('')
+    setPin('')
+    setConfirmation('')
+    setError('')
+  }
+
+  /** Set a new PIN (when on, only after the current one is confirmed). */
+  const handleSetPin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const invalid = validateNewPin(pin, confirmation)
+    if (invalid) { setError(describePinError(invalid)); return }
+    setBusy(true)
+    try {
+      const stored = getAppLockPin()
+      if (stored && !(await verifyPin(currentPin, stored))) {
+        setError('PIN ปัจจุบันไม่ถูกต้อง')
+        return
+      }
+      setAppLockPin(await hashPin(pin))
+      setEnabled(true)
+      reset()
+      window.dispatchEvent(new Event(APP_LOCK_CHANGED_EVENT))
+    } catch (err: any) {
+      console.error('Error setting app lock PIN:', err)
+      setError('ตั้ง PIN ไม่สำเร็จ: ' + (err.message || ''))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    const stored = getAppLockPin()
+    setBusy(true)
+    try {
+      if (stored && !(await verifyPin(currentPin, stored))) {
+        setError('PIN ปัจจุบันไม่ถูกต้อง')
+        return
+      }
+      setAppLockPin(null)
+      setEnabled(false)
+      reset()
+      window.dispatchEvent(new Event(APP_LOCK_CHANGED_EVENT))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (enabled === null) return null
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-semibold text-foreground mb-3">ล็อกแอปด้วย PIN</h3>
+      <Card className="shadow-card border-0">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2 text-sm text-foreground">
+            <span>สถานะ</span>
+            {enabled ? <Badge variant="success">เปิดอยู่</Badge> : <Badge variant="secondary">ปิดอยู่</Badge>}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            ขอ PIN 4–6 หลักทุกครั้งที่เปิดแอป และเมื่อกลับมาที่แอปหลังสลับไปแอปอื่นเกินเวลาที่ตั้งไว้ ไม่ได้ออกจากระบบ
+          </p>
+
+          {!isWebCryptoAvailable() ? (
+            <p className="text-xs text-danger">เบราว์เซอร์นี้ไม่รองรับการล็อกแอป (ต้องเปิดผ่าน HTTPS)</p>
+          ) : (
+            <>
+              {enabled && (
+                <label className="flex items-center justify-between gap-2 text-sm text-foreground">
+                  <span>ล็อกเมื่อออกจากแอป</span>
+                  <select
+                    value={timeout}
+                    onChange={(e) => {
+                      setAppLockTimeoutMinutes(Number(e.target.value))
+                      setTimeoutState(getAppLockTimeoutMinutes())
+                    }}
+                    className="px-3 py-2 border border-border rounded-xl text-foreground text-sm bg-card"
+                  >
+                    {APP_LOCK_TIMEOUT_OPTIONS.map((minutes) => (
+                      <option key={minutes} value={minutes}>{formatAppLockTimeout(minutes)}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <form onSubmit={handleSetPin} className="space-y-2">
+                {enabled && <PinInput value={currentPin} onChange={setCurrentPin} placeholder="PIN ปัจจุบัน" />}
+                <PinInput value={pin} onChange={setPin} placeholder={enabled ? 'PIN ใหม่' : 'ตั้ง PIN'} />
+                <PinInput value={confirmation} onChange={setConfirmation} placeholder="ยืนยัน PIN" />
+                {error && <p className="text-xs text-danger">{error}</p>}
+                <div className="flex gap-2">
+                  <button type="submit" disabled={busy} className={buttonClass}>
+                    {enabled ? 'เปลี่ยน PIN' : 'เปิดล็อกแอป'}
+                  </button>
+                  {enabled && (
+                    <button type="button" disabled={busy || !currentPin} onClick={handleRemove} className={buttonClass}>
+                      ปิดล็อกแอป
+                    </button>
+                  )}
+                </div>
+              </form>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
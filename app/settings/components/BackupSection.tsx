@@ -0,0 +1,127 @@
+'use client'
+
+import { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  BACKUP_TABLES,
+  BACKUP_TABLE_LABELS,
+  backupToCsvFiles,
+  describeBackupError,
+  parseBackupArchive,
+  summarizeBackup,
+  type BackupArchive,
+} from '@/src/domain/backup/backup'
+import { exportUserBackup, restoreUserBackup } from '@/src/infrastructure/backup/supabase-backup'
+
+function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = name
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function BackupSection() {
+  const [busy, setBusy] = useState<'export' | 'restore' | null>(null)
+
+  const loadArchive = async (): Promise<BackupArchive | null> => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return null
+    const { archive, unsynced } = await exportUserBackup(session.user.id)
+    if (unsynced > 0) {
+      alert(`มี ${unsynced} รายการที่บันทึกแบบออฟไลน์และยังไม่ได้ซิงก์ จะไม่อยู่ในไฟล์สำรองนี้ ลองเชื่อมต่ออินเทอร์เน็ตแล้วส่งออกอีกครั้ง`)
+    }
+    return archive
+  }
+
+  const handleExport = async (kind: 'json' | 'csv') => {
+    setBusy('export')
+    try {
+      const archive = await loadArchive()
+      if (!archive) return
+      if (kind === 'json') {
+        downloadFile(
+          `moneyplan-backup-${archive.exportedAt.slice(0, 10)}.json`,
+          JSON.stringify(archive, null, 2),
+          'application/json',
+        )
+      } else {
+        for (const file of backupToCsvFiles(archive)) downloadFile(file.name, file.content, 'text/csv;charset=utf-8')
+      }
+    } catch (error: any) {
+      console.error('Error exporting backup:', error)
+      alert('ส่งออกข้อมูลไม่สำเร็จ: ' + (error.message || ''))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleRestore = async (file: File) => {
+    const parsed = parseBackupArchive(await file.text())
+    if (!parsed.ok) { alert(describeBackupError(parsed.error)); return }
+
+    const counts = summarizeBackup(parsed.archive)
+    const lines = BACKUP_TABLES.filter((t) => counts[t] > 0).map((t) => `• ${BACKUP_TABLE_LABELS[t]} ${counts[t]} รายการ`)
+    if (!confirm(`กู้คืนข้อมูลจากไฟล์สำรองวันที่ ${parsed.archive.exportedAt.slice(0, 10) || '-'}?\n${lines.join('\n')}\n\nใช้ได้กับบัญชีที่ยังไม่มีข้อมูลเท่านั้น`)) return
+
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return
+    setBusy('restore')
+    try {
+      const result = await restoreUserBackup(session.user.id, parsed.archive)
+      if (result.ok) {
+        alert('กู้คืนข้อมูลเรียบร้อย')
+        window.location.reload()
+        return
+      }
+      if (result.error === 'account_not_empty') {
+        alert(`บัญชีนี้มีข้อมูล${result.table ? BACKUP_TABLE_LABELS[result.table] : ''}อยู่แล้ว กู้คืนได้เฉพาะบัญชีใหม่ที่ยังไม่มีข้อมูล`)
+      } else {
+        alert(`กู้คืนไม่สำเร็จที่ ${result.table ? BACKUP_TABLE_LABELS[result.table] : '-'} ข้อมูลบางส่วนถูกนำเข้าไปแล้ว`)
+      }
+    } catch (error: any) {
+      console.error('Error restoring backup:', error)
+      alert('กู้คืนข้อมูลไม่สำเร็จ: ' + (error.message || ''))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const buttonClass = 'flex-1 py-2 rounded-xl border border-border text-sm text-foreground hover:bg-secondary disabled:opacity-50'
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-semibold text-foreground mb-3">สำรองและกู้คืนข้อมูล</h3>
+      <Card className="shadow-card border-0">
+        <CardContent className="p-4 space-y-3">
+          <p className="text-xs text-muted-foreground">
+            ส่งออกรายการ บัญชี งบ หนี้ หมวดหมู่ แผนรายเดือน กฎ และค่าตั้งค่าโปรไฟล์ เป็นไฟล์ JSON (ใช้กู้คืน) หรือ CSV แยกตาราง (เปิดใน Excel)
+          </p>
+          <div className="flex gap-2">
+            <button type="button" disabled={busy != null} onClick={() => handleExport('json')} className={buttonClass}>
+              {busy === 'export' ? 'กำลังส่งออก...' : 'ส่งออก JSON'}
+            </button>
+            <button type="button" disabled={busy != null} onClick={() => handleExport('csv')} className={buttonClass}>
+              ส่งออก CSV
+            </button>
+          </div>
+          <label className={`block text-center cursor-pointer ${buttonClass} ${busy ? 'pointer-events-none opacity-50' : ''}`}>
+            {busy === 'restore' ? 'กำลังกู้คืน...' : 'กู้คืนจากไฟล์ JSON'}
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleRestore(file)
+                e.target.value = ''
+              }}
+            />
+          </label>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { getBudgetAlertLog, getBudgetAlertThresholds, setBudgetAlertThresholds } from '@/lib/storage'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  DEFAULT_BUDGET_ALERT_THRESHOLDS,
+  describeAlertThresholdError,
+  describeBudgetAlert,
+  formatAlertThresholds,
+  getAlertThresholds,
+  parseAlertThresholds,
+  type BudgetAlertRecord,
+  type BudgetAlertThresholds,
+} from '@/src/domain/budget/budget-alert'
+import { BUDGET_ALERT_EVENT_NAME } from '@/src/infrastructure/budget/budget-alerts'
+
+const LOG_SHOWN = 10
+
+type Props = {
+  expenseCategoryNames: readonly string[]
+}
+
+type PermissionState = NotificationPermission | 'unsupported'
+
+export default function BudgetAlertsSection({ expenseCategoryNames }: Props) {
+  const [thresholds, setThresholds] = useState<BudgetAlertThresholds>({})
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [log, setLog] = useState<BudgetAlertRecord[]>([])
+  const [permission, setPermission] = useState<PermissionState>('default')
+
+  useEffect(() => {
+    setThresholds(getBudgetAlertThresholds())
+    setLog(getBudgetAlertLog())
+    setPermission('Notification' in window ? Notification.permission : 'unsupported')
+    const refreshLog = () => setLog(getBudgetAlertLog())
+    window.addEventListener(BUDGET_ALERT_EVENT_NAME, refreshLog)
+    return () => window.removeEventListener(BUDGET_ALERT_EVENT_NAME, refreshLog)
+  }, [])
+
+  const commit = (category: string) => {
+    const draft = drafts[category]
+    if (draft === undefined) return
+    const parsed = parseAlertThresholds(draft)
+    if (typeof parsed === 'string') {
+      setErrors((prev) => ({ ...prev, [category]: describeAlertThresholdError(parsed) }))
+      return
+    }
+    setBudgetAlertThresholds(category, parsed)
+    setThresholds(getBudgetAlertThresholds())
+    setErrors(({ [category]: _removed, ...rest }) => rest)
+    setDrafts(({ [category]: _removed, ...rest }) => rest)
+  }
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission())
+  }
+
+  return (
+    <div className="mb-6" id="budget-alerts">
+      <h3 className="font-semibold text-foreground mb-3">แจ้งเตือนใช้งบเกิน</h3>
+      <Card className="shadow-card border-0">
+        <CardContent className="p-0">
+          <p className="px-4 pt-4 pb-2 text-xs text-muted-foreground">
+            เตือนเมื่อใช้งบของหมวดในรอบนี้ถึงกี่เปอร์เซ็นต์ (ค่าเริ่มต้น {formatAlertThresholds(DEFAULT_BUDGET_ALERT_THRESHOLDS)}) เว้นว่างเพื่อปิดการเตือนของหมวดนั้น
+          </p>
+          <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-border text-sm">
+            <span className="text-foreground">แจ้งเตือนของระบบ</span>
+            {permission === 'granted' ? (
+              <Badge variant="success">เปิดอยู่</Badge>
+            ) : permission === 'denied' ? (
+              <Badge variant="secondary">ถูกบล็อกในเบราว์เซอร์</Badge>
+            ) : permission === 'unsupported' ? (
+              <Badge variant="secondary">เบราว์เซอร์ไม่รองรับ</Badge>
+            ) : (
+              <button
+                type="button"
+                onClick={requestPermission}
+                className="px-3 py-1 rounded-xl border border-border text-xs text-foreground hover:bg-secondary"
+              >
+                อนุญาตการแจ้งเตือน
+              </button>
+            )}
+          </div>
+          {expenseCategoryNames.map((cat) => (
+            <div key={cat} className="px-4 py-3 border-b border-border">
+              <div className="flex items-center gap-2">
+                <span className="flex-1 text-sm text-foreground">{cat}</span>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={drafts[cat] ?? formatAlertThresholds(getAlertThresholds(thresholds, cat))}
+                  onChange={(e) => setDrafts((prev) => ({ ...prev, [cat]: e.target.value }))}
+                  onBlur={() => commit(cat)}
+                  placeholder="ปิด"
+                  aria-label={`เปอร์เซ็นต์ที่เตือน ${cat}`}
+                  className="w-24 px-2 py-2 border border-border rounded-xl text-foreground text-xs text-right bg-card"
+                />
+                <span className="text-xs text-muted-foreground">%</span>
+              </div>
+              {errors[cat] && <p className="mt-1 text-xs text-danger">{errors[cat]}</p>}
+            </div>
+          ))}
+          <div className="px-4 py-3">
+            <p className="text-sm font-medium text-foreground mb-2">ประวัติการแจ้งเตือน</p>
+            {log.length === 0 ? (
+              <p className="text-xs text-muted-foreground">ยังไม่มีการแจ้งเตือน</p>
+            ) : (
+              <ul className="space-y-2">
+                {log.slice(0, LOG_SHOWN).map((record) => {
+                  const { title, body } = describeBudgetAlert(record)
+                  return (
+                    <li key={`${record.firedAt}-${record.category}-${record.threshold}`} className="text-xs">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-foreground">{title}</span>
+                        <Badge variant={record.threshold >= 100 ? 'danger' : 'warning'}>{record.threshold}%</Badge>
+                      </div>
+                      <p className="text-muted-foreground">
+                        {format(parseISO(record.firedAt), 'dd/MM/yyyy HH:mm')} · {body}
+                      </p>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,297 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { format } from 'date-fns'
+import { supabase, fetchCategoryBudgets, saveCycleBudgetSets, type ExpenseCategoryRow } from '@/lib/supabase'
+import { getActiveMonthRange } from '@/lib/period'
+import { getZeroBasedBudgeting, setZeroBasedBudgeting } from '@/lib/storage'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { formatCycleLabel, getCycleStartKey, shiftCycleStartKey } from '@/src/domain/budget/budget-cycle'
+import {
+  applyBudgetSets,
+  getEffectiveBudgets,
+  hasOwnBudgets,
+  planBudgetCopy,
+  planCycleBudgetEdit,
+  totalBudget,
+  type BudgetHistory,
+  type CycleBudgetSet,
+} from '@/src/domain/budget/budget-history'
+import { computeBudgetCycleResult, type ZeroBasedBudget } from '@/src/application/budget/budget-service'
+import { dataRepository } from '@/src/infrastructure/data/data-repository'
+import type { TransactionLike } from '@/src/domain/finance/finance'
+
+const formatCurrency = (n: number) => n.toLocaleString('th-TH')
+
+type Props = {
+  expenseCategories: readonly Pick<ExpenseCategoryRow, 'name' | 'kind'>[]
+  /** Salary day (profile `month_end_day`); cycles are keyed by their start. */
+  salaryDay: number
+  /** Profile `saving` / `monthly_debt_payment`: assigned before categories in zero-based mode. */
+  savings: number
+  debtPayments: number
+}
+
+function parseKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number)
+  return new Date(y, m - 1, d)
+}
+
+function ZeroBasedSummary({ summary }: { summary: ZeroBasedBudget }) {
+  return (
+    <div className="px-4 py-3 border-b border-border space-y-1 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="text-muted-foreground">รายรับในรอบนี้</span>
+        <span className="text-foreground tabular-nums">฿{formatCurrency(summary.income)}</span>
+      </div>
+      <div className="flex items-center justify-between">
+        <span className="text-muted-foreground">ออม + ผ่อนหนี้</span>
+        <span className="text-foreground tabular-nums">฿{formatCurrency(summary.savings + summary.debtPayments)}</span>
+      </div>
+      <div className="flex items-center justify-between">
+        <span className="text-muted-foreground">งบรายหมวด</span>
+        <span className="text-foreground tabular-nums">฿{formatCurrency(summary.assignedToCategories)}</span>
+      </div>
+      <div className="flex items-center justify-between pt-1">
+        <span className="font-medium text-foreground">เงินที่ยังไม่ได้จัดสรร</span>
+        {summary.status === 'balanced' ? (
+          <Badge variant="success">จัดสรรครบทุกบาท</Badge>
+        ) : summary.status === 'unassigned' ? (
+          <Badge variant="warning">฿{formatCurrency(Math.round(summary.unassigned))}</Badge>
+        ) : (
+          <Badge variant="danger">เกิน ฿{formatCurrency(Math.round(-summary.unassigned))}</Badge>
+        )}
+      </div>
+      {summary.status === 'over_assigned' && (
+        <p className="text-danger">จัดสรรเกินรายรับของรอบนี้ ลดงบบางหมวด หรือยอดออม/ผ่อนหนี้ในข้อมูลทรัพย์สินและหนี้สิน</p>
+      )}
+      {summary.income === 0 && (
+        <p className="text-muted-foreground">ยังไม่มีรายรับในรอบนี้ บันทึกรายรับก่อนเพื่อจัดสรรเงินให้ครบ</p>
+      )}
+    </div>
+  )
+}
+
+export default function CategoryBudgetsSection({ expenseCategories, salaryDay, savings, debtPayments }: Props) {
+  const config = { salaryDay }
+  const currentCycle = getCycleStartKey(new Date(), config)
+  const [history, setHistory] = useState<BudgetHistory>({})
+  const [offset, setOffset] = useState(0)
+  const [zeroBased, setZeroBasedState] = useState(false)
+  const [cycleTransactions, setCycleTransactions] = useState<TransactionLike[]>([])
+  /** Sets typed but not saved yet, by cycle start; the latest set of a cycle wins. */
+  const pendingRef = useRef<Map<string, CycleBudgetSet>>(new Map())
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const savingRef = useRef<Promise<void>>(Promise.resolve())
+
+  const reload = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (session) setHistory(await fetchCategoryBudgets(session.user.id))
+  }, [])
+
+  useEffect(() => { reload() }, [reload])
+  useEffect(() => { setZeroBasedState(getZeroBasedBudgeting()) }, [])
+
+  const viewedCycle = shiftCycleStartKey(currentCycle, config, offset)
+
+  // Income of the viewed cycle, for the zero-based assignment.
+  useEffect(() => {
+    if (!zeroBased) return
+    let cancelled = false
+    ;(async () => {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) return
+      const range = getActiveMonthRange(parseKey(viewedCycle), salaryDay)
+      await dataRepository
+        .transactions(session.user.id, { from: format(range.start, 'yyyy-MM-dd'), to: format(range.end, 'yyyy-MM-dd') }, (rows) => {
+          if (cancelled) return
+          setCycleTransactions(rows.map((t) => ({
+            type: t.type,
+            amount: Number(t.amount),
+            category: t.category ?? undefined,
+            date: t.date,
+            splits: t.splits ?? null,
+          })))
+        })
+        .catch((error) => console.error('Error loading cycle income:', error))
+    })()
+    return () => { cancelled = true }
+  }, [zeroBased, viewedCycle, salaryDay])
+
+  const previousCycle = shiftCycleStartKey(viewedCycle, config, -1)
+  const nextCycle = shiftCycleStartKey(viewedCycle, config, 1)
+  const viewedRange = getActiveMonthRange(parseKey(viewedCycle), salaryDay)
+  const budgets = getEffectiveBudgets(history, viewedCycle)
+  const zeroBasedSummary = zeroBased
+    ? computeBudgetCycleResult({
+        today: parseKey(viewedCycle),
+        salaryConfig: config,
+        budgetHistory: history,
+        transactions: cycleTransactions,
+        carryForwardEnabled: false,
+        carryForwardAmount: 0,
+        zeroBased: { savings, debtPayments },
+      }).zeroBased
+    : null
+  const nextLabel = formatCycleLabel({
+    startDate: parseKey(nextCycle),
+    endDate: getActiveMonthRange(parseKey(nextCycle), salaryDay).end,
+  })
+
+  const persist = async (sets: CycleBudgetSet[]) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return
+    const { error } = await saveCycleBudgetSets(session.user.id, sets)
+    if (error) {
+      alert('บันทึกงบไม่สำเร็จ แสดงงบที่บันทึกไว้ล่าสุดแทน')
+      await reload()
+    }
+  }
+
+  /** Saves the pending sets after the ones already being saved, so an older edit never lands last. */
+  const flush = () => {
+    if (saveTimeoutRef.current) { clearTimeout(saveTimeoutRef.current); saveTimeoutRef.current = null }
+    const sets = Array.from(pendingRef.current.values())
+    pendingRef.current.clear()
+    if (sets.length > 0) {
+      savingRef.current = savingRef.current
+        .then(() => persist(sets))
+        .catch((error) => console.error('Error saving category budgets:', error))
+    }
+    return savingRef.current
+  }
+
+  const save = (sets: CycleBudgetSet[], { debounce = false } = {}) => {
+    setHistory((prev) => applyBudgetSets(prev, sets))
+    for (const set of sets) pendingRef.current.set(set.cycleStart, set)
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current)
+    if (debounce) saveTimeoutRef.current = setTimeout(() => { flush() }, 1000)
+    else flush()
+  }
+
+  // Save what is still typed when leaving the page.
+  const flushRef = useRef(flush)
+  flushRef.current = flush
+  useEffect(() => () => { flushRef.current() }, [])
+
+  const handleChange = (category: string, amount: number) =>
+    save(planCycleBudgetEdit(
+      history,
+      { cycleStart: viewedCycle, nextCycleStart: nextCycle, budgets: { ...budgets, [category]: amount } },
+      currentCycle,
+    ), { debounce: true })
+
+  const handleCopyLast = () =>
+    save(planBudgetCopy(history, previousCycle, { cycleStart: viewedCycle, nextCycleStart: nextCycle }, currentCycle))
+
+  const handleRollForward = () => {
+    if (hasOwnBudgets(history, nextCycle) && !confirm(`แทนที่งบของรอบ ${nextLabel} ด้วยงบรอบนี้?`)) return
+    save(planBudgetCopy(
+      history,
+      viewedCycle,
+      { cycleStart: nextCycle, nextCycleStart: shiftCycleStartKey(nextCycle, config, 1) },
+      currentCycle,
+    ))
+    setOffset(offset + 1)
+  }
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-semibold text-foreground mb-3">งบประมาณต่อหมวดหมู่</h3>
+      <Card className="shadow-card border-0">
+        <CardContent className="p-0">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+            <button
+              type="button"
+              onClick={() => setOffset(offset - 1)}
+              className="px-2 py-1 rounded-lg text-sm text-muted-foreground hover:bg-secondary"
+              aria-label="รอบก่อนหน้า"
+            >
+              ‹
+            </button>
+            <div className="text-center">
+              <p className="text-sm font-medium text-foreground">
+                {formatCycleLabel({ startDate: viewedRange.start, endDate: viewedRange.end })}
+                {offset === 0 && <span className="text-muted-foreground"> (รอบนี้)</span>}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                รวม ฿{formatCurrency(totalBudget(budgets))}
+                {!hasOwnBudgets(history, viewedCycle) && Object.keys(history).length > 0 && ' · ใช้งบจากรอบก่อนหน้า'}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setOffset(offset + 1)}
+              disabled={offset >= 1}
+              className="px-2 py-1 rounded-lg text-sm text-muted-foreground hover:bg-secondary disabled:opacity-30"
+              aria-label="รอบถัดไป"
+            >
+              ›
+            </button>
+          </div>
+          <label className="flex items-center justify-between gap-2 px-4 py-3 border-b border-border text-sm text-foreground">
+            <span>
+              จัดสรรรายรับให้ครบทุกบาท (zero-based)
+              <span className="block text-xs text-muted-foreground">รายรับของรอบต้องแบ่งลงงบรายหมวด เงินออม และการผ่อนหนี้จนเหลือ 0</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={zeroBased}
+              onChange={(e) => {
+                setZeroBasedBudgeting(e.target.checked)
+                setZeroBasedState(e.target.checked)
+              }}
+              className="h-4 w-4"
+            />
+          </label>
+          {zeroBasedSummary && <ZeroBasedSummary summary={zeroBasedSummary} />}
+          {expenseCategories.map((category, i) => {
+            const cat = category.name
+            const value = budgets[cat] ?? 0
+            const frequency = category.kind === 'fixed' ? 'รายเดือน' : 'รายวัน'
+            return (
+              <div
+                key={cat}
+                className={`flex items-center px-4 py-3 ${i !== expenseCategories.length - 1 ? 'border-b border-border' : ''}`}
+              >
+                <span className="flex-1 text-sm text-foreground">{cat}</span>
+                <Badge variant="secondary" className="text-[10px] mr-3">{frequency}</Badge>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={value === 0 ? '' : value}
+                  onChange={(e) => handleChange(cat, e.target.value === '' ? 0 : parseFloat(e.target.value) || 0)}
+                  onBlur={() => { flush() }}
+                  placeholder="0"
+                  className="w-24 px-3 py-2 border border-border rounded-xl text-foreground text-sm text-right bg-card"
+                />
+              </div>
+            )
+          })}
+          <div className="flex gap-2 p-4 border-t border-border">
+            <button
+              type="button"
+              onClick={handleCopyLast}
+              className="flex-1 py-2 rounded-xl border border-border text-sm text-foreground hover:bg-secondary"
+            >
+              คัดลอกจากรอบก่อน
+            </button>
+            <button
+              type="button"
+              onClick={handleRollForward}
+              disabled={offset >= 1}
+              className="flex-1 py-2 rounded-xl border border-border text-sm text-foreground hover:bg-secondary disabled:opacity-50"
+            >
+              ใช้งบนี้กับรอบถัดไป
+            </button>
+          </div>
+          <p className="px-4 pb-4 text-xs text-muted-foreground">
+            งบที่แก้ในรอบนี้ใช้ต่อในรอบถัดไปด้วย ส่วนการแก้งบของรอบที่ผ่านมาเปลี่ยนเฉพาะรอบนั้น
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { supabase, fetchCategoryRolloverRules, saveCategoryRolloverRule } from '@/lib/supabase'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  ROLLOVER_MODES,
+  ROLLOVER_MODE_LABELS,
+  getRolloverRule,
+  isRolloverMode,
+  withEffectiveFrom,
+  type RolloverRule,
+  type RolloverRules,
+} from '@/src/domain/budget/envelope'
+
+type Props = {
+  expenseCategoryNames: readonly string[]
+}
+
+export default function CategoryRolloverSection({ expenseCategoryNames }: Props) {
+  const [rules, setRules] = useState<RolloverRules>({})
+
+  const reload = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (session) setRules(await fetchCategoryRolloverRules(session.user.id))
+  }, [])
+
+  useEffect(() => { reload() }, [reload])
+
+  const save = async (category: string, change: RolloverRule) => {
+    const rule = withEffectiveFrom(getRolloverRule(rules, category), change, format(new Date(), 'yyyy-MM-dd'))
+    setRules((prev) => ({ ...prev, [category]: rule }))
+    const { data: { session } } = await supabase.auth.getSession()
+    if (session) await saveCategoryRolloverRule(session.user.id, category, rule)
+  }
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-semibold text-foreground mb-3">ยกยอดงบรายหมวด</h3>
+      <Card className="shadow-card border-0">
+        <CardContent className="p-0">
+          <p className="px-4 pt-4 pb-2 text-xs text-muted-foreground">
+            งบที่เหลือของหมวดยกไปเพิ่มในรอบถัดไป ส่วนที่ใช้เกินจะถูกหักจากรอบถัดไป เลือกแยกได้ทีละหมวด
+          </p>
+          {expenseCategoryNames.map((cat, i) => {
+            const rule = getRolloverRule(rules, cat)
+            return (
+              <div
+                key={cat}
+                className={`flex items-center gap-2 px-4 py-3 ${i !== expenseCategoryNames.length - 1 ? 'border-b border-border' : ''}`}
+              >
+                <span className="flex-1 text-sm text-foreground">{cat}</span>
+                <select
+                  value={rule.mode}
+                  onChange={(e) => {
+                    if (isRolloverMode(e.target.value)) save(cat, { mode: e.target.value, cap: rule.cap ?? 0 })
+                  }}
+                  className="px-2 py-2 border border-border rounded-xl text-foreground text-xs bg-card"
+                >
+                  {ROLLOVER_MODES.map((mode) => (
+                    <option key={mode} value={mode}>{ROLLOVER_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+                {rule.mode === 'cap' && (
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={rule.cap ? rule.cap : ''}
+                    onChange={(e) => save(cat, { mode: 'cap', cap: parseFloat(e.target.value) || 0 })}
+                    placeholder="เพดาน"
+                    aria-label={`เพดานยกยอด ${cat}`}
+                    className="w-20 px-2 py-2 border border-border rounded-xl text-foreground text-xs text-right bg-card"
+                  />
+                )}
+              </div>
+            )
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
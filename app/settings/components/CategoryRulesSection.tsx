@@ -0,0 +1,325 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  supabase,
+  insertCategoryRule,
+  updateCategoryRule,
+  deleteCategoryRule,
+  toDomainCategoryRules,
+  type AccountRow,
+  type CategoryRuleRow,
+} from '@/lib/supabase'
+import { dismissRuleProposal, getLearnCategoryRules, setLearnCategoryRules } from '@/lib/storage'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { INCOME_CATEGORIES } from '@/src/domain/finance/finance'
+import {
+  CATEGORY_RULE_MATCH_TYPE_LABELS,
+  describeCategoryRule,
+  describeCategoryRuleError,
+  proposalKey,
+  validateCategoryRule,
+  type CategoryRuleMatchType,
+  type CategoryRuleProposal,
+} from '@/src/domain/categorization/category-rules'
+import { getPendingRuleProposals, useCategoryRules } from '@/src/presentation/categories/use-category-rules'
+
+type Props = {
+  accounts: AccountRow[]
+  expenseCategoryNames: readonly string[]
+}
+
+const emptyForm = () => ({
+  match_type: 'contains' as CategoryRuleMatchType,
+  pattern: '',
+  min_amount: '',
+  max_amount: '',
+  account_id: '',
+  transaction_type: 'expense' as '' | 'income' | 'expense',
+  category: '',
+})
+
+const toOptionalNumber = (s: string) => (s.trim() === '' || Number.isNaN(Number(s)) ? null : Number(s))
+
+export default function CategoryRulesSection({ accounts, expenseCategoryNames }: Props) {
+  const { rows, rules, reload } = useCategoryRules()
+  const [form, setForm] = useState(emptyForm)
+  const [learn, setLearn] = useState(true)
+  const [proposals, setProposals] = useState<CategoryRuleProposal[]>([])
+  const activeAccounts = accounts.filter((a) => !a.is_archived)
+  const accountNameById = new Map(accounts.map((a) => [a.id, a.name]))
+  const nextPriority = rows.reduce((max, r) => Math.max(max, r.priority), -1) + 1
+
+  useEffect(() => { setLearn(getLearnCategoryRules()) }, [])
+  // Recompute when rules change: a new rule may already cover a proposal.
+  useEffect(() => { setProposals(learn ? getPendingRuleProposals(toDomainCategoryRules(rows)) : []) }, [rows, learn])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const input = {
+      match_type: form.match_type,
+      pattern: form.pattern.trim() || null,
+      min_amount: toOptionalNumber(form.min_amount),
+      max_amount: toOptionalNumber(form.max_amount),
+      account_id: form.account_id || null,
+      transaction_type: form.transaction_type || null,
+      category: form.category,
+    }
+    const invalid = validateCategoryRule({
+      matchType: input.match_type,
+      pattern: input.pattern,
+      minAmount: input.min_amount,
+      maxAmount: input.max_amount,
+      accountId: input.account_id,
+      category: input.category,
+    })
+    if (invalid) { alert(describeCategoryRuleError(invalid)); return }
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return
+    const created = await insertCategoryRule(session.user.id, { ...input, priority: nextPriority })
+    if (created) {
+      setForm(emptyForm())
+      await reload()
+    } else {
+      alert('บันทึกกฎไม่สำเร็จ')
+    }
+  }
+
+  const acceptProposal = async (proposal: CategoryRuleProposal) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return
+    const created = await insertCategoryRule(session.user.id, {
+      match_type: 'contains',
+      pattern: proposal.pattern,
+      category: proposal.category,
+      priority: nextPriority,
+      source: 'learned',
+    })
+    if (!created) { alert('บันทึกกฎไม่สำเร็จ'); return }
+    await reload()
+  }
+
+  /** Reorder by renumbering priorities so the list order is the evaluation order. */
+  const move = async (index: number, delta: -1 | 1) => {
+    const ids = rows.map((r) => r.id)
+    const target = index + delta
+    if (target < 0 || target >= ids.length) return
+    ;[ids[index], ids[target]] = [ids[target], ids[index]]
+    await Promise.all(
+      ids.map((id, priority) => {
+        const row = rows.find((r) => r.id === id)
+        return row && row.priority !== priority ? updateCategoryRule(id, { priority }) : null
+      })
+    )
+    await reload()
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-border rounded-xl text-foreground text-sm placeholder:text-muted-foreground bg-card'
+  const categoryOptions = form.transaction_type === 'income' ? INCOME_CATEGORIES : expenseCategoryNames
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-semibold text-foreground mb-3">กฎจัดหมวดหมู่อัตโนมัติ</h3>
+      <Card className="shadow-card border-0">
+        <CardContent className="p-4">
+          <p className="text-xs text-muted-foreground mb-3">
+            ใช้เลือกหมวดหมู่ให้ตอนเพิ่มรายการและนำเข้า CSV ไล่จากบนลงล่าง กฎแรกที่ตรงจะถูกใช้
+          </p>
+
+          <label className="flex items-center gap-2 text-sm text-foreground mb-3">
+            <input
+              type="checkbox"
+              checked={learn}
+              onChange={(e) => {
+                setLearnCategoryRules(e.target.checked)
+                setLearn(e.target.checked)
+              }}
+              className="rounded border-border"
+            />
+            เรียนรู้จากการแก้หมวดหมู่ แล้วแนะนำกฎใหม่
+          </label>
+
+          {proposals.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {proposals.map((p) => (
+                <div key={proposalKey(p)} className="p-3 rounded-xl border border-primary/30 bg-primary/5">
+                  <p className="text-sm text-foreground">
+                    มีคำว่า &quot;{p.pattern}&quot; → {p.category}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    คุณแก้เป็นหมวดนี้ {p.occurrences} ครั้ง เช่น {p.examples.join(', ')}
+                  </p>
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() => acceptProposal(p)}
+                      className="px-3 py-1 text-xs rounded-lg bg-primary text-primary-foreground font-medium"
+                    >
+                      สร้างกฎ
+                    </button>
+                    <button
+                      onClick={() => {
+                        dismissRuleProposal(proposalKey(p))
+                        setProposals((prev) => prev.filter((x) => proposalKey(x) !== proposalKey(p)))
+                      }}
+                      className="px-3 py-1 text-xs rounded-lg text-muted-foreground hover:bg-secondary"
+                    >
+                      ไม่ต้อง
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {rows.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {rows.map((row: CategoryRuleRow, i) => (
+                <div
+                  key={row.id}
+                  className={`flex items-center justify-between p-3 rounded-xl bg-secondary border border-border ${row.is_active ? '' : 'opacity-60'}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-foreground truncate">{row.category}</span>
+                      {row.source === 'learned' && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">เรียนรู้</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {describeCategoryRule(rules[i], (id) => accountNameById.get(id))}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => move(i, -1)}
+                      disabled={i === 0}
+                      className="px-1.5 py-1 text-xs text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      aria-label="เลื่อนขึ้น"
+                    >
+                      ▲
+                    </button>
+                    <button
+                      onClick={() => move(i, 1)}
+                      disabled={i === rows.length - 1}
+                      className="px-1.5 py-1 text-xs text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      aria-label="เลื่อนลง"
+                    >
+                      ▼
+                    </button>
+                    <button
+                      onClick={async () => {
+                        await updateCategoryRule(row.id, { is_active: !row.is_active })
+                        await reload()
+                      }}
+                      className="px-2 py-1 text-[10px] text-primary font-medium hover:bg-primary/10 rounded-lg transition-colors"
+                    >
+                      {row.is_active ? 'ปิด' : 'เปิด'}
+                    </button>
+                    <button
+                      onClick={async () => {
+                        if (!confirm('ลบกฎนี้? หมวดหมู่ของรายการเดิมจะไม่เปลี่ยน')) return
+                        await deleteCategoryRule(row.id)
+                        await reload()
+                      }}
+                      className="p-1 text-muted-foreground hover:text-danger transition-colors"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form className="space-y-2" onSubmit={handleSubmit}>
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={form.match_type}
+                onChange={(e) => setForm({ ...form, match_type: e.target.value === 'regex' ? 'regex' : 'contains' })}
+                className={inputClass}
+              >
+                {(Object.keys(CATEGORY_RULE_MATCH_TYPE_LABELS) as CategoryRuleMatchType[]).map((t) => (
+                  <option key={t} value={t}>{CATEGORY_RULE_MATCH_TYPE_LABELS[t]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={form.pattern}
+                onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+                placeholder={form.match_type === 'regex' ? 'เช่น grab|bolt' : 'เช่น 7-ELEVEN'}
+                className={inputClass}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.min_amount}
+                onChange={(e) => setForm({ ...form, min_amount: e.target.value })}
+                placeholder="จำนวนเงินต่ำสุด"
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.max_amount}
+                onChange={(e) => setForm({ ...form, max_amount: e.target.value })}
+                placeholder="จำนวนเงินสูงสุด"
+                className={inputClass}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={form.transaction_type}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    transaction_type: e.target.value === 'income' ? 'income' : e.target.value === 'expense' ? 'expense' : '',
+                    category: '',
+                  })
+                }
+                className={inputClass}
+              >
+                <option value="expense">รายจ่าย</option>
+                <option value="income">รายรับ</option>
+                <option value="">ทั้งรายรับและรายจ่าย</option>
+              </select>
+              {activeAccounts.length > 0 ? (
+                <select
+                  value={form.account_id}
+                  onChange={(e) => setForm({ ...form, account_id: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">ทุกบัญชี</option>
+                  {activeAccounts.map((a) => (
+                    <option key={a.id} value={a.id}>{a.name}</option>
+                  ))}
+                </select>
+              ) : <div />}
+            </div>
+            <select
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+              className={inputClass}
+              required
+            >
+              <option value="">→ ใส่หมวดหมู่</option>
+              {(form.transaction_type === '' ? [...expenseCategoryNames, ...INCOME_CATEGORIES] : categoryOptions).map((cat) => (
+                <option key={cat} value={cat}>{cat}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="w-full py-2 rounded-xl bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 transition-colors"
+            >
+              เพิ่มกฎ
+            </button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
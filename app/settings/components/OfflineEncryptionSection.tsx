@@ -0,0 +1,160 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { offlineDB, type OfflineEncryptionState } from '@/lib/offline-db'
+import { getOfflineAutoLockMinutes, setOfflineAutoLockMinutes } from '@/lib/storage'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { OFFLINE_ENCRYPTION_CHANGED_EVENT } from '@/components/OfflineDataLock'
+import { isWebCryptoAvailable } from '@/src/infrastructure/offline/offline-crypto'
+import {
+  AUTO_LOCK_MINUTES_OPTIONS,
+  describePassphraseError,
+  validateNewPassphrase,
+} from '@/src/domain/security/offline-encryption'
+
+const inputClass =
+  'w-full px-4 py-2 border border-border rounded-xl text-foreground text-sm placeholder:text-muted-foreground bg-card'
+const buttonClass =
+  'flex-1 py-2 rounded-xl border border-border text-sm text-foreground hover:bg-secondary disabled:opacity-50'
+
+export default function OfflineEncryptionSection() {
+  const [state, setState] = useState<OfflineEncryptionState | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [autoLockMinutes, setAutoLockMinutesState] = useState(getOfflineAutoLockMinutes())
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    offlineDB.getEncryptionState().then(setState).catch(() => setState(null))
+  }, [])
+
+  const changed = (next: OfflineEncryptionState) => {
+    setState(next)
+    setPassphrase('')
+    setConfirmation('')
+    setError('')
+    window.dispatchEvent(new Event(OFFLINE_ENCRYPTION_CHANGED_EVENT))
+  }
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const invalid = validateNewPassphrase(passphrase, confirmation)
+    if (invalid) { setError(describePassphraseError(invalid)); return }
+    if (!confirm('ถ้าลืมรหัสผ่านนี้ จะต้องลบข้อมูลบนเครื่อง (รายการที่ยังไม่ได้ซิงก์จะหายไป) ยืนยันเปิดการเข้ารหัส?')) return
+    setBusy(true)
+    try {
+      await offlineDB.enableEncryption(passphrase)
+      changed('unlocked')
+    } catch (err: any) {
+      console.error('Error enabling offline encryption:', err)
+      setError('เปิดการเข้ารหัสไม่สำเร็จ: ' + (err.message || ''))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    try {
+      if (await offlineDB.disableEncryption(passphrase)) changed('off')
+      else setError('รหัสผ่านไม่ถูกต้อง')
+    } catch (err: any) {
+      console.error('Error disabling offline encryption:', err)
+      setError('ปิดการเข้ารหัสไม่สำเร็จ: ' + (err.message || ''))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (state === null) return null
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-semibold text-foreground mb-3">เข้ารหัสข้อมูลบนเครื่อง</h3>
+      <Card className="shadow-card border-0">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2 text-sm text-foreground">
+            <span>สถานะ</span>
+            {state === 'off' ? <Badge variant="secondary">ปิดอยู่</Badge> : <Badge variant="success">เข้ารหัสแล้ว</Badge>}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            เข้ารหัสรายการ โปรไฟล์ และข้อมูลที่เก็บไว้ใช้ออฟไลน์ด้วยรหัสผ่าน เหมาะกับเครื่องที่ใช้ร่วมกันในบ้าน
+            ต้องใส่รหัสทุกครั้งที่เปิดแอปและหลังไม่ได้ใช้งานตามเวลาที่ตั้งไว้ ระหว่างเข้ารหัส แอปจะไม่ซิงก์เบื้องหลังตอนปิดแอป
+          </p>
+
+          {!isWebCryptoAvailable() ? (
+            <p className="text-xs text-danger">เบราว์เซอร์นี้ไม่รองรับการเข้ารหัส (ต้องเปิดผ่าน HTTPS)</p>
+          ) : state === 'off' ? (
+            <form onSubmit={handleEnable} className="space-y-2">
+              <input
+                type="password"
+                autoComplete="new-password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="ตั้งรหัสผ่าน"
+                className={inputClass}
+              />
+              <input
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="ยืนยันรหัสผ่าน"
+                className={inputClass}
+              />
+              {error && <p className="text-xs text-danger">{error}</p>}
+              <button type="submit" disabled={busy} className={`w-full ${buttonClass}`}>
+                {busy ? 'กำลังเข้ารหัส...' : 'เปิดการเข้ารหัส'}
+              </button>
+            </form>
+          ) : (
+            <>
+              <label className="flex items-center justify-between gap-2 text-sm text-foreground">
+                <span>ล็อกอัตโนมัติเมื่อไม่ได้ใช้งาน</span>
+                <select
+                  value={autoLockMinutes}
+                  onChange={(e) => {
+                    setOfflineAutoLockMinutes(Number(e.target.value))
+                    setAutoLockMinutesState(getOfflineAutoLockMinutes())
+                  }}
+                  className="px-3 py-2 border border-border rounded-xl text-foreground text-sm bg-card"
+                >
+                  {AUTO_LOCK_MINUTES_OPTIONS.map((minutes) => (
+                    <option key={minutes} value={minutes}>{minutes} นาที</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={() => {
+                  offlineDB.lock()
+                  changed('locked')
+                }}
+                className={`w-full ${buttonClass}`}
+              >
+                ล็อกตอนนี้
+              </button>
+              <form onSubmit={handleDisable} className="space-y-2">
+                <input
+                  type="password"
+                  autoComplete="current-password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="รหัสผ่านปัจจุบัน"
+                  className={inputClass}
+                />
+                {error && <p className="text-xs text-danger">{error}</p>}
+                <button type="submit" disabled={busy || !passphrase} className={`w-full ${buttonClass}`}>
+                  {busy ? 'กำลังถอดรหัส...' : 'ปิดการเข้ารหัส'}
+                </button>
+              </form>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
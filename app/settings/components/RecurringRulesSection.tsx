@@ -0,0 +1,284 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  supabase,
+  fetchRecurringRules,
+  insertRecurringRule,
+  updateRecurringRule,
+  deleteRecurringRule,
+  type AccountRow,
+  type RecurringRuleRow,
+} from '@/lib/supabase'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { INCOME_CATEGORIES } from '@/src/domain/finance/finance'
+import {
+  RECURRENCE_FREQUENCIES,
+  RECURRENCE_FREQUENCY_LABELS,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  type RecurrenceFrequency,
+} from '@/src/domain/recurring/recurring'
+import { format } from 'date-fns'
+
+const formatCurrency = (n: number) => n.toLocaleString('th-TH')
+
+type Props = {
+  accounts: AccountRow[]
+  expenseCategoryNames: readonly string[]
+}
+
+const emptyForm = () => ({
+  type: 'expense' as 'income' | 'expense',
+  description: '',
+  amount: '',
+  category: '',
+  account_id: '',
+  frequency: 'monthly' as RecurrenceFrequency,
+  day_of_month: '1',
+  day_of_week: '1',
+  month_of_year: '1',
+  start_date: format(new Date(), 'yyyy-MM-dd'),
+  auto_post: false,
+})
+
+export default function RecurringRulesSection({ accounts, expenseCategoryNames }: Props) {
+  const [rules, setRules] = useState<RecurringRuleRow[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const activeAccounts = accounts.filter((a) => !a.is_archived)
+  const accountNameById = new Map(accounts.map((a) => [a.id, a.name]))
+
+  const reload = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (session) setRules(await fetchRecurringRules(session.user.id))
+  }, [])
+
+  useEffect(() => { reload() }, [reload])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const amount = Number(form.amount)
+    if (!form.amount || Number.isNaN(amount) || amount <= 0) { alert('กรุณากรอกจำนวนเงินที่มากกว่า 0'); return }
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return
+    const created = await insertRecurringRule(session.user.id, {
+      type: form.type,
+      amount,
+      category: form.category || null,
+      description: form.description || null,
+      account_id: form.account_id || null,
+      frequency: form.frequency,
+      day_of_month: form.frequency === 'monthly' || form.frequency === 'yearly' ? Number(form.day_of_month) : null,
+      day_of_week: form.frequency === 'weekly' ? Number(form.day_of_week) : null,
+      month_of_year: form.frequency === 'yearly' ? Number(form.month_of_year) : null,
+      start_date: form.start_date,
+      auto_post: form.auto_post,
+    })
+    if (created) {
+      setForm(emptyForm())
+      await reload()
+    } else {
+      alert('บันทึกรายการประจำไม่สำเร็จ')
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-border rounded-xl text-foreground text-sm placeholder:text-muted-foreground bg-card'
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-semibold text-foreground mb-3">รายการประจำ</h3>
+      <Card className="shadow-card border-0">
+        <CardContent className="p-4">
+          <p className="text-xs text-muted-foreground mb-3">
+            ใช้คาดการณ์ค่าใช้จ่ายคงที่แทนการเดาจากประวัติ และบันทึกรายการให้อัตโนมัติเมื่อถึงกำหนด (ถ้าเปิด)
+          </p>
+          {rules.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className={`flex items-center justify-between p-3 rounded-xl bg-secondary border border-border ${rule.is_active ? '' : 'opacity-60'}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-foreground truncate">
+                        {rule.description || rule.category || '-'}
+                      </span>
+                      {rule.auto_post && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">อัตโนมัติ</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-x-2 text-xs text-muted-foreground">
+                      <span className={rule.type === 'income' ? 'text-success' : ''}>
+                        {rule.type === 'income' ? '+' : '-'}฿{formatCurrency(Number(rule.amount))}
+                      </span>
+                      <span>
+                        {describeRecurrence({
+                          frequency: rule.frequency,
+                          dayOfMonth: rule.day_of_month,
+                          dayOfWeek: rule.day_of_week,
+                          monthOfYear: rule.month_of_year,
+                        })}
+                      </span>
+                      {rule.account_id && accountNameById.has(rule.account_id) && (
+                        <span>{accountNameById.get(rule.account_id)}</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={async () => {
+                        await updateRecurringRule(rule.id, { is_active: !rule.is_active })
+                        await reload()
+                      }}
+                      className="px-2 py-1 text-[10px] text-primary font-medium hover:bg-primary/10 rounded-lg transition-colors"
+                    >
+                      {rule.is_active ? 'หยุดชั่วคราว' : 'ใช้งาน'}
+                    </button>
+                    <button
+                      onClick={async () => {
+                        if (!confirm('ลบรายการประจำนี้? รายการที่บันทึกไปแล้วจะยังอยู่')) return
+                        await deleteRecurringRule(rule.id)
+                        await reload()
+                      }}
+                      className="p-1 text-muted-foreground hover:text-danger transition-colors"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form className="space-y-2" onSubmit={handleSubmit}>
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value === 'income' ? 'income' : 'expense', category: '' })}
+                className={inputClass}
+              >
+                <option value="expense">รายจ่าย</option>
+                <option value="income">รายรับ</option>
+              </select>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                placeholder="จำนวนเงิน"
+                className={inputClass}
+                required
+              />
+            </div>
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="ชื่อรายการ (เช่น ค่าเช่าห้อง, Netflix)"
+              className={inputClass}
+            />
+            <select
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">เลือกหมวดหมู่</option>
+              {(form.type === 'income' ? INCOME_CATEGORIES : expenseCategoryNames).map((cat) => (
+                <option key={cat} value={cat}>{cat}</option>
+              ))}
+            </select>
+            {activeAccounts.length > 0 && (
+              <select
+                value={form.account_id}
+                onChange={(e) => setForm({ ...form, account_id: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">ไม่ระบุบัญชี</option>
+                {activeAccounts.map((a) => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={form.frequency}
+                onChange={(e) => setForm({ ...form, frequency: e.target.value as RecurrenceFrequency })}
+                className={inputClass}
+              >
+                {RECURRENCE_FREQUENCIES.map((f) => (
+                  <option key={f} value={f}>{RECURRENCE_FREQUENCY_LABELS[f]}</option>
+                ))}
+              </select>
+              {form.frequency === 'weekly' ? (
+                <select
+                  value={form.day_of_week}
+                  onChange={(e) => setForm({ ...form, day_of_week: e.target.value })}
+                  className={inputClass}
+                >
+                  {WEEKDAY_LABELS.map((label, i) => (
+                    <option key={label} value={i}>วัน{label}</option>
+                  ))}
+                </select>
+              ) : form.frequency === 'salary_day' ? (
+                <p className="text-xs text-muted-foreground self-center">ตามวันเงินเดือนออกในตั้งค่างวด</p>
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="1"
+                    max="31"
+                    value={form.day_of_month}
+                    onChange={(e) => setForm({ ...form, day_of_month: e.target.value })}
+                    placeholder="วันที่"
+                    className={inputClass}
+                    required
+                  />
+                  {form.frequency === 'yearly' && (
+                    <input
+                      type="number"
+                      min="1"
+                      max="12"
+                      value={form.month_of_year}
+                      onChange={(e) => setForm({ ...form, month_of_year: e.target.value })}
+                      placeholder="เดือน"
+                      className={inputClass}
+                      required
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-muted-foreground shrink-0">เริ่มวันที่</label>
+              <input
+                type="date"
+                value={form.start_date}
+                onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={form.auto_post}
+                onChange={(e) => setForm({ ...form, auto_post: e.target.checked })}
+                className="rounded border-border"
+              />
+              บันทึกเป็นรายการจริงอัตโนมัติเมื่อถึงกำหนด
+            </label>
+            <button
+              type="submit"
+              className="w-full py-2 rounded-xl bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 transition-colors"
+            >
+              เพิ่มรายการประจำ
+            </button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
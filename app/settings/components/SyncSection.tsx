@@ -0,0 +1,52 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import { offlineDB } from '@/lib/offline-db'
+import { syncService } from '@/lib/sync-service'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+
+export default function SyncSection() {
+  const [openConflicts, setOpenConflicts] = useState(0)
+  const [pendingCount, setPendingCount] = useState(0)
+
+  useEffect(() => {
+    const load = async () => {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) return
+      const conflicts = await offlineDB.getConflicts(session.user.id).catch(() => [])
+      setOpenConflicts(conflicts.length)
+      const status = await syncService.getStatus().catch(() => null)
+      setPendingCount(status?.pendingCount ?? 0)
+    }
+    load()
+  }, [])
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-semibold text-foreground mb-3">การซิงก์ข้อมูล</h3>
+      <Card className="shadow-card border-0">
+        <CardContent className="p-4 space-y-3">
+          <Link href="/sync" className="flex items-center justify-between gap-2 text-sm text-foreground">
+            <span>สถานะและประวัติการซิงก์</span>
+            {pendingCount > 0 ? (
+              <Badge variant="warning">{pendingCount} รอส่ง</Badge>
+            ) : (
+              <span className="text-xs text-muted-foreground">ซิงก์ครบแล้ว</span>
+            )}
+          </Link>
+          <Link href="/sync/conflicts" className="flex items-center justify-between gap-2 text-sm text-foreground">
+            <span>ข้อมูลชนกันระหว่างอุปกรณ์</span>
+            {openConflicts > 0 ? (
+              <Badge variant="danger">{openConflicts} รอตรวจสอบ</Badge>
+            ) : (
+              <span className="text-xs text-muted-foreground">ไม่มี</span>
+            )}
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -6,13 +6,16 @@ import Link from 'next/link'
 import {
   supabase,
   Profile,
-  fetchCategoryBudgets,
-  saveCategoryBudgets,
   fetchDebtItems,
   insertDebtItem,
   updateDebtItem,
   deleteDebtItem,
   type DebtItemRow,
+  fetchAccounts,
+  insertAccount,
+  updateAccount,
+  deleteAccount,
+  type AccountRow,
 } from '@/lib/supabase'
 import BottomNavigation from '@/components/BottomNavigation'
 import { SettingsIcon } from '@/components/icons'
@@ -20,7 +23,17 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { getActiveMonthRange } from '@/lib/period'
 import { formatCycleLabel } from '@/src/domain/budget/budget-cycle'
+import { ACCOUNT_KINDS, ACCOUNT_KIND_LABELS, isAccountKind } from '@/src/domain/account/account'
 import { useExpenseCategories } from '@/src/presentation/categories/use-expense-categories'
+import RecurringRulesSection from './components/RecurringRulesSection'
+import CategoryRulesSection from './components/CategoryRulesSection'
+import BackupSection from './components/BackupSection'
+import SyncSection from './components/SyncSection'
+import CategoryBudgetsSection from './components/CategoryBudgetsSection'
+import CategoryRolloverSection from './components/CategoryRolloverSection'
+import BudgetAlertsSection from './components/BudgetAlertsSection'
+import OfflineEncryptionSection from './components/OfflineEncryptionSection'
+import AppLockSection from './components/AppLockSection'
 
 const formatCurrency = (n: number) => n.toLocaleString('th-TH')
 
@@ -46,8 +59,8 @@ export default function SettingsPage() {
   const initialProfileRef = useRef<Profile | null>(null)
   const profileRef = useRef<Profile>(profile)
   const [numericInputs, setNumericInputs] = useState<Partial<Record<keyof Profile, string>>>({})
-  const [categoryBudgets, setCategoryBudgetsState] = useState<Record<string, number>>({})
   const [debtItems, setDebtItems] = useState<DebtItemRow[]>([])
+  const [accounts, setAccounts] = useState<AccountRow[]>([])
   const [editingDebtId, setEditingDebtId] = useState<string | null>(null)
   const [editingDebtValues, setEditingDebtValues] = useState<{ name: string; remaining: number; interest_rate: number | null; priority: 'high' | 'normal' }>({
     name: '', remaining: 0, interest_rate: null, priority: 'normal',
@@ -84,12 +97,12 @@ export default function SettingsPage() {
         initialProfileRef.current = newProfile
       }
 
-      const [budgets, debts] = await Promise.all([
-        fetchCategoryBudgets(session.user.id),
+      const [debts, accountRows] = await Promise.all([
         fetchDebtItems(session.user.id),
+        fetchAccounts(session.user.id),
       ])
-      setCategoryBudgetsState(budgets)
       setDebtItems(debts)
+      setAccounts(accountRows)
 
       // Auto-sync total_liabilities on load — use sum(remaining) so net worth = assets - current debt
       if (debts.length > 0) {
@@ -241,44 +254,132 @@ export default function SettingsPage() {
         </Card>
       </div>
 
-      {/* Category Budgets */}
+      {/* Accounts / wallets */}
       <div className="mb-6">
-        <h3 className="font-semibold text-foreground mb-3">งบประมาณต่อหมวดหมู่</h3>
+        <h3 className="font-semibold text-foreground mb-3">บัญชีและกระเป๋าเงิน</h3>
         <Card className="shadow-card border-0">
-          <CardContent className="p-0">
-            {expenseCategories.map((category, i) => {
-              const cat = category.name
-              const value = categoryBudgets[cat] ?? 0
-              const frequency = category.kind === 'fixed' ? 'รายเดือน' : 'รายวัน'
-              return (
-                <div
-                  key={cat}
-                  className={`flex items-center px-4 py-3 ${i !== expenseCategories.length - 1 ? 'border-b border-border' : ''}`}
+          <CardContent className="p-4">
+            {accounts.length > 0 && (
+              <div className="space-y-2 mb-4">
+                {accounts.map((account) => (
+                  <div
+                    key={account.id}
+                    className={`flex items-center justify-between p-3 rounded-xl bg-secondary border border-border ${account.is_archived ? 'opacity-60' : ''}`}
+                  >
+                    <div>
+                      <span className="text-sm font-medium text-foreground">{account.name}</span>
+                      <div className="flex gap-2 text-xs text-muted-foreground">
+                        <span>{ACCOUNT_KIND_LABELS[account.kind]}</span>
+                        {account.opening_balance !== 0 && <span>ยอดยกมา ฿{formatCurrency(Number(account.opening_balance))}</span>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={async () => {
+                          await updateAccount(account.id, { is_archived: !account.is_archived })
+                          const { data: { session } } = await supabase.auth.getSession()
+                          if (session) setAccounts(await fetchAccounts(session.user.id))
+                        }}
+                        className="px-2 py-1 text-[10px] text-primary font-medium hover:bg-primary/10 rounded-lg transition-colors"
+                      >
+                        {account.is_archived ? 'ใช้งาน' : 'เก็บถาวร'}
+                      </button>
+                      <button
+                        onClick={async () => {
+                          if (!confirm('ลบบัญชีนี้? รายการที่ผูกไว้จะกลายเป็น "ไม่ระบุบัญชี"')) return
+                          await deleteAccount(account.id)
+                          const { data: { session } } = await supabase.auth.getSession()
+                          if (session) setAccounts(await fetchAccounts(session.user.id))
+                        }}
+                        className="p-1 text-muted-foreground hover:text-danger transition-colors"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <form
+              className="space-y-2"
+              onSubmit={async (e) => {
+                e.preventDefault()
+                const form = e.currentTarget
+                const name = (form.querySelector('[name="account_name"]') as HTMLInputElement)?.value?.trim()
+                const kind = (form.querySelector('[name="account_kind"]') as HTMLSelectElement)?.value
+                const opening = parseFloat((form.querySelector('[name="account_opening"]') as HTMLInputElement)?.value || '0')
+                if (!name || !isAccountKind(kind)) return
+                const { data: { session } } = await supabase.auth.getSession()
+                if (!session) return
+                const created = await insertAccount(session.user.id, {
+                  name,
+                  kind,
+                  opening_balance: Number.isNaN(opening) ? 0 : opening,
+                })
+                if (created) {
+                  setAccounts(await fetchAccounts(session.user.id))
+                  form.reset()
+                }
+              }}
+            >
+              <input
+                name="account_name"
+                type="text"
+                placeholder="ชื่อบัญชี (เช่น KBank ออมทรัพย์, TrueMoney)"
+                className="w-full px-4 py-2 border border-border rounded-xl text-foreground text-sm placeholder:text-muted-foreground bg-card"
+                required
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  name="account_kind"
+                  defaultValue="bank"
+                  className="w-full px-3 py-2 border border-border rounded-xl text-foreground text-sm bg-card"
                 >
-                  <span className="flex-1 text-sm text-foreground">{cat}</span>
-                  <Badge variant="secondary" className="text-[10px] mr-3">{frequency}</Badge>
-                  <input
-                    type="number"
-                    min="0"
-                    step="1"
-                    value={value === 0 ? '' : value}
-                    onChange={async (e) => {
-                      const num = e.target.value === '' ? 0 : parseFloat(e.target.value) || 0
-                      const next = { ...categoryBudgets, [cat]: num }
-                      setCategoryBudgetsState(next)
-                      const { data: { session } } = await supabase.auth.getSession()
-                      if (session) await saveCategoryBudgets(session.user.id, next)
-                    }}
-                    placeholder="0"
-                    className="w-24 px-3 py-2 border border-border rounded-xl text-foreground text-sm text-right bg-card"
-                  />
-                </div>
-              )
-            })}
+                  {ACCOUNT_KINDS.map((k) => (
+                    <option key={k} value={k}>{ACCOUNT_KIND_LABELS[k]}</option>
+                  ))}
+                </select>
+                <input
+                  name="account_opening"
+                  type="number"
+                  step="0.01"
+                  placeholder="ยอดยกมา"
+                  className="w-full px-3 py-2 border border-border rounded-xl text-foreground text-sm placeholder:text-muted-foreground bg-card"
+                />
+              </div>
+              <button
+                type="submit"
+                className="w-full py-2 rounded-xl bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 transition-colors"
+              >
+                เพิ่มบัญชี
+              </button>
+            </form>
           </CardContent>
         </Card>
       </div>
 
+      {/* Recurring rules */}
+      <RecurringRulesSection accounts={accounts} expenseCategoryNames={expenseCategories.map((c) => c.name)} />
+
+      {/* Category rules */}
+      <CategoryRulesSection accounts={accounts} expenseCategoryNames={expenseCategories.map((c) => c.name)} />
+
+      {/* Category Budgets */}
+      <CategoryBudgetsSection
+        expenseCategories={expenseCategories}
+        salaryDay={profile.month_end_day ?? 0}
+        savings={Number(profile.saving) || 0}
+        debtPayments={Number(profile.monthly_debt_payment) || 0}
+      />
+
+      {/* Category rollover (envelopes) */}
+      <CategoryRolloverSection expenseCategoryNames={expenseCategories.map((c) => c.name)} />
+
+      {/* Budget alerts */}
+      <BudgetAlertsSection expenseCategoryNames={expenseCategories.map((c) => c.name)} />
+
       {/* Budget Targets */}
       <div className="mb-6">
         <h3 className="font-semibold text-foreground mb-3">ข้อมูลทรัพย์สินและหนี้สิน</h3>
@@ -543,6 +644,18 @@ export default function SettingsPage() {
         </Card>
       </div>
 
+      {/* Sync conflicts */}
+      <SyncSection />
+
+      {/* App lock */}
+      <AppLockSection />
+
+      {/* Offline data encryption */}
+      <OfflineEncryptionSection />
+
+      {/* Backup / restore */}
+      <BackupSection />
+
       <BottomNavigation />
     </div>
   )
@@ -0,0 +1,215 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { supabase, fetchAccounts } from '@/lib/supabase'
+import { offlineDB, type OfflineConflict } from '@/lib/offline-db'
+import { syncService } from '@/lib/sync-service'
+import { getSyncConflictPolicy, setSyncConflictPolicy } from '@/lib/storage'
+import BottomNavigation from '@/components/BottomNavigation'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeftIcon } from '@/components/icons'
+import {
+  CONFLICT_POLICY_LABELS,
+  TRANSACTION_CONFLICT_FIELDS,
+  TRANSACTION_FIELD_LABELS,
+  sameFieldValue,
+  type ConflictPolicy,
+  type TransactionConflictField,
+} from '@/src/domain/sync/conflict'
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const formatCurrency = (n: number) => Number(n).toLocaleString('th-TH')
+
+const TYPE_LABELS: Record<string, string> = { income: 'รายรับ', expense: 'รายจ่าย', transfer: 'โอน' }
+
+const OUTCOME_LABELS: Record<OfflineConflict['outcome'], string> = {
+  server: 'ตอนนี้ใช้ข้อมูลบนเซิร์ฟเวอร์',
+  client: 'ตอนนี้ใช้ข้อมูลจากเครื่องนี้',
+  merged: 'ตอนนี้ใช้ค่าที่รวมแล้ว (ช่องที่ชนกันใช้ของเซิร์ฟเวอร์)',
+}
+
+function formatField(
+  field: TransactionConflictField,
+  value: unknown,
+  accountNames: Map<string, string>,
+): string {
+  if (value == null || value === '') return '—'
+  switch (field) {
+    case 'amount':
+      return `฿${formatCurrency(Number(value))}`
+    case 'type':
+      return TYPE_LABELS[String(value)] ?? String(value)
+    case 'date':
+      return format(parseISO(String(value)), 'dd/MM/yyyy')
+    case 'account_id':
+      return accountNames.get(String(value)) ?? 'บัญชีที่ถูกลบ'
+    case 'splits':
+      return (value as { category: string; amount: number }[])
+        .map((l) => `${l.category} ฿${formatCurrency(l.amount)}`)
+        .join(', ')
+    default:
+      return String(value)
+  }
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function SyncConflictsPage() {
+  const [conflicts, setConflicts] = useState<OfflineConflict[]>([])
+  const [accountNames, setAccountNames] = useState<Map<string, string>>(new Map())
+  const [policy, setPolicy] = useState<ConflictPolicy>('merge')
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const loadConflicts = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) return
+      const [rows, accounts] = await Promise.all([
+        offlineDB.getConflicts(session.user.id),
+        fetchAccounts(session.user.id),
+      ])
+      setConflicts(rows)
+      setAccountNames(new Map(accounts.map((a) => [a.id, a.name])))
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    setPolicy(getSyncConflictPolicy())
+    loadConflicts()
+  }, [loadConflicts])
+
+  const changePolicy = (next: ConflictPolicy) => {
+    setPolicy(next)
+    setSyncConflictPolicy(next)
+  }
+
+  const resolve = async (conflict: OfflineConflict, choice: 'local' | 'server') => {
+    setBusyId(conflict.id)
+    try {
+      await syncService.resolveConflict(conflict, choice)
+      await loadConflicts()
+    } catch (error) {
+      console.error('Error resolving conflict:', error)
+      alert('เกิดข้อผิดพลาด ไม่สามารถบันทึกการเลือกได้')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="animate-fade-in px-4 pt-4 pb-28">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-5">
+        <Link
+          href="/settings"
+          className="p-2 rounded-xl hover:bg-secondary transition-colors text-muted-foreground"
+        >
+          <ArrowLeftIcon size={18} />
+        </Link>
+        <h1 className="text-xl font-bold text-foreground">ข้อมูลชนกันระหว่างอุปกรณ์</h1>
+      </div>
+
+      {/* Policy */}
+      <Card className="shadow-card border-0 mb-4">
+        <CardContent className="p-4 space-y-2">
+          <p className="text-sm font-medium text-foreground">เมื่อรายการถูกแก้ทั้งบนเครื่องที่ออฟไลน์และอุปกรณ์อื่น</p>
+          {(Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]).map((value) => (
+            <label key={value} className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="radio"
+                name="conflict-policy"
+                checked={policy === value}
+                onChange={() => changePolicy(value)}
+              />
+              {CONFLICT_POLICY_LABELS[value]}
+            </label>
+          ))}
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground text-center py-8">กำลังโหลด...</p>
+      ) : conflicts.length === 0 ? (
+        <Card className="shadow-card border-0">
+          <CardContent className="p-4 text-sm text-muted-foreground text-center">
+            ไม่มีรายการที่ต้องตรวจสอบ
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {conflicts.map((conflict) => {
+            const differing = TRANSACTION_CONFLICT_FIELDS.filter(
+              (field) => !conflict.server || !sameFieldValue(conflict.local[field], conflict.server[field]),
+            )
+            const busy = busyId === conflict.id
+            return (
+              <Card key={conflict.id} className="shadow-card border-0">
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-semibold text-foreground truncate">
+                        {conflict.local.description || conflict.local.category || TYPE_LABELS[conflict.local.type]}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        พบเมื่อ {format(parseISO(conflict.detected_at), 'dd/MM/yyyy HH:mm')} · {OUTCOME_LABELS[conflict.outcome]}
+                      </p>
+                    </div>
+                    {!conflict.server && <Badge variant="warning">ถูกลบบนอุปกรณ์อื่น</Badge>}
+                  </div>
+
+                  <div className="grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-1 text-xs">
+                    <span />
+                    <span className="font-medium text-foreground">เครื่องนี้</span>
+                    <span className="font-medium text-foreground">เซิร์ฟเวอร์</span>
+                    {differing.map((field) => {
+                      const clash = conflict.conflicting_fields.includes(field)
+                      return [
+                        <span key={`${field}-label`} className={clash ? 'text-danger' : 'text-muted-foreground'}>
+                          {TRANSACTION_FIELD_LABELS[field]}
+                        </span>,
+                        <span key={`${field}-local`} className="text-foreground break-words">
+                          {formatField(field, conflict.local[field], accountNames)}
+                        </span>,
+                        <span key={`${field}-server`} className="text-foreground break-words">
+                          {conflict.server ? formatField(field, conflict.server[field], accountNames) : '—'}
+                        </span>,
+                      ]
+                    })}
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => resolve(conflict, 'local')}
+                      className="flex-1 px-3 py-2 rounded-xl text-sm font-medium bg-primary text-primary-foreground disabled:opacity-50"
+                    >
+                      {conflict.server ? 'ใช้ของเครื่องนี้' : 'สร้างรายการนี้ใหม่'}
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => resolve(conflict, 'server')}
+                      className="flex-1 px-3 py-2 rounded-xl text-sm font-medium bg-secondary text-secondary-foreground disabled:opacity-50"
+                    >
+                      {conflict.server ? 'ใช้ของเซิร์ฟเวอร์' : 'ยอมให้ลบ'}
+                    </button>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      <BottomNavigation />
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { syncService, type SyncStatus } from '@/lib/sync-service'
+import BottomNavigation from '@/components/BottomNavigation'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeftIcon } from '@/components/icons'
+import {
+  SYNC_CATEGORY_LABELS,
+  SYNC_SKIP_REASON_LABELS,
+  isSuccessfulRun,
+  lastRunError,
+  lastSuccessfulRun,
+  syncTriggerLabel,
+  type SyncRunRecord,
+} from '@/src/domain/sync/sync-history'
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const formatTime = (iso: string) => format(parseISO(iso), 'dd/MM/yyyy HH:mm:ss')
+
+function RunBadge({ run }: { run: SyncRunRecord }) {
+  if (run.skipped) return <Badge variant="secondary">ข้าม</Badge>
+  if (isSuccessfulRun(run)) return <Badge variant="success">สำเร็จ</Badge>
+  return <Badge variant="danger">ล้มเหลว {run.failureCount}/{run.totalCount}</Badge>
+}
+
+function describeRun(run: SyncRunRecord): string {
+  if (run.skipped) return run.skipReason ? SYNC_SKIP_REASON_LABELS[run.skipReason] : 'ไม่ได้ซิงก์'
+  const items = run.items
+  if (!items) return `สำเร็จ ${run.successCount}/${run.totalCount} ส่วน`
+  const parts = [`ส่งแล้ว ${items.synced}`]
+  if (items.failed) parts.push(`ล้มเหลว ${items.failed}`)
+  if (items.deferred) parts.push(`รอลองใหม่ ${items.deferred}`)
+  if (items.quarantined) parts.push(`หยุดลอง ${items.quarantined}`)
+  return parts.join(' · ')
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function SyncStatusPage() {
+  const [status, setStatus] = useState<SyncStatus | null>(null)
+  const [running, setRunning] = useState(false)
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await syncService.getStatus())
+    } catch (error) {
+      console.error('Error loading sync status:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadStatus()
+    window.addEventListener('sync-started', loadStatus)
+    window.addEventListener('sync-complete', loadStatus)
+    window.addEventListener('online', loadStatus)
+    window.addEventListener('offline', loadStatus)
+    return () => {
+      window.removeEventListener('sync-started', loadStatus)
+      window.removeEventListener('sync-complete', loadStatus)
+      window.removeEventListener('online', loadStatus)
+      window.removeEventListener('offline', loadStatus)
+    }
+  }, [loadStatus])
+
+  const syncNow = async () => {
+    setRunning(true)
+    try {
+      await syncService.syncAll('manual')
+    } catch (error) {
+      console.error('Error running sync:', error)
+    } finally {
+      setRunning(false)
+      await loadStatus()
+    }
+  }
+
+  const lastSuccess = status ? lastSuccessfulRun(status.history) : null
+  const lastError = status ? lastRunError(status.history) : null
+  const syncing = running || !!status?.syncing
+
+  return (
+    <div className="animate-fade-in px-4 pt-4 pb-28">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-5">
+        <Link
+          href="/settings"
+          className="p-2 rounded-xl hover:bg-secondary transition-colors text-muted-foreground"
+        >
+          <ArrowLeftIcon size={18} />
+        </Link>
+        <h1 className="text-xl font-bold text-foreground">สถานะการซิงก์</h1>
+      </div>
+
+      {!status ? (
+        <p className="text-sm text-muted-foreground text-center py-8">กำลังโหลด...</p>
+      ) : (
+        <>
+          {/* Status */}
+          <Card className="shadow-card border-0 mb-4">
+            <CardContent className="p-4 space-y-2 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-muted-foreground">การเชื่อมต่อ</span>
+                <Badge variant={status.online ? 'success' : 'warning'}>{status.online ? 'ออนไลน์' : 'ออฟไลน์'}</Badge>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-muted-foreground">ตอนนี้</span>
+                <span className="text-foreground">
+                  {status.syncing
+                    ? `กำลังซิงก์ (${status.currentTrigger ? syncTriggerLabel(status.currentTrigger) : '—'})`
+                    : 'ไม่ได้ซิงก์'}
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-muted-foreground">รอส่งขึ้นเซิร์ฟเวอร์</span>
+                <span className="text-foreground">{status.pendingCount} รายการ</span>
+              </div>
+              {status.failedCount > 0 && (
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-muted-foreground">ซิงก์ไม่สำเร็จ</span>
+                  <span className="text-danger">{status.failedCount} รายการ</span>
+                </div>
+              )}
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-muted-foreground">ซิงก์สำเร็จล่าสุด</span>
+                <span className="text-foreground">{lastSuccess ? formatTime(lastSuccess.finishedAt) : '—'}</span>
+              </div>
+              {lastError && (
+                <div className="pt-1">
+                  <p className="text-muted-foreground">
+                    ข้อผิดพลาดล่าสุด ({formatTime(lastError.at)} · {SYNC_CATEGORY_LABELS[lastError.category]})
+                  </p>
+                  <p className="text-danger break-words">{lastError.message}</p>
+                </div>
+              )}
+              <button
+                type="button"
+                disabled={syncing || !status.online}
+                onClick={syncNow}
+                className="w-full mt-2 px-3 py-2 rounded-xl text-sm font-medium bg-primary text-primary-foreground disabled:opacity-50"
+              >
+                {syncing ? 'กำลังซิงก์...' : 'ซิงก์ตอนนี้'}
+              </button>
+            </CardContent>
+          </Card>
+
+          {/* History */}
+          <h3 className="font-semibold text-foreground mb-3">ประวัติการซิงก์บนเครื่องนี้</h3>
+          {status.history.length === 0 ? (
+            <Card className="shadow-card border-0">
+              <CardContent className="p-4 text-sm text-muted-foreground text-center">ยังไม่มีประวัติ</CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-2">
+              {status.history.map((run) => (
+                <Card key={run.startedAt} className="shadow-card border-0">
+                  <CardContent className="p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-foreground">{formatTime(run.startedAt)}</span>
+                      <RunBadge run={run} />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {syncTriggerLabel(run.trigger)} · {describeRun(run)}
+                    </p>
+                    {run.errors?.map((error, i) => (
+                      <p key={i} className="text-xs text-danger break-words">
+                        {SYNC_CATEGORY_LABELS[error.category]}: {error.message}
+                      </p>
+                    ))}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <BottomNavigation />
+    </div>
+  )
+}
@@ -0,0 +1,565 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { supabase, fetchAccounts, type AccountRow } from '@/lib/supabase'
+import { syncService } from '@/lib/sync-service'
+import { dataRepository } from '@/src/infrastructure/data/data-repository'
+import { runBudgetAlertCheck } from '@/src/infrastructure/budget/budget-alerts'
+import { getImportPresets, saveImportPreset, recordCategoryCorrection } from '@/lib/storage'
+import BottomNavigation from '@/components/BottomNavigation'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeftIcon } from '@/components/icons'
+import { INCOME_CATEGORIES } from '@/src/domain/finance/finance'
+import {
+  BUILT_IN_PRESETS,
+  findHeaderRow,
+  flagLikelyDuplicates,
+  guessColumnMapping,
+  headerSignature,
+  mapRowsToDrafts,
+  parseCsv,
+  type ColumnMapping,
+  type ImportDraft,
+  type ImportRowError,
+} from '@/src/domain/import/csv-import'
+import { useExpenseCategories } from '@/src/presentation/categories/use-expense-categories'
+import { useCategoryRules } from '@/src/presentation/categories/use-category-rules'
+import { categorizeTransaction } from '@/src/domain/categorization/category-rules'
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const formatCurrency = (n: number) =>
+  n.toLocaleString('th-TH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+type Step = 'upload' | 'map' | 'review'
+
+/** Thai bank exports are either UTF-8 or Windows-874 (TIS-620 superset). */
+const ENCODINGS = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-874', label: 'Windows-874 (ไฟล์ Excel ภาษาไทยรุ่นเก่า)' },
+] as const
+
+type ReviewRow = ImportDraft & {
+  selected: boolean
+  duplicate: boolean
+  category: string
+  /** What rules / defaults chose; a different `category` at import time is a correction. */
+  suggestedCategory: string
+}
+
+const emptyMapping = (): ColumnMapping => ({
+  dateColumn: 0,
+  descriptionColumn: null,
+  amountColumn: null,
+  withdrawalColumn: null,
+  depositColumn: null,
+  dateOrder: 'DMY',
+})
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function ImportTransactionsPage() {
+  const router = useRouter()
+  const { names: expenseCategories } = useExpenseCategories()
+  const { rules: categoryRules } = useCategoryRules()
+  const [step, setStep] = useState<Step>('upload')
+  const [encoding, setEncoding] = useState<string>('utf-8')
+  const [fileName, setFileName] = useState('')
+  const [rows, setRows] = useState<string[][]>([])
+  const [headerIndex, setHeaderIndex] = useState(0)
+  const [mapping, setMapping] = useState<ColumnMapping>(emptyMapping)
+  const [presetName, setPresetName] = useState('')
+  const [savePreset, setSavePreset] = useState(true)
+  const [matchedPreset, setMatchedPreset] = useState<string | null>(null)
+  const [reviewRows, setReviewRows] = useState<ReviewRow[]>([])
+  const [rowErrors, setRowErrors] = useState<ImportRowError[]>([])
+  const [accounts, setAccounts] = useState<AccountRow[]>([])
+  const [accountId, setAccountId] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const activeAccounts = accounts.filter((a) => !a.is_archived)
+  const header = rows[headerIndex] ?? []
+  const dataRows = rows.slice(headerIndex + 1)
+  const splitAmounts = mapping.amountColumn == null
+
+  useEffect(() => {
+    ;(async () => {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) { router.push('/auth/login'); return }
+      const accountRows = await fetchAccounts(session.user.id)
+      setAccounts(accountRows)
+      setAccountId(accountRows.find((a) => !a.is_archived)?.id ?? '')
+    })()
+  }, [router])
+
+  const preview = useMemo(
+    () => (step === 'map' ? mapRowsToDrafts(rows.slice(headerIndex + 1, headerIndex + 6), mapping, headerIndex + 2) : null),
+    [step, rows, headerIndex, mapping],
+  )
+
+  const applyHeaderRow = (allRows: string[][], index: number) => {
+    const signature = headerSignature(allRows[index] ?? [])
+    const saved = getImportPresets().find((p) => p.signature === signature)
+    if (saved) {
+      setMapping({ ...emptyMapping(), ...saved.mapping })
+      setPresetName(saved.name)
+      setMatchedPreset(saved.name)
+      return
+    }
+    setMatchedPreset(null)
+    setMapping(guessColumnMapping(allRows[index] ?? []) ?? emptyMapping())
+  }
+
+  const handleFile = async (file: File) => {
+    let text: string
+    try {
+      text = new TextDecoder(encoding).decode(await file.arrayBuffer())
+    } catch (error) {
+      console.error('Error reading CSV:', error)
+      alert('อ่านไฟล์ไม่ได้ ลองเปลี่ยนการเข้ารหัสไฟล์')
+      return
+    }
+    const parsed = parseCsv(text)
+    if (parsed.length < 2) { alert('ไม่พบข้อมูลในไฟล์'); return }
+
+    // Saved presets remember where the header sits; otherwise skip the bank preamble.
+    const savedIndex = getImportPresets().find(
+      (p) => p.headerRowIndex != null && headerSignature(parsed[p.headerRowIndex] ?? []) === p.signature,
+    )?.headerRowIndex
+    const index = savedIndex ?? findHeaderRow(parsed)
+
+    setFileName(file.name)
+    setRows(parsed)
+    setHeaderIndex(index)
+    setPresetName(file.name.replace(/\.csv$/i, ''))
+    applyHeaderRow(parsed, index)
+    setStep('map')
+  }
+
+  /** First matching category rule, else 'อื่นๆ' for expenses (income stays unassigned). */
+  const suggestCategory = (draft: ImportDraft, account = accountId) =>
+    categorizeTransaction({ ...draft, account_id: account || null }, categoryRules)?.category ??
+    (draft.type === 'income' ? '' : 'อื่นๆ')
+
+  /** Account-scoped rules may now match differently; keep categories the user already changed. */
+  const changeAccount = (account: string) => {
+    setAccountId(account)
+    setReviewRows((prev) =>
+      prev.map((r) => {
+        if (r.category !== r.suggestedCategory) return r
+        const suggested = suggestCategory(r, account)
+        return { ...r, category: suggested, suggestedCategory: suggested }
+      }),
+    )
+  }
+
+  const goToReview = async () => {
+    const { drafts, errors } = mapRowsToDrafts(dataRows, mapping, headerIndex + 2)
+    if (drafts.length === 0) { alert('ไม่พบรายการที่อ่านได้ ตรวจสอบการจับคู่คอลัมน์'); return }
+
+    setBusy(true)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) { router.push('/auth/login'); return }
+
+      // This device's copy (including rows still queued) and, online, the server's.
+      const dates = drafts.map((d) => d.date).sort()
+      let fromServer = false
+      const existing = await dataRepository
+        .transactions(session.user.id, { from: dates[0], to: dates[dates.length - 1] }, (_, source) => {
+          if (source === 'remote') fromServer = true
+        })
+        .catch((error) => {
+          console.error('Error loading existing transactions:', error)
+          return null
+        })
+      if (
+        (existing === null || (existing.length === 0 && !fromServer)) &&
+        !confirm('โหลดรายการเดิมในช่วงวันที่นี้ไม่ได้ จึงตรวจรายการซ้ำไม่ได้ นำเข้าต่อโดยไม่ตรวจรายการซ้ำ?')
+      ) {
+        return
+      }
+
+      const duplicates = flagLikelyDuplicates(drafts, existing ?? [])
+      setReviewRows(
+        drafts.map((d, i) => {
+          const suggested = suggestCategory(d)
+          return {
+            ...d,
+            duplicate: duplicates.has(i),
+            selected: !duplicates.has(i),
+            category: suggested,
+            suggestedCategory: suggested,
+          }
+        }),
+      )
+      setRowErrors(errors)
+
+      if (savePreset && presetName.trim()) {
+        saveImportPreset({
+          name: presetName.trim(),
+          signature: headerSignature(header),
+          headerRowIndex: headerIndex,
+          mapping,
+        })
+      }
+      setStep('review')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleImport = async () => {
+    const chosen = reviewRows.filter((r) => r.selected)
+    if (chosen.length === 0) { alert('ยังไม่ได้เลือกรายการ'); return }
+    if (chosen.some((r) => r.type === 'expense' && !r.category)) { alert('กรุณาเลือกหมวดหมู่ให้รายจ่ายทุกรายการ'); return }
+
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) { router.push('/auth/login'); return }
+
+    setBusy(true)
+    try {
+      // Same offline-first path as other writes: IndexedDB first, then one sync for the batch.
+      await syncService.saveTransactionsOffline(
+        chosen.map((r) => ({
+          user_id: session.user.id,
+          type: r.type,
+          amount: r.amount,
+          category: r.category || undefined,
+          description: r.description || undefined,
+          date: r.date,
+          ...(accountId ? { account_id: accountId } : {}),
+        })),
+      )
+      for (const r of chosen) {
+        if (r.category && r.category !== r.suggestedCategory) {
+          recordCategoryCorrection({
+            description: r.description,
+            fromCategory: r.suggestedCategory || null,
+            toCategory: r.category,
+            at: new Date().toISOString(),
+          })
+        }
+      }
+      if (chosen.some((r) => r.type === 'expense')) await runBudgetAlertCheck(session.user.id)
+      alert(`นำเข้า ${chosen.length} รายการแล้ว`)
+      router.push('/transactions')
+    } catch (error: any) {
+      console.error('Error importing transactions:', error)
+      alert('เกิดข้อผิดพลาด: ' + (error.message || 'ไม่สามารถนำเข้าได้'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const updateRow = (index: number, patch: Partial<ReviewRow>) =>
+    setReviewRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)))
+
+  const inputClass = 'w-full px-3 py-2 border border-border rounded-xl text-foreground text-sm bg-card'
+
+  const columnSelect = (label: string, value: number | null | undefined, onChange: (v: number | null) => void, optional = true) => (
+    <label className="block">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <select
+        value={value == null ? '' : String(value)}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        className={inputClass}
+      >
+        {optional && <option value="">— ไม่มี —</option>}
+        {header.map((cell, i) => (
+          <option key={i} value={i}>{`${i + 1}. ${cell || '(ว่าง)'}`}</option>
+        ))}
+      </select>
+    </label>
+  )
+
+  const selectedCount = reviewRows.filter((r) => r.selected).length
+  const duplicateCount = reviewRows.filter((r) => r.duplicate).length
+
+  return (
+    <div className="animate-fade-in px-4 pt-4 pb-28">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-5">
+        <Link
+          href="/transactions"
+          className="p-2 rounded-xl hover:bg-secondary transition-colors text-muted-foreground"
+        >
+          <ArrowLeftIcon size={18} />
+        </Link>
+        <h1 className="text-xl font-bold text-foreground">นำเข้ารายการจาก CSV</h1>
+      </div>
+
+      {step === 'upload' && (
+        <Card className="shadow-card border-0">
+          <CardContent className="p-4 space-y-3">
+            <p className="text-sm text-muted-foreground">
+              รองรับไฟล์ CSV จาก Statement ธนาคาร (เช่น KBank, SCB, ttb) วันที่แบบ พ.ศ. และจำนวนเงินที่มีเครื่องหมายจุลภาค
+            </p>
+            <label className="block">
+              <span className="text-xs text-muted-foreground">การเข้ารหัสไฟล์</span>
+              <select value={encoding} onChange={(e) => setEncoding(e.target.value)} className={inputClass}>
+                {ENCODINGS.map((enc) => (
+                  <option key={enc.value} value={enc.value}>{enc.label}</option>
+                ))}
+              </select>
+            </label>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleFile(file)
+                e.target.value = ''
+              }}
+              className="block w-full text-sm text-foreground file:mr-3 file:px-4 file:py-2 file:rounded-xl file:border-0 file:bg-primary file:text-primary-foreground"
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'map' && (
+        <div className="space-y-4">
+          <Card className="shadow-card border-0">
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium text-foreground truncate">{fileName}</p>
+                {matchedPreset && <Badge variant="secondary" className="shrink-0">ใช้ค่าที่บันทึกไว้: {matchedPreset}</Badge>}
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {BUILT_IN_PRESETS.map((preset) => (
+                  <button
+                    key={preset.name}
+                    type="button"
+                    onClick={() => setMapping({ ...emptyMapping(), ...preset.mapping })}
+                    className="px-3 py-1.5 text-xs rounded-full border border-border bg-secondary text-foreground hover:bg-primary/10"
+                  >
+                    แบบ {preset.name}
+                  </button>
+                ))}
+              </div>
+
+              <label className="block">
+                <span className="text-xs text-muted-foreground">แถวหัวตาราง</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={rows.length}
+                  value={headerIndex + 1}
+                  onChange={(e) => {
+                    const index = Math.max(0, Math.min(rows.length - 1, Number(e.target.value) - 1))
+                    setHeaderIndex(index)
+                    applyHeaderRow(rows, index)
+                  }}
+                  className={inputClass}
+                />
+              </label>
+
+              {columnSelect('วันที่', mapping.dateColumn, (v) => setMapping({ ...mapping, dateColumn: v ?? 0 }), false)}
+              {columnSelect('รายละเอียด', mapping.descriptionColumn, (v) => setMapping({ ...mapping, descriptionColumn: v }))}
+
+              <div className="flex gap-2 p-1 bg-secondary rounded-xl">
+                <button
+                  type="button"
+                  onClick={() => setMapping({ ...mapping, amountColumn: null })}
+                  className={`flex-1 py-1.5 text-xs rounded-lg ${splitAmounts ? 'bg-card shadow-sm font-medium' : 'text-muted-foreground'}`}
+                >
+                  แยกคอลัมน์ถอน/ฝาก
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setMapping({ ...mapping, amountColumn: mapping.amountColumn ?? 0, withdrawalColumn: null, depositColumn: null })}
+                  className={`flex-1 py-1.5 text-xs rounded-lg ${!splitAmounts ? 'bg-card shadow-sm font-medium' : 'text-muted-foreground'}`}
+                >
+                  คอลัมน์จำนวนเงินเดียว
+                </button>
+              </div>
+
+              {splitAmounts ? (
+                <div className="grid grid-cols-2 gap-2">
+                  {columnSelect('ถอน / รายจ่าย', mapping.withdrawalColumn, (v) => setMapping({ ...mapping, withdrawalColumn: v }))}
+                  {columnSelect('ฝาก / รายรับ', mapping.depositColumn, (v) => setMapping({ ...mapping, depositColumn: v }))}
+                </div>
+              ) : (
+                <>
+                  {columnSelect('จำนวนเงิน', mapping.amountColumn, (v) => setMapping({ ...mapping, amountColumn: v ?? 0 }), false)}
+                  <label className="flex items-center gap-2 text-sm text-foreground">
+                    <input
+                      type="checkbox"
+                      checked={!!mapping.positiveIsExpense}
+                      onChange={(e) => setMapping({ ...mapping, positiveIsExpense: e.target.checked })}
+                      className="rounded border-border"
+                    />
+                    ตัวเลขบวกคือรายจ่าย
+                  </label>
+                </>
+              )}
+
+              <label className="block">
+                <span className="text-xs text-muted-foreground">รูปแบบวันที่</span>
+                <select
+                  value={mapping.dateOrder ?? 'DMY'}
+                  onChange={(e) => setMapping({ ...mapping, dateOrder: e.target.value === 'MDY' ? 'MDY' : 'DMY' })}
+                  className={inputClass}
+                >
+                  <option value="DMY">วัน/เดือน/ปี</option>
+                  <option value="MDY">เดือน/วัน/ปี</option>
+                </select>
+              </label>
+            </CardContent>
+          </Card>
+
+          {preview && (
+            <Card className="shadow-card border-0">
+              <CardContent className="p-4">
+                <p className="text-sm font-semibold text-foreground mb-2">ตัวอย่าง</p>
+                {preview.drafts.length === 0 && (
+                  <p className="text-xs text-muted-foreground">ยังอ่านรายการไม่ได้ ลองปรับการจับคู่คอลัมน์</p>
+                )}
+                <div className="space-y-1">
+                  {preview.drafts.map((d) => (
+                    <div key={d.rowNumber} className="flex justify-between gap-2 text-xs">
+                      <span className="text-muted-foreground shrink-0">{d.date}</span>
+                      <span className="truncate flex-1 text-foreground">{d.description || '-'}</span>
+                      <span className={`tabular-nums shrink-0 ${d.type === 'income' ? 'text-success' : 'text-foreground'}`}>
+                        {d.type === 'income' ? '+' : '-'}฿{formatCurrency(d.amount)}
+                      </span>
+                    </div>
+                  ))}
+                  {preview.errors.map((err) => (
+                    <p key={err.rowNumber} className="text-xs text-danger">แถว {err.rowNumber}: {err.reason}</p>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="shadow-card border-0">
+            <CardContent className="p-4 space-y-2">
+              <label className="flex items-center gap-2 text-sm text-foreground">
+                <input
+                  type="checkbox"
+                  checked={savePreset}
+                  onChange={(e) => setSavePreset(e.target.checked)}
+                  className="rounded border-border"
+                />
+                จำการจับคู่คอลัมน์นี้ไว้ใช้ครั้งหน้า
+              </label>
+              {savePreset && (
+                <input
+                  type="text"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder="ชื่อรูปแบบ (เช่น KBank ออมทรัพย์)"
+                  className={inputClass}
+                />
+              )}
+              <div className="flex gap-2 pt-1">
+                <button
+                  type="button"
+                  onClick={() => setStep('upload')}
+                  className="flex-1 py-2 rounded-xl border border-border text-sm text-foreground hover:bg-secondary"
+                >
+                  เลือกไฟล์ใหม่
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={goToReview}
+                  className="flex-1 py-2 rounded-xl bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 disabled:opacity-50"
+                >
+                  ถัดไป
+                </button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {step === 'review' && (
+        <div className="space-y-4">
+          <Card className="shadow-card border-0">
+            <CardContent className="p-4 space-y-2">
+              <p className="text-sm text-foreground">
+                อ่านได้ {reviewRows.length} รายการ
+                {duplicateCount > 0 && <span className="text-warning"> · อาจซ้ำ {duplicateCount} รายการ (ไม่ได้เลือกไว้)</span>}
+                {rowErrors.length > 0 && <span className="text-muted-foreground"> · ข้าม {rowErrors.length} แถว</span>}
+              </p>
+              {activeAccounts.length > 0 && (
+                <label className="block">
+                  <span className="text-xs text-muted-foreground">บันทึกเข้าบัญชี</span>
+                  <select value={accountId} onChange={(e) => changeAccount(e.target.value)} className={inputClass}>
+                    {activeAccounts.map((a) => (
+                      <option key={a.id} value={a.id}>{a.name}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-2">
+            {reviewRows.map((row, i) => (
+              <div
+                key={row.rowNumber}
+                className={`p-3 rounded-xl border ${row.duplicate ? 'border-warning/40 bg-warning/5' : 'border-border bg-card'} ${row.selected ? '' : 'opacity-60'}`}
+              >
+                <div className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={row.selected}
+                    onChange={(e) => updateRow(i, { selected: e.target.checked })}
+                    className="mt-1 rounded border-border"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-foreground truncate">{row.description || '-'}</span>
+                      {row.duplicate && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">อาจซ้ำ</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{row.date}</p>
+                  </div>
+                  <span className={`text-sm tabular-nums shrink-0 ${row.type === 'income' ? 'text-success' : 'text-foreground'}`}>
+                    {row.type === 'income' ? '+' : '-'}฿{formatCurrency(row.amount)}
+                  </span>
+                </div>
+                <select
+                  value={row.category}
+                  onChange={(e) => updateRow(i, { category: e.target.value })}
+                  className={`${inputClass} mt-2 py-1.5 text-xs`}
+                >
+                  <option value="">ไม่ระบุหมวด</option>
+                  {(row.type === 'income' ? INCOME_CATEGORIES : expenseCategories).map((cat) => (
+                    <option key={cat} value={cat}>{cat}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setStep('map')}
+              className="flex-1 py-2 rounded-xl border border-border text-sm text-foreground hover:bg-secondary"
+            >
+              ย้อนกลับ
+            </button>
+            <button
+              type="button"
+              disabled={busy || selectedCount === 0}
+              onClick={handleImport}
+              className="flex-1 py-2 rounded-xl bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 disabled:opacity-50"
+            >
+              {busy ? 'กำลังนำเข้า...' : `นำเข้า ${selectedCount} รายการ`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <BottomNavigation />
+    </div>
+  )
+}
@@ -2,53 +2,162 @@
 
 import { useEffect, useState, useCallback, useRef } from 'react'
 import { useRouter } from 'next/navigation'
-import { supabase, Transaction, fetchCategoryBudgets } from '@/lib/supabase'
+import Link from 'next/link'
+import {
+  supabase,
+  Transaction,
+  fetchAccounts,
+  fetchCategoryRolloverRules,
+  insertCategoryRule,
+  fetchTransferLegs,
+  fetchTransactionIdByCreatedAt,
+  fetchTransactionTagLinks,
+  insertTag,
+  setTransactionTags,
+  deleteReceipt,
+  type AccountRow,
+  type TransactionTagLink,
+} from '@/lib/supabase'
 import BottomNavigation from '@/components/BottomNavigation'
 import MonthSelector from '@/components/MonthSelector'
 import CategoryIcon from '@/components/CategoryIcon'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { format } from 'date-fns'
-import { getVisibleCategories, setVisibleCategories } from '@/lib/storage'
+import {
+  getVisibleCategories,
+  setVisibleCategories,
+  recordCategoryCorrection,
+  dismissRuleProposal,
+  getTransactionFilterPresets,
+  saveTransactionFilterPreset,
+  deleteTransactionFilterPreset,
+} from '@/lib/storage'
 import {
   getMonthRange,
   computeSpentByCategory,
   computeRemainingBudgetByCategory,
   computeDailyBudgetFromRemaining,
+  INCOME_CATEGORIES,
 } from '@/lib/finance'
 import { getCategoryEmoji } from '@/lib/category-icons'
 import { getActivePeriodMonth, getRemainingDaysInPeriod } from '@/lib/period'
 import { getExpenseCategoryType } from '@/lib/forecast'
 import { useExpenseCategories } from '@/src/presentation/categories/use-expense-categories'
+import { getPendingRuleProposals, useCategoryRules } from '@/src/presentation/categories/use-category-rules'
+import { useTags } from '@/src/presentation/tags/use-tags'
+import {
+  loadReceiptPreviews,
+  prepareReceiptImage,
+  revokeReceiptPreviews,
+  type ReceiptPreview,
+} from '@/src/presentation/receipts/receipts'
+import { editBaseOf, isPendingCreate } from '@/src/presentation/sync/local-data'
+import { dataRepository } from '@/src/infrastructure/data/data-repository'
+import { describeReceiptError, validateReceiptFile } from '@/src/domain/receipt/receipt'
+import { toCycleStartKey } from '@/src/domain/budget/budget-cycle'
+import { getEffectiveBudgets, type BudgetHistory } from '@/src/domain/budget/budget-history'
+import { envelopeBudgetMap, getRolloverRule, hasRollover, type RolloverRules } from '@/src/domain/budget/envelope'
+import { computeCategoryEnvelopes, envelopeLookbackStart } from '@/src/application/budget/budget-service'
+import { syncService } from '@/lib/sync-service'
+import { runBudgetAlertCheck } from '@/src/infrastructure/budget/budget-alerts'
+import { offlineDB, type OfflineReceipt } from '@/lib/offline-db'
+import { describeTagError, parseTagInput, validateTagName } from '@/src/domain/tag/tag'
+import { categorizeTransaction, proposalKey } from '@/src/domain/categorization/category-rules'
+import {
+  TRANSFER_LABEL,
+  buildTransferLegs,
+  describeTransferError,
+  findCounterpartLeg,
+  validateTransfer,
+} from '@/src/domain/transfer/transfer'
+import {
+  cleanSplits,
+  describeSplitError,
+  getCategoryAmounts,
+  getPrimarySplitCategory,
+  getSplitRemainder,
+  hasSplits,
+  validateSplits,
+} from '@/src/domain/split/split'
+import {
+  EMPTY_TRANSACTION_FILTER,
+  TRANSACTION_TYPE_FILTER_LABELS,
+  buildTransactionSearchQuery,
+  describeTransactionFilter,
+  describeTransactionFilterError,
+  hasAdvancedFilter,
+  hasCustomDateRange,
+  validateTransactionFilter,
+  type TransactionFilter,
+  type TransactionFilterPreset,
+  type TransactionTypeFilter,
+} from '@/src/domain/search/transaction-search'
 
 const formatCurrency = (n: number) => n.toLocaleString('th-TH')
 
+type FormType = 'income' | 'expense' | 'transfer'
+
+/** One split line as typed in the form (amount stays a string until submit). */
+type SplitLineInput = { category: string; amount: string }
+
 export default function TransactionsPage() {
   const router = useRouter()
+  // Current page(s) of the filtered list, loaded server-side.
   const [transactions, setTransactions] = useState<Transaction[]>([])
+  const [totalMatches, setTotalMatches] = useState(0)
+  // Both legs of transfers on the loaded pages (for "from → to").
+  const [transferLegs, setTransferLegs] = useState<Transaction[]>([])
+  // Tag links of the loaded rows.
+  const [tagLinks, setTagLinks] = useState<TransactionTagLink[]>([])
+  // Receipt thumbnails of the loaded rows (uploaded + queued on this device).
+  const [receiptPreviews, setReceiptPreviews] = useState<ReceiptPreview[]>([])
+  // Expenses of the selected period; only loaded while it contains today (daily budget cards).
+  const [periodExpenses, setPeriodExpenses] = useState<Transaction[]>([])
+  const [filter, setFilter] = useState<TransactionFilter>(EMPTY_TRANSACTION_FILTER)
+  const [searchText, setSearchText] = useState('')
+  const [showFilterPanel, setShowFilterPanel] = useState(false)
+  const [filterPresets, setFilterPresets] = useState<TransactionFilterPreset[]>([])
   const [loading, setLoading] = useState(true)
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null)
   const [showModal, setShowModal] = useState(false)
   const [selectedMonth, setSelectedMonth] = useState(new Date())
   const [visibleCategories, setVisibleCategoriesState] = useState<string[]>([])
-  const [categoryBudgets, setCategoryBudgetsState] = useState<Record<string, number>>({})
+  const [budgetHistory, setBudgetHistory] = useState<BudgetHistory>({})
+  const [rolloverRules, setRolloverRules] = useState<RolloverRules>({})
+  /** Expenses of the envelope lookback cycles; only loaded when some category rolls over. */
+  const [envelopeExpenses, setEnvelopeExpenses] = useState<Transaction[]>([])
+  const [accounts, setAccounts] = useState<AccountRow[]>([])
   const [profileLoaded, setProfileLoaded] = useState(false)
   // Read from profile (same as dashboard) — 0 = calendar month, 1–31 = salary-day cycle
   const [monthEndDay, setMonthEndDay] = useState(0)
   const initialMonthSetRef = useRef(false)
   const PAGE_SIZE = 30
-  const [displayCount, setDisplayCount] = useState(PAGE_SIZE)
+  // Once the user picks a category themselves, rules stop overwriting it.
+  const [categoryPicked, setCategoryPicked] = useState(false)
   const [formData, setFormData] = useState({
-    type: 'expense' as 'income' | 'expense',
+    type: 'expense' as FormType,
     amount: '',
     category: '',
     description: '',
     date: format(new Date(), 'yyyy-MM-dd'),
+    account_id: '',
+    to_account_id: '',
   })
+  // Empty = not split; otherwise the lines replace the single category picker.
+  const [splitLines, setSplitLines] = useState<SplitLineInput[]>([])
+  const [formTagIds, setFormTagIds] = useState<string[]>([])
+  const [newTagText, setNewTagText] = useState('')
+  // Photos picked in the modal, saved with the transaction.
+  const [newReceipts, setNewReceipts] = useState<{ file: File; url: string }[]>([])
 
-  const incomeCategories = [
-    'เงินเดือน', 'โบนัส', 'รายได้เสริม', 'เงินปันผล', 'ดอกเบี้ย', 'รายได้อื่นๆ',
-  ]
+  const incomeCategories = INCOME_CATEGORIES
+  const { rows: categoryRuleRows, rules: categoryRules, reload: reloadCategoryRules } = useCategoryRules()
+  const { tags, reload: reloadTags } = useTags()
+  const tagNameById = new Map(tags.map((t) => [t.id, t.name]))
+  const receiptsOf = (transactionId: string) => receiptPreviews.filter((r) => r.transactionId === transactionId)
+  const tagIdsOf = (transactionId: string) =>
+    tagLinks.filter((l) => l.transaction_id === transactionId && tagNameById.has(l.tag_id)).map((l) => l.tag_id)
   const { names: expenseCategories, variable: variableCategoryRows, fixed: fixedCategoryRows } = useExpenseCategories()
   const variableCategoryNames = variableCategoryRows.map((c) => c.name)
   const categoryClassification = {
@@ -56,19 +165,82 @@ export default function TransactionsPage() {
     variable: variableCategoryNames,
   }
   const UNKNOWN_CATEGORY_LABEL = 'ไม่ระบุหมวด'
+  const activeAccounts = accounts.filter((a) => !a.is_archived)
+  const accountNameById = new Map(accounts.map((a) => [a.id, a.name]))
+  const accountName = (id?: string | null) => (id && accountNameById.get(id)) || 'ไม่ระบุบัญชี'
+  const describeTransferRoute = (tx: Transaction) => {
+    const other = findCounterpartLeg(tx, transferLegs)
+    const [from, to] = tx.transfer_direction === 'in' ? [other?.account_id, tx.account_id] : [tx.account_id, other?.account_id]
+    return `${accountName(from)} → ${accountName(to)}`
+  }
+  // Transfers need two accounts to move money between.
+  const canTransfer = activeAccounts.length >= 2
+  const emptyForm = () => ({
+    type: 'expense' as FormType,
+    amount: '',
+    category: '',
+    description: '',
+    date: format(new Date(), 'yyyy-MM-dd'),
+    // Default new entries to the first account so per-account balances stay complete.
+    account_id: activeAccounts[0]?.id ?? '',
+    to_account_id: activeAccounts[1]?.id ?? '',
+  })
+
+  /** Fill the category from the user's rules for new entries, until they pick one. */
+  const applyCategoryRules = (next: typeof formData) => {
+    if (editingTransaction || categoryPicked || next.type === 'transfer') return next
+    const match = categorizeTransaction(
+      { type: next.type, amount: Number(next.amount) || 0, description: next.description, account_id: next.account_id || null },
+      categoryRules,
+    )
+    return match ? { ...next, category: match.category } : next
+  }
+
+  const openNewTransaction = () => {
+    setEditingTransaction(null)
+    setCategoryPicked(false)
+    setFormData(emptyForm())
+    setSplitLines([])
+    setFormTagIds([])
+    setNewTagText('')
+    clearNewReceipts()
+    setShowModal(true)
+  }
+
+  const openEditTransaction = (tx: Transaction) => {
+    setEditingTransaction(tx)
+    setCategoryPicked(true)
+    setFormData({
+      type: tx.type,
+      amount: String(tx.amount),
+      category: tx.category || '',
+      description: tx.description || '',
+      date: tx.date,
+      account_id: tx.account_id || '',
+      to_account_id: '',
+    })
+    setSplitLines(hasSplits(tx) ? (tx.splits ?? []).map((l) => ({ category: l.category, amount: String(l.amount) })) : [])
+    setFormTagIds(tagIdsOf(tx.id))
+    setNewTagText('')
+    clearNewReceipts()
+    setShowModal(true)
+  }
 
   const loadProfileAndBudgets = useCallback(async () => {
     const { data: { session } } = await supabase.auth.getSession()
     if (!session) { router.push('/auth/login'); return }
+    const userId = session.user.id
     try {
-      const [profileResult, budgets] = await Promise.all([
-        supabase.from('profiles').select('month_end_day').eq('id', session.user.id).single(),
-        fetchCategoryBudgets(session.user.id),
+      // This device's copy first (the list can load before the server answers).
+      await Promise.all([
+        dataRepository.profile(userId, (profile) => {
+          if (profile) setMonthEndDay(profile.month_end_day ?? 0)
+          setProfileLoaded(true)
+        }),
+        dataRepository.categoryBudgets(userId, (history) => setBudgetHistory(history ?? {})),
+        fetchAccounts(userId).then(setAccounts),
+        fetchCategoryRolloverRules(userId).then(setRolloverRules),
       ])
-      if (profileResult.data) {
-        setMonthEndDay(profileResult.data.month_end_day ?? 0)
-      }
-      setCategoryBudgetsState(budgets)
       setProfileLoaded(true)
     } catch (error) {
       console.error('Error loading profile:', error)
@@ -77,30 +249,123 @@ export default function TransactionsPage() {
     }
   }, [router])
 
+  const knownCategoriesRef = useRef<string[]>([])
+  knownCategoriesRef.current = expenseCategories
+
+  const loadPeriodExpenses = useCallback(async (month: Date, monthEndDayVal: number) => {
+    const range = getMonthRange(month, monthEndDayVal)
+    const today = format(new Date(), 'yyyy-MM-dd')
+    if (today < format(range.start, 'yyyy-MM-dd') || today > format(range.end, 'yyyy-MM-dd')) {
+      setPeriodExpenses([])
+      return
+    }
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return
+    await dataRepository
+      .transactions(
+        session.user.id,
+        { from: format(range.start, 'yyyy-MM-dd'), to: format(range.end, 'yyyy-MM-dd') },
+        (rows) => setPeriodExpenses(rows.filter((t) => t.type === 'expense')),
+      )
+      .catch((error) => console.error('Error loading period expenses:', error))
+  }, [])
+
+  const loadEnvelopeExpenses = useCallback(async (month: Date, monthEndDayVal: number, rules: RolloverRules) => {
+    if (!hasRollover(rules)) {
+      setEnvelopeExpenses([])
+      return
+    }
+    const range = getMonthRange(month, monthEndDayVal)
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return
+    await dataRepository
+      .transactions(
+        session.user.id,
+        { from: envelopeLookbackStart(range.start, { salaryDay: monthEndDayVal }), to: format(range.end, 'yyyy-MM-dd') },
+        (rows) => setEnvelopeExpenses(rows.filter((t) => t.type === 'expense')),
+      )
+      .catch((error) => console.error('Error loading envelope expenses:', error))
+  }, [])
+
   const loadRequestRef = useRef(0)
 
-  const loadMonthTransactions = useCallback(
-    async (month: Date, monthEndDayVal: number) => {
+  /** Hide rows whose delete is still queued offline (the server has not seen it yet). */
+  const withoutPendingDeletes = async (result: { rows: Transaction[]; total: number }) => {
+    const pending = await offlineDB.getPendingDeletionIds().catch(() => new Set<string>())
+    const rows = result.rows.filter((t) => !pending.has(t.id))
+    return { rows, total: Math.max(0, result.total - (result.rows.length - rows.length)) }
+  }
+
+  /** Transfer counterparts, tag links and receipt thumbnails for a page of rows. */
+  const loadRowDetails = async (userId: string, rows: Transaction[]) => {
+    const transferIds = Array.from(new Set(rows.map((t) => t.transfer_id).filter((id): id is string => !!id)))
+    const rowIds = rows.filter((t) => t.type !== 'transfer').map((t) => t.id)
+    const [legs, links, receipts] = await Promise.all([
+      fetchTransferLegs(userId, transferIds),
+      fetchTransactionTagLinks(userId, rowIds),
+      loadReceiptPreviews(userId, rowIds),
+    ])
+    return { legs, links, receipts }
+  }
+
+  /**
+   * Load the first `limit` rows matching the filter, replacing the list: this
+   * device's copy first, then the server's page.
+   */
+  const loadTransactions = useCallback(
+    async (
+      month: Date,
+      monthEndDayVal: number,
+      activeFilter: TransactionFilter,
+      categories: string[],
+      limit: number,
+    ) => {
       const requestId = ++loadRequestRef.current
       const { data: { session } } = await supabase.auth.getSession()
       if (!session) return
+      if (validateTransactionFilter(activeFilter)) {
+        setLoading(false)
+        return
+      }
       const range = getMonthRange(month, monthEndDayVal)
+      const query = buildTransactionSearchQuery({
+        filter: activeFilter,
+        period: { start: format(range.start, 'yyyy-MM-dd'), end: format(range.end, 'yyyy-MM-dd') },
+        selectedCategories: categories,
+        uncategorizedLabel: UNKNOWN_CATEGORY_LABEL,
+      })
+      // Versions resolve out of order (details are fetched per version); the latest one served wins.
+      let latestVersion = 0
+      const show = async (result: { rows: Transaction[]; total: number }) => {
+        const version = ++latestVersion
+        const { rows, total } = await withoutPendingDeletes(result)
+        const { legs, links, receipts } = await loadRowDetails(session.user.id, rows)
+        if (requestId !== loadRequestRef.current || version !== latestVersion) {
+          revokeReceiptPreviews(receipts)
+          return
+        }
+        setTransactions(rows)
+        setTotalMatches(total)
+        setTransferLegs(legs)
+        setTagLinks(links)
+        setReceiptPreviews((previous) => {
+          revokeReceiptPreviews(previous)
+          return receipts
+        })
+        setLoading(false)
+      }
+      const shown: Promise<void>[] = []
       try {
-        const { data, error } = await supabase
-          .from('transactions').select('*')
-          .eq('user_id', session.user.id)
-          .gte('date', format(range.start, 'yyyy-MM-dd'))
-          .lte('date', format(range.end, 'yyyy-MM-dd'))
-          .order('date', { ascending: false })
-          .order('created_at', { ascending: false })
-        if (error) throw error
-        if (requestId !== loadRequestRef.current) return
-        const sorted = (data || []).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-        setTransactions(sorted as Transaction[])
+        await dataRepository.searchTransactions(
+          session.user.id,
+          query,
+          knownCategoriesRef.current,
+          { offset: 0, limit },
+          (result) => shown.push(show(result)),
+        )
+        await Promise.all(shown)
       } catch (error) {
-        console.error('Error loading month transactions:', error)
-        if (requestId !== loadRequestRef.current) return
-        setTransactions([])
+        console.error('Error loading transactions:', error)
       } finally {
         if (requestId === loadRequestRef.current) setLoading(false)
       }
@@ -108,7 +373,25 @@ export default function TransactionsPage() {
     [],
   )
 
+  /** Re-run the current list + period queries (after add / edit / delete). */
+  const reloadAll = async () => {
+    await Promise.all([
+      loadPeriodExpenses(selectedMonth, monthEndDay),
+      loadEnvelopeExpenses(selectedMonth, monthEndDay, rolloverRules),
+      loadTransactions(selectedMonth, monthEndDay, filter, visibleCategories, Math.max(PAGE_SIZE, transactions.length)),
+    ])
+  }
+
   useEffect(() => { loadProfileAndBudgets() }, [loadProfileAndBudgets])
+  // Runs before the effect below sets the initial cycle, so the first load uses the right month.
+  useEffect(() => {
+    if (!profileLoaded || !initialMonthSetRef.current) return
+    loadTransactions(selectedMonth, monthEndDay, filter, visibleCategories, PAGE_SIZE)
+  }, [profileLoaded, selectedMonth, monthEndDay, filter, visibleCategories, loadTransactions])
+  useEffect(() => {
+    if (!profileLoaded || !initialMonthSetRef.current) return
+    loadEnvelopeExpenses(selectedMonth, monthEndDay, rolloverRules)
+  }, [profileLoaded, selectedMonth, monthEndDay, rolloverRules, loadEnvelopeExpenses])
   useEffect(() => {
     if (!profileLoaded) return
     if (!initialMonthSetRef.current) {
@@ -117,43 +400,105 @@ export default function TransactionsPage() {
       initialMonthSetRef.current = true
       return
     }
-    loadMonthTransactions(selectedMonth, monthEndDay)
-  }, [profileLoaded, selectedMonth, monthEndDay, loadMonthTransactions])
+    loadPeriodExpenses(selectedMonth, monthEndDay)
+  }, [profileLoaded, selectedMonth, monthEndDay, loadPeriodExpenses])
   useEffect(() => {
     if (typeof window === 'undefined') return
     setVisibleCategoriesState(getVisibleCategories())
+    setFilterPresets(getTransactionFilterPresets())
   }, [])
+  // Debounce typing into the search box.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilter((prev) => (prev.text === searchText ? prev : { ...prev, text: searchText }))
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchText])
 
-  const loadMonthTransactionsRef = useRef(loadMonthTransactions)
-  loadMonthTransactionsRef.current = loadMonthTransactions
-  const selectedMonthRef = useRef(selectedMonth)
-  selectedMonthRef.current = selectedMonth
-  const monthEndDayRef = useRef(monthEndDay)
-  monthEndDayRef.current = monthEndDay
+  const reloadAllRef = useRef(reloadAll)
+  reloadAllRef.current = reloadAll
   useEffect(() => {
     if (typeof window === 'undefined') return
     const onFocus = async () => {
       const { data: { session } } = await supabase.auth.getSession()
       if (session) {
-        const budgets = await fetchCategoryBudgets(session.user.id)
-        setCategoryBudgetsState(budgets)
-        loadMonthTransactionsRef.current(selectedMonthRef.current, monthEndDayRef.current)
+        await dataRepository
+          .categoryBudgets(session.user.id, (history) => setBudgetHistory(history ?? {}))
+          .catch((error) => console.error('Error loading category budgets:', error))
+        reloadAllRef.current()
       }
     }
     window.addEventListener('focus', onFocus)
     return () => window.removeEventListener('focus', onFocus)
   }, [])
 
+  const loadMore = async () => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return
+    const requestId = loadRequestRef.current
+    const range = getMonthRange(selectedMonth, monthEndDay)
+    const query = buildTransactionSearchQuery({
+      filter,
+      period: { start: format(range.start, 'yyyy-MM-dd'), end: format(range.end, 'yyyy-MM-dd') },
+      selectedCategories: visibleCategories,
+      uncategorizedLabel: UNKNOWN_CATEGORY_LABEL,
+    })
+    let page: { rows: Transaction[]; total: number }
+    try {
+      page = await dataRepository.searchTransactions(session.user.id, query, expenseCategories, {
+        offset: transactions.length,
+        limit: PAGE_SIZE,
+      })
+    } catch (error) {
+      console.error('Error loading more transactions:', error)
+      return
+    }
+    const { rows, total } = await withoutPendingDeletes(page)
+    const { legs, links, receipts } = await loadRowDetails(session.user.id, rows)
+    // A newer full reload (filter change) wins over this page.
+    if (requestId !== loadRequestRef.current) {
+      revokeReceiptPreviews(receipts)
+      return
+    }
+    const seen = new Set(transactions.map((t) => t.id))
+    setTransactions([...transactions, ...rows.filter((t) => !seen.has(t.id))])
+    setTotalMatches(total)
+    setTransferLegs([...transferLegs, ...legs])
+    setTagLinks([...tagLinks, ...links])
+    setReceiptPreviews([...receiptPreviews, ...receipts])
+  }
+
   const todayStr = format(new Date(), 'yyyy-MM-dd')
   const monthRange = getMonthRange(selectedMonth, monthEndDay)
   const remainingDays = getRemainingDaysInPeriod(new Date(), monthRange)
-  const transactionsAsLike = transactions.map((t) => ({
-    type: t.type as 'income' | 'expense',
+  const transactionsAsLike = periodExpenses.map((t) => ({
+    type: t.type,
     amount: Number(t.amount),
     category: t.category ?? undefined,
     date: t.date,
+    splits: t.splits ?? null,
   }))
   const spentByCategory = computeSpentByCategory(transactionsAsLike, monthRange)
+  // Budgets as they were in the selected cycle (not today's numbers); with
+  // rollover on, each category's envelope (budget + what carried in).
+  const envelopes = hasRollover(rolloverRules)
+    ? computeCategoryEnvelopes({
+        asOf: monthRange.start,
+        salaryConfig: { salaryDay: monthEndDay },
+        budgetHistory,
+        transactions: envelopeExpenses.map((t) => ({
+          type: t.type,
+          amount: Number(t.amount),
+          category: t.category ?? undefined,
+          date: t.date,
+          splits: t.splits ?? null,
+        })),
+        rolloverRules,
+      })
+    : null
+  const categoryBudgets = envelopes
+    ? envelopeBudgetMap(envelopes)
+    : getEffectiveBudgets(budgetHistory, toCycleStartKey({ startDate: monthRange.start }))
   const remainingByCategory = computeRemainingBudgetByCategory(categoryBudgets, spentByCategory)
   const dailyBudget = computeDailyBudgetFromRemaining(remainingByCategory, remainingDays, variableCategoryNames)
   const totalVariableRemaining = variableCategoryNames.reduce((s, cat) => s + (remainingByCategory[cat] ?? 0), 0)
@@ -165,22 +510,18 @@ export default function TransactionsPage() {
     const effective = c === '' || !(expenseCategories as readonly string[]).includes(c) ? UNKNOWN_CATEGORY_LABEL : c
     return visibleCategories.length === 0 || visibleCategories.includes(effective)
   }
+  // Split rows count only the lines in the selected categories.
   const expenseToday = isTodayInRange
-    ? transactions.filter((t) => t.type === 'expense' && t.date === todayStr && isInSelectedCategories(t.category || ''))
-        .reduce((sum, t) => sum + Number(t.amount), 0)
+    ? periodExpenses.filter((t) => t.type === 'expense' && t.date === todayStr)
+        .flatMap((t) => getCategoryAmounts(t))
+        .filter((line) => isInSelectedCategories(line.category))
+        .reduce((sum, line) => sum + line.amount, 0)
     : 0
   const remainingToday = Math.max(0, dailyBudget - expenseToday)
 
-  const filteredTransactions = transactions.filter((t) => {
-    if (visibleCategories.length === 0) return true
-    const cat = (t.category || '').trim()
-    const effectiveCat = cat === '' || !(expenseCategories as readonly string[]).includes(cat) ? UNKNOWN_CATEGORY_LABEL : cat
-    return visibleCategories.includes(effectiveCat)
-  })
-  const displayedTransactions = filteredTransactions.slice(0, displayCount)
-  const hasMore = filteredTransactions.length > displayCount
+  const hasMore = transactions.length < totalMatches
 
-  const grouped = displayedTransactions.reduce<Record<string, Transaction[]>>((acc, tx) => {
+  const grouped = transactions.reduce<Record<string, Transaction[]>>((acc, tx) => {
     if (!acc[tx.date]) acc[tx.date] = []
     acc[tx.date].push(tx)
     return acc
@@ -199,58 +540,303 @@ export default function TransactionsPage() {
     setVisibleCategories([])
   }
 
+  const filterError = validateTransactionFilter(filter)
+  const filterLabels = describeTransactionFilter(filter)
+  const updateFilter = (patch: Partial<TransactionFilter>) => setFilter((prev) => ({ ...prev, ...patch }))
+  const parseAmountInput = (value: string) => (value.trim() === '' || isNaN(Number(value)) ? null : Number(value))
+
+  const clearFilter = () => {
+    setSearchText('')
+    setFilter(EMPTY_TRANSACTION_FILTER)
+  }
+
+  const applyFilterPreset = (preset: TransactionFilterPreset) => {
+    setSearchText(preset.filter.text)
+    setFilter(preset.filter)
+    setVisibleCategoriesState(preset.categories)
+    setVisibleCategories(preset.categories)
+  }
+
+  const saveCurrentFilter = () => {
+    const name = prompt('ตั้งชื่อตัวกรองนี้')?.trim()
+    if (!name) return
+    saveTransactionFilterPreset({ name, filter: { ...filter, text: searchText }, categories: visibleCategories })
+    setFilterPresets(getTransactionFilterPresets())
+  }
+
+  const removeFilterPreset = (name: string) => {
+    if (!confirm(`ลบตัวกรอง "${name}"?`)) return
+    deleteTransactionFilterPreset(name)
+    setFilterPresets(getTransactionFilterPresets())
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     e.stopPropagation()
     const { data: { session } } = await supabase.auth.getSession()
     if (!session) { alert('กรุณาเข้าสู่ระบบก่อน'); return }
-    if (!formData.category) { alert('กรุณาเลือกหมวดหมู่'); return }
+    if (formData.type === 'transfer') { await submitTransfer(session.user.id); return }
     const amount = Number(formData.amount)
     if (!formData.amount || isNaN(amount) || amount <= 0) { alert('กรุณากรอกจำนวนเงินที่มากกว่า 0'); return }
+    const splits = cleanSplits(splitLines.map((l) => ({ category: l.category, amount: Number(l.amount) || 0 })))
+    if (splitLines.length > 0) {
+      const splitError = validateSplits(amount, splits)
+      if (splitError) { alert(describeSplitError(splitError)); return }
+    }
+    const category = splitLines.length > 0 ? getPrimarySplitCategory(splits) : formData.category
+    if (!category) { alert('กรุณาเลือกหมวดหมู่'); return }
     if (!formData.date) { alert('กรุณาเลือกวันที่'); return }
 
+    // Only send account_id once the user has accounts (keeps pre-migration-008 schemas working).
+    const accountFields = accounts.length > 0 ? { account_id: formData.account_id || null } : {}
+    // Same for splits (migration 012): send only when split, or to clear a split being removed.
+    const splitFields = splitLines.length > 0
+      ? { splits }
+      : editingTransaction && hasSplits(editingTransaction) ? { splits: null } : {}
+
     try {
-      if (editingTransaction) {
+      if (editingTransaction && !syncService.isOnlineStatus()) {
+        // Queued with the version it was edited from; the sync checks it for conflicts.
+        // Tag changes need the server and are not queued.
+        await syncService.saveTransactionOffline({
+          ...editingTransaction,
+          type: formData.type, amount, category: category || undefined,
+          description: formData.description || undefined, date: formData.date, ...accountFields, ...splitFields,
+          base: editBaseOf(editingTransaction),
+        })
+        if (!isPendingCreate(editingTransaction)) await queueReceipts(session.user.id, editingTransaction.id)
+      } else if (editingTransaction) {
         const { error } = await supabase.from('transactions').update({
-          type: formData.type, amount, category: formData.category || null,
-          description: formData.description || null, date: formData.date,
+          type: formData.type, amount, category: category || null,
+          description: formData.description || null, date: formData.date, ...accountFields, ...splitFields,
         }).eq('id', editingTransaction.id)
         if (error) throw error
+        await queueReceipts(session.user.id, editingTransaction.id)
+        const previousTagIds = tagIdsOf(editingTransaction.id)
+        if (formTagIds.length !== previousTagIds.length || formTagIds.some((id) => !previousTagIds.includes(id))) {
+          const { error: tagError } = await setTransactionTags(session.user.id, editingTransaction.id, formTagIds)
+          if (tagError) throw tagError
+        }
+        if (splitLines.length === 0 && (editingTransaction.category || '') !== formData.category && formData.description.trim()) {
+          recordCategoryCorrection({
+            description: formData.description.trim(),
+            fromCategory: editingTransaction.category || null,
+            toCategory: formData.category,
+            at: new Date().toISOString(),
+          })
+          await offerLearnedRule(session.user.id, formData.description.trim(), formData.category)
+        }
       } else {
-        const { error } = await supabase.from('transactions').insert({
-          user_id: session.user.id, type: formData.type, amount,
-          category: formData.category || null, description: formData.description || null, date: formData.date,
-        })
-        if (error) throw error
+        // Through the offline queue, so an entry made without a connection is
+        // kept and synced later. Photos are queued against the local id (the
+        // sync fills in the server id before uploading them); both go up in
+        // the same sync run.
+        const localId = `temp_${crypto.randomUUID()}`
+        const createdAt = new Date().toISOString()
+        for (const receipt of await prepareReceipts(session.user.id, { transaction_local_id: localId })) {
+          await offlineDB.saveReceipt(receipt)
+        }
+        await syncService.saveTransactionsOffline([{
+          local_id: localId, user_id: session.user.id, type: formData.type, amount,
+          category: category || undefined, description: formData.description || undefined, date: formData.date,
+          created_at: createdAt, ...accountFields, ...splitFields,
+        }])
+        if (formTagIds.length > 0) {
+          // Tags need the server row, so they are linked once the sync above inserted it.
+          const insertedId = await fetchTransactionIdByCreatedAt(session.user.id, createdAt)
+          if (insertedId) {
+            const { error: tagError } = await setTransactionTags(session.user.id, insertedId, formTagIds)
+            if (tagError) throw tagError
+          } else {
+            alert('บันทึกรายการแล้ว แต่ยังติดแท็กไม่ได้จนกว่าจะซิงก์ แก้ไขรายการเพื่อใส่แท็กภายหลัง')
+          }
+        }
       }
       setEditingTransaction(null)
       setShowModal(false)
-      setFormData({ type: 'expense', amount: '', category: '', description: '', date: format(new Date(), 'yyyy-MM-dd') })
-      await loadMonthTransactions(selectedMonth, monthEndDay)
+      setFormData(emptyForm())
+      setSplitLines([])
+      clearNewReceipts()
+      await reloadAll()
+      if (formData.type === 'expense') runBudgetAlertCheck(session.user.id)
     } catch (error: any) {
       console.error('Error saving transaction:', error)
       alert('เกิดข้อผิดพลาด: ' + (error.message || 'ไม่สามารถบันทึกข้อมูลได้'))
     }
   }
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('คุณแน่ใจหรือไม่ว่าต้องการลบรายการนี้?')) return
+  /**
+   * After a recategorization, offer the rule it completes (if any) right away;
+   * declined proposals stay listed under Settings → กฎจัดหมวดหมู่อัตโนมัติ.
+   */
+  const offerLearnedRule = async (userId: string, description: string, category: string) => {
+    const proposal = getPendingRuleProposals(categoryRules).find(
+      (p) => p.category === category && description.toLowerCase().includes(p.pattern),
+    )
+    if (!proposal) return
+    if (!confirm(`ต่อไปให้รายการที่มีคำว่า "${proposal.pattern}" อยู่หมวด "${category}" อัตโนมัติไหม?`)) {
+      dismissRuleProposal(proposalKey(proposal))
+      return
+    }
+    const priority = categoryRuleRows.reduce((max, r) => Math.max(max, r.priority), -1) + 1
+    const created = await insertCategoryRule(userId, {
+      match_type: 'contains',
+      pattern: proposal.pattern,
+      category,
+      priority,
+      source: 'learned',
+    })
+    if (created) await reloadCategoryRules()
+  }
+
+  const submitTransfer = async (userId: string) => {
+    const request = {
+      transferId: crypto.randomUUID(),
+      fromAccountId: formData.account_id,
+      toAccountId: formData.to_account_id,
+      amount: Number(formData.amount),
+      date: formData.date,
+      description: formData.description,
+    }
+    const invalid = validateTransfer(request)
+    if (invalid) { alert(describeTransferError(invalid)); return }
+
     try {
-      const { data: { session } } = await supabase.auth.getSession()
-      if (!session) { alert('กรุณาเข้าสู่ระบบก่อน'); return }
-      const { error } = await supabase.from('transactions').delete().eq('id', id)
-      if (error) throw error
-      await loadMonthTransactions(selectedMonth, monthEndDay)
+      const createdAt = new Date().toISOString()
+      // Both legs are queued together (offline too); a leg that fails to
+      // replay stays queued and is retried, so the transfer completes on a later sync.
+      await syncService.saveTransactionsOffline(
+        buildTransferLegs(request).map((leg) => ({ ...leg, user_id: userId, created_at: createdAt })),
+      )
+      setShowModal(false)
+      setFormData(emptyForm())
+      await reloadAll()
+    } catch (error: any) {
+      console.error('Error saving transfer:', error)
+      alert('เกิดข้อผิดพลาด: ' + (error.message || 'ไม่สามารถบันทึกการโอนได้'))
+    }
+  }
+
+  const handleDelete = async (tx: Transaction) => {
+    const isTransferRow = tx.type === 'transfer' && !!tx.transfer_id
+    const message = isTransferRow
+      ? 'ลบการโอนนี้? ทั้งฝั่งบัญชีต้นทางและปลายทางจะถูกลบ'
+      : 'คุณแน่ใจหรือไม่ว่าต้องการลบรายการนี้?'
+    if (!confirm(message)) return
+    try {
+      // Through the sync pipeline so a delete made offline is queued, not lost.
+      const legs = isTransferRow ? transferLegs.filter((l) => l.transfer_id === tx.transfer_id) : []
+      const rows = legs.length > 0 ? legs : [tx]
+      await syncService.deleteTransactionsOffline(rows)
+      const deletedIds = new Set(rows.map((r) => r.id))
+      setTransactions(transactions.filter((t) => !deletedIds.has(t.id)))
+      setTotalMatches((n) => Math.max(0, n - 1))
+      if (syncService.isOnlineStatus()) await reloadAll()
     } catch (error: any) {
       console.error('Error deleting transaction:', error)
       alert('เกิดข้อผิดพลาด: ' + (error.message || 'ไม่สามารถลบข้อมูลได้'))
     }
   }
 
+  const clearNewReceipts = () => {
+    setNewReceipts((previous) => {
+      previous.forEach((r) => URL.revokeObjectURL(r.url))
+      return []
+    })
+  }
+
+  const addReceiptFiles = (files: FileList | null) => {
+    const picked: { file: File; url: string }[] = []
+    for (const file of Array.from(files ?? [])) {
+      const invalid = validateReceiptFile(file)
+      if (invalid) { alert(describeReceiptError(invalid)); continue }
+      picked.push({ file, url: URL.createObjectURL(file) })
+    }
+    setNewReceipts([...newReceipts, ...picked])
+  }
+
+  const removeNewReceipt = (url: string) => {
+    URL.revokeObjectURL(url)
+    setNewReceipts(newReceipts.filter((r) => r.url !== url))
+  }
+
+  /** The modal's new photos, ready to queue for `owner` (server id or offline `local_id`). */
+  const prepareReceipts = async (
+    userId: string,
+    owner: Pick<OfflineReceipt, 'transaction_id' | 'transaction_local_id'>,
+  ): Promise<OfflineReceipt[]> => {
+    const prepared: OfflineReceipt[] = []
+    for (const { file } of newReceipts) {
+      const image = await prepareReceiptImage(file)
+      prepared.push({
+        local_id: crypto.randomUUID(),
+        user_id: userId,
+        ...owner,
+        blob: image.blob,
+        thumbnail: image.thumbnail,
+        content_type: image.contentType,
+        created_at: new Date().toISOString(),
+      })
+    }
+    return prepared
+  }
+
+  /**
+   * Queue the modal's new photos for `transactionId`. They are uploaded right
+   * away when online, otherwise by the next sync.
+   */
+  const queueReceipts = async (userId: string, transactionId: string) => {
+    if (newReceipts.length === 0) return
+    await syncService.saveReceiptsOffline(await prepareReceipts(userId, { transaction_id: transactionId }))
+  }
+
+  const removeSavedReceipt = async (receipt: ReceiptPreview) => {
+    if (!confirm('ลบรูปใบเสร็จนี้?')) return
+    if (receipt.row) {
+      const { error } = await deleteReceipt(receipt.row)
+      if (error) { alert('ลบรูปไม่สำเร็จ'); return }
+    } else {
+      await offlineDB.deleteReceipt(receipt.key)
+    }
+    revokeReceiptPreviews([receipt])
+    setReceiptPreviews(receiptPreviews.filter((r) => r.key !== receipt.key))
+  }
+
+  /** Create any new tags typed into the modal and select them. */
+  const addTypedTags = async () => {
+    const names = parseTagInput(newTagText)
+    if (names.length === 0) return
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return
+    const selected = [...formTagIds]
+    let created = false
+    for (const name of names) {
+      const existing = tags.find((t) => t.name === name)
+      if (existing) {
+        if (!selected.includes(existing.id)) selected.push(existing.id)
+        continue
+      }
+      const invalid = validateTagName(name, tags)
+      if (invalid) { alert(describeTagError(invalid)); continue }
+      const row = await insertTag(session.user.id, name)
+      if (row) {
+        selected.push(row.id)
+        created = true
+      }
+    }
+    if (created) await reloadTags()
+    setFormTagIds(selected)
+    setNewTagText('')
+  }
+
+  const toggleFormTag = (tagId: string) =>
+    setFormTagIds(formTagIds.includes(tagId) ? formTagIds.filter((id) => id !== tagId) : [...formTagIds, tagId])
+
   const handleCancel = () => {
     setEditingTransaction(null)
     setShowModal(false)
-    setFormData({ type: 'expense', amount: '', category: '', description: '', date: format(new Date(), 'yyyy-MM-dd') })
+    setFormData(emptyForm())
+    clearNewReceipts()
   }
 
   if (loading) {
@@ -269,20 +855,34 @@ export default function TransactionsPage() {
       {/* Header with logout */}
       <div className="sticky top-0 z-10 bg-background border-b border-border px-4 py-3 flex items-center justify-between">
         <h1 className="text-lg font-semibold text-foreground">รายรับรายจ่าย</h1>
-        <button
-          type="button"
-          onClick={async () => {
-            await supabase.auth.signOut()
-            router.push('/auth/login')
-            router.refresh()
-          }}
-          className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground hover:bg-secondary rounded-lg transition-colors"
-        >
-          <svg className="w-[18px] h-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4M16 17l5-5-5-5M21 12H9" />
-          </svg>
-          <span>ออกจากระบบ</span>
-        </button>
+        <div className="flex items-center gap-1">
+          <Link
+            href="/transactions/tags"
+            className="px-3 py-1.5 text-sm text-primary font-medium hover:bg-primary/10 rounded-lg transition-colors"
+          >
+            แท็ก
+          </Link>
+          <Link
+            href="/transactions/import"
+            className="px-3 py-1.5 text-sm text-primary font-medium hover:bg-primary/10 rounded-lg transition-colors"
+          >
+            นำเข้า CSV
+          </Link>
+          <button
+            type="button"
+            onClick={async () => {
+              await supabase.auth.signOut()
+              router.push('/auth/login')
+              router.refresh()
+            }}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground hover:bg-secondary rounded-lg transition-colors"
+          >
+            <svg className="w-[18px] h-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4M16 17l5-5-5-5M21 12H9" />
+            </svg>
+            <span>ออกจากระบบ</span>
+          </button>
+        </div>
       </div>
 
       <MonthSelector currentMonth={selectedMonth} onChange={setSelectedMonth} />
@@ -310,9 +910,161 @@ export default function TransactionsPage() {
             <StatBox label="เหลือวันนี้" value={`฿${formatCurrency(Math.round(remainingToday))}`} />
           </div>
           <p className="text-[10px] text-muted-foreground px-1">งบรายวัน = งบคงเหลือของหมวดผันแปร (อาหาร, เดินทาง ฯลฯ) หารด้วย จำนวนวันคงเหลือ</p>
+          {envelopes && (
+            <Card className="shadow-card border-0 mt-3">
+              <CardContent className="p-4 space-y-2">
+                <p className="text-sm font-medium text-foreground">ซองงบที่ยกยอด</p>
+                {Object.entries(envelopes)
+                  .filter(([cat]) => getRolloverRule(rolloverRules, cat).mode !== 'reset')
+                  .map(([cat, envelope]) => (
+                    <div key={cat} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="text-foreground">{cat}</span>
+                      <span className="text-muted-foreground tabular-nums">
+                        ยกมา {envelope.carriedIn < 0 ? '-' : '+'}฿{formatCurrency(Math.abs(Math.round(envelope.carriedIn)))}
+                        {' · '}
+                        {envelope.overspent > 0 ? (
+                          <span className="text-danger">เกิน ฿{formatCurrency(Math.round(envelope.overspent))}</span>
+                        ) : (
+                          <>เหลือ ฿{formatCurrency(Math.round(envelope.remaining))}</>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+              </CardContent>
+            </Card>
+          )}
         </div>
       )}
 
+      {/* Search + advanced filters */}
+      <div className="px-4 mb-3">
+        <div className="flex gap-2">
+          <input
+            type="search"
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="ค้นหาหมายเหตุหรือหมวดหมู่"
+            className="flex-1 min-w-0 px-4 py-2 border border-border rounded-xl text-sm text-foreground bg-card placeholder:text-muted-foreground"
+          />
+          <button
+            type="button"
+            onClick={() => setShowFilterPanel(!showFilterPanel)}
+            className={`px-3 py-2 rounded-xl text-sm font-medium border ${hasAdvancedFilter(filter) ? 'border-primary text-primary bg-primary/10' : 'border-border text-muted-foreground'}`}
+          >
+            ตัวกรอง{filterLabels.length > 0 ? ` (${filterLabels.length})` : ''}
+          </button>
+        </div>
+
+        {filterPresets.length > 0 && (
+          <div className="flex gap-2 mt-2 overflow-x-auto pb-1">
+            {filterPresets.map((preset) => (
+              <span key={preset.name} className="flex items-center whitespace-nowrap rounded-full bg-secondary text-secondary-foreground text-xs">
+                <button type="button" onClick={() => applyFilterPreset(preset)} className="pl-3 pr-1 py-1.5 font-medium">
+                  🔖 {preset.name}
+                </button>
+                <button type="button" onClick={() => removeFilterPreset(preset.name)} className="pr-2 pl-1 py-1.5 text-muted-foreground hover:text-danger" aria-label="ลบตัวกรอง">
+                  ✕
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        {showFilterPanel && (
+          <Card className="shadow-card border-0 mt-2">
+            <CardContent className="p-4 space-y-3">
+              <div className="flex gap-2">
+                {(Object.keys(TRANSACTION_TYPE_FILTER_LABELS) as TransactionTypeFilter[]).map((t) => (
+                  <button
+                    key={t}
+                    type="button"
+                    onClick={() => updateFilter({ type: t })}
+                    className={`flex-1 py-2 rounded-xl text-sm font-medium ${filter.type === t ? 'bg-primary text-primary-foreground' : 'bg-secondary text-secondary-foreground'}`}
+                  >
+                    {TRANSACTION_TYPE_FILTER_LABELS[t]}
+                  </button>
+                ))}
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">จำนวนเงิน (บาท)</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number" min="0" step="0.01" placeholder="ต่ำสุด"
+                    value={filter.minAmount ?? ''}
+                    onChange={(e) => updateFilter({ minAmount: parseAmountInput(e.target.value) })}
+                    className="flex-1 min-w-0 px-3 py-2 border border-border rounded-lg text-sm text-foreground"
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <input
+                    type="number" min="0" step="0.01" placeholder="สูงสุด"
+                    value={filter.maxAmount ?? ''}
+                    onChange={(e) => updateFilter({ maxAmount: parseAmountInput(e.target.value) })}
+                    className="flex-1 min-w-0 px-3 py-2 border border-border rounded-lg text-sm text-foreground"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">ช่วงวันที่ (ค้นหาข้ามหลายรอบได้)</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    value={filter.dateFrom ?? ''}
+                    onChange={(e) => updateFilter({ dateFrom: e.target.value || null })}
+                    className="flex-1 min-w-0 px-3 py-2 border border-border rounded-lg text-sm text-foreground"
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <input
+                    type="date"
+                    value={filter.dateTo ?? ''}
+                    onChange={(e) => updateFilter({ dateTo: e.target.value || null })}
+                    className="flex-1 min-w-0 px-3 py-2 border border-border rounded-lg text-sm text-foreground"
+                  />
+                </div>
+              </div>
+              {tags.length > 0 && (
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">แท็ก (มีแท็กใดแท็กหนึ่ง)</label>
+                  <div className="flex flex-wrap gap-2">
+                    {tags.map((tag) => (
+                      <button
+                        key={tag.id}
+                        type="button"
+                        onClick={() => updateFilter({
+                          tagIds: filter.tagIds.includes(tag.id)
+                            ? filter.tagIds.filter((id) => id !== tag.id)
+                            : [...filter.tagIds, tag.id],
+                        })}
+                        className={`px-3 py-1 rounded-full text-xs font-medium ${filter.tagIds.includes(tag.id) ? 'bg-primary text-primary-foreground' : 'bg-secondary text-secondary-foreground'}`}
+                      >
+                        #{tag.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {filterError && <p className="text-xs text-danger">{describeTransactionFilterError(filterError)}</p>}
+              <div className="flex gap-2">
+                <button type="button" onClick={clearFilter} className="flex-1 py-2 rounded-xl border border-border text-sm text-muted-foreground">
+                  ล้างตัวกรอง
+                </button>
+                <button
+                  type="button"
+                  onClick={saveCurrentFilter}
+                  disabled={!!filterError || (!hasAdvancedFilter(filter) && !searchText.trim() && visibleCategories.length === 0)}
+                  className="flex-1 py-2 rounded-xl bg-primary text-primary-foreground text-sm font-medium disabled:opacity-50"
+                >
+                  บันทึกตัวกรอง
+                </button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {hasCustomDateRange(filter) && (
+          <p className="text-[10px] text-muted-foreground mt-2">แสดงตามช่วงวันที่ที่กำหนด (ไม่ใช้รอบที่เลือกด้านบน)</p>
+        )}
+      </div>
+
       {/* Filter Chips */}
       <div className="px-4 mb-4 overflow-x-auto">
         <div className="flex gap-2 pb-1">
@@ -337,10 +1089,13 @@ export default function TransactionsPage() {
 
       {/* Transaction List — grouped by date */}
       <div className="px-4 mb-6">
-        {filteredTransactions.length === 0 ? (
+        {(hasAdvancedFilter(filter) || visibleCategories.length > 0) && !filterError && (
+          <p className="text-xs text-muted-foreground mb-2">พบ {totalMatches.toLocaleString('th-TH')} รายการ</p>
+        )}
+        {transactions.length === 0 ? (
           <Card className="shadow-card border-0">
             <CardContent className="p-8 text-center text-muted-foreground text-sm">
-              ยังไม่มีรายการในเดือนนี้
+              {hasAdvancedFilter(filter) || visibleCategories.length > 0 ? 'ไม่พบรายการที่ตรงกับตัวกรอง' : 'ยังไม่มีรายการในเดือนนี้'}
             </CardContent>
           </Card>
         ) : (
@@ -354,22 +1109,65 @@ export default function TransactionsPage() {
                     {txs.map((tx, i) => (
                       <div key={tx.id} className={`flex items-center gap-3 px-4 py-3 ${i !== txs.length - 1 ? 'border-b border-border' : ''}`}>
                         <CategoryIcon category={tx.category || ''} />
-                        <div className="flex-1 min-w-0">
+                        <div
+                          className={`flex-1 min-w-0 ${tx.type === 'transfer' ? '' : 'cursor-pointer'}`}
+                          onClick={tx.type === 'transfer' ? undefined : () => openEditTransaction(tx)}
+                        >
                           <div className="flex items-center gap-2">
-                            <p className="text-sm font-medium text-foreground truncate">{tx.category || '-'}</p>
+                            <p className="text-sm font-medium text-foreground truncate">
+                              {tx.type === 'transfer' ? TRANSFER_LABEL : tx.category || '-'}
+                            </p>
                             {tx.type === 'expense' && getExpenseCategoryType(tx.category || '', categoryClassification) === 'fixed' && (
                               <Badge variant="secondary" className="text-[10px] px-1.5 py-0">คงที่</Badge>
                             )}
+                            {tx.recurring_id && (
+                              <Badge variant="secondary" className="text-[10px] px-1.5 py-0">ประจำ</Badge>
+                            )}
+                            {hasSplits(tx) && (
+                              <Badge variant="secondary" className="text-[10px] px-1.5 py-0">แยก {tx.splits?.length} หมวด</Badge>
+                            )}
                           </div>
+                          {hasSplits(tx) && (
+                            <p className="text-[10px] text-muted-foreground truncate">
+                              {(tx.splits ?? []).map((l) => `${l.category} ฿${formatCurrency(Number(l.amount))}`).join(' · ')}
+                            </p>
+                          )}
                           {tx.description && tx.description.trim() !== '' && (
                             <p className="text-xs text-muted-foreground truncate">{tx.description}</p>
                           )}
+                          {tagIdsOf(tx.id).length > 0 && (
+                            <p className="text-[10px] text-primary truncate">
+                              {tagIdsOf(tx.id).map((id) => `#${tagNameById.get(id)}`).join(' ')}
+                            </p>
+                          )}
+                          {tx.type === 'transfer' ? (
+                            <p className="text-[10px] text-muted-foreground truncate">{describeTransferRoute(tx)}</p>
+                          ) : tx.account_id && accountNameById.has(tx.account_id) && (
+                            <p className="text-[10px] text-muted-foreground truncate">{accountNameById.get(tx.account_id)}</p>
+                          )}
                         </div>
-                        <span className={`text-sm font-semibold tabular-nums ${tx.type === 'income' ? 'text-success' : 'text-foreground'}`}>
-                          {tx.type === 'income' ? '+' : '-'}฿{formatCurrency(Number(tx.amount))}
+                        {receiptsOf(tx.id).length > 0 && (
+                          <a
+                            href={receiptsOf(tx.id)[0].fullUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="relative shrink-0"
+                            aria-label="ดูรูปใบเสร็จ"
+                          >
+                            {/* eslint-disable-next-line @next/next/no-img-element -- signed / object URLs */}
+                            <img src={receiptsOf(tx.id)[0].thumbUrl} alt="ใบเสร็จ" className="w-9 h-9 rounded-md object-cover border border-border" />
+                            {receiptsOf(tx.id).length > 1 && (
+                              <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[9px] leading-4 text-center">
+                                {receiptsOf(tx.id).length}
+                              </span>
+                            )}
+                          </a>
+                        )}
+                        <span className={`text-sm font-semibold tabular-nums ${tx.type === 'income' ? 'text-success' : tx.type === 'transfer' ? 'text-muted-foreground' : 'text-foreground'}`}>
+                          {tx.type === 'income' ? '+' : tx.type === 'transfer' ? '' : '-'}฿{formatCurrency(Number(tx.amount))}
                         </span>
                         <button
-                          onClick={() => handleDelete(tx.id)}
+                          onClick={() => handleDelete(tx)}
                           className="p-1 text-muted-foreground hover:text-danger transition-colors"
                         >
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -386,21 +1184,17 @@ export default function TransactionsPage() {
         {hasMore && (
           <button
             type="button"
-            onClick={() => setDisplayCount((c) => c + PAGE_SIZE)}
+            onClick={loadMore}
             className="w-full py-3 rounded-xl border border-border text-muted-foreground text-sm font-medium hover:bg-secondary transition-colors"
           >
-            โหลดเพิ่ม ({filteredTransactions.length - displayCount} รายการ)
+            โหลดเพิ่ม ({totalMatches - transactions.length} รายการ)
           </button>
         )}
       </div>
 
       {/* FAB */}
       <button
-        onClick={() => {
-          setEditingTransaction(null)
-          setFormData({ type: 'expense', amount: '', category: '', description: '', date: format(new Date(), 'yyyy-MM-dd') })
-          setShowModal(true)
-        }}
+        onClick={openNewTransaction}
         className="fixed bottom-20 right-4 w-14 h-14 rounded-full bg-primary text-primary-foreground shadow-lg flex items-center justify-center hover:shadow-xl transition-shadow z-40"
       >
         <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -428,41 +1222,278 @@ export default function TransactionsPage() {
                 <div className="flex gap-2">
                   <button
                     type="button"
-                    onClick={() => setFormData({ ...formData, type: 'expense', category: '' })}
+                    onClick={() => { setSplitLines([]); setFormData(applyCategoryRules({ ...formData, type: 'expense', category: '' })) }}
                     className={`flex-1 py-3 rounded-xl font-medium transition-colors ${formData.type === 'expense' ? 'bg-danger/10 text-danger border border-danger/20' : 'bg-secondary text-secondary-foreground'}`}
                   >
                     รายจ่าย
                   </button>
                   <button
                     type="button"
-                    onClick={() => setFormData({ ...formData, type: 'income', category: '' })}
+                    onClick={() => { setSplitLines([]); setFormData(applyCategoryRules({ ...formData, type: 'income', category: '' })) }}
                     className={`flex-1 py-3 rounded-xl font-medium transition-colors ${formData.type === 'income' ? 'bg-success/10 text-success border border-success/20' : 'bg-secondary text-secondary-foreground'}`}
                   >
                     รายรับ
                   </button>
+                  {canTransfer && !editingTransaction && (
+                    <button
+                      type="button"
+                      onClick={() => { setSplitLines([]); setFormData({ ...formData, type: 'transfer', category: '' }) }}
+                      className={`flex-1 py-3 rounded-xl font-medium transition-colors ${formData.type === 'transfer' ? 'bg-primary/10 text-primary border border-primary/20' : 'bg-secondary text-secondary-foreground'}`}
+                    >
+                      โอน
+                    </button>
+                  )}
                 </div>
 
+                {formData.type === 'transfer' ? (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-foreground mb-2">จากบัญชี</label>
+                      <select
+                        value={formData.account_id}
+                        onChange={(e) => setFormData({ ...formData, account_id: e.target.value })}
+                        className="w-full px-4 py-3 border border-border rounded-lg focus:ring-2 focus:ring-primary text-foreground appearance-none bg-card"
+                        required
+                      >
+                        {activeAccounts.map((a) => (
+                          <option key={a.id} value={a.id}>{a.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-foreground mb-2">ไปยังบัญชี</label>
+                      <select
+                        value={formData.to_account_id}
+                        onChange={(e) => setFormData({ ...formData, to_account_id: e.target.value })}
+                        className="w-full px-4 py-3 border border-border rounded-lg focus:ring-2 focus:ring-primary text-foreground appearance-none bg-card"
+                        required
+                      >
+                        {activeAccounts.map((a) => (
+                          <option key={a.id} value={a.id}>{a.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <p className="text-xs text-muted-foreground">การโอนระหว่างบัญชีไม่นับเป็นรายรับหรือรายจ่าย</p>
+                  </>
+                ) : (
+                <>
+                {splitLines.length === 0 ? (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-foreground">หมวดหมู่</label>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setCategoryPicked(true)
+                          setSplitLines([{ category: formData.category, amount: formData.amount }, { category: '', amount: '' }])
+                        }}
+                        className="text-xs text-primary font-medium"
+                      >
+                        แยกหลายหมวด
+                      </button>
+                    </div>
+                    <select
+                      value={formData.category}
+                      onChange={(e) => {
+                        setCategoryPicked(true)
+                        setFormData({ ...formData, category: e.target.value })
+                      }}
+                      className="w-full px-4 py-3 border border-border rounded-lg focus:ring-2 focus:ring-primary text-foreground appearance-none bg-card"
+                      required
+                    >
+                      <option value="">เลือกหมวดหมู่</option>
+                      {(formData.type === 'income' ? incomeCategories : expenseCategories).map((cat) => (
+                        <option key={cat} value={cat}>{cat}</option>
+                      ))}
+                    </select>
+                  </div>
+                ) : (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-foreground">แยกหมวดหมู่</label>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setFormData({ ...formData, category: getPrimarySplitCategory(cleanSplits(splitLines.map((l) => ({ category: l.category, amount: Number(l.amount) || 0 })))) })
+                          setSplitLines([])
+                        }}
+                        className="text-xs text-muted-foreground"
+                      >
+                        ยกเลิกการแยก
+                      </button>
+                    </div>
+                    <div className="space-y-2">
+                      {splitLines.map((line, idx) => (
+                        <div key={idx} className="flex gap-2">
+                          <select
+                            value={line.category}
+                            onChange={(e) => setSplitLines(splitLines.map((l, i) => (i === idx ? { ...l, category: e.target.value } : l)))}
+                            className="flex-1 min-w-0 px-3 py-2 border border-border rounded-lg text-foreground text-sm appearance-none bg-card"
+                          >
+                            <option value="">เลือกหมวดหมู่</option>
+                            {(formData.type === 'income' ? incomeCategories : expenseCategories).map((cat) => (
+                              <option key={cat} value={cat}>{cat}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            value={line.amount}
+                            onChange={(e) => setSplitLines(splitLines.map((l, i) => (i === idx ? { ...l, amount: e.target.value } : l)))}
+                            min="0" step="0.01"
+                            className="w-28 px-3 py-2 border border-border rounded-lg text-foreground text-sm"
+                            placeholder="0"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setSplitLines(splitLines.filter((_, i) => i !== idx))}
+                            disabled={splitLines.length <= 2}
+                            className="px-2 text-muted-foreground hover:text-danger disabled:opacity-30"
+                            aria-label="ลบบรรทัด"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex items-center justify-between mt-2">
+                      <button
+                        type="button"
+                        onClick={() => setSplitLines([...splitLines, { category: '', amount: '' }])}
+                        className="text-xs text-primary font-medium"
+                      >
+                        + เพิ่มหมวด
+                      </button>
+                      {(() => {
+                        const remainder = getSplitRemainder(
+                          Number(formData.amount) || 0,
+                          splitLines.map((l) => ({ category: l.category, amount: Number(l.amount) || 0 })),
+                        )
+                        if (remainder === 0) return <span className="text-xs text-success">ยอดรวมครบแล้ว</span>
+                        return (
+                          <span className="text-xs text-danger">
+                            {remainder > 0 ? `เหลืออีก ฿${formatCurrency(remainder)}` : `เกิน ฿${formatCurrency(-remainder)}`}
+                          </span>
+                        )
+                      })()}
+                    </div>
+                  </div>
+                )}
+
+                {activeAccounts.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-2">บัญชี</label>
+                    <select
+                      value={formData.account_id}
+                      onChange={(e) => setFormData(applyCategoryRules({ ...formData, account_id: e.target.value }))}
+                      className="w-full px-4 py-3 border border-border rounded-lg focus:ring-2 focus:ring-primary text-foreground appearance-none bg-card"
+                    >
+                      <option value="">ไม่ระบุบัญชี</option>
+                      {activeAccounts.map((a) => (
+                        <option key={a.id} value={a.id}>{a.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 <div>
-                  <label className="block text-sm font-medium text-foreground mb-2">หมวดหมู่</label>
-                  <select
-                    value={formData.category}
-                    onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-                    className="w-full px-4 py-3 border border-border rounded-lg focus:ring-2 focus:ring-primary text-foreground appearance-none bg-card"
-                    required
-                  >
-                    <option value="">เลือกหมวดหมู่</option>
-                    {(formData.type === 'income' ? incomeCategories : expenseCategories).map((cat) => (
-                      <option key={cat} value={cat}>{cat}</option>
+                  <label className="block text-sm font-medium text-foreground mb-2">แท็ก</label>
+                  {tags.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {tags.map((tag) => (
+                        <button
+                          key={tag.id}
+                          type="button"
+                          onClick={() => toggleFormTag(tag.id)}
+                          className={`px-3 py-1 rounded-full text-xs font-medium ${formTagIds.includes(tag.id) ? 'bg-primary text-primary-foreground' : 'bg-secondary text-secondary-foreground'}`}
+                        >
+                          #{tag.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={newTagText}
+                      onChange={(e) => setNewTagText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') { e.preventDefault(); addTypedTags() }
+                      }}
+                      className="flex-1 min-w-0 px-4 py-2 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground"
+                      placeholder="เพิ่มแท็กใหม่ เช่น trip-chiangmai"
+                    />
+                    <button
+                      type="button"
+                      onClick={addTypedTags}
+                      disabled={!newTagText.trim()}
+                      className="px-3 py-2 rounded-lg border border-border text-sm text-foreground disabled:opacity-50"
+                    >
+                      เพิ่ม
+                    </button>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">รูปใบเสร็จ</label>
+                  <div className="flex flex-wrap gap-2">
+                    {editingTransaction && receiptsOf(editingTransaction.id).map((receipt) => (
+                      <div key={receipt.key} className="relative">
+                        <a href={receipt.fullUrl} target="_blank" rel="noopener noreferrer">
+                          {/* eslint-disable-next-line @next/next/no-img-element -- signed / object URLs */}
+                          <img src={receipt.thumbUrl} alt="ใบเสร็จ" className="w-16 h-16 rounded-lg object-cover border border-border" />
+                        </a>
+                        {receipt.pending && (
+                          <span className="absolute bottom-0 inset-x-0 rounded-b-lg bg-black/60 text-white text-[9px] text-center">รออัปโหลด</span>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => removeSavedReceipt(receipt)}
+                          className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-card border border-border text-xs text-muted-foreground hover:text-danger"
+                          aria-label="ลบรูป"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    ))}
+                    {newReceipts.map((receipt) => (
+                      <div key={receipt.url} className="relative">
+                        {/* eslint-disable-next-line @next/next/no-img-element -- local object URL */}
+                        <img src={receipt.url} alt="ใบเสร็จใหม่" className="w-16 h-16 rounded-lg object-cover border border-primary" />
+                        <button
+                          type="button"
+                          onClick={() => removeNewReceipt(receipt.url)}
+                          className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-card border border-border text-xs text-muted-foreground hover:text-danger"
+                          aria-label="เอารูปออก"
+                        >
+                          ×
+                        </button>
+                      </div>
                     ))}
-                  </select>
+                    <label className="w-16 h-16 rounded-lg border border-dashed border-border flex items-center justify-center text-2xl text-muted-foreground cursor-pointer hover:bg-secondary">
+                      +
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                          addReceiptFiles(e.target.files)
+                          e.target.value = ''
+                        }}
+                      />
+                    </label>
+                  </div>
+                  <p className="text-[10px] text-muted-foreground mt-1">ถ้าออฟไลน์ รูปจะเก็บในเครื่องและอัปโหลดเมื่อออนไลน์</p>
                 </div>
+                </>
+                )}
 
                 <div>
                   <label className="block text-sm font-medium text-foreground mb-2">จำนวนเงิน (บาท)</label>
                   <input
                     type="number"
                     value={formData.amount}
-                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    onChange={(e) => setFormData(applyCategoryRules({ ...formData, amount: e.target.value }))}
                     required min="0" step="0.01"
                     className="w-full px-4 py-3 border border-border rounded-lg focus:ring-2 focus:ring-primary text-foreground placeholder:text-muted-foreground"
                     placeholder="0"
@@ -485,7 +1516,7 @@ export default function TransactionsPage() {
                   <input
                     type="text"
                     value={formData.description}
-                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    onChange={(e) => setFormData(applyCategoryRules({ ...formData, description: e.target.value }))}
                     className="w-full px-4 py-3 border border-border rounded-lg focus:ring-2 focus:ring-primary text-foreground placeholder:text-muted-foreground"
                     placeholder="รายละเอียดเพิ่มเติม"
                   />
@@ -494,7 +1525,7 @@ export default function TransactionsPage() {
                 <button
                   type="submit"
                   className="w-full bg-primary text-primary-foreground py-3 rounded-xl font-medium hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                  disabled={!formData.category || !formData.amount || Number(formData.amount) <= 0 || !formData.date}
+                  disabled={(formData.type !== 'transfer' && !formData.category && splitLines.length === 0) || !formData.amount || Number(formData.amount) <= 0 || !formData.date}
                 >
                   บันทึก
                 </button>
@@ -0,0 +1,213 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { supabase, fetchTaggedTransactions, updateTag, deleteTag } from '@/lib/supabase'
+import { getMonthRange } from '@/lib/finance'
+import { getActivePeriodMonth } from '@/lib/period'
+import { getCategoryEmoji } from '@/lib/category-icons'
+import BottomNavigation from '@/components/BottomNavigation'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeftIcon } from '@/components/icons'
+import { useTags } from '@/src/presentation/tags/use-tags'
+import {
+  computeTagSpending,
+  describeTagError,
+  normalizeTagName,
+  validateTagName,
+  type TaggedTransaction,
+} from '@/src/domain/tag/tag'
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const formatCurrency = (n: number) => n.toLocaleString('th-TH')
+
+type Period = 'cycle' | 'all'
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function TagsPage() {
+  const { tags, isLoading: tagsLoading, reload: reloadTags } = useTags()
+  const [period, setPeriod] = useState<Period>('cycle')
+  const [cycleRange, setCycleRange] = useState<{ start: string; end: string } | null>(null)
+  const [transactions, setTransactions] = useState<TaggedTransaction[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // Current budget cycle, same definition as the dashboard (profile.month_end_day).
+  useEffect(() => {
+    const loadCycle = async () => {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) return
+      const { data } = await supabase.from('profiles').select('month_end_day').eq('id', session.user.id).single()
+      const monthEndDay = data?.month_end_day ?? 0
+      const range = getMonthRange(getActivePeriodMonth(new Date(), monthEndDay), monthEndDay)
+      setCycleRange({ start: format(range.start, 'yyyy-MM-dd'), end: format(range.end, 'yyyy-MM-dd') })
+    }
+    loadCycle()
+  }, [])
+
+  const range = period === 'cycle' ? cycleRange : null
+
+  const loadTransactions = useCallback(async () => {
+    if (period === 'cycle' && !cycleRange) return
+    setLoading(true)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) return
+      setTransactions(await fetchTaggedTransactions(session.user.id, period === 'cycle' ? cycleRange : null))
+    } finally {
+      setLoading(false)
+    }
+  }, [period, cycleRange])
+
+  useEffect(() => {
+    loadTransactions()
+  }, [loadTransactions])
+
+  const report = computeTagSpending(transactions, tags, range)
+  const unusedTags = tags.filter((tag) => !report.some((r) => r.tag.id === tag.id))
+
+  const handleRename = async (tagId: string, currentName: string) => {
+    const input = prompt('ชื่อแท็กใหม่', currentName)
+    if (input == null) return
+    const name = normalizeTagName(input)
+    if (name === currentName) return
+    const invalid = validateTagName(name, tags, tagId)
+    if (invalid) {
+      alert(describeTagError(invalid))
+      return
+    }
+    const { error } = await updateTag(tagId, name)
+    if (error) {
+      alert('เปลี่ยนชื่อแท็กไม่สำเร็จ')
+      return
+    }
+    await reloadTags()
+  }
+
+  const handleDelete = async (tagId: string, name: string) => {
+    if (!confirm(`ลบแท็ก #${name}? รายการที่ติดแท็กนี้จะไม่ถูกลบ`)) return
+    const { error } = await deleteTag(tagId)
+    if (error) {
+      alert('ลบแท็กไม่สำเร็จ')
+      return
+    }
+    await reloadTags()
+    await loadTransactions()
+  }
+
+  const tagActions = (tagId: string, name: string) => (
+    <div className="flex gap-1 shrink-0">
+      <button
+        type="button"
+        onClick={() => handleRename(tagId, name)}
+        className="px-2 py-1 text-xs text-primary hover:bg-primary/10 rounded-lg"
+      >
+        เปลี่ยนชื่อ
+      </button>
+      <button
+        type="button"
+        onClick={() => handleDelete(tagId, name)}
+        className="px-2 py-1 text-xs text-danger hover:bg-danger/10 rounded-lg"
+      >
+        ลบ
+      </button>
+    </div>
+  )
+
+  return (
+    <div className="animate-fade-in px-4 pt-4 pb-28">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-5">
+        <Link
+          href="/transactions"
+          className="p-2 rounded-xl hover:bg-secondary transition-colors text-muted-foreground"
+        >
+          <ArrowLeftIcon size={18} />
+        </Link>
+        <h1 className="text-xl font-bold text-foreground">รายงานตามแท็ก</h1>
+      </div>
+
+      {/* Period toggle */}
+      <div className="flex gap-2 mb-4">
+        {([['cycle', 'รอบนี้'], ['all', 'ทั้งหมด']] as const).map(([value, label]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setPeriod(value)}
+            className={`px-4 py-1.5 rounded-full text-sm font-medium ${period === value ? 'bg-primary text-primary-foreground' : 'bg-secondary text-secondary-foreground'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {loading || tagsLoading ? (
+        <p className="text-sm text-muted-foreground text-center py-8">กำลังโหลด...</p>
+      ) : tags.length === 0 ? (
+        <Card className="shadow-card border-0">
+          <CardContent className="p-4 text-sm text-muted-foreground text-center">
+            ยังไม่มีแท็ก — เพิ่มแท็กได้ตอนบันทึกหรือแก้ไขรายการ
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {report.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">ไม่มีรายการที่ติดแท็กในช่วงนี้</p>
+          )}
+          {report.map(({ tag, count, totalExpense, totalIncome, byCategory }) => (
+            <Card key={tag.id} className="shadow-card border-0">
+              <CardContent className="p-4 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-foreground truncate">#{tag.name}</p>
+                    <p className="text-xs text-muted-foreground">{count} รายการ</p>
+                  </div>
+                  {tagActions(tag.id, tag.name)}
+                </div>
+                <div className="flex gap-4 text-sm">
+                  <span className="text-danger tabular-nums">จ่าย ฿{formatCurrency(totalExpense)}</span>
+                  {totalIncome > 0 && (
+                    <span className="text-success tabular-nums">รับ ฿{formatCurrency(totalIncome)}</span>
+                  )}
+                </div>
+                {byCategory.length > 0 && (
+                  <div className="space-y-1">
+                    {byCategory.map((c) => (
+                      <div key={c.category} className="flex items-center justify-between text-xs">
+                        <span className="text-muted-foreground truncate">
+                          {getCategoryEmoji(c.category)} {c.category || 'ไม่ระบุหมวด'}
+                        </span>
+                        <span className="tabular-nums text-foreground">
+                          ฿{formatCurrency(c.total)} <Badge variant="secondary" className="ml-1">{c.percent}%</Badge>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+
+          {unusedTags.length > 0 && (
+            <Card className="shadow-card border-0">
+              <CardContent className="p-4 space-y-2">
+                <p className="text-sm font-medium text-foreground">แท็กที่ไม่มีรายการในช่วงนี้</p>
+                {unusedTags.map((tag) => (
+                  <div key={tag.id} className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-muted-foreground truncate">#{tag.name}</span>
+                    {tagActions(tag.id, tag.name)}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      <BottomNavigation />
+    </div>
+  )
+}
@@ -1,5 +1,16 @@
 'use client'
 
+import AppLock from '@/components/AppLock'
+import OfflineDataLock from '@/components/OfflineDataLock'
+import BudgetAlertToasts from '@/components/BudgetAlertToasts'
+
 export default function AppInitializer({ children }: { children: React.ReactNode }) {
-  return <>{children}</>
+  return (
+    <AppLock>
+      <OfflineDataLock>
+        {children}
+        <BudgetAlertToasts />
+      </OfflineDataLock>
+    </AppLock>
+  )
 }
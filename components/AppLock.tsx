@@ -0,0 +1,167 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { supabase } from '@/lib/supabase'
+import {
+  getAppLockFailedAttempts,
+  getAppLockPin,
+  getAppLockTimeoutMinutes,
+  setAppLockFailedAttempts,
+  setAppLockPin,
+} from '@/lib/storage'
+import { verifyPin } from '@/src/infrastructure/security/app-lock-pin'
+import {
+  APP_LOCK_PIN_MAX_LENGTH,
+  shouldLockOnReturn,
+  unlockCooldownLeft,
+  type AppLockFailedAttempts,
+  type AppLockPinHash,
+} from '@/src/domain/security/app-lock'
+
+/** Dispatched on `window` after the PIN is set, changed or removed in settings. */
+export const APP_LOCK_CHANGED_EVENT = 'app-lock-changed'
+
+/**
+ * Local PIN lock in front of every page (the Supabase session is untouched).
+ * Pages are not rendered until the first unlock; when the app locks again
+ * after coming back from the background, an opaque overlay covers them so
+ * unsaved input survives.
+ */
+export default function AppLock({ children }: { children: React.ReactNode }) {
+  const router = useRouter()
+  const [pinHash, setPinHash] = useState<AppLockPinHash | null | undefined>(undefined)
+  const [locked, setLocked] = useState(true)
+  const [unlockedOnce, setUnlockedOnce] = useState(false)
+  const [pin, setPin] = useState('')
+  const [error, setError] = useState('')
+  const [busy, setBusy] = useState(false)
+  // Kept in localStorage too: reloading the page must not reset the cooldown.
+  const failedRef = useRef<AppLockFailedAttempts>({ attempts: 0, lastAt: null })
+  const hiddenAtRef = useRef<number | null>(null)
+
+  useEffect(() => {
+    setPinHash(getAppLockPin())
+    failedRef.current = getAppLockFailedAttempts()
+  }, [])
+
+  // PIN set / changed / removed from settings: the user is already in, so stay unlocked.
+  const refresh = useCallback(() => {
+    setPinHash(getAppLockPin())
+    setLocked(false)
+    setUnlockedOnce(true)
+  }, [])
+
+  useEffect(() => {
+    window.addEventListener(APP_LOCK_CHANGED_EVENT, refresh)
+    return () => window.removeEventListener(APP_LOCK_CHANGED_EVENT, refresh)
+  }, [refresh])
+
+  useEffect(() => {
+    if (!pinHash) return
+    const onVisibility = () => {
+      const timeout = getAppLockTimeoutMinutes()
+      if (document.visibilityState === 'hidden') {
+        hiddenAtRef.current = Date.now()
+        // Lock before the OS takes the app switcher snapshot.
+        if (timeout === 0) setLocked(true)
+        return
+      }
+      if (shouldLockOnReturn(hiddenAtRef.current, Date.now(), timeout)) setLocked(true)
+      hiddenAtRef.current = null
+    }
+    document.addEventListener('visibilitychange', onVisibility)
+    return () => document.removeEventListener('visibilitychange', onVisibility)
+  }, [pinHash])
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!pinHash) return
+    const wait = unlockCooldownLeft(failedRef.current.attempts, failedRef.current.lastAt, Date.now())
+    if (wait > 0) {
+      setError(`ใส่ PIN ผิดหลายครั้ง ลองใหม่ใน ${Math.ceil(wait / 1000)} วินาที`)
+      return
+    }
+    setBusy(true)
+    setError('')
+    try {
+      if (await verifyPin(pin, pinHash)) {
+        failedRef.current = { attempts: 0, lastAt: null }
+        setAppLockFailedAttempts(null)
+        setLocked(false)
+        setUnlockedOnce(true)
+      } else {
+        failedRef.current = { attempts: failedRef.current.attempts + 1, lastAt: Date.now() }
+        setAppLockFailedAttempts(failedRef.current)
+        setError('PIN ไม่ถูกต้อง')
+      }
+    } catch (err) {
+      console.error('Error checking app lock PIN:', err)
+      setError('ตรวจสอบ PIN ไม่สำเร็จ')
+    } finally {
+      setPin('')
+      setBusy(false)
+    }
+  }
+
+  // Forgotten PIN: signing in again proves who the user is.
+  const handleForgot = async () => {
+    if (!confirm('ออกจากระบบและยกเลิก PIN?\nเข้าสู่ระบบใหม่อีกครั้งเพื่อใช้งานต่อ')) return
+    setBusy(true)
+    try {
+      await supabase.auth.signOut()
+      setAppLockPin(null)
+      setAppLockFailedAttempts(null)
+      setPinHash(null)
+      router.push('/auth/login')
+      router.refresh()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (pinHash === undefined) return null
+  if (!pinHash) return <>{children}</>
+
+  return (
+    <>
+      {unlockedOnce && <div aria-hidden={locked || undefined}>{children}</div>}
+      {locked && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-background px-6">
+          <form onSubmit={handleUnlock} className="w-full max-w-sm space-y-4 text-center">
+            <div className="w-16 h-16 mx-auto rounded-2xl bg-primary text-primary-foreground flex items-center justify-center text-2xl font-bold">
+              ฿
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-foreground">ใส่ PIN เพื่อเปิดแอป</h1>
+              <p className="text-sm text-muted-foreground">แอปถูกล็อกไว้บนเครื่องนี้</p>
+            </div>
+            <input
+              type="password"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              autoFocus
+              autoComplete="off"
+              maxLength={APP_LOCK_PIN_MAX_LENGTH}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              placeholder="PIN"
+              className="w-full px-4 py-2 border border-border rounded-xl text-foreground text-center text-lg tracking-[0.5em] placeholder:text-muted-foreground placeholder:tracking-normal bg-card"
+            />
+            {error && <p className="text-sm text-danger">{error}</p>}
+            <button
+              type="submit"
+              disabled={busy || !pin}
+              className="w-full py-2 rounded-xl bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {busy ? 'กำลังตรวจสอบ...' : 'ปลดล็อก'}
+            </button>
+            <button type="button" disabled={busy} onClick={handleForgot} className="text-xs text-muted-foreground underline">
+              ลืม PIN
+            </button>
+          </form>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import {
+  BUDGET_ALERT_EVENT_NAME,
+  type BudgetAlertEventDetail,
+} from '@/src/infrastructure/budget/budget-alerts'
+import { describeBudgetAlert, type BudgetAlert } from '@/src/domain/budget/budget-alert'
+
+const TOAST_MS = 6000
+
+type Toast = { id: number; alert: BudgetAlert }
+
+/** In-app toasts for budget alerts fired after a transaction is saved. */
+export default function BudgetAlertToasts() {
+  const [toasts, setToasts] = useState<Toast[]>([])
+  const nextIdRef = useRef(0)
+
+  useEffect(() => {
+    const timers: ReturnType<typeof setTimeout>[] = []
+    const handleAlerts = (event: CustomEvent<BudgetAlertEventDetail>) => {
+      const added = event.detail.alerts.map((alert) => ({ id: nextIdRef.current++, alert }))
+      setToasts((prev) => [...prev, ...added])
+      timers.push(setTimeout(() => {
+        const ids = new Set(added.map((t) => t.id))
+        setToasts((prev) => prev.filter((t) => !ids.has(t.id)))
+      }, TOAST_MS))
+    }
+    window.addEventListener(BUDGET_ALERT_EVENT_NAME, handleAlerts as EventListener)
+    return () => {
+      window.removeEventListener(BUDGET_ALERT_EVENT_NAME, handleAlerts as EventListener)
+      timers.forEach(clearTimeout)
+    }
+  }, [])
+
+  if (toasts.length === 0) return null
+
+  return (
+    <div className="fixed top-4 left-4 right-4 max-w-lg mx-auto z-50 space-y-2">
+      {toasts.map(({ id, alert }) => {
+        const { title, body } = describeBudgetAlert(alert)
+        const over = alert.spent > alert.budget
+        return (
+          <div
+            key={id}
+            role="alert"
+            className={`rounded-xl py-2 px-4 shadow-card text-white flex items-start gap-2 ${over ? 'bg-danger' : 'bg-yellow-500'}`}
+          >
+            <div className="flex-1">
+              <p className="text-sm font-medium">{title}</p>
+              <p className="text-xs opacity-90">{body}</p>
+            </div>
+            <Link href="/settings#budget-alerts" className="text-xs underline whitespace-nowrap">
+              ประวัติ
+            </Link>
+            <button
+              type="button"
+              onClick={() => setToasts((prev) => prev.filter((t) => t.id !== id))}
+              className="text-sm px-1"
+              aria-label="ปิด"
+            >
+              ✕
+            </button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
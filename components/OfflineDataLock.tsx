@@ -0,0 +1,132 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { offlineDB, type OfflineEncryptionState } from '@/lib/offline-db'
+import { getOfflineAutoLockMinutes } from '@/lib/storage'
+import { shouldAutoLock } from '@/src/domain/security/offline-encryption'
+
+/** Dispatched on `window` after encryption is turned on/off or locked from settings. */
+export const OFFLINE_ENCRYPTION_CHANGED_EVENT = 'offline-encryption-changed'
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'scroll'] as const
+const AUTO_LOCK_CHECK_MS = 15_000
+
+/**
+ * Keeps pages unmounted while the encrypted offline data is locked: shows the
+ * unlock screen on app start and again after the auto-lock delay without
+ * interaction. Renders children as-is when encryption is off.
+ */
+export default function OfflineDataLock({ children }: { children: React.ReactNode }) {
+  const [state, setState] = useState<OfflineEncryptionState | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [error, setError] = useState('')
+  const [busy, setBusy] = useState(false)
+  const lastActivityRef = useRef(Date.now())
+
+  const refresh = useCallback(async () => {
+    // IndexedDB unavailable (private mode…) = nothing stored to protect.
+    setState(await offlineDB.getEncryptionState().catch((): OfflineEncryptionState => 'off'))
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    window.addEventListener(OFFLINE_ENCRYPTION_CHANGED_EVENT, refresh)
+    return () => window.removeEventListener(OFFLINE_ENCRYPTION_CHANGED_EVENT, refresh)
+  }, [refresh])
+
+  // Auto-lock after inactivity (checked on a timer and when the app comes back to the foreground).
+  useEffect(() => {
+    if (state !== 'unlocked') return
+    lastActivityRef.current = Date.now()
+    const onActivity = () => {
+      lastActivityRef.current = Date.now()
+    }
+    const check = () => {
+      if (shouldAutoLock(lastActivityRef.current, Date.now(), getOfflineAutoLockMinutes())) {
+        offlineDB.lock()
+        setState('locked')
+      }
+    }
+    const onVisibility = () => {
+      if (document.visibilityState === 'visible') check()
+    }
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, onActivity, { passive: true }))
+    document.addEventListener('visibilitychange', onVisibility)
+    const timer = setInterval(check, AUTO_LOCK_CHECK_MS)
+    return () => {
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, onActivity))
+      document.removeEventListener('visibilitychange', onVisibility)
+      clearInterval(timer)
+    }
+  }, [state])
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    setError('')
+    try {
+      if (await offlineDB.unlock(passphrase)) {
+        setPassphrase('')
+        setState('unlocked')
+      } else {
+        setError('รหัสผ่านไม่ถูกต้อง')
+      }
+    } catch (err) {
+      console.error('Error unlocking offline data:', err)
+      setError('ปลดล็อกไม่สำเร็จ')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleForgot = async () => {
+    if (!confirm('ลบข้อมูลทั้งหมดที่เก็บไว้บนเครื่องนี้และปิดการเข้ารหัส?\nรายการที่ยังไม่ได้ซิงก์จะหายไป ข้อมูลบนเซิร์ฟเวอร์ยังอยู่ครบ')) return
+    setBusy(true)
+    try {
+      await offlineDB.wipeAllData()
+      setState('off')
+    } catch (err) {
+      console.error('Error wiping offline data:', err)
+      setError('ลบข้อมูลไม่สำเร็จ')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (state === null) return null
+  if (state !== 'locked') return <>{children}</>
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-6">
+      <form onSubmit={handleUnlock} className="w-full max-w-sm space-y-4 text-center">
+        <div className="w-16 h-16 mx-auto rounded-2xl bg-primary text-primary-foreground flex items-center justify-center text-2xl font-bold">
+          ฿
+        </div>
+        <div>
+          <h1 className="text-lg font-semibold text-foreground">ข้อมูลบนเครื่องถูกล็อก</h1>
+          <p className="text-sm text-muted-foreground">ใส่รหัสผ่านที่ใช้เข้ารหัสข้อมูลบนเครื่องนี้</p>
+        </div>
+        <input
+          type="password"
+          autoFocus
+          autoComplete="current-password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="รหัสผ่าน"
+          className="w-full px-4 py-2 border border-border rounded-xl text-foreground text-sm placeholder:text-muted-foreground bg-card"
+        />
+        {error && <p className="text-sm text-danger">{error}</p>}
+        <button
+          type="submit"
+          disabled={busy || !passphrase}
+          className="w-full py-2 rounded-xl bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {busy ? 'กำลังปลดล็อก...' : 'ปลดล็อก'}
+        </button>
+        <button type="button" disabled={busy} onClick={handleForgot} className="text-xs text-muted-foreground underline">
+          ลืมรหัสผ่าน
+        </button>
+      </form>
+    </div>
+  )
+}
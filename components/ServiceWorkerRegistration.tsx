@@ -2,15 +2,27 @@
 
 import { useEffect, useState } from 'react'
 import { syncService } from '@/lib/sync-service'
+import type { SyncItemsFailedDetail } from '@/src/infrastructure/sync/window-sync-event-bus'
+import { OUTBOX_KIND_LABELS, describeSyncFailures } from '@/src/domain/sync/retry'
 
 export default function ServiceWorkerRegistration() {
   const [isOnline, setIsOnline] = useState(true)
   const [syncStatus, setSyncStatus] = useState<{ message: string; type: 'success' | 'error' | null }>({ message: '', type: null })
+  const [failedItems, setFailedItems] = useState<SyncItemsFailedDetail['items']>([])
+  const [retrying, setRetrying] = useState(false)
 
   useEffect(() => {
     // Check online status
     setIsOnline(navigator.onLine)
 
+    // Push the offline queue and pull changes made on other devices
+    syncService.initialize()
+    if (navigator.onLine) {
+      syncService.syncAll('startup').catch((error) => {
+        console.error('[SW Registration] Startup sync failed:', error)
+      })
+    }
+
     // Note: SyncService handles online/offline events via its own listeners
     // We only update UI state here
     const handleOnline = () => {
@@ -34,7 +46,13 @@ export default function ServiceWorkerRegistration() {
       }
     }
 
+    // Items the sync keeps failing on (empty list = all clear)
+    const handleItemsFailed = (event: CustomEvent<SyncItemsFailedDetail>) => {
+      setFailedItems(event.detail.items)
+    }
+
     window.addEventListener('sync-complete', handleSyncComplete as EventListener)
+    window.addEventListener('sync-items-failed', handleItemsFailed as EventListener)
 
     window.addEventListener('online', handleOnline)
     window.addEventListener('offline', handleOffline)
@@ -74,9 +92,27 @@ export default function ServiceWorkerRegistration() {
       window.removeEventListener('online', handleOnline)
       window.removeEventListener('offline', handleOffline)
       window.removeEventListener('sync-complete', handleSyncComplete as EventListener)
+      window.removeEventListener('sync-items-failed', handleItemsFailed as EventListener)
     }
   }, [])
 
+  const retryFailed = async () => {
+    setRetrying(true)
+    try {
+      await syncService.retryFailedItems()
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  const discardFailed = async () => {
+    const list = failedItems.map((item) => `• ${OUTBOX_KIND_LABELS[item.kind]} ${item.label}`.trim()).join('\n')
+    if (!confirm(`ทิ้งรายการที่ซิงก์ไม่สำเร็จ? การเปลี่ยนแปลงเหล่านี้จะไม่ถูกส่งขึ้นเซิร์ฟเวอร์\n\n${list}`)) return
+    await syncService.discardFailedItems()
+  }
+
+  const quarantinedCount = failedItems.filter((item) => item.quarantined).length
+
   return (
     <>
       {!isOnline && (
@@ -86,6 +122,24 @@ export default function ServiceWorkerRegistration() {
           </p>
         </div>
       )}
+      {failedItems.length > 0 && (
+        <div className="fixed bottom-20 left-4 right-4 bg-danger text-white rounded-xl py-2 px-4 z-50 flex items-center gap-2 shadow-card">
+          <p className="text-sm flex-1" title={failedItems.map((item) => item.last_error).join('\n')}>
+            {describeSyncFailures(failedItems.length, quarantinedCount)}
+          </p>
+          <button
+            type="button"
+            disabled={retrying}
+            onClick={retryFailed}
+            className="px-3 py-1 rounded-lg bg-white/20 text-sm font-medium disabled:opacity-50"
+          >
+            {retrying ? 'กำลังลอง...' : 'ลองใหม่'}
+          </button>
+          <button type="button" onClick={discardFailed} className="px-3 py-1 rounded-lg text-sm">
+            ทิ้ง
+          </button>
+        </div>
+      )}
       {syncStatus.type === 'success' && (
         <div className="fixed top-0 left-0 right-0 bg-green-500 text-white text-center py-2 px-4 z-50 animate-slide-down">
           <p className="text-sm">{syncStatus.message}</p>
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for account (wallet) balances.
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  computeAccountBalances,
+  filterTransactionsByAccounts,
+  UNASSIGNED_ACCOUNT_LABEL,
+  type Account,
+} from '../src/domain/account/account'
+import { computeBudgetCycleResult } from '../src/application/budget/budget-service'
+
+const accounts: Account[] = [
+  { id: 'cash', name: 'เงินสด', kind: 'cash', openingBalance: 500 },
+  { id: 'kbank', name: 'KBank', kind: 'bank', openingBalance: 10000 },
+]
+
+const txs = [
+  { type: 'income' as const, amount: 20000, category: 'เงินเดือน', date: '2026-01-27', account_id: 'kbank' },
+  { type: 'expense' as const, amount: 300, category: 'ค่าอาหาร', date: '2026-01-28', account_id: 'cash' },
+  { type: 'expense' as const, amount: 1000, category: 'ช้อปปิ้ง', date: '2026-01-29', account_id: 'kbank' },
+  { type: 'expense' as const, amount: 50, category: 'ค่าเดินทาง', date: '2026-01-29' },
+]
+
+describe('computeAccountBalances', () => {
+  it('balance = opening + income − expense per account', () => {
+    const balances = computeAccountBalances(accounts, txs)
+    const cash = balances.find((b) => b.accountId === 'cash')
+    const kbank = balances.find((b) => b.accountId === 'kbank')
+    expect(cash?.balance).toBe(200)
+    expect(kbank?.balance).toBe(29000)
+  })
+
+  it('puts transactions without account (or unknown account) in the unassigned row', () => {
+    const balances = computeAccountBalances(accounts, [
+      ...txs,
+      { type: 'expense' as const, amount: 25, date: '2026-01-30', account_id: 'deleted' },
+    ])
+    const last = balances[balances.length - 1]
+    expect(last.accountId).toBeNull()
+    expect(last.name).toBe(UNASSIGNED_ACCOUNT_LABEL)
+    expect(last.balance).toBe(-75)
+  })
+
+  it('ignores transactions after asOf', () => {
+    const balances = computeAccountBalances(accounts, txs, '2026-01-28')
+    expect(balances.find((b) => b.accountId === 'kbank')?.balance).toBe(30000)
+    expect(balances).toHaveLength(2)
+  })
+})
+
+describe('filterTransactionsByAccounts', () => {
+  it('returns everything when no accounts are selected', () => {
+    expect(filterTransactionsByAccounts(txs, [])).toHaveLength(4)
+  })
+
+  it('keeps unassigned rows only when null is selected', () => {
+    expect(filterTransactionsByAccounts(txs, ['cash'])).toHaveLength(1)
+    expect(filterTransactionsByAccounts(txs, ['cash', null])).toHaveLength(2)
+  })
+})
+
+describe('computeBudgetCycleResult with accountIds', () => {
+  it('scopes balance and spending to the selected accounts', () => {
+    const result = computeBudgetCycleResult({
+      today: new Date(2026, 0, 30),
+      salaryConfig: { salaryDay: 27 },
+      budgetHistory: {},
+      transactions: txs,
+      carryForwardEnabled: false,
+      carryForwardAmount: 0,
+      accountIds: ['kbank'],
+    })
+    expect(result.spent).toBe(1000)
+    expect(result.currentBalance).toBe(19000)
+    expect(result.spentByCategory['ค่าอาหาร']).toBeUndefined()
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for the app lock (PIN rules, re-lock timeout, PIN hashing).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  APP_LOCK_COOLDOWN_MS,
+  APP_LOCK_MAX_ATTEMPTS,
+  DEFAULT_APP_LOCK_TIMEOUT_MINUTES,
+  isAppLockFailedAttempts,
+  normalizeAppLockTimeout,
+  shouldLockOnReturn,
+  unlockCooldownLeft,
+  validateNewPin,
+} from '../src/domain/security/app-lock'
+import { hashPin, verifyPin } from '../src/infrastructure/security/app-lock-pin'
+
+describe('validateNewPin', () => {
+  it('accepts 4–6 digits that match the confirmation', () => {
+    expect(validateNewPin('1234', '1234')).toBeNull()
+    expect(validateNewPin('123456', '123456')).toBeNull()
+  })
+
+  it('rejects non-digits, wrong lengths and mismatches', () => {
+    expect(validateNewPin('12a4', '12a4')).toBe('NOT_DIGITS')
+    expect(validateNewPin('123', '123')).toBe('LENGTH')
+    expect(validateNewPin('1234567', '1234567')).toBe('LENGTH')
+    expect(validateNewPin('1234', '1235')).toBe('MISMATCH')
+  })
+})
+
+describe('app lock timing', () => {
+  it('locks on return only after the timeout; 0 = always', () => {
+    expect(shouldLockOnReturn(null, 10_000_000, 0)).toBe(false)
+    expect(shouldLockOnReturn(0, 59_999, 1)).toBe(false)
+    expect(shouldLockOnReturn(0, 60_000, 1)).toBe(true)
+    expect(shouldLockOnReturn(1000, 1000, 0)).toBe(true)
+  })
+
+  it('keeps 0 as a valid timeout and falls back to the default otherwise', () => {
+    expect(normalizeAppLockTimeout('0')).toBe(0)
+    expect(normalizeAppLockTimeout(null)).toBe(DEFAULT_APP_LOCK_TIMEOUT_MINUTES)
+    expect(normalizeAppLockTimeout('7')).toBe(DEFAULT_APP_LOCK_TIMEOUT_MINUTES)
+  })
+
+  it('waits after too many wrong PINs', () => {
+    expect(unlockCooldownLeft(APP_LOCK_MAX_ATTEMPTS - 1, 0, 0)).toBe(0)
+    expect(unlockCooldownLeft(APP_LOCK_MAX_ATTEMPTS, 0, 1000)).toBe(APP_LOCK_COOLDOWN_MS - 1000)
+    expect(unlockCooldownLeft(APP_LOCK_MAX_ATTEMPTS, 0, APP_LOCK_COOLDOWN_MS)).toBe(0)
+  })
+})
+
+describe('isAppLockFailedAttempts', () => {
+  it('accepts stored attempts and rejects anything else', () => {
+    expect(isAppLockFailedAttempts({ attempts: 5, lastAt: 1_000 })).toBe(true)
+    expect(isAppLockFailedAttempts({ attempts: 0, lastAt: null })).toBe(true)
+    expect(isAppLockFailedAttempts({ attempts: '5', lastAt: 1_000 })).toBe(false)
+    expect(isAppLockFailedAttempts({ attempts: 5 })).toBe(false)
+    expect(isAppLockFailedAttempts(null)).toBe(false)
+  })
+})
+
+describe('PIN hashing', () => {
+  it('stores a salted hash that only the same PIN verifies', async () => {
+    const first = await hashPin('1234', 1000)
+    const second = await hashPin('1234', 1000)
+    expect(first.hash).not.toContain('1234')
+    expect(first.salt).not.toBe(second.salt)
+    expect(first.hash).not.toBe(second.hash)
+    expect(await verifyPin('1234', first)).toBe(true)
+    expect(await verifyPin('4321', first)).toBe(false)
+  })
+})
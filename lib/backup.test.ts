@@ -0,0 +1,115 @@
+/**
+ * Unit tests for the backup archive format and export / restore use-cases.
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  BACKUP_VERSION,
+  buildBackupArchive,
+  parseBackupArchive,
+  prepareRestore,
+  rowsToCsv,
+  type BackupRow,
+  type BackupTable,
+} from '../src/domain/backup/backup'
+import { restoreUserData } from '../src/application/backup/backup-service'
+import type { BackupDataPort } from '../src/application/backup/ports/backup-ports'
+
+const sequentialIds = () => {
+  let n = 0
+  return () => `new-${++n}`
+}
+
+const sampleArchive = () =>
+  buildBackupArchive(
+    { id: 'u1', user_id: 'u1', salary_day: 25 },
+    {
+      accounts: [{ id: 'a1', user_id: 'u1', name: 'เงินสด' }],
+      recurring_transactions: [{ id: 'r1', user_id: 'u1', account_id: 'a1' }],
+      transactions: [
+        { id: 't1', user_id: 'u1', account_id: 'a1', recurring_id: 'r1', transfer_id: null },
+        { id: 't2', user_id: 'u1', account_id: 'a1', recurring_id: null, transfer_id: 'x1' },
+        { id: 't3', user_id: 'u1', account_id: 'gone', recurring_id: null, transfer_id: 'x1' },
+      ],
+    },
+    new Date('2026-01-15T08:00:00Z'),
+  )
+
+describe('buildBackupArchive / parseBackupArchive', () => {
+  it('strips owner columns and round-trips through JSON', () => {
+    const archive = sampleArchive()
+    expect(archive.profile).toEqual({ salary_day: 25 })
+    expect(archive.tables.accounts[0]).toEqual({ id: 'a1', name: 'เงินสด' })
+    expect(archive.tables.debt_items).toEqual([])
+
+    const parsed = parseBackupArchive(JSON.stringify(archive))
+    expect(parsed).toEqual({ ok: true, archive })
+  })
+
+  it('rejects files that are not a supported backup', () => {
+    expect(parseBackupArchive('not json')).toEqual({ ok: false, error: 'not_json' })
+    expect(parseBackupArchive('{"format":"other"}')).toEqual({ ok: false, error: 'wrong_format' })
+    expect(
+      parseBackupArchive(JSON.stringify({ format: 'moneyplan-backup', version: BACKUP_VERSION + 1, tables: {} })),
+    ).toEqual({ ok: false, error: 'unsupported_version' })
+    expect(
+      parseBackupArchive(JSON.stringify({ format: 'moneyplan-backup', version: 1, tables: { transactions: 'x' } })),
+    ).toEqual({ ok: false, error: 'invalid_tables' })
+  })
+})
+
+describe('prepareRestore', () => {
+  it('assigns fresh ids, stamps the user and remaps references', () => {
+    const { profile, tables } = prepareRestore(sampleArchive(), 'u2', sequentialIds())
+    const accountId = tables.accounts[0].id
+    const recurringId = tables.recurring_transactions[0].id
+
+    expect(profile).toEqual({ salary_day: 25, id: 'u2' })
+    expect(tables.recurring_transactions[0].account_id).toBe(accountId)
+    expect(tables.transactions.every((t) => t.user_id === 'u2')).toBe(true)
+    expect(tables.transactions[0]).toMatchObject({ account_id: accountId, recurring_id: recurringId, transfer_id: null })
+
+    // Both legs of a transfer share one new transfer id; dangling refs become null.
+    expect(tables.transactions[1].transfer_id).toBe(tables.transactions[2].transfer_id)
+    expect(tables.transactions[1].transfer_id).not.toBe('x1')
+    expect(tables.transactions[2].account_id).toBeNull()
+  })
+})
+
+describe('rowsToCsv', () => {
+  it('quotes cells with separators and uses the union of columns', () => {
+    const csv = rowsToCsv([{ a: 'x,y', b: 'say "hi"' }, { a: 1, c: { k: true } }])
+    expect(csv).toBe('\uFEFFa,b,c\r\n"x,y","say ""hi""",\r\n1,,"{""k"":true}"\r\n')
+  })
+})
+
+describe('restoreUserData', () => {
+  const fakePort = (existing: Partial<Record<BackupTable, number>> = {}) => {
+    const inserted: { table: BackupTable; rows: BackupRow[] }[] = []
+    const port: BackupDataPort = {
+      loadProfile: async () => null,
+      loadTable: async () => [],
+      countRows: async (_userId, table) => existing[table] ?? 0,
+      insertRows: async (table, rows) => {
+        inserted.push({ table, rows })
+      },
+      saveProfile: async () => {},
+    }
+    return { port, inserted }
+  }
+
+  it('refuses to restore into an account that already has data', async () => {
+    const { port, inserted } = fakePort({ transactions: 3 })
+    const result = await restoreUserData({ userId: 'u2', archive: sampleArchive(), newId: sequentialIds() }, port)
+    expect(result).toMatchObject({ ok: false, error: 'account_not_empty', table: 'transactions' })
+    expect(inserted).toEqual([])
+  })
+
+  it('inserts referenced tables first', async () => {
+    const { port, inserted } = fakePort()
+    const result = await restoreUserData({ userId: 'u2', archive: sampleArchive(), newId: sequentialIds() }, port)
+    expect(result).toEqual({ ok: true, inserted: { accounts: 1, recurring_transactions: 1, transactions: 3 } })
+    expect(inserted.map((i) => i.table)).toEqual(['accounts', 'recurring_transactions', 'transactions'])
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for budget overspend alerts (thresholds, evaluation, alert log).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  appendBudgetAlerts,
+  evaluateBudgetAlerts,
+  parseAlertThresholds,
+  type BudgetAlert,
+  type BudgetAlertRecord,
+} from '../src/domain/budget/budget-alert'
+import { checkBudgetAlerts } from '../src/application/budget/budget-alert-service'
+import type { BudgetAlertNotifierPort, BudgetAlertSourcePort } from '../src/application/budget/ports/budget-alert-ports'
+import type { TransactionLike } from '../src/domain/finance/finance'
+import type { RolloverRules } from '../src/domain/budget/envelope'
+
+const FOOD = 'ค่าอาหาร'
+const TRAVEL = 'ค่าเดินทาง'
+const CYCLE = '2026-03-01'
+
+const record = (category: string, threshold: number, cycleStart = CYCLE): BudgetAlertRecord => ({
+  cycleStart,
+  category,
+  threshold,
+  spent: 0,
+  budget: 1000,
+  firedAt: '2026-03-05T10:00:00.000Z',
+})
+
+describe('parseAlertThresholds', () => {
+  it('sorts and de-duplicates; blank turns alerts off', () => {
+    expect(parseAlertThresholds('100, 80%, 80')).toEqual([80, 100])
+    expect(parseAlertThresholds('  ')).toEqual([])
+  })
+
+  it('rejects text and out-of-range values', () => {
+    expect(parseAlertThresholds('80, abc')).toBe('NOT_A_NUMBER')
+    expect(parseAlertThresholds('0')).toBe('OUT_OF_RANGE')
+    expect(parseAlertThresholds('250')).toBe('OUT_OF_RANGE')
+  })
+})
+
+describe('evaluateBudgetAlerts', () => {
+  const base = { cycleStart: CYCLE, budgets: { [FOOD]: 1000, [TRAVEL]: 500 }, thresholds: {} }
+
+  it('reports the highest threshold crossed per category', () => {
+    const alerts = evaluateBudgetAlerts({ ...base, spentByCategory: { [FOOD]: 1200, [TRAVEL]: 100 }, log: [] })
+    expect(alerts).toEqual([{ cycleStart: CYCLE, category: FOOD, threshold: 100, spent: 1200, budget: 1000 }])
+  })
+
+  it('fires each threshold once per cycle, again in a new cycle', () => {
+    const spentByCategory = { [FOOD]: 850 }
+    expect(evaluateBudgetAlerts({ ...base, spentByCategory, log: [record(FOOD, 80)] })).toEqual([])
+    expect(evaluateBudgetAlerts({ ...base, spentByCategory, log: [record(FOOD, 100)] })).toEqual([])
+    expect(evaluateBudgetAlerts({ ...base, spentByCategory, log: [record(FOOD, 80, '2026-02-01')] })).toHaveLength(1)
+  })
+
+  it('uses per-category thresholds and skips categories without a budget', () => {
+    const alerts = evaluateBudgetAlerts({
+      ...base,
+      budgets: { [FOOD]: 1000, [TRAVEL]: 0 },
+      spentByCategory: { [FOOD]: 550, [TRAVEL]: 300 },
+      thresholds: { [FOOD]: [50] },
+      log: [],
+    })
+    expect(alerts.map((a) => [a.category, a.threshold])).toEqual([[FOOD, 50]])
+  })
+})
+
+describe('appendBudgetAlerts', () => {
+  it('keeps the newest first, capped', () => {
+    const log = appendBudgetAlerts([record(FOOD, 80)], [record(TRAVEL, 100)], 1)
+    expect(log.map((r) => r.category)).toEqual([TRAVEL])
+  })
+})
+
+describe('checkBudgetAlerts', () => {
+  const setup = (transactions: TransactionLike[], failDelivery = false, rolloverRules: RolloverRules = {}) => {
+    const log: BudgetAlertRecord[] = []
+    const delivered: BudgetAlert[] = []
+    const source: BudgetAlertSourcePort = {
+      loadSalaryDay: async () => 0,
+      loadBudgetHistory: async () => ({ '1970-01-01': { [FOOD]: 1000 } }),
+      loadRolloverRules: async () => rolloverRules,
+      loadTransactions: async (_userId, from, to) => transactions.filter((t) => t.date >= from && t.date <= to),
+      loadThresholds: () => ({}),
+      loadLog: () => [...log],
+      recordAlerts: (records) => log.unshift(...records),
+    }
+    const notifier: BudgetAlertNotifierPort = {
+      notify: async (alerts) => {
+        if (failDelivery) throw new Error('denied')
+        delivered.push(...alerts)
+      },
+    }
+    return { log, delivered, source, notifier }
+  }
+  const input = { userId: 'u1', now: new Date(2026, 2, 10, 12), logger: { error: () => {} } }
+
+  it('logs and delivers alerts for the current cycle once', async () => {
+    const { log, delivered, source, notifier } = setup([
+      { type: 'expense', amount: 900, category: FOOD, date: '2026-03-02' },
+      { type: 'expense', amount: 5000, category: FOOD, date: '2026-02-20' },
+    ])
+    await checkBudgetAlerts(input, source, notifier)
+    await checkBudgetAlerts(input, source, notifier)
+    expect(delivered.map((a) => a.threshold)).toEqual([80])
+    expect(log).toHaveLength(1)
+  })
+
+  it('keeps the log entry when delivery fails', async () => {
+    const { log, source, notifier } = setup([{ type: 'expense', amount: 1000, category: FOOD, date: '2026-03-02' }], true)
+    const fired = await checkBudgetAlerts(input, source, notifier)
+    expect(fired).toHaveLength(1)
+    expect(log[0]).toMatchObject({ category: FOOD, threshold: 100, firedAt: input.now.toISOString() })
+  })
+
+  it('judges a rollover category against its envelope', async () => {
+    const transactions: TransactionLike[] = [
+      { type: 'expense', amount: 200, category: FOOD, date: '2026-02-10' },
+      { type: 'expense', amount: 900, category: FOOD, date: '2026-03-02' },
+    ]
+    const rollover = setup(transactions, false, { [FOOD]: { mode: 'rollover', cap: null } })
+    // 800 left in February carries in: 900 of 1,800 is only 50%.
+    expect(await checkBudgetAlerts(input, rollover.source, rollover.notifier)).toEqual([])
+
+    transactions.push({ type: 'expense', amount: 600, category: FOOD, date: '2026-03-05' })
+    const fired = await checkBudgetAlerts(input, rollover.source, rollover.notifier)
+    expect(fired).toEqual([{ cycleStart: CYCLE, category: FOOD, threshold: 80, spent: 1500, budget: 1800 }])
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for per-cycle budget history (effective budgets, edits, copy / roll forward).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  INITIAL_BUDGET_CYCLE_START,
+  applyBudgetSets,
+  getEffectiveBudgets,
+  planBudgetCopy,
+  planCycleBudgetEdit,
+  type BudgetHistory,
+} from '../src/domain/budget/budget-history'
+import { getCycleStartKey, shiftCycleStartKey } from '../src/domain/budget/budget-cycle'
+import { toBudgetHistory, toCategoryBudgetRows } from '../src/infrastructure/supabase/supabase'
+import { computeBudgetCycleResult } from '../src/application/budget/budget-service'
+
+const history: BudgetHistory = {
+  [INITIAL_BUDGET_CYCLE_START]: { ค่าอาหาร: 5000 },
+  '2026-02-27': { ค่าอาหาร: 6000 },
+}
+
+describe('cycle start keys', () => {
+  it('keys a date by the start of its salary-day cycle', () => {
+    expect(getCycleStartKey(new Date(2026, 2, 10), { salaryDay: 27 })).toBe('2026-02-27')
+    expect(getCycleStartKey(new Date(2026, 2, 27), { salaryDay: 27 })).toBe('2026-03-27')
+    expect(getCycleStartKey(new Date(2026, 2, 10), { salaryDay: 0 })).toBe('2026-03-01')
+  })
+
+  it('moves to the previous / next cycle', () => {
+    expect(shiftCycleStartKey('2026-02-27', { salaryDay: 27 }, -1)).toBe('2026-01-27')
+    expect(shiftCycleStartKey('2026-02-27', { salaryDay: 27 }, 2)).toBe('2026-04-27')
+    expect(shiftCycleStartKey('2026-01-01', { salaryDay: 0 }, -1)).toBe('2025-12-01')
+  })
+})
+
+describe('getEffectiveBudgets', () => {
+  it('uses the latest set at or before the cycle', () => {
+    expect(getEffectiveBudgets(history, '2026-01-27')).toEqual({ ค่าอาหาร: 5000 })
+    expect(getEffectiveBudgets(history, '2026-02-27')).toEqual({ ค่าอาหาร: 6000 })
+    expect(getEffectiveBudgets(history, '2026-05-27')).toEqual({ ค่าอาหาร: 6000 })
+    expect(getEffectiveBudgets({}, '2026-05-27')).toEqual({})
+  })
+
+  it('reads rows without cycle_start as the initial budgets', () => {
+    expect(
+      toBudgetHistory([
+        { category: 'ค่าอาหาร', budget: 5000 },
+        { category: 'ค่าอาหาร', budget: 6000, cycle_start: '2026-02-27' },
+      ]),
+    ).toEqual(history)
+  })
+
+  it('reads a cycle saved with an empty set as its own set', () => {
+    const rows = toCategoryBudgetRows('u1', '2026-03-27', {})
+    expect(rows).toHaveLength(1)
+    const stored = toBudgetHistory([{ category: 'ค่าอาหาร', budget: 5000 }, ...rows])
+    expect(stored['2026-03-27']).toEqual({})
+    expect(getEffectiveBudgets(stored, '2026-04-27')).toEqual({})
+  })
+})
+
+describe('budget changes', () => {
+  it('an edit in the current cycle carries forward', () => {
+    const sets = planCycleBudgetEdit(
+      history,
+      { cycleStart: '2026-02-27', nextCycleStart: '2026-03-27', budgets: { ค่าอาหาร: 7000 } },
+      '2026-02-27',
+    )
+    expect(sets).toEqual([{ cycleStart: '2026-02-27', budgets: { ค่าอาหาร: 7000 } }])
+    expect(getEffectiveBudgets(applyBudgetSets(history, sets), '2026-04-27')).toEqual({ ค่าอาหาร: 7000 })
+  })
+
+  it('an edit in a past cycle pins the next cycle to what it had', () => {
+    const sets = planCycleBudgetEdit(
+      history,
+      { cycleStart: '2025-12-27', nextCycleStart: '2026-01-27', budgets: { ค่าอาหาร: 4000 } },
+      '2026-02-27',
+    )
+    const next = applyBudgetSets(history, sets)
+    expect(getEffectiveBudgets(next, '2025-12-27')).toEqual({ ค่าอาหาร: 4000 })
+    expect(getEffectiveBudgets(next, '2026-01-27')).toEqual({ ค่าอาหาร: 5000 })
+  })
+
+  it('an edit in a past cycle with no history keeps the next cycle pinned empty once stored', () => {
+    const sets = planCycleBudgetEdit(
+      {},
+      { cycleStart: '2026-01-27', nextCycleStart: '2026-02-27', budgets: { ค่าอาหาร: 4000 } },
+      '2026-02-27',
+    )
+    const stored = toBudgetHistory(sets.flatMap((set) => toCategoryBudgetRows('u1', set.cycleStart, set.budgets)))
+    expect(getEffectiveBudgets(stored, '2026-01-27')).toEqual({ ค่าอาหาร: 4000 })
+    expect(getEffectiveBudgets(stored, '2026-02-27')).toEqual({})
+  })
+
+  it('copies last cycle and rolls forward', () => {
+    const copied = planBudgetCopy(history, '2026-01-27', { cycleStart: '2026-02-27', nextCycleStart: '2026-03-27' }, '2026-02-27')
+    expect(copied).toEqual([{ cycleStart: '2026-02-27', budgets: { ค่าอาหาร: 5000 } }])
+
+    const rolled = planBudgetCopy(history, '2026-02-27', { cycleStart: '2026-03-27', nextCycleStart: '2026-04-27' }, '2026-02-27')
+    expect(rolled).toEqual([{ cycleStart: '2026-03-27', budgets: { ค่าอาหาร: 6000 } }])
+  })
+
+  it('a copy replaces the target cycle, dropping categories the source did not have', () => {
+    const withExtra: BudgetHistory = { ...history, '2026-03-27': { ค่าอาหาร: 7000, ค่าเดินทาง: 1500 } }
+    const sets = planBudgetCopy(withExtra, '2026-02-27', { cycleStart: '2026-03-27', nextCycleStart: '2026-04-27' }, '2026-02-27')
+    const next = applyBudgetSets(withExtra, sets)
+    expect(next['2026-03-27']).toEqual({ ค่าอาหาร: 6000 })
+    expect(getEffectiveBudgets(next, '2026-04-27')).toEqual({ ค่าอาหาร: 6000 })
+  })
+})
+
+describe('computeBudgetCycleResult with budget history', () => {
+  it('judges each cycle against the budget it had', () => {
+    const input = {
+      salaryConfig: { salaryDay: 27 },
+      budgetHistory: history,
+      transactions: [],
+      carryForwardEnabled: false,
+      carryForwardAmount: 0,
+    }
+    expect(computeBudgetCycleResult({ ...input, today: new Date(2026, 1, 10) }).cycle.totalBudget).toBe(5000)
+    expect(computeBudgetCycleResult({ ...input, today: new Date(2026, 2, 10) }).budgetMap).toEqual({ ค่าอาหาร: 6000 })
+  })
+})
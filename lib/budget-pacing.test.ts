@@ -0,0 +1,85 @@
+/**
+ * Unit tests for category budget pacing (spent % vs elapsed %, end-of-cycle projection).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import { computeBudgetPacing, getExpectedOverruns } from '../src/domain/budget/budget-pacing'
+import { computeSpentByCategory } from '../src/domain/finance/finance'
+import type { TransactionLike } from '../src/domain/forecast/forecast'
+
+const FOOD = 'ค่าอาหาร'
+const TRAVEL = 'ค่าเดินทาง'
+const SHOPPING = 'ช้อปปิ้ง'
+const BILLS = 'บิล/ค่าใช้จ่าย'
+
+const range = { start: new Date(2026, 2, 1), end: new Date(2026, 2, 31) }
+const classification = { fixed: [BILLS], variable: [FOOD, TRAVEL, SHOPPING] }
+
+const daily = (category: string, amount: number, days: number): TransactionLike[] =>
+  Array.from({ length: days }, (_, i) => ({
+    type: 'expense' as const,
+    amount,
+    category,
+    date: `2026-03-${String(i + 1).padStart(2, '0')}`,
+  }))
+
+const pace = (asOf: Date, budgets: Record<string, number>, transactions: TransactionLike[]) =>
+  computeBudgetPacing({
+    asOf,
+    range,
+    budgets,
+    spentByCategory: computeSpentByCategory(transactions, range),
+    transactions,
+    classification,
+  })
+
+describe('computeBudgetPacing', () => {
+  it('projects variable categories with their daily rate and flags expected overruns first', () => {
+    const transactions = [
+      ...daily(FOOD, 200, 14),
+      ...daily(TRAVEL, 100, 14),
+      { type: 'expense' as const, amount: 5000, category: BILLS, date: '2026-03-01' },
+    ]
+    const pacing = pace(new Date(2026, 2, 14), { [TRAVEL]: 3100, [FOOD]: 3100, [BILLS]: 5000 }, transactions)
+
+    expect(pacing[0]).toMatchObject({
+      category: FOOD,
+      spent: 2800,
+      dailyRate: 200,
+      projectedSpend: 6200,
+      projectedOverrun: 3100,
+      status: 'will_overrun',
+    })
+    expect(pacing[0].elapsedPercent).toBeCloseTo((14 / 31) * 100)
+    expect(pacing.find((p) => p.category === TRAVEL)).toMatchObject({ projectedSpend: 3100, status: 'on_pace' })
+    // A bill paid in full is not "ahead": fixed categories are not paced by day.
+    expect(pacing.find((p) => p.category === BILLS)).toMatchObject({ kind: 'fixed', dailyRate: 0, status: 'on_pace' })
+    expect(getExpectedOverruns(pacing).map((p) => p.category)).toEqual([FOOD])
+  })
+
+  it('spreads a single large purchase over the rate window', () => {
+    const transactions = [{ type: 'expense' as const, amount: 2000, category: SHOPPING, date: '2026-03-10' }]
+    const [shopping] = pace(new Date(2026, 2, 10), { [SHOPPING]: 6000 }, transactions)
+    // 2000 ÷ 14 a day, not 2000 a day.
+    expect(shopping.dailyRate).toBeCloseTo(2000 / 14)
+    expect(shopping.projectedSpend).toBeCloseTo(2000 + (2000 / 14) * 21)
+    expect(shopping.status).toBe('on_pace')
+  })
+
+  it('marks spending ahead of the cycle that still fits the budget', () => {
+    const transactions = [{ type: 'expense' as const, amount: 9000, category: SHOPPING, date: '2026-03-01' }]
+    const [shopping] = pace(new Date(2026, 2, 20), { [SHOPPING]: 10000 }, transactions)
+    expect(shopping).toMatchObject({ dailyRate: 0, projectedSpend: 9000, status: 'ahead' })
+  })
+
+  it('reports categories already over budget and skips unbudgeted ones', () => {
+    const pacing = pace(new Date(2026, 2, 5), { [FOOD]: 500, [TRAVEL]: 0 }, [...daily(FOOD, 200, 5), ...daily(TRAVEL, 50, 5)])
+    expect(pacing.map((p) => [p.category, p.status])).toEqual([[FOOD, 'over_budget']])
+  })
+
+  it('projects nothing more once the cycle is over', () => {
+    const [food] = pace(new Date(2026, 3, 2), { [FOOD]: 3100 }, daily(FOOD, 100, 31))
+    expect(food).toMatchObject({ elapsedPercent: 100, dailyRate: 0, projectedSpend: 3100, status: 'on_pace' })
+  })
+})
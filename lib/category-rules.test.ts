@@ -0,0 +1,98 @@
+/**
+ * Unit tests for rule-based auto-categorization and learning from corrections.
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  categorizeTransaction,
+  proposeRulesFromCorrections,
+  validateCategoryRule,
+  type CategoryCorrection,
+  type CategoryRule,
+} from '../src/domain/categorization/category-rules'
+
+const rule = (overrides: Partial<CategoryRule>): CategoryRule => ({
+  id: 'r1',
+  matchType: 'contains',
+  pattern: 'grab',
+  category: 'ค่าเดินทาง',
+  priority: 0,
+  ...overrides,
+})
+
+const expense = (description: string, amount = 100, account_id: string | null = null) => ({
+  type: 'expense' as const,
+  amount,
+  description,
+  account_id,
+})
+
+describe('categorizeTransaction', () => {
+  it('matches contains (case-insensitive) and regex patterns', () => {
+    expect(categorizeTransaction(expense('GRAB*TAXI 1234'), [rule({})])?.category).toBe('ค่าเดินทาง')
+    const regex = rule({ matchType: 'regex', pattern: '^(7-?eleven|lotus)', category: 'ร้านสะดวกซื้อ' })
+    expect(categorizeTransaction(expense('7ELEVEN สาขา 0123'), [regex])?.category).toBe('ร้านสะดวกซื้อ')
+    expect(categorizeTransaction(expense('ร้าน 7-eleven'), [regex])).toBeNull()
+  })
+
+  it('requires every condition: amount range, account and type', () => {
+    const r = rule({ pattern: 'truemoney', minAmount: 500, maxAmount: 1000, accountId: 'acc-1', category: 'บิล/ค่าใช้จ่าย' })
+    expect(categorizeTransaction(expense('TrueMoney', 599, 'acc-1'), [r])?.ruleId).toBe('r1')
+    expect(categorizeTransaction(expense('TrueMoney', 1200, 'acc-1'), [r])).toBeNull()
+    expect(categorizeTransaction(expense('TrueMoney', 599, 'acc-2'), [r])).toBeNull()
+    expect(categorizeTransaction({ ...expense('TrueMoney', 599, 'acc-1'), type: 'income' }, [rule({ transactionType: 'expense' })])).toBeNull()
+  })
+
+  it('evaluates in priority order and skips paused rules, transfers and bad regexes', () => {
+    const rules = [
+      rule({ id: 'late', priority: 5, category: 'อื่นๆ' }),
+      rule({ id: 'paused', priority: 0, isActive: false, category: 'ช้อปปิ้ง' }),
+      rule({ id: 'broken', priority: 1, matchType: 'regex', pattern: '(grab' }),
+      rule({ id: 'first', priority: 2, pattern: 'grab food', category: 'ฟู้ดเดลิเวอรี่' }),
+    ]
+    expect(categorizeTransaction(expense('Grab Food order'), rules)?.ruleId).toBe('first')
+    expect(categorizeTransaction(expense('Grab ride'), rules)?.ruleId).toBe('late')
+    expect(categorizeTransaction({ type: 'transfer', amount: 100, description: 'grab' }, rules)).toBeNull()
+  })
+})
+
+describe('validateCategoryRule', () => {
+  it('rejects rules that would match everything or cannot run', () => {
+    const base = { matchType: 'contains' as const, category: 'ค่าอาหาร' }
+    expect(validateCategoryRule({ ...base, pattern: '  ' })).toBe('no_conditions')
+    expect(validateCategoryRule({ ...base, matchType: 'regex', pattern: '[' })).toBe('invalid_regex')
+    expect(validateCategoryRule({ ...base, minAmount: 10, maxAmount: 5 })).toBe('invalid_amount_range')
+    expect(validateCategoryRule({ ...base, pattern: 'kfc', category: '' })).toBe('missing_category')
+    expect(validateCategoryRule({ ...base, maxAmount: 60 })).toBeNull()
+  })
+})
+
+describe('proposeRulesFromCorrections', () => {
+  const correction = (description: string, toCategory: string): CategoryCorrection => ({
+    description,
+    fromCategory: 'อื่นๆ',
+    toCategory,
+    at: '2026-03-01T00:00:00.000Z',
+  })
+
+  it('proposes a keyword after repeated corrections of similar descriptions', () => {
+    const proposals = proposeRulesFromCorrections(
+      [correction('SHOPEE 1201', 'ช้อปปิ้ง'), correction('Shopee 8831', 'ช้อปปิ้ง'), correction('KFC 22', 'ค่าอาหาร')],
+      [],
+    )
+    expect(proposals.map((p) => [p.pattern, p.category, p.occurrences])).toEqual([['shopee', 'ช้อปปิ้ง', 2]])
+  })
+
+  it('skips keywords that are ambiguous or already covered by a rule', () => {
+    const ambiguous = [
+      correction('PromptPay mom', 'โอนให้คน'),
+      correction('PromptPay rent', 'บิล/ค่าใช้จ่าย'),
+      correction('PromptPay dad', 'โอนให้คน'),
+    ]
+    expect(proposeRulesFromCorrections(ambiguous, []).map((p) => p.pattern)).not.toContain('promptpay')
+
+    const covered = [correction('SHOPEE 1', 'ช้อปปิ้ง'), correction('SHOPEE 2', 'ช้อปปิ้ง')]
+    expect(proposeRulesFromCorrections(covered, [rule({ pattern: 'shopee', category: 'ช้อปปิ้ง' })])).toEqual([])
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for bank statement CSV import: parsing, column mapping and duplicate detection.
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  findHeaderRow,
+  flagLikelyDuplicates,
+  guessColumnMapping,
+  mapRowsToDrafts,
+  parseAmount,
+  parseCsv,
+  parseStatementDate,
+  type ImportDraft,
+} from '../src/domain/import/csv-import'
+
+describe('parseCsv', () => {
+  it('handles BOM, CRLF, quoted commas and escaped quotes', () => {
+    const text = '﻿วันที่,รายการ,จำนวนเงิน\r\n01/02/2567,"ร้าน ""A"", สาขา 1","1,250.00"\r\n\r\n'
+    expect(parseCsv(text)).toEqual([
+      ['วันที่', 'รายการ', 'จำนวนเงิน'],
+      ['01/02/2567', 'ร้าน "A", สาขา 1', '1,250.00'],
+    ])
+  })
+})
+
+describe('parseStatementDate', () => {
+  it('converts Buddhist-era years, short years and Thai month names', () => {
+    expect(parseStatementDate('15/01/2567')).toBe('2024-01-15')
+    expect(parseStatementDate('15-01-67 10:32')).toBe('2024-01-15')
+    expect(parseStatementDate('15/01/24')).toBe('2024-01-15')
+    expect(parseStatementDate('3 ก.พ. 2567')).toBe('2024-02-03')
+    expect(parseStatementDate('2024-02-03')).toBe('2024-02-03')
+    expect(parseStatementDate('02/03/2024', 'MDY')).toBe('2024-02-03')
+  })
+
+  it('rejects impossible dates and non-dates', () => {
+    expect(parseStatementDate('31/02/2567')).toBeNull()
+    expect(parseStatementDate('ยอดยกมา')).toBeNull()
+  })
+})
+
+describe('parseAmount', () => {
+  it('reads thousands separators and negative notations', () => {
+    expect(parseAmount('1,234.50')).toBe(1234.5)
+    expect(parseAmount('฿ 2,000')).toBe(2000)
+    expect(parseAmount('(500.00)')).toBe(-500)
+    expect(parseAmount('500.00-')).toBe(-500)
+    expect(parseAmount('')).toBeNull()
+    expect(parseAmount('-')).toBeNull()
+  })
+})
+
+describe('column mapping', () => {
+  const kbank = [
+    ['ชื่อบัญชี', 'นาย ก'],
+    ['เลขที่บัญชี', 'xxx-x-x1234-x'],
+    ['วันที่', 'เวลา', 'รายการ', 'ถอนเงิน', 'ฝากเงิน', 'ยอดคงเหลือ', 'ช่องทาง', 'รายละเอียด'],
+    ['01/02/67', '08:10', 'ชำระเงิน', '1,250.00', '', '8,750.00', 'K PLUS', 'ร้านกาแฟ'],
+    ['25/02/67', '09:00', 'รับโอนเงิน', '', '30,000.00', '38,750.00', 'K PLUS', 'เงินเดือน'],
+    ['', '', 'รวม', '1,250.00', '30,000.00', '', '', ''],
+  ]
+
+  it('skips the preamble and guesses withdrawal/deposit columns', () => {
+    const headerIndex = findHeaderRow(kbank)
+    expect(headerIndex).toBe(2)
+    const mapping = guessColumnMapping(kbank[headerIndex])
+    expect(mapping).toMatchObject({ dateColumn: 0, withdrawalColumn: 3, depositColumn: 4, descriptionColumn: 7 })
+  })
+
+  it('maps rows to positive drafts with a type and reports unparsable rows', () => {
+    const mapping = guessColumnMapping(kbank[2])!
+    const { drafts, errors } = mapRowsToDrafts(kbank.slice(3), mapping, 4)
+    expect(drafts).toEqual([
+      { rowNumber: 4, date: '2024-02-01', type: 'expense', amount: 1250, description: 'ร้านกาแฟ' },
+      { rowNumber: 5, date: '2024-02-25', type: 'income', amount: 30000, description: 'เงินเดือน' },
+    ])
+    expect(errors).toEqual([{ rowNumber: 6, reason: 'อ่านวันที่ไม่ได้' }])
+  })
+
+  it('supports a single signed amount column', () => {
+    const mapping = guessColumnMapping(['Date', 'Description', 'Amount'])!
+    const { drafts } = mapRowsToDrafts([['01/02/2024', 'Grab', '-120.00']], mapping)
+    expect(drafts[0]).toMatchObject({ type: 'expense', amount: 120 })
+    const flipped = mapRowsToDrafts([['01/02/2024', 'Grab', '120.00']], { ...mapping, positiveIsExpense: true })
+    expect(flipped.drafts[0].type).toBe('expense')
+  })
+})
+
+describe('flagLikelyDuplicates', () => {
+  const draft = (overrides: Partial<ImportDraft>): ImportDraft => ({
+    rowNumber: 1,
+    date: '2024-02-01',
+    type: 'expense',
+    amount: 1250,
+    description: 'ร้านกาแฟ',
+    ...overrides,
+  })
+
+  it('matches on date + amount + description, treating a missing note as a match', () => {
+    const existing = [
+      { date: '2024-02-01', amount: 1250, type: 'expense', description: null },
+      { date: '2024-02-02', amount: 99, type: 'expense', description: 'Netflix' },
+    ]
+    const drafts = [
+      draft({}),
+      draft({ date: '2024-02-02', amount: 99, description: 'NETFLIX.COM' }),
+      draft({ date: '2024-02-02', amount: 99, description: 'Spotify' }),
+      draft({ date: '2024-02-03' }),
+    ]
+    expect(Array.from(flagLikelyDuplicates(drafts, existing))).toEqual([0, 1])
+  })
+
+  it('matches one-to-one so repeated same-day purchases are not all flagged', () => {
+    const existing = [{ date: '2024-02-01', amount: 1250, type: 'expense', description: 'ร้านกาแฟ' }]
+    expect(Array.from(flagLikelyDuplicates([draft({}), draft({ rowNumber: 2 })], existing))).toEqual([0])
+  })
+})
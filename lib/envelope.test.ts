@@ -0,0 +1,121 @@
+/**
+ * Unit tests for per-category rollover envelopes.
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import { carryForward, computeEnvelopes, withEffectiveFrom, type RolloverRules } from '../src/domain/budget/envelope'
+import { computeCategoryEnvelopes } from '../src/application/budget/budget-service'
+
+const FOOD = 'ค่าอาหาร'
+const TRAVEL = 'ค่าเดินทาง'
+
+describe('carryForward', () => {
+  it('applies each mode to a surplus and a deficit', () => {
+    expect(carryForward(500, { mode: 'reset', cap: null })).toBe(0)
+    expect(carryForward(-500, { mode: 'reset', cap: null })).toBe(0)
+    expect(carryForward(500, { mode: 'rollover', cap: null })).toBe(500)
+    expect(carryForward(-500, { mode: 'rollover', cap: null })).toBe(-500)
+    expect(carryForward(500, { mode: 'cap', cap: 200 })).toBe(200)
+    expect(carryForward(-500, { mode: 'cap', cap: 200 })).toBe(-500)
+  })
+})
+
+describe('withEffectiveFrom', () => {
+  it('starts a rule that begins carrying today and keeps the start of one that already carries', () => {
+    const reset = { mode: 'reset', cap: null } as const
+    const started = withEffectiveFrom(reset, { mode: 'rollover', cap: null }, '2026-03-05')
+    expect(started.effectiveFrom).toBe('2026-03-05')
+    expect(withEffectiveFrom(started, { mode: 'cap', cap: 500 }, '2026-04-10').effectiveFrom).toBe('2026-03-05')
+    expect(withEffectiveFrom(started, reset, '2026-04-10').effectiveFrom).toBeNull()
+  })
+})
+
+describe('computeEnvelopes', () => {
+  const rules: RolloverRules = { [FOOD]: { mode: 'rollover', cap: null } }
+
+  it('carries unspent food budget into the next cycle; other categories reset', () => {
+    const envelopes = computeEnvelopes(
+      [
+        { budgets: { [FOOD]: 5000, [TRAVEL]: 1000 }, spentByCategory: { [FOOD]: 4000, [TRAVEL]: 200 } },
+        { budgets: { [FOOD]: 5000, [TRAVEL]: 1000 }, spentByCategory: { [FOOD]: 1000 } },
+      ],
+      rules,
+    )
+    expect(envelopes[FOOD]).toEqual({ budget: 5000, carriedIn: 1000, available: 6000, spent: 1000, remaining: 5000, overspent: 0 })
+    expect(envelopes[TRAVEL]).toMatchObject({ carriedIn: 0, available: 1000, remaining: 1000 })
+  })
+
+  it('takes overspending off the next envelope, deeper deficits keep carrying', () => {
+    const envelopes = computeEnvelopes(
+      [
+        { budgets: { [FOOD]: 5000 }, spentByCategory: { [FOOD]: 11000 } },
+        { budgets: { [FOOD]: 5000 }, spentByCategory: { [FOOD]: 500 } },
+        { budgets: { [FOOD]: 5000 }, spentByCategory: {} },
+      ],
+      rules,
+    )
+    // -6000 → (5000 - 6000 - 500) = -1500 → 5000 - 1500
+    expect(envelopes[FOOD]).toMatchObject({ carriedIn: -1500, available: 3500, remaining: 3500 })
+  })
+
+  it('reports spending beyond the envelope as overspent', () => {
+    const envelopes = computeEnvelopes([{ budgets: { [FOOD]: 1000 }, spentByCategory: { [FOOD]: 1300 } }], rules)
+    expect(envelopes[FOOD]).toMatchObject({ remaining: 0, overspent: 300 })
+  })
+})
+
+describe('computeCategoryEnvelopes', () => {
+  it('judges past cycles against their budgets and skips cycles before the first transaction', () => {
+    const envelopes = computeCategoryEnvelopes({
+      asOf: new Date(2026, 2, 5),
+      salaryConfig: { salaryDay: 0 },
+      budgetHistory: { '1970-01-01': { [FOOD]: 5000 }, '2026-03-01': { [FOOD]: 4000 } },
+      transactions: [
+        { type: 'expense', amount: 4500, category: FOOD, date: '2026-01-10' },
+        { type: 'expense', amount: 3000, category: FOOD, date: '2026-02-10' },
+      ],
+      rolloverRules: { [FOOD]: { mode: 'cap', cap: 1500 } },
+    })
+    // Jan: +500, Feb: 5000 + 500 - 3000 = 2500 → capped at 1500; Mar budget 4000.
+    expect(envelopes[FOOD]).toMatchObject({ budget: 4000, carriedIn: 1500, available: 5500 })
+  })
+
+  it('does not count spending from before the category had a budget as a deficit', () => {
+    const envelopes = computeCategoryEnvelopes({
+      asOf: new Date(2026, 2, 5),
+      salaryConfig: { salaryDay: 0 },
+      budgetHistory: { '2026-03-01': { [FOOD]: 4000 } },
+      transactions: [
+        { type: 'expense', amount: 3000, category: FOOD, date: '2026-01-10' },
+        { type: 'expense', amount: 2000, category: FOOD, date: '2026-02-10' },
+      ],
+      rolloverRules: { [FOOD]: { mode: 'rollover', cap: null } },
+    })
+    expect(envelopes[FOOD]).toMatchObject({ budget: 4000, carriedIn: 0, available: 4000 })
+  })
+
+  it('carries nothing from cycles before the rule took effect', () => {
+    const input = {
+      asOf: new Date(2026, 2, 5),
+      salaryConfig: { salaryDay: 0 },
+      budgetHistory: { '1970-01-01': { [FOOD]: 5000 } },
+      transactions: [
+        { type: 'expense' as const, amount: 1000, category: FOOD, date: '2025-04-10' },
+        { type: 'expense' as const, amount: 3000, category: FOOD, date: '2026-02-10' },
+      ],
+    }
+    const setThisCycle = computeCategoryEnvelopes({
+      ...input,
+      rolloverRules: { [FOOD]: { mode: 'rollover', cap: null, effectiveFrom: '2026-03-02' } },
+    })
+    expect(setThisCycle[FOOD]).toMatchObject({ carriedIn: 0, available: 5000 })
+
+    // Set during February: only February's leftover carries in.
+    const setLastCycle = computeCategoryEnvelopes({
+      ...input,
+      rolloverRules: { [FOOD]: { mode: 'rollover', cap: null, effectiveFrom: '2026-02-20' } },
+    })
+    expect(setLastCycle[FOOD]).toMatchObject({ carriedIn: 2000, available: 7000 })
+  })
+})
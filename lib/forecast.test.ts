@@ -65,6 +65,20 @@ describe('computePlannedRemaining', () => {
     )
     expect(planned).toBe(0)
   })
+  it('learns and checks bills from split lines', () => {
+    const split = (date: string) => ({
+      type: 'expense' as const,
+      amount: 25000,
+      category: 'อาหาร',
+      date,
+      splits: [{ category: 'บิล/ค่าใช้จ่าย', amount: 20000 }, { category: 'อาหาร', amount: 5000 }],
+    })
+    const history = [split('2025-12-15'), split('2026-01-15')]
+    const plan = (txs: typeof history) =>
+      computePlannedRemaining(txs, new Date(2026, 1, 1), new Date(2026, 1, 1), new Date(2026, 1, 28))
+    expect(plan(history)).toBe(20000)
+    expect(plan([...history, split('2026-02-01')])).toBe(0)
+  })
 })
 
 describe('computeForecastEnd', () => {
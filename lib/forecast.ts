@@ -26,4 +26,5 @@ export {
   type TransactionLike,
   type ForecastResult,
   type ExpenseCategoryClassification,
+  type DeclaredRecurrences,
 } from "../src/domain/forecast/forecast";
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for offline encryption at rest (WebCrypto helpers + OfflineDB
+ * against fake-indexeddb).
+ * Run: npm test
+ */
+
+import 'fake-indexeddb/auto'
+import { describe, it, expect, vi } from 'vitest'
+import {
+  createEncryptionConfig,
+  isSealedRecord,
+  openRecord,
+  sealRecord,
+  unlockKey,
+} from '../src/infrastructure/offline/offline-crypto'
+import { offlineDB, type OfflineConflict, type OfflineOutboxState } from '../src/infrastructure/offline/offline-db'
+import { shouldAutoLock, validateNewPassphrase } from '../src/domain/security/offline-encryption'
+
+// Low iteration count: these tests check the plumbing, not PBKDF2 strength.
+const ITERATIONS = 1000
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+async function rawRecords(store: string): Promise<Record<string, unknown>[]> {
+  const db = await request(indexedDB.open('MoneyPlanAI'))
+  try {
+    return await request(db.transaction([store], 'readonly').objectStore(store).getAll())
+  } finally {
+    db.close()
+  }
+}
+
+const rawTransactions = () => rawRecords('transactions')
+
+const version = {
+  type: 'expense' as const,
+  amount: 300,
+  date: '2026-01-05',
+  category: 'อาหาร',
+  updated_at: '2026-01-05T10:00:00Z',
+}
+
+const conflict: OfflineConflict = {
+  id: 'c1',
+  user_id: 'u1',
+  table: 'transactions',
+  row_id: 'r1',
+  base: version,
+  local: { ...version, amount: 350 },
+  server: { ...version, amount: 400 },
+  conflicting_fields: ['amount'],
+  policy: 'server-wins',
+  outcome: 'server',
+  detected_at: '2026-01-05T11:00:00Z',
+}
+
+const outboxState: OfflineOutboxState = {
+  key: 'transaction:l1',
+  kind: 'transaction',
+  ref: 'l1',
+  user_id: 'u1',
+  label: 'อาหาร ฿350',
+  attempts: 1,
+  next_attempt_at: '2026-01-05T11:01:00Z',
+  quarantined: false,
+  last_error: 'network',
+  last_attempt_at: '2026-01-05T11:00:00Z',
+}
+
+describe('offline-crypto', () => {
+  it('seals secret fields and opens them with the same key', async () => {
+    const { key } = await createEncryptionConfig('secret-1', ITERATIONS)
+    const sealed = await sealRecord(key, { local_id: 'l1', amount: 500, category: 'อาหาร' }, ['local_id'])
+    expect(isSealedRecord(sealed)).toBe(true)
+    expect(sealed.local_id).toBe('l1')
+    expect(sealed).not.toHaveProperty('amount')
+    expect(await openRecord(key, sealed)).toEqual({ local_id: 'l1', amount: 500, category: 'อาหาร' })
+  })
+
+  it('readable fields updated after sealing win over the sealed copy', async () => {
+    const { key } = await createEncryptionConfig('secret-1', ITERATIONS)
+    const sealed = await sealRecord(key, { local_id: 'l1', synced: false, amount: 1 }, ['local_id', 'synced'])
+    expect(await openRecord(key, { ...sealed, synced: true })).toEqual({ local_id: 'l1', synced: true, amount: 1 })
+  })
+
+  it('seals Blob fields (receipt photos) and restores them', async () => {
+    const { key } = await createEncryptionConfig('secret-1', ITERATIONS)
+    const photo = new Blob(['jpeg-bytes'], { type: 'image/jpeg' })
+    const sealed = await sealRecord(key, { local_id: 'r1', blob: photo, content_type: 'image/jpeg' }, ['local_id'])
+    expect(sealed).not.toHaveProperty('blob')
+    const opened = await openRecord<{ blob: Blob; content_type: string }>(key, sealed)
+    expect(opened.content_type).toBe('image/jpeg')
+    expect(opened.blob.type).toBe('image/jpeg')
+    expect(await opened.blob.text()).toBe('jpeg-bytes')
+  })
+
+  it('unlockKey returns null for a wrong passphrase', async () => {
+    const { config } = await createEncryptionConfig('secret-1', ITERATIONS)
+    expect(await unlockKey('secret-2', config)).toBeNull()
+    expect(await unlockKey('secret-1', config)).not.toBeNull()
+  })
+})
+
+describe('OfflineDB encryption', () => {
+  it('encrypts existing records, locks and unlocks them', async () => {
+    await offlineDB.saveTransaction({ local_id: 'l1', user_id: 'u1', type: 'expense', amount: 120, date: '2026-01-05' })
+    await offlineDB.enableEncryption('secret-1')
+
+    const [stored] = await rawTransactions()
+    expect(stored.user_id).toBe('u1')
+    expect(stored).not.toHaveProperty('amount')
+
+    offlineDB.lock()
+    expect(await offlineDB.getEncryptionState()).toBe('locked')
+    await expect(offlineDB.getTransactions('u1')).rejects.toThrow('locked')
+
+    expect(await offlineDB.unlock('wrong-pass')).toBe(false)
+    expect(await offlineDB.unlock('secret-1')).toBe(true)
+    const [tx] = await offlineDB.getTransactions('u1')
+    expect(tx).toMatchObject({ local_id: 'l1', amount: 120, synced: false })
+
+    expect(await offlineDB.disableEncryption('secret-1')).toBe(true)
+    expect((await rawTransactions())[0].amount).toBe(120)
+    expect(await offlineDB.getEncryptionState()).toBe('off')
+  })
+
+  it('seals conflicts and retry state, keeping only their keys and indexes readable', async () => {
+    await offlineDB.enableEncryption('secret-1')
+    await offlineDB.saveConflict(conflict)
+    await offlineDB.saveOutboxState(outboxState)
+
+    const [storedConflict] = await rawRecords('conflicts')
+    expect(Object.keys(storedConflict).sort()).toEqual(['id', 'sealed', 'user_id'])
+    const [storedState] = await rawRecords('outbox')
+    expect(Object.keys(storedState).sort()).toEqual(['key', 'sealed', 'user_id'])
+
+    expect(await offlineDB.getConflicts('u1')).toEqual([conflict])
+    expect(await offlineDB.getOutboxStates('u1')).toEqual([outboxState])
+
+    expect(await offlineDB.disableEncryption('secret-1')).toBe(true)
+    expect((await rawRecords('conflicts'))[0]).toEqual(conflict)
+  })
+
+  it('another context turning encryption on is seen before the next write', async () => {
+    vi.resetModules()
+    const { offlineDB: otherContext } = await import('../src/infrastructure/offline/offline-db')
+    expect(await otherContext.getEncryptionState()).toBe('off')
+
+    await offlineDB.enableEncryption('secret-1')
+    await expect(otherContext.saveOutboxState(outboxState)).rejects.toThrow('locked')
+
+    expect(await otherContext.unlock('secret-1')).toBe(true)
+    await otherContext.saveOutboxState({ ...outboxState, attempts: 2 })
+    expect((await rawRecords('outbox'))[0]).not.toHaveProperty('attempts')
+    expect(await offlineDB.getOutboxStates('u1')).toEqual([{ ...outboxState, attempts: 2 }])
+
+    expect(await offlineDB.disableEncryption('secret-1')).toBe(true)
+  })
+})
+
+describe('offline-encryption rules', () => {
+  it('validates a new passphrase', () => {
+    expect(validateNewPassphrase('12345', '12345')).toBe('TOO_SHORT')
+    expect(validateNewPassphrase('123456', '123457')).toBe('MISMATCH')
+    expect(validateNewPassphrase('123456', '123456')).toBeNull()
+  })
+
+  it('auto-locks once the delay has passed', () => {
+    expect(shouldAutoLock(0, 4 * 60_000, 5)).toBe(false)
+    expect(shouldAutoLock(0, 5 * 60_000, 5)).toBe(true)
+  })
+})
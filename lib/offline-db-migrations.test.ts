@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the OfflineDB schema migrations (against fake-indexeddb).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import { IDBFactory } from 'fake-indexeddb'
+import {
+  OFFLINE_DB_MIGRATIONS,
+  assertMigrationOrder,
+  openMigratedDatabase,
+  transformRecords,
+  type OfflineDbMigration,
+} from '../src/infrastructure/offline/offline-db-migrations'
+
+const DB = 'MoneyPlanAI-test'
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+async function put(db: IDBDatabase, store: string, value: unknown): Promise<void> {
+  await request(db.transaction([store], 'readwrite').objectStore(store).put(value))
+}
+
+async function getAll(db: IDBDatabase, store: string): Promise<unknown[]> {
+  return request(db.transaction([store], 'readonly').objectStore(store).getAll())
+}
+
+const queued = { local_id: 'temp_1', user_id: 'user-1', date: '2026-01-10', amount: 120, synced: false }
+
+describe('openMigratedDatabase', () => {
+  it('creates every store of the latest schema on a fresh install', async () => {
+    const db = await openMigratedDatabase(DB, OFFLINE_DB_MIGRATIONS, new IDBFactory())
+    expect(db.version).toBe(OFFLINE_DB_MIGRATIONS.length)
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(
+      ['cache', 'conflicts', 'forecasts', 'meta', 'mirror', 'outbox', 'profiles', 'receipts', 'transactions'],
+    )
+    const transactions = db.transaction(['transactions'], 'readonly').objectStore('transactions')
+    expect(Array.from(transactions.indexNames).sort()).toEqual(['date', 'id', 'local_id', 'synced', 'user_id'])
+    db.close()
+  })
+
+  it('upgrades every older version without losing queued transactions', async () => {
+    for (let from = 1; from < OFFLINE_DB_MIGRATIONS.length; from++) {
+      const factory = new IDBFactory()
+      const old = await openMigratedDatabase(DB, OFFLINE_DB_MIGRATIONS.slice(0, from), factory)
+      await put(old, 'transactions', queued)
+      old.close()
+
+      const db = await openMigratedDatabase(DB, OFFLINE_DB_MIGRATIONS, factory)
+      expect(db.version).toBe(OFFLINE_DB_MIGRATIONS.length)
+      expect(db.objectStoreNames.contains('outbox')).toBe(true)
+      expect(await getAll(db, 'transactions')).toEqual([queued])
+      db.close()
+    }
+  })
+
+  it('runs only the new steps, in order, and can transform records', async () => {
+    const factory = new IDBFactory()
+    const old = await openMigratedDatabase(DB, OFFLINE_DB_MIGRATIONS, factory)
+    await put(old, 'transactions', queued)
+    await put(old, 'transactions', { ...queued, local_id: 'temp_2', amount: -1 })
+    old.close()
+
+    const ran: number[] = []
+    const next: OfflineDbMigration[] = [
+      ...OFFLINE_DB_MIGRATIONS.map((m) => ({ ...m, migrate: (db: IDBDatabase, tx: IDBTransaction) => {
+        ran.push(m.version)
+        m.migrate(db, tx)
+      } })),
+      {
+        version: OFFLINE_DB_MIGRATIONS.length + 1,
+        description: 'test: drop invalid rows, add currency',
+        migrate: (_db, tx) => {
+          ran.push(OFFLINE_DB_MIGRATIONS.length + 1)
+          transformRecords<typeof queued>(tx, 'transactions', (t) => (t.amount < 0 ? null : { ...t, currency: 'THB' }))
+        },
+      },
+    ]
+    const db = await openMigratedDatabase(DB, next, factory)
+    expect(ran).toEqual([OFFLINE_DB_MIGRATIONS.length + 1])
+    expect(await getAll(db, 'transactions')).toEqual([{ ...queued, currency: 'THB' }])
+    db.close()
+  })
+
+  it('rolls back a failing upgrade and keeps the old version and data', async () => {
+    const factory = new IDBFactory()
+    const old = await openMigratedDatabase(DB, OFFLINE_DB_MIGRATIONS, factory)
+    await put(old, 'transactions', queued)
+    old.close()
+
+    const broken: OfflineDbMigration[] = [
+      ...OFFLINE_DB_MIGRATIONS,
+      {
+        version: OFFLINE_DB_MIGRATIONS.length + 1,
+        description: 'test: fails halfway',
+        migrate: (db) => {
+          db.createObjectStore('half-done')
+          throw new Error('boom')
+        },
+      },
+    ]
+    await expect(openMigratedDatabase(DB, broken, factory)).rejects.toThrow('boom')
+
+    const db = await openMigratedDatabase(DB, OFFLINE_DB_MIGRATIONS, factory)
+    expect(db.version).toBe(OFFLINE_DB_MIGRATIONS.length)
+    expect(db.objectStoreNames.contains('half-done')).toBe(false)
+    expect(await getAll(db, 'transactions')).toEqual([queued])
+    db.close()
+  })
+})
+
+describe('assertMigrationOrder', () => {
+  it('accepts the shipped list', () => {
+    expect(() => assertMigrationOrder(OFFLINE_DB_MIGRATIONS)).not.toThrow()
+  })
+
+  it('rejects gaps and reordering', () => {
+    const [v1, v2, v3] = OFFLINE_DB_MIGRATIONS
+    expect(() => assertMigrationOrder([v1, v3])).toThrow('expected 2')
+    expect(() => assertMigrationOrder([v2, v1])).toThrow('expected 1')
+  })
+})
@@ -18,4 +18,10 @@ export {
   type OfflineTransaction,
   type OfflineProfile,
   type OfflineForecast,
+  type OfflineReceipt,
+  type MirrorTable,
+  type OfflineConflict,
+  type OfflineOutboxState,
+  type OfflineSyncSession,
+  type OfflineEncryptionState,
 } from "../src/infrastructure/offline/offline-db";
@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the offline-first repository (stale-while-revalidate reads against fake ports).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import { OfflineFirstRepository, type DataSource } from '../src/application/data/offline-first-repository'
+import type { LocalDataPort, RemoteDataPort } from '../src/application/data/ports/data-ports'
+
+const USER = 'user-1'
+const silent = { warn: () => {} }
+
+type Row = { id: string; date: string; amount: number }
+type Category = { name: string }
+type Models = {
+  transaction: Row
+  profile: { id: string; month_end_day: number }
+  categoryBudgets: Record<string, number>
+  expenseCategory: Category
+}
+
+function setup(
+  options: {
+    local?: Row[]
+    remote?: Row[]
+    /** Rows queued on this device (added to server rows by `withPendingTransactions`). */
+    pending?: Row[]
+    remoteError?: Error
+    online?: boolean
+    localCategories?: Category[] | null
+    remoteCategories?: Category[] | null
+  } = {},
+) {
+  const calls: string[] = []
+  const savedCategories: Category[][] = []
+  const fail = async (): Promise<never> => {
+    throw options.remoteError
+  }
+
+  const local: LocalDataPort<Models> = {
+    getTransactions: async () => options.local ?? [],
+    searchTransactions: async () => ({ rows: options.local ?? [], total: (options.local ?? []).length }),
+    withPendingTransactions: async (_userId, rows) => [...(options.pending ?? []), ...rows],
+    getProfile: async () => null,
+    getCategoryBudgets: async () => null,
+    getExpenseCategories: async () => options.localCategories ?? null,
+    saveExpenseCategories: async (_userId, rows) => {
+      savedCategories.push(rows)
+    },
+  }
+  const remote: RemoteDataPort<Models> = {
+    fetchTransactions: async () => {
+      calls.push('fetchTransactions')
+      if (options.remoteError) return fail()
+      return options.remote ?? []
+    },
+    searchTransactions: async () => ({ rows: options.remote ?? [], total: (options.remote ?? []).length }),
+    fetchProfile: async () => (options.remoteError ? fail() : { id: USER, month_end_day: 25 }),
+    fetchCategoryBudgets: async () => ({}),
+    fetchExpenseCategories: async () => (options.remoteError ? fail() : options.remoteCategories ?? null),
+  }
+  const repository = new OfflineFirstRepository<Models>({
+    local,
+    remote,
+    network: { isOnline: () => options.online ?? true },
+    logger: silent,
+  })
+  return { repository, calls, savedCategories }
+}
+
+const row = (id: string, date = '2026-01-10', amount = 100): Row => ({ id, date, amount })
+
+describe('OfflineFirstRepository', () => {
+  it('serves the local copy first, then the server rows', async () => {
+    const { repository } = setup({ local: [row('a')], remote: [row('a'), row('b')] })
+    const served: Array<[DataSource, string[]]> = []
+    const result = await repository.transactions(USER, undefined, (rows, source) =>
+      served.push([source, rows.map((r) => r.id)]),
+    )
+    expect(served).toEqual([
+      ['local', ['a']],
+      ['remote', ['a', 'b']],
+    ])
+    expect(result.map((r) => r.id)).toEqual(['a', 'b'])
+  })
+
+  it('applies changes still queued on this device to the server rows', async () => {
+    const { repository } = setup({ remote: [row('a')], pending: [row('local-1')] })
+    const result = await repository.transactions(USER)
+    expect(result.map((r) => r.id)).toEqual(['local-1', 'a'])
+  })
+
+  it('waits for the server instead of serving an empty local copy', async () => {
+    const { repository } = setup({ local: [], remote: [row('a')] })
+    const sources: DataSource[] = []
+    await repository.transactions(USER, undefined, (_rows, source) => sources.push(source))
+    expect(sources).toEqual(['remote'])
+  })
+
+  it('keeps the local copy when the server read fails', async () => {
+    const { repository } = setup({ local: [row('a')], remoteError: new Error('network') })
+    const sources: DataSource[] = []
+    const result = await repository.transactions(USER, undefined, (_rows, source) => sources.push(source))
+    expect(sources).toEqual(['local'])
+    expect(result.map((r) => r.id)).toEqual(['a'])
+  })
+
+  it('does not call the server while offline and still serves an empty copy', async () => {
+    const { repository, calls } = setup({ local: [], online: false })
+    const served: Row[][] = []
+    const result = await repository.transactions(USER, undefined, (rows) => served.push(rows))
+    expect(calls).toEqual([])
+    expect(served).toEqual([[]])
+    expect(result).toEqual([])
+  })
+
+  it('throws when neither copy is available', async () => {
+    const { repository } = setup({ remoteError: new Error('network') })
+    await expect(repository.profile(USER)).rejects.toThrow('network')
+  })
+
+  it('stores the server category list for the next offline read', async () => {
+    const { repository, savedCategories } = setup({
+      localCategories: [{ name: 'อาหาร' }],
+      remoteCategories: [{ name: 'อาหาร' }, { name: 'เดินทาง' }],
+    })
+    const result = await repository.expenseCategories(USER)
+    expect(result).toHaveLength(2)
+    expect(savedCategories).toEqual([[{ name: 'อาหาร' }, { name: 'เดินทาง' }]])
+  })
+})
@@ -0,0 +1,36 @@
+/**
+ * Unit tests for receipt image rules (validation, scaling, storage paths).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildReceiptPaths, fitWithin, validateReceiptFile } from '../src/domain/receipt/receipt'
+
+describe('validateReceiptFile', () => {
+  it('accepts images up to the size limit', () => {
+    expect(validateReceiptFile({ type: 'image/jpeg', size: 5_000_000 })).toBeNull()
+    expect(validateReceiptFile({ type: 'application/pdf', size: 1000 })).toBe('UNSUPPORTED_TYPE')
+    expect(validateReceiptFile({ type: 'image/png', size: 25 * 1024 * 1024 })).toBe('TOO_LARGE')
+  })
+})
+
+describe('fitWithin', () => {
+  it('scales the longest edge down, keeping the aspect ratio', () => {
+    expect(fitWithin(4000, 3000, 1600)).toEqual({ width: 1600, height: 1200 })
+    expect(fitWithin(3000, 4000, 160)).toEqual({ width: 120, height: 160 })
+  })
+
+  it('never upscales', () => {
+    expect(fitWithin(800, 600, 1600)).toEqual({ width: 800, height: 600 })
+  })
+})
+
+describe('buildReceiptPaths', () => {
+  it('puts files under the owner folder with a thumbnail next to the image', () => {
+    expect(buildReceiptPaths({ userId: 'u1', transactionId: 't1', receiptId: 'r1', contentType: 'image/png' })).toEqual({
+      path: 'u1/t1/r1.png',
+      thumbPath: 'u1/t1/r1-thumb.jpg',
+    })
+    expect(buildReceiptPaths({ userId: 'u1', transactionId: 't1', receiptId: 'r2', contentType: '' }).path).toBe('u1/t1/r2.jpg')
+  })
+})
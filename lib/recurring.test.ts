@@ -0,0 +1,134 @@
+/**
+ * Unit tests for recurring rules: expansion, due occurrences, forecast and auto-post.
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  expandRecurringRule,
+  getDueOccurrences,
+  occurrenceKey,
+  type RecurringOccurrence,
+  type RecurringRule,
+} from '../src/domain/recurring/recurring'
+import { computePlannedRemaining } from '../src/domain/forecast/forecast'
+import { autoPostDueRecurrences } from '../src/application/recurring/recurring-autopost-service'
+import type { RecurringPostingPort } from '../src/application/recurring/ports/recurring-ports'
+
+const rule = (overrides: Partial<RecurringRule>): RecurringRule => ({
+  id: 'r1',
+  type: 'expense',
+  amount: 5000,
+  category: 'บิล/ค่าใช้จ่าย',
+  frequency: 'monthly',
+  dayOfMonth: 5,
+  startDate: '2026-01-01',
+  ...overrides,
+})
+
+const dates = (occ: RecurringOccurrence[]) => occ.map((o) => o.date)
+
+describe('expandRecurringRule', () => {
+  const q1 = { start: new Date(2026, 0, 1), end: new Date(2026, 2, 31) }
+
+  it('monthly: one occurrence per month, clamped to short months', () => {
+    expect(dates(expandRecurringRule(rule({}), q1))).toEqual(['2026-01-05', '2026-02-05', '2026-03-05'])
+    expect(dates(expandRecurringRule(rule({ dayOfMonth: 31 }), q1))).toEqual(['2026-01-31', '2026-02-28', '2026-03-31'])
+  })
+
+  it('salary_day: follows the profile salary day (1st when calendar month)', () => {
+    const r = rule({ frequency: 'salary_day', dayOfMonth: null })
+    expect(dates(expandRecurringRule(r, q1, { salaryDay: 30 }))).toEqual(['2026-01-30', '2026-02-28', '2026-03-30'])
+    expect(dates(expandRecurringRule(r, q1, { salaryDay: 0 }))).toEqual(['2026-01-01', '2026-02-01', '2026-03-01'])
+  })
+
+  it('weekly: every given weekday', () => {
+    const r = rule({ frequency: 'weekly', dayOfWeek: 1 })
+    const jan = { start: new Date(2026, 0, 1), end: new Date(2026, 0, 31) }
+    expect(dates(expandRecurringRule(r, jan))).toEqual(['2026-01-05', '2026-01-12', '2026-01-19', '2026-01-26'])
+  })
+
+  it('yearly: clamps Feb 29 in non-leap years', () => {
+    const r = rule({ frequency: 'yearly', dayOfMonth: 29, monthOfYear: 2, startDate: '2024-01-01' })
+    const span = { start: new Date(2024, 0, 1), end: new Date(2026, 11, 31) }
+    expect(dates(expandRecurringRule(r, span))).toEqual(['2024-02-29', '2025-02-28', '2026-02-28'])
+  })
+
+  it('respects start/end dates and paused rules', () => {
+    expect(dates(expandRecurringRule(rule({ startDate: '2026-02-10', endDate: '2026-03-04' }), q1))).toEqual([])
+    expect(dates(expandRecurringRule(rule({ startDate: '2026-02-01' }), q1))).toEqual(['2026-02-05', '2026-03-05'])
+    expect(expandRecurringRule(rule({ isActive: false }), q1)).toEqual([])
+  })
+})
+
+describe('getDueOccurrences', () => {
+  it('returns unposted auto-post occurrences up to today', () => {
+    const rules = [rule({ autoPost: true, lastPostedDate: '2026-01-05' }), rule({ id: 'r2' })]
+    const due = getDueOccurrences(rules, new Date(2026, 2, 10), {
+      alreadyPosted: new Set([occurrenceKey('r1', '2026-02-05')]),
+    })
+    expect(due.map((o) => `${o.ruleId}@${o.date}`)).toEqual(['r1@2026-03-05'])
+  })
+})
+
+describe('computePlannedRemaining with declared recurrences', () => {
+  const today = new Date(2026, 1, 1)
+  const periodStart = new Date(2026, 1, 1)
+  const periodEnd = new Date(2026, 1, 28)
+  // History says rent is ~4000 on the 20th.
+  const history = [
+    { type: 'expense' as const, amount: 4000, category: 'บิล/ค่าใช้จ่าย', date: '2026-01-20' },
+    { type: 'expense' as const, amount: 4000, category: 'บิล/ค่าใช้จ่าย', date: '2025-12-20' },
+  ]
+
+  it('prefers the declared rule over the median heuristic for its category', () => {
+    expect(computePlannedRemaining(history, today, periodStart, periodEnd, ['บิล/ค่าใช้จ่าย'])).toBe(4000)
+    const declared = { rules: [rule({ dayOfMonth: 5 })] }
+    expect(computePlannedRemaining(history, today, periodStart, periodEnd, ['บิล/ค่าใช้จ่าย'], declared)).toBe(5000)
+  })
+
+  it('skips occurrences that are already posted', () => {
+    const posted = [
+      ...history,
+      { type: 'expense' as const, amount: 5000, category: 'บิล/ค่าใช้จ่าย', date: '2026-02-05', recurring_id: 'r1' },
+    ]
+    const declared = { rules: [rule({ dayOfMonth: 5 })] }
+    expect(computePlannedRemaining(posted, new Date(2026, 1, 5), periodStart, periodEnd, ['บิล/ค่าใช้จ่าย'], declared)).toBe(0)
+  })
+})
+
+describe('autoPostDueRecurrences', () => {
+  function fakePort(rules: RecurringRule[], failOn?: string) {
+    const posted: RecurringOccurrence[] = []
+    const cursors: Record<string, string> = {}
+    const port: RecurringPostingPort = {
+      loadRules: async () => rules,
+      loadPostedKeys: async () => new Set([occurrenceKey('r1', '2026-01-05')]),
+      postOccurrence: async (_userId, occ) => {
+        if (occ.date === failOn) throw new Error('offline store full')
+        posted.push(occ)
+      },
+      markPostedThrough: async (ruleId, date) => {
+        cursors[ruleId] = date
+      },
+    }
+    return { port, posted, cursors }
+  }
+  const silent = { error: () => {} }
+
+  it('posts due occurrences once and advances the cursor', async () => {
+    const { port, posted, cursors } = fakePort([rule({ autoPost: true })])
+    const result = await autoPostDueRecurrences({ userId: 'u1', today: new Date(2026, 2, 10), logger: silent }, port)
+    expect(dates(posted)).toEqual(['2026-02-05', '2026-03-05'])
+    expect(result.failed).toEqual([])
+    expect(cursors).toEqual({ r1: '2026-03-05' })
+  })
+
+  it('stops a rule at its first failure so the cursor never skips a gap', async () => {
+    const { port, posted, cursors } = fakePort([rule({ autoPost: true })], '2026-02-05')
+    const result = await autoPostDueRecurrences({ userId: 'u1', today: new Date(2026, 2, 10), logger: silent }, port)
+    expect(posted).toEqual([])
+    expect(dates(result.failed)).toEqual(['2026-02-05', '2026-03-05'])
+    expect(cursors).toEqual({})
+  })
+})
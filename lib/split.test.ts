@@ -0,0 +1,80 @@
+/**
+ * Unit tests for split transactions (one receipt, several categories).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  cleanSplits,
+  getCategoryAmounts,
+  getPrimarySplitCategory,
+  validateSplits,
+} from '../src/domain/split/split'
+import { computeSpentByCategory, getTopExpenseCategories } from '../src/domain/finance/finance'
+import { computeVariableDailyRate } from '../src/domain/forecast/forecast'
+
+const receipt = {
+  type: 'expense' as const,
+  amount: 1000,
+  category: 'ค่าอาหาร',
+  date: '2026-01-10',
+  splits: [
+    { category: 'ค่าอาหาร', amount: 600 },
+    { category: 'บิล/ค่าใช้จ่าย', amount: 300 },
+    { category: 'ค่าสุขภาพ', amount: 100 },
+  ],
+}
+
+describe('getCategoryAmounts', () => {
+  it('returns the whole amount for an unsplit row', () => {
+    expect(getCategoryAmounts({ amount: 50, category: 'ค่าอาหาร' })).toEqual([{ category: 'ค่าอาหาร', amount: 50 }])
+  })
+
+  it('leaves an unassigned remainder on the row category and ignores over-assigned splits', () => {
+    const short = { ...receipt, amount: 1200 }
+    expect(getCategoryAmounts(short)).toContainEqual({ category: 'ค่าอาหาร', amount: 200 })
+    const over = { ...receipt, amount: 900 }
+    expect(getCategoryAmounts(over)).toEqual([{ category: 'ค่าอาหาร', amount: 900 }])
+  })
+})
+
+describe('split validation', () => {
+  it('cleans, merges and checks lines against the total', () => {
+    const lines = cleanSplits([
+      { category: ' ค่าอาหาร ', amount: 0.1 },
+      { category: 'ค่าอาหาร', amount: 0.2 },
+      { category: '', amount: 0 },
+      { category: 'ค่าสุขภาพ', amount: 0.7 },
+    ])
+    expect(lines).toEqual([{ category: 'ค่าอาหาร', amount: 0.3 }, { category: 'ค่าสุขภาพ', amount: 0.7 }])
+    expect(validateSplits(1, lines)).toBeNull()
+    expect(validateSplits(2, lines)).toBe('SUM_MISMATCH')
+    expect(validateSplits(1, lines.slice(0, 1))).toBe('TOO_FEW_LINES')
+    expect(validateSplits(1, [{ category: '', amount: 0.5 }, { category: 'x', amount: 0.5 }])).toBe('MISSING_CATEGORY')
+    expect(getPrimarySplitCategory(lines)).toBe('ค่าสุขภาพ')
+  })
+})
+
+describe('category breakdowns attribute each split line', () => {
+  it('computeSpentByCategory and getTopExpenseCategories', () => {
+    const range = { start: new Date(2026, 0, 1), end: new Date(2026, 0, 31) }
+    expect(computeSpentByCategory([receipt], range)).toEqual({
+      'ค่าอาหาร': 600,
+      'บิล/ค่าใช้จ่าย': 300,
+      'ค่าสุขภาพ': 100,
+    })
+    const top = getTopExpenseCategories([receipt], 5)
+    expect(top.map((c) => [c.category, c.total])).toEqual([
+      ['ค่าอาหาร', 600],
+      ['บิล/ค่าใช้จ่าย', 300],
+      ['ค่าสุขภาพ', 100],
+    ])
+    expect(top[0].percent).toBe(60)
+  })
+
+  it('computeVariableDailyRate only counts the variable lines', () => {
+    // ค่าอาหาร (600) + ค่าสุขภาพ (100) are variable; the bill line (300) is not.
+    expect(computeVariableDailyRate([receipt], new Date(2026, 0, 11))).toBe(700)
+    expect(computeVariableDailyRate([receipt], new Date(2026, 0, 11), ['ค่าอาหาร'])).toBe(600)
+  })
+})
@@ -18,6 +18,20 @@ export {
   VISIBLE_CATEGORIES_KEY,
   MONTH_END_DAY_KEY,
   INCLUDE_CARRIED_OVER_KEY,
+  IMPORT_PRESETS_KEY,
+  LEARN_CATEGORY_RULES_KEY,
+  CATEGORY_CORRECTIONS_KEY,
+  DISMISSED_RULE_PROPOSALS_KEY,
+  TRANSACTION_FILTER_PRESETS_KEY,
+  SYNC_CONFLICT_POLICY_KEY,
+  SYNC_RUN_HISTORY_KEY,
+  OFFLINE_AUTO_LOCK_MINUTES_KEY,
+  ZERO_BASED_BUDGETING_KEY,
+  BUDGET_ALERT_THRESHOLDS_KEY,
+  BUDGET_ALERT_LOG_KEY,
+  APP_LOCK_PIN_KEY,
+  APP_LOCK_TIMEOUT_MINUTES_KEY,
+  APP_LOCK_FAILED_ATTEMPTS_KEY,
   EXPENSE_CATEGORIES,
   getVisibleCategories,
   setVisibleCategories,
@@ -25,5 +39,35 @@ export {
   setMonthEndDay,
   getIncludeCarriedOver,
   setIncludeCarriedOver,
+  getImportPresets,
+  saveImportPreset,
+  deleteImportPreset,
+  getTransactionFilterPresets,
+  saveTransactionFilterPreset,
+  deleteTransactionFilterPreset,
+  getLearnCategoryRules,
+  setLearnCategoryRules,
+  getCategoryCorrections,
+  recordCategoryCorrection,
+  getDismissedRuleProposals,
+  dismissRuleProposal,
+  getSyncConflictPolicy,
+  setSyncConflictPolicy,
+  getSyncRunHistory,
+  recordSyncRun,
+  getOfflineAutoLockMinutes,
+  setOfflineAutoLockMinutes,
+  getZeroBasedBudgeting,
+  setZeroBasedBudgeting,
+  getBudgetAlertThresholds,
+  setBudgetAlertThresholds,
+  getBudgetAlertLog,
+  recordBudgetAlerts,
+  getAppLockPin,
+  setAppLockPin,
+  getAppLockTimeoutMinutes,
+  setAppLockTimeoutMinutes,
+  getAppLockFailedAttempts,
+  setAppLockFailedAttempts,
   type ExpenseCategory,
 } from "../src/infrastructure/storage/local-settings";
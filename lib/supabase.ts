@@ -17,6 +17,9 @@ export {
   supabase,
   fetchCategoryBudgets,
   saveCategoryBudgets,
+  saveCycleBudgetSets,
+  fetchCategoryRolloverRules,
+  saveCategoryRolloverRule,
   type ProfileRow as Profile,
   type TransactionRow as Transaction,
   type ForecastRow as Forecast,
@@ -29,4 +32,40 @@ export {
   fetchExpenseCategories,
   type ExpenseCategoryRow,
   type ExpenseCategoryKind,
+  type AccountRow,
+  fetchAccounts,
+  insertAccount,
+  updateAccount,
+  deleteAccount,
+  toDomainAccounts,
+  type RecurringRuleRow,
+  type RecurringRuleInput,
+  fetchRecurringRules,
+  insertRecurringRule,
+  updateRecurringRule,
+  deleteRecurringRule,
+  toDomainRecurringRules,
+  type CategoryRuleRow,
+  type CategoryRuleInput,
+  fetchCategoryRules,
+  insertCategoryRule,
+  updateCategoryRule,
+  deleteCategoryRule,
+  toDomainCategoryRules,
+  searchTransactions,
+  fetchTransferLegs,
+  fetchTransactionIdByCreatedAt,
+  type TagRow,
+  type TransactionTagLink,
+  fetchTags,
+  insertTag,
+  updateTag,
+  deleteTag,
+  fetchTransactionTagLinks,
+  setTransactionTags,
+  fetchTaggedTransactions,
+  type ReceiptRow,
+  fetchReceipts,
+  createReceiptUrls,
+  deleteReceipt,
 } from "../src/infrastructure/supabase/supabase";
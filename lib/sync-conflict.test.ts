@@ -0,0 +1,61 @@
+/**
+ * Unit tests for sync conflict resolution (three-way field merge + policies).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  TRANSACTION_CONFLICT_FIELDS,
+  mergeFieldChanges,
+  planConflictResolution,
+  sameFieldValue,
+} from '../src/domain/sync/conflict'
+
+const base = { type: 'expense', amount: 100, category: 'ค่าอาหาร', description: 'ข้าว', date: '2026-02-01' }
+
+describe('sameFieldValue', () => {
+  it('treats empty values alike and compares numbers and split lines by value', () => {
+    expect(sameFieldValue(undefined, null)).toBe(true)
+    expect(sameFieldValue('', null)).toBe(true)
+    expect(sameFieldValue('100', 100)).toBe(true)
+    expect(sameFieldValue([{ category: 'a', amount: 1 }], [{ category: 'a', amount: 1 }])).toBe(true)
+    expect(sameFieldValue([{ category: 'a', amount: 1 }], null)).toBe(false)
+  })
+})
+
+describe('mergeFieldChanges', () => {
+  it('takes each side’s own changes and reports fields changed on both sides', () => {
+    const local = { ...base, description: 'ข้าวมันไก่', amount: 90 }
+    const server = { ...base, category: 'ช้อปปิ้ง', amount: 120 }
+    const { merged, conflictingFields } = mergeFieldChanges(base, local, server, TRANSACTION_CONFLICT_FIELDS)
+    expect(merged).toMatchObject({ description: 'ข้าวมันไก่', category: 'ช้อปปิ้ง', amount: 120 })
+    expect(conflictingFields).toEqual(['amount'])
+  })
+
+  it('does not report a field both sides changed to the same value', () => {
+    const same = { ...base, amount: 150 }
+    expect(mergeFieldChanges(base, same, same, TRANSACTION_CONFLICT_FIELDS).conflictingFields).toEqual([])
+  })
+})
+
+describe('planConflictResolution', () => {
+  const local = { ...base, description: 'ข้าวมันไก่' }
+  const server = { ...base, amount: 120 }
+
+  it('merges cleanly without review when the edits touch different fields', () => {
+    const plan = planConflictResolution('merge', base, local, server, TRANSACTION_CONFLICT_FIELDS)
+    expect(plan).toMatchObject({ outcome: 'merged', needsReview: false })
+    expect(plan.write).toMatchObject({ amount: 120, description: 'ข้าวมันไก่' })
+  })
+
+  it('applies whole versions under server-wins / client-wins and asks for review', () => {
+    expect(planConflictResolution('server-wins', base, local, server, TRANSACTION_CONFLICT_FIELDS)).toMatchObject({
+      write: null,
+      outcome: 'server',
+      needsReview: true,
+    })
+    const clientWins = planConflictResolution('client-wins', base, local, server, TRANSACTION_CONFLICT_FIELDS)
+    expect(clientWins).toMatchObject({ outcome: 'client', needsReview: true })
+    expect(clientWins.write).toMatchObject({ amount: 100, description: 'ข้าวมันไก่' })
+  })
+})
@@ -0,0 +1,323 @@
+/**
+ * Unit tests for the sync coordinator (offline queue replay against fake ports).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import { SyncCoordinator } from '../src/application/sync/sync-coordinator'
+import type {
+  BackendSyncPort,
+  OfflineStorePort,
+  OfflineTransaction,
+  OutboxItemState,
+  SyncLockPort,
+  PullResult,
+  PullTable,
+  SyncConflict,
+  TransactionVersion,
+} from '../src/application/sync/ports/sync-ports'
+import type { ConflictPolicy } from '../src/domain/sync/conflict'
+import type { RetryPolicy } from '../src/domain/sync/retry'
+import type { SyncRunRecord } from '../src/domain/sync/sync-history'
+
+const USER = 'user-1'
+const SERVER_ID = '11111111-1111-4111-8111-111111111111'
+const silent = { log: () => {}, warn: () => {}, error: () => {} }
+
+const emptyPull = async (): Promise<PullResult> => ({ rows: [], deleted_ids: [], complete: true, watermark: null })
+
+function setup(
+  queue: OfflineTransaction[],
+  options: {
+    pull?: (table: PullTable, since: string | null) => Promise<PullResult>
+    /** Current server row returned by `fetchTransactionById`. */
+    server?: TransactionVersion | null
+    policy?: ConflictPolicy
+    retry?: Partial<RetryPolicy>
+    /** Error thrown by `insertTransaction` (to simulate a failing item). */
+    insertError?: Error
+    lock?: SyncLockPort
+    /** Encrypted offline data still locked (`isLocked`). */
+    locked?: boolean
+    /** Signed out: `getSession` resolves to null. */
+    noSession?: boolean
+  } = {},
+) {
+  const calls: string[] = []
+  const rows = queue.map((t) => ({ ...t }))
+  const watermarks = new Map<PullTable, string>()
+  const applied: { table: PullTable; result: PullResult }[] = []
+  const conflicts: SyncConflict[] = []
+  const updates: Partial<TransactionVersion>[] = []
+  const outbox = new Map<string, OutboxItemState>()
+  const history: SyncRunRecord[] = []
+  const events: string[] = []
+  const pull = options.pull ?? emptyPull
+
+  const offline: OfflineStorePort = {
+    isLocked: async () => options.locked ?? false,
+    getUnsyncedTransactions: async () => rows.filter((t) => !t.synced),
+    markTransactionSynced: async (localId, dbId) => {
+      const row = rows.find((t) => t.local_id === localId)
+      if (row) Object.assign(row, { id: dbId, synced: true })
+    },
+    markTransactionSyncedById: async (id) => {
+      rows.filter((t) => t.id === id).forEach((t) => (t.synced = true))
+    },
+    deleteSyncedTransactions: async () => {},
+    saveConflict: async (conflict) => {
+      conflicts.push(conflict)
+    },
+    discardTransaction: async (localId) => {
+      calls.push(`discard ${localId}`)
+      rows.splice(rows.findIndex((t) => t.local_id === localId), 1)
+    },
+    getProfile: async () => null,
+    markProfileSynced: async () => {},
+    getUnsyncedForecasts: async () => [],
+    saveForecast: async () => {},
+    getPendingReceipts: async () => [],
+    deleteReceipt: async () => {},
+    getPullWatermark: async (_userId, table) => watermarks.get(table) ?? null,
+    setPullWatermark: async (_userId, table, watermark) => {
+      watermarks.set(table, watermark)
+    },
+    applyPulledChanges: async (_userId, table, result) => {
+      applied.push({ table, result })
+    },
+    getOutboxStates: async (userId) => Array.from(outbox.values()).filter((s) => s.user_id === userId),
+    saveOutboxState: async (state) => {
+      outbox.set(state.key, state)
+    },
+    deleteOutboxState: async (key) => {
+      outbox.delete(key)
+    },
+    discardOutboxItem: async (kind, ref) => {
+      calls.push(`discard ${kind} ${ref}`)
+      outbox.delete(`${kind}:${ref}`)
+      if (kind === 'transaction') rows.splice(rows.findIndex((t) => t.local_id === ref), 1)
+    },
+  }
+
+  const backend: BackendSyncPort = {
+    insertTransaction: async (input) => {
+      calls.push(`insert ${input.date}`)
+      if (options.insertError) throw options.insertError
+      return { id: SERVER_ID }
+    },
+    updateTransactionById: async (id, input) => {
+      calls.push(`update ${id}`)
+      updates.push(input)
+    },
+    fetchTransactionById: async () => options.server ?? null,
+    deleteTransactionById: async (id) => {
+      calls.push(`delete ${id}`)
+    },
+    upsertProfile: async (input) => ({ id: input.id }),
+    upsertForecast: async () => ({ id: SERVER_ID }),
+    uploadReceipt: async () => {},
+    pullChanges: async (input) => pull(input.table, input.since),
+  }
+
+  const coordinator = new SyncCoordinator(
+    {
+      auth: { getSession: async () => (options.noSession ? null : { user: { id: USER } }) },
+      backend,
+      offline,
+      network: { isOnline: () => true },
+      history: { recordRun: (run) => history.push(run) },
+      events: {
+        emitSyncStarted: ({ trigger }) => events.push(`started ${trigger}`),
+        emitSyncComplete: ({ skipReason }) => events.push(`complete${skipReason ? ` ${skipReason}` : ''}`),
+      },
+      lock: options.lock,
+      logger: silent,
+    },
+    { maxSessionRetries: 1, sessionRetryDelayMs: 0, conflictPolicy: options.policy, retryPolicy: options.retry },
+  )
+  return { coordinator, calls, rows, watermarks, applied, conflicts, updates, outbox, history, events }
+}
+
+const base = { type: 'expense' as const, amount: 100, date: '2026-02-01', user_id: USER }
+
+describe('SyncCoordinator.syncTransactions', () => {
+  it('replays queued creates, edits and deletes in change order', async () => {
+    const { coordinator, calls, rows } = setup([
+      { ...base, local_id: 'c', id: SERVER_ID, deleted: true, synced: false, updated_at: '2026-02-01T10:00:00Z' },
+      { ...base, local_id: 'a', date: '2026-01-31', created_at: '2026-02-01T08:00:00Z' },
+      { ...base, local_id: 'b', id: SERVER_ID, synced: false, updated_at: '2026-02-01T09:00:00Z' },
+    ])
+    await coordinator.syncTransactions(USER)
+    expect(calls).toEqual(['insert 2026-01-31', `update ${SERVER_ID}`, `delete ${SERVER_ID}`])
+    expect(rows.every((t) => t.synced)).toBe(true)
+  })
+
+  it('discards a tombstone that never reached the server', async () => {
+    const { coordinator, calls, rows } = setup([{ ...base, local_id: 'x', deleted: true }])
+    await coordinator.syncTransactions(USER)
+    expect(calls).toEqual(['discard x'])
+    expect(rows).toEqual([])
+  })
+})
+
+describe('SyncCoordinator conflict detection', () => {
+  const baseVersion: TransactionVersion = { ...base, category: 'ค่าอาหาร', description: 'ข้าว', updated_at: '2026-02-01T08:00:00Z' }
+  // Edited offline: new description. Meanwhile another device changed the amount.
+  const edit: OfflineTransaction = {
+    ...base, local_id: 'e', id: SERVER_ID, synced: false, category: 'ค่าอาหาร', description: 'ข้าวมันไก่', base: baseVersion,
+  }
+  const server: TransactionVersion = { ...baseVersion, amount: 120, updated_at: '2026-02-01T09:00:00Z' }
+
+  it('merges edits of different fields without a conflict', async () => {
+    const { coordinator, updates, conflicts } = setup([edit], { server })
+    await coordinator.syncTransactions(USER)
+    expect(updates).toEqual([expect.objectContaining({ amount: 120, description: 'ข้าวมันไก่' })])
+    expect(conflicts).toEqual([])
+  })
+
+  it('keeps the server row under server-wins and records both versions', async () => {
+    const { coordinator, calls, conflicts } = setup([{ ...edit, amount: 90 }], { server, policy: 'server-wins' })
+    await coordinator.syncTransactions(USER)
+    expect(calls).toEqual(['discard e'])
+    expect(conflicts).toHaveLength(1)
+    expect(conflicts[0]).toMatchObject({ row_id: SERVER_ID, outcome: 'server', conflicting_fields: ['amount'] })
+    expect(conflicts[0].local.amount).toBe(90)
+    expect(conflicts[0].server?.amount).toBe(120)
+  })
+})
+
+describe('SyncCoordinator retry state', () => {
+  const create: OfflineTransaction = { ...base, local_id: 'f' }
+
+  it('records a failed item and waits out its backoff before retrying', async () => {
+    const { coordinator, calls, outbox } = setup([create], { insertError: new Error('boom') })
+    await coordinator.syncTransactions(USER)
+    expect(outbox.get('transaction:f')).toMatchObject({ attempts: 1, quarantined: false, last_error: 'boom' })
+
+    await coordinator.syncTransactions(USER)
+    expect(calls).toEqual(['insert 2026-02-01'])
+  })
+
+  it('quarantines an item after repeated failures until the user retries it', async () => {
+    const { coordinator, calls, outbox } = setup([create], {
+      insertError: new Error('boom'),
+      retry: { baseDelayMs: 0, quarantineAfter: 2 },
+    })
+    await coordinator.syncTransactions(USER)
+    await coordinator.syncTransactions(USER)
+    await coordinator.syncTransactions(USER)
+    expect(calls).toHaveLength(2)
+    expect(outbox.get('transaction:f')).toMatchObject({ attempts: 2, quarantined: true })
+
+    await coordinator.retryFailedItems(USER)
+    await coordinator.syncTransactions(USER)
+    expect(calls).toHaveLength(3)
+  })
+
+  it('discards only the chosen failed items', async () => {
+    const { coordinator, rows, outbox } = setup([create, { ...base, local_id: 'g', date: '2026-02-02' }], {
+      insertError: new Error('boom'),
+    })
+    await coordinator.syncTransactions(USER)
+    expect(outbox.size).toBe(2)
+
+    await coordinator.discardFailedItems(USER, ['transaction:g'])
+    expect(rows.map((t) => t.local_id)).toEqual(['f'])
+    expect(Array.from(outbox.keys())).toEqual(['transaction:f'])
+  })
+})
+
+describe('SyncCoordinator.pullChanges', () => {
+  it('stores each table and advances its watermark; a failing table is retried next run', async () => {
+    const seen: (string | null)[] = []
+    const { coordinator, watermarks, applied } = setup([], {
+      pull: async (table, since) => {
+        if (table === 'transactions') seen.push(since)
+        if (table === 'forecasts') throw new Error('network')
+        return { rows: [{ id: SERVER_ID }], deleted_ids: [], complete: since == null, watermark: '2026-02-01T10:00:00Z' }
+      },
+    })
+
+    await expect(coordinator.pullChanges(USER)).rejects.toThrow('forecasts')
+    expect(applied.map((a) => a.table)).toEqual(['profiles', 'transactions', 'category_budgets', 'debt_items'])
+    expect(watermarks.has('forecasts')).toBe(false)
+
+    await coordinator.pullChanges(USER).catch(() => {})
+    expect(seen).toEqual([null, '2026-02-01T10:00:00Z'])
+  })
+})
+
+describe('SyncCoordinator sync lock', () => {
+  it('skips the run while another context (e.g. the service worker) holds the lock', async () => {
+    const heldElsewhere: SyncLockPort = { runExclusive: async () => null }
+    const { coordinator, calls } = setup([{ ...base, local_id: 'a' }], { lock: heldElsewhere })
+    const summary = await coordinator.syncAll('background-sync')
+    expect(summary).toMatchObject({ skipped: true, skipReason: 'in-progress' })
+    expect(calls).toEqual([])
+  })
+
+  it('replays a queued row once when two runs start at the same time', async () => {
+    let held = false
+    const sharedLock: SyncLockPort = {
+      runExclusive: async (fn) => {
+        if (held) return null
+        held = true
+        try {
+          return await fn()
+        } finally {
+          held = false
+        }
+      },
+    }
+    const { coordinator, calls } = setup([{ ...base, local_id: 'a' }], { lock: sharedLock })
+    const [first, second] = await Promise.all([coordinator.syncAll('local-change'), coordinator.syncAll('local-change')])
+    expect(calls).toEqual(['insert 2026-02-01'])
+    expect(first.skipped).toBeFalsy()
+    expect(second).toMatchObject({ skipped: true, skipReason: 'in-progress' })
+  })
+
+  it('skips the run while encrypted offline data is locked', async () => {
+    const { coordinator, calls } = setup([{ ...base, local_id: 'a' }], { locked: true })
+    const summary = await coordinator.syncAll('online-event')
+    expect(summary).toMatchObject({ skipped: true, skipReason: 'locked' })
+    expect(calls).toEqual([])
+  })
+})
+
+describe('SyncCoordinator events', () => {
+  it('completes a run skipped because offline data is locked', async () => {
+    const { coordinator, events } = setup([], { locked: true })
+    await coordinator.syncAll('startup')
+    expect(events).toEqual(['started startup', 'complete locked'])
+  })
+
+  it('completes a run skipped for lack of a session', async () => {
+    const { coordinator, events } = setup([], { noSession: true })
+    await coordinator.syncAll('manual')
+    expect(events).toEqual(['started manual', 'complete no-session'])
+  })
+
+  it('completes a normal run once', async () => {
+    const { coordinator, events } = setup([])
+    await coordinator.syncAll('manual')
+    expect(events).toEqual(['started manual', 'complete'])
+  })
+})
+
+describe('SyncCoordinator run history', () => {
+  it('records each run with error messages, but not runs skipped as already in progress', async () => {
+    const { coordinator, history } = setup([], {
+      pull: async () => {
+        throw new Error('network')
+      },
+    })
+    const [first, second] = await Promise.all([coordinator.syncAll('manual'), coordinator.syncAll('focus-event')])
+    expect(second.skipReason).toBe('in-progress')
+    expect(first.failureCount).toBe(1)
+
+    expect(history).toHaveLength(1)
+    expect(history[0]).toMatchObject({ trigger: 'manual', skipped: false, failureCount: 1 })
+    expect(history[0].errors).toEqual([{ category: 'pull', message: expect.stringContaining('profiles') }])
+  })
+})
+
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for the sync run history (append / last success / last error).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  appendSyncRun,
+  isSyncRunRecord,
+  lastRunError,
+  lastSuccessfulRun,
+  type SyncRunRecord,
+} from '../src/domain/sync/sync-history'
+
+function run(startedAt: string, overrides: Partial<SyncRunRecord> = {}): SyncRunRecord {
+  return {
+    trigger: 'manual',
+    startedAt,
+    finishedAt: startedAt,
+    totalCount: 5,
+    successCount: 5,
+    failureCount: 0,
+    skipped: false,
+    ...overrides,
+  }
+}
+
+describe('appendSyncRun', () => {
+  it('keeps the newest runs first, up to the limit', () => {
+    const history = ['1', '2', '3'].reduce<SyncRunRecord[]>((h, t) => appendSyncRun(h, run(t), 2), [])
+    expect(history.map((r) => r.startedAt)).toEqual(['3', '2'])
+  })
+})
+
+describe('lastSuccessfulRun / lastRunError', () => {
+  const history = [
+    run('3', { skipped: true, skipReason: 'offline', totalCount: 0, successCount: 0 }),
+    run('2', { successCount: 4, failureCount: 1, errors: [{ category: 'pull', message: 'timeout' }] }),
+    run('1'),
+  ]
+
+  it('skips skipped and failed runs when looking for the last success', () => {
+    expect(lastSuccessfulRun(history)?.startedAt).toBe('1')
+    expect(lastSuccessfulRun([])).toBeNull()
+  })
+
+  it('reports the first error of the latest failing run', () => {
+    expect(lastRunError(history)).toEqual({ at: '2', category: 'pull', message: 'timeout' })
+    expect(lastRunError([run('1')])).toBeNull()
+  })
+})
+
+describe('isSyncRunRecord', () => {
+  it('rejects malformed stored entries', () => {
+    expect(isSyncRunRecord(run('1'))).toBe(true)
+    expect(isSyncRunRecord({ trigger: 'manual' })).toBe(false)
+    expect(isSyncRunRecord(null)).toBe(false)
+  })
+})
@@ -0,0 +1,34 @@
+/**
+ * Unit tests for per-item sync retry (exponential backoff + quarantine).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import { isRetryDue, recordFailure, retryDelayMs, type RetryPolicy } from '../src/domain/sync/retry'
+
+const policy: RetryPolicy = { baseDelayMs: 1000, maxDelayMs: 5000, quarantineAfter: 3 }
+const now = new Date('2026-02-01T10:00:00Z')
+
+describe('retryDelayMs', () => {
+  it('doubles per failure up to the cap', () => {
+    expect([1, 2, 3, 4].map((n) => retryDelayMs(n, policy))).toEqual([1000, 2000, 4000, 5000])
+  })
+})
+
+describe('recordFailure', () => {
+  it('counts attempts, schedules the next one and quarantines at the limit', () => {
+    const first = recordFailure(null, now, policy)
+    expect(first).toEqual({ attempts: 1, next_attempt_at: '2026-02-01T10:00:01.000Z', quarantined: false })
+    expect(recordFailure({ attempts: 2 }, now, policy)).toMatchObject({ attempts: 3, quarantined: true })
+  })
+})
+
+describe('isRetryDue', () => {
+  it('is due with no state or once the delay passed, never while quarantined', () => {
+    const state = recordFailure(null, now, policy)
+    expect(isRetryDue(undefined, now)).toBe(true)
+    expect(isRetryDue(state, now)).toBe(false)
+    expect(isRetryDue(state, new Date('2026-02-01T10:00:01Z'))).toBe(true)
+    expect(isRetryDue({ ...state, quarantined: true }, new Date('2026-03-01'))).toBe(false)
+  })
+})
@@ -17,4 +17,5 @@
 export {
   SyncService,
   syncService,
+  type SyncStatus,
 } from "../src/infrastructure/sync/sync-service";
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for transaction tags (names, report, filter, backup links).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  attachTagIds,
+  computeTagSpending,
+  normalizeTagName,
+  parseTagInput,
+  validateTagName,
+} from '../src/domain/tag/tag'
+import {
+  EMPTY_TRANSACTION_FILTER,
+  buildTransactionSearchQuery,
+  matchesTransactionSearch,
+} from '../src/domain/search/transaction-search'
+import { buildBackupArchive, prepareRestore } from '../src/domain/backup/backup'
+
+const trip = { id: 'g1', name: 'trip-chiangmai' }
+const wedding = { id: 'g2', name: 'wedding' }
+
+describe('tag names', () => {
+  it('normalizes and parses free text into unique names', () => {
+    expect(normalizeTagName('  #Trip  Chiangmai ')).toBe('trip-chiangmai')
+    expect(parseTagInput('wedding, #Trip Chiangmai #wedding')).toEqual(['wedding', 'trip-chiangmai'])
+  })
+
+  it('rejects empty, overlong and duplicate names (except the tag being renamed)', () => {
+    expect(validateTagName(' # ', [])).toBe('EMPTY')
+    expect(validateTagName('x'.repeat(41), [])).toBe('TOO_LONG')
+    expect(validateTagName('Trip Chiangmai', [trip])).toBe('DUPLICATE')
+    expect(validateTagName('trip-chiangmai', [trip], 'g1')).toBeNull()
+  })
+})
+
+describe('computeTagSpending', () => {
+  const rows = attachTagIds(
+    [
+      {
+        id: 't1', type: 'expense' as const, amount: 1000, category: 'ค่าอาหาร', date: '2026-02-01',
+        splits: [{ category: 'ค่าอาหาร', amount: 700 }, { category: 'ค่าเดินทาง', amount: 300 }],
+      },
+      { id: 't2', type: 'expense' as const, amount: 500, category: 'ค่าเดินทาง', date: '2026-02-03' },
+      { id: 't3', type: 'income' as const, amount: 200, category: 'เงินคืน', date: '2026-02-04' },
+      { id: 't4', type: 'expense' as const, amount: 900, category: 'ของขวัญ', date: '2025-12-01' },
+    ],
+    [
+      { transaction_id: 't1', tag_id: 'g1' },
+      { transaction_id: 't2', tag_id: 'g1' },
+      { transaction_id: 't3', tag_id: 'g1' },
+      { transaction_id: 't4', tag_id: 'g2' },
+    ],
+  )
+
+  it('totals a tag across categories, attributing split lines', () => {
+    const [report] = computeTagSpending(rows, [trip, wedding], { start: '2026-01-25', end: '2026-02-24' })
+    expect(report).toMatchObject({ tag: trip, count: 3, totalExpense: 1500, totalIncome: 200 })
+    expect(report.byCategory.map((c) => [c.category, c.total])).toEqual([
+      ['ค่าเดินทาง', 800],
+      ['ค่าอาหาร', 700],
+    ])
+  })
+
+  it('leaves out tags with no rows in range; all time includes them', () => {
+    expect(computeTagSpending(rows, [trip, wedding], { start: '2026-01-25', end: '2026-02-24' })).toHaveLength(1)
+    expect(computeTagSpending(rows, [trip, wedding], null).map((r) => r.tag.id)).toEqual(['g1', 'g2'])
+  })
+})
+
+describe('tag filter', () => {
+  it('matches rows carrying any selected tag', () => {
+    const query = buildTransactionSearchQuery({
+      filter: { ...EMPTY_TRANSACTION_FILTER, tagIds: ['g1', 'g3'] },
+      period: { start: '2026-01-25', end: '2026-02-24' },
+      selectedCategories: [],
+      uncategorizedLabel: 'ไม่ระบุหมวด',
+    })
+    const tx = { type: 'expense' as const, amount: 100, category: 'ค่าอาหาร', date: '2026-02-01' }
+    expect(matchesTransactionSearch({ ...tx, tag_ids: ['g1'] }, query, [])).toBe(true)
+    expect(matchesTransactionSearch({ ...tx, tag_ids: ['g2'] }, query, [])).toBe(false)
+    expect(matchesTransactionSearch(tx, query, [])).toBe(false)
+  })
+})
+
+describe('backup restore', () => {
+  it('points transaction_tags at the restored transaction and tag ids', () => {
+    const archive = buildBackupArchive(
+      null,
+      {
+        transactions: [{ id: 't1', user_id: 'u1' }],
+        tags: [{ id: 'g1', user_id: 'u1', name: 'wedding' }],
+        transaction_tags: [{ id: 'l1', user_id: 'u1', transaction_id: 't1', tag_id: 'g1' }],
+      },
+      new Date('2026-01-15T08:00:00Z'),
+    )
+    let n = 0
+    const { tables } = prepareRestore(archive, 'u2', () => `new-${++n}`)
+    expect(tables.transaction_tags[0]).toMatchObject({
+      user_id: 'u2',
+      transaction_id: tables.transactions[0].id,
+      tag_id: tables.tags[0].id,
+    })
+  })
+})
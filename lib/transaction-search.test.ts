@@ -0,0 +1,84 @@
+/**
+ * Unit tests for transaction search / advanced filters.
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  EMPTY_TRANSACTION_FILTER,
+  buildTransactionSearchQuery,
+  matchesTransactionSearch,
+  validateTransactionFilter,
+  type SearchableTransaction,
+} from '../src/domain/search/transaction-search'
+
+const UNKNOWN = 'ไม่ระบุหมวด'
+const known = ['ค่าอาหาร', 'ค่าเดินทาง', 'ค่าสุขภาพ']
+const period = { start: '2026-01-25', end: '2026-02-24' }
+
+const tx = (overrides: Partial<SearchableTransaction>): SearchableTransaction => ({
+  type: 'expense',
+  amount: 100,
+  category: 'ค่าอาหาร',
+  description: '',
+  date: '2026-02-01',
+  ...overrides,
+})
+
+const query = (filter: Partial<typeof EMPTY_TRANSACTION_FILTER>, selectedCategories: string[] = []) =>
+  buildTransactionSearchQuery({
+    filter: { ...EMPTY_TRANSACTION_FILTER, ...filter },
+    period,
+    selectedCategories,
+    uncategorizedLabel: UNKNOWN,
+  })
+
+describe('buildTransactionSearchQuery', () => {
+  it('uses the selected period unless the filter sets its own date range', () => {
+    expect(query({})).toMatchObject({ dateFrom: '2026-01-25', dateTo: '2026-02-24' })
+    expect(query({ dateFrom: '2025-06-01' })).toMatchObject({ dateFrom: '2025-06-01', dateTo: null })
+  })
+
+  it('splits the uncategorized chip from real categories', () => {
+    expect(query({}, ['ค่าอาหาร', UNKNOWN])).toMatchObject({ categories: ['ค่าอาหาร'], includeUncategorized: true })
+  })
+})
+
+describe('matchesTransactionSearch', () => {
+  it('matches text in description or category, case-insensitively', () => {
+    const q = query({ text: 'grab' })
+    expect(matchesTransactionSearch(tx({ description: 'GRAB food' }), q, known)).toBe(true)
+    expect(matchesTransactionSearch(tx({ description: 'ร้านข้าว' }), q, known)).toBe(false)
+  })
+
+  it('applies type and amount range across periods', () => {
+    const q = query({ type: 'expense', minAmount: 50, maxAmount: 200, dateFrom: '2025-01-01', dateTo: '2026-12-31' })
+    expect(matchesTransactionSearch(tx({ date: '2025-03-10' }), q, known)).toBe(true)
+    expect(matchesTransactionSearch(tx({ amount: 250 }), q, known)).toBe(false)
+    expect(matchesTransactionSearch(tx({ type: 'income' }), q, known)).toBe(false)
+  })
+
+  it('lists a transfer once and hides transfers under type / category filters', () => {
+    const out = tx({ type: 'transfer', category: null, transfer_direction: 'out' })
+    const incoming = { ...out, transfer_direction: 'in' as const }
+    expect(matchesTransactionSearch(out, query({}), known)).toBe(true)
+    expect(matchesTransactionSearch(incoming, query({}), known)).toBe(false)
+    expect(matchesTransactionSearch(out, query({ type: 'expense' }), known)).toBe(false)
+    expect(matchesTransactionSearch(out, query({}, ['ค่าอาหาร']), known)).toBe(false)
+  })
+
+  it('matches categories through split lines and the uncategorized chip', () => {
+    const split = tx({ splits: [{ category: 'ค่าอาหาร', amount: 60 }, { category: 'ค่าสุขภาพ', amount: 40 }] })
+    expect(matchesTransactionSearch(split, query({}, ['ค่าสุขภาพ']), known)).toBe(true)
+    expect(matchesTransactionSearch(tx({ category: 'หมวดเก่า' }), query({}, [UNKNOWN]), known)).toBe(true)
+    expect(matchesTransactionSearch(tx({}), query({}, [UNKNOWN]), known)).toBe(false)
+  })
+})
+
+describe('validateTransactionFilter', () => {
+  it('rejects inverted ranges', () => {
+    expect(validateTransactionFilter({ ...EMPTY_TRANSACTION_FILTER, minAmount: 500, maxAmount: 100 })).toBe('AMOUNT_RANGE')
+    expect(validateTransactionFilter({ ...EMPTY_TRANSACTION_FILTER, dateFrom: '2026-02-01', dateTo: '2026-01-01' })).toBe('DATE_RANGE')
+    expect(validateTransactionFilter(EMPTY_TRANSACTION_FILTER)).toBeNull()
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for transfers between own accounts.
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildTransferLegs,
+  computeNetTransferFlow,
+  findCounterpartLeg,
+  validateTransfer,
+} from '../src/domain/transfer/transfer'
+import { computeAccountBalances, type Account } from '../src/domain/account/account'
+import { computeSpentByCategory, getTopExpenseCategories } from '../src/domain/finance/finance'
+import { computeBudgetCycleResult } from '../src/application/budget/budget-service'
+
+const accounts: Account[] = [
+  { id: 'cash', name: 'เงินสด', kind: 'cash', openingBalance: 0 },
+  { id: 'kbank', name: 'KBank', kind: 'bank', openingBalance: 0 },
+]
+
+const [outLeg, inLeg] = buildTransferLegs({
+  transferId: 't-1',
+  fromAccountId: 'kbank',
+  toAccountId: 'cash',
+  amount: 2000,
+  date: '2026-01-28',
+})
+
+const txs = [
+  { type: 'income' as const, amount: 20000, category: 'เงินเดือน', date: '2026-01-27', account_id: 'kbank' },
+  { type: 'expense' as const, amount: 300, category: 'ค่าอาหาร', date: '2026-01-29', account_id: 'cash' },
+  outLeg,
+  inLeg,
+]
+
+describe('buildTransferLegs / validateTransfer', () => {
+  it('creates an out leg on the source and an in leg on the destination', () => {
+    expect(outLeg).toMatchObject({ type: 'transfer', account_id: 'kbank', transfer_direction: 'out', amount: 2000 })
+    expect(inLeg).toMatchObject({ type: 'transfer', account_id: 'cash', transfer_direction: 'in', amount: 2000 })
+    expect(outLeg.transfer_id).toBe(inLeg.transfer_id)
+  })
+
+  it('rejects same account and non-positive amounts', () => {
+    const base = { transferId: 'x', fromAccountId: 'cash', toAccountId: 'kbank', amount: 1, date: '2026-01-01' }
+    expect(validateTransfer(base)).toBeNull()
+    expect(validateTransfer({ ...base, toAccountId: 'cash' })).toBe('SAME_ACCOUNT')
+    expect(validateTransfer({ ...base, amount: 0 })).toBe('INVALID_AMOUNT')
+    expect(() => buildTransferLegs({ ...base, toAccountId: 'cash' })).toThrow()
+  })
+
+  it('finds the counterpart leg', () => {
+    expect(findCounterpartLeg(outLeg, txs)).toBe(inLeg)
+    expect(findCounterpartLeg(txs[0], txs)).toBeUndefined()
+  })
+})
+
+describe('transfers in balances and totals', () => {
+  it('moves money between account balances without changing the total', () => {
+    const balances = computeAccountBalances(accounts, txs)
+    expect(balances.find((b) => b.accountId === 'kbank')).toMatchObject({ balance: 18000, transferOut: 2000 })
+    expect(balances.find((b) => b.accountId === 'cash')).toMatchObject({ balance: 1700, transferIn: 2000 })
+    expect(computeNetTransferFlow(txs)).toBe(0)
+  })
+
+  it('is excluded from spending and category breakdowns', () => {
+    const range = { start: new Date(2026, 0, 1), end: new Date(2026, 0, 31) }
+    expect(computeSpentByCategory(txs, range)).toEqual({ 'ค่าอาหาร': 300 })
+    expect(getTopExpenseCategories(txs, 5)).toHaveLength(1)
+  })
+
+  it('counts in the cycle balance only when scoped to some accounts', () => {
+    const input = {
+      today: new Date(2026, 0, 30),
+      salaryConfig: { salaryDay: 27 },
+      budgetHistory: {},
+      transactions: txs,
+      carryForwardEnabled: false,
+      carryForwardAmount: 0,
+    }
+    expect(computeBudgetCycleResult(input)).toMatchObject({ spent: 300, currentBalance: 19700 })
+    expect(computeBudgetCycleResult({ ...input, accountIds: ['cash'] })).toMatchObject({
+      spent: 300,
+      currentBalance: 1700,
+    })
+  })
+})
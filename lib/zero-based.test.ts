@@ -0,0 +1,48 @@
+/**
+ * Unit tests for zero-based budgeting (assigning every baht of cycle income).
+ * Run: npm test
+ */
+
+import { describe, it, expect } from 'vitest'
+import { computeBudgetCycleResult, computeZeroBasedBudget } from '../src/application/budget/budget-service'
+
+describe('computeZeroBasedBudget', () => {
+  it('reports income left to assign', () => {
+    const result = computeZeroBasedBudget(30000, { ค่าอาหาร: 8000, ค่าเดินทาง: 2000 }, { savings: 5000, debtPayments: 3000 })
+    expect(result).toMatchObject({ assignedToCategories: 10000, totalAssigned: 18000, unassigned: 12000, status: 'unassigned' })
+  })
+
+  it('is balanced when every baht is assigned', () => {
+    const result = computeZeroBasedBudget(30000.25, { ค่าอาหาร: 22000 }, { savings: 5000, debtPayments: 3000 })
+    expect(result.status).toBe('balanced')
+  })
+
+  it('flags assignments beyond income', () => {
+    const result = computeZeroBasedBudget(20000, { ค่าอาหาร: 18000 }, { savings: 5000, debtPayments: 0 })
+    expect(result).toMatchObject({ unassigned: -3000, status: 'over_assigned' })
+  })
+})
+
+describe('computeBudgetCycleResult zero-based mode', () => {
+  const input = {
+    today: new Date(2026, 2, 10),
+    salaryConfig: { salaryDay: 0 },
+    budgetHistory: { '1970-01-01': { ค่าอาหาร: 10000 } },
+    transactions: [
+      { type: 'income' as const, amount: 25000, date: '2026-03-01' },
+      { type: 'income' as const, amount: 40000, date: '2026-02-01' },
+      { type: 'expense' as const, amount: 500, category: 'ค่าอาหาร', date: '2026-03-02' },
+    ],
+    carryForwardEnabled: false,
+    carryForwardAmount: 0,
+  }
+
+  it('assigns only the income received inside the cycle', () => {
+    const result = computeBudgetCycleResult({ ...input, zeroBased: { savings: 5000, debtPayments: 2000 } })
+    expect(result.zeroBased).toMatchObject({ income: 25000, totalAssigned: 17000, unassigned: 8000, status: 'unassigned' })
+  })
+
+  it('is null when the mode is off', () => {
+    expect(computeBudgetCycleResult(input).zeroBased).toBeNull()
+  })
+})
@@ -2,6 +2,18 @@
 const CACHE_NAME = 'moneyplan-ai-v1'
 const RUNTIME_CACHE = 'moneyplan-ai-runtime-v1'
 
+// Tags registered by SyncService (src/infrastructure/sync/background-sync.ts)
+const BACKGROUND_SYNC_TAG = 'moneyplan-outbox'
+const PERIODIC_SYNC_TAG = 'moneyplan-periodic-sync'
+
+// Sync code shared with the app (bundled by scripts/build-sync-worker.mjs).
+// Exposes `self.moneyplanSync.drainOutbox(trigger)`.
+try {
+  importScripts('/sync-worker.js')
+} catch (err) {
+  console.log('[Service Worker] Sync bundle unavailable, background sync disabled:', err)
+}
+
 // ไฟล์ที่ต้อง cache ตอน install
 const STATIC_CACHE_URLS = [
   '/',
@@ -122,32 +134,59 @@ self.addEventListener('fetch', (event) => {
   )
 })
 
-// Background sync for offline actions
+// Background sync: replay the offline outbox once the network is back,
+// even when the app is closed
 self.addEventListener('sync', (event) => {
   console.log('[Service Worker] Background sync:', event.tag)
-  if (event.tag === 'sync-transactions') {
-    event.waitUntil(syncTransactions())
-  } else if (event.tag === 'sync-profile') {
-    event.waitUntil(syncProfile())
-  } else if (event.tag === 'sync-forecasts') {
-    event.waitUntil(syncForecasts())
+  if (event.tag === BACKGROUND_SYNC_TAG) {
+    event.waitUntil(runSync('background-sync', true))
   }
 })
 
-// Sync functions (will be called from client)
-async function syncTransactions() {
-  // This will be handled by the client-side sync service
-  console.log('[Service Worker] Syncing transactions...')
-}
+// Periodic background sync (installed app, browser-controlled interval)
+self.addEventListener('periodicsync', (event) => {
+  console.log('[Service Worker] Periodic sync:', event.tag)
+  if (event.tag === PERIODIC_SYNC_TAG) {
+    event.waitUntil(runSync('periodic-sync', false))
+  }
+})
 
-async function syncProfile() {
-  console.log('[Service Worker] Syncing profile...')
-}
+/**
+ * An open page syncs itself (it also refreshes the auth token), so hand the
+ * work to it; otherwise drain the outbox here. With `retryOnFailure`, a run
+ * that left items behind rejects so the browser schedules another attempt.
+ */
+async function runSync(trigger, retryOnFailure) {
+  const windows = await self.clients.matchAll({ type: 'window' })
+  if (windows.length > 0) {
+    windows.forEach((client) => client.postMessage({ type: 'SYNC_REQUESTED', trigger }))
+    return
+  }
 
-async function syncForecasts() {
-  console.log('[Service Worker] Syncing forecasts...')
+  if (!self.moneyplanSync) return
+  const summary = await self.moneyplanSync.drainOutbox(trigger)
+  if (!summary || summary.skipped) return
+
+  const leftBehind = summary.failureCount > 0 || (summary.items && summary.items.failed > 0)
+  if (retryOnFailure && leftBehind) {
+    throw new Error('Background sync incomplete, retrying later')
+  }
 }
 
+// Budget alert notifications (src/infrastructure/budget/budget-alerts.ts):
+// focus an open window of the app, or open the page the alert points at
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = (event.notification.data && event.notification.data.url) || '/'
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => 'focus' in client)
+      if (open) return open.focus()
+      return self.clients.openWindow(url)
+    })
+  )
+})
+
 // Message handler for communication with client
 self.addEventListener('message', (event) => {
   if (event.data && event.data.type === 'SKIP_WAITING') {
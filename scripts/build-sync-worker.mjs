@@ -0,0 +1,39 @@
+#!/usr/bin/env node
+// Bundle the service worker's sync code (src/infrastructure/sync/service-worker-sync.ts)
+// into public/sync-worker.js, loaded by public/sw.js with importScripts.
+// Runs before `next dev` / `next build` (see package.json); Supabase settings
+// come from the same env files Next.js reads.
+// Usage:
+//   node scripts/build-sync-worker.mjs [--watch]
+
+import { createRequire } from 'node:module';
+import * as esbuild from 'esbuild';
+
+// @next/env is a dependency of next (not of this package); resolve it from there.
+const require = createRequire(import.meta.url);
+const { loadEnvConfig } = require(require.resolve('@next/env', { paths: [require.resolve('next/package.json')] }));
+loadEnvConfig(process.cwd(), process.argv.includes('--dev'));
+
+const options = {
+  entryPoints: ['src/infrastructure/sync/service-worker-sync.ts'],
+  outfile: 'public/sync-worker.js',
+  bundle: true,
+  format: 'iife',
+  globalName: 'moneyplanSync',
+  platform: 'browser',
+  target: 'es2019',
+  minify: true,
+  sourcemap: true,
+  define: {
+    'process.env.NEXT_PUBLIC_SUPABASE_URL': JSON.stringify(process.env.NEXT_PUBLIC_SUPABASE_URL ?? ''),
+    'process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY': JSON.stringify(process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? ''),
+  },
+  logLevel: 'info',
+};
+
+if (process.argv.includes('--watch')) {
+  const ctx = await esbuild.context(options);
+  await ctx.watch();
+} else {
+  await esbuild.build(options);
+}
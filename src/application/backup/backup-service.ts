@@ -0,0 +1,99 @@
+/**
+ * Application: Backup Service (export / restore)
+ *
+ * - `exportUserData` collects the profile + every user table into one archive.
+ * - `restoreUserData` loads an archive into an account that has no data yet.
+ *
+ * Clean Architecture rules:
+ * - No Supabase calls — everything goes through `BackupDataPort`.
+ * - Domain (`buildBackupArchive`, `prepareRestore`) owns the archive format
+ *   and id remapping; this service only orchestrates.
+ *
+ * Restore is deliberately "fresh account only": merging into existing data
+ * would need duplicate resolution per table, and a half-merged account is
+ * worse than a refused restore.
+ */
+
+import {
+  BACKUP_TABLES,
+  buildBackupArchive,
+  prepareRestore,
+  type BackupArchive,
+  type BackupRow,
+  type BackupTable,
+} from '../../domain/backup/backup'
+import type { BackupDataPort } from './ports/backup-ports'
+
+export type RestoreError = 'account_not_empty' | 'insert_failed'
+
+export type RestoreResult =
+  | { ok: true; inserted: Partial<Record<BackupTable, number>> }
+  | {
+      ok: false
+      error: RestoreError
+      /** Table that failed (insert_failed) or already has data (account_not_empty). */
+      table?: BackupTable
+      /** Rows inserted before the failure. */
+      inserted: Partial<Record<BackupTable, number>>
+    }
+
+export type RestoreInput = {
+  userId: string
+  archive: BackupArchive
+  /** Id generator for restored rows (e.g. `crypto.randomUUID`). */
+  newId: () => string
+  /** Defaults to `console`. */
+  logger?: Pick<Console, 'error'>
+}
+
+/** Rows per insert request; keeps payloads well under API limits. */
+const INSERT_CHUNK_SIZE = 500
+
+export async function exportUserData(
+  input: { userId: string; now: Date },
+  port: BackupDataPort,
+): Promise<BackupArchive> {
+  const tables: Partial<Record<BackupTable, BackupRow[]>> = {}
+  for (const table of BACKUP_TABLES) {
+    tables[table] = await port.loadTable(input.userId, table)
+  }
+  const profile = await port.loadProfile(input.userId)
+  return buildBackupArchive(profile, tables, input.now)
+}
+
+export async function restoreUserData(input: RestoreInput, port: BackupDataPort): Promise<RestoreResult> {
+  const logger = input.logger ?? console
+  const inserted: Partial<Record<BackupTable, number>> = {}
+
+  for (const table of BACKUP_TABLES) {
+    if ((await port.countRows(input.userId, table)) > 0) {
+      return { ok: false, error: 'account_not_empty', table, inserted }
+    }
+  }
+
+  const prepared = prepareRestore(input.archive, input.userId, input.newId)
+
+  for (const table of BACKUP_TABLES) {
+    const rows = prepared.tables[table]
+    try {
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+        await port.insertRows(table, rows.slice(i, i + INSERT_CHUNK_SIZE))
+        inserted[table] = Math.min(rows.length, i + INSERT_CHUNK_SIZE)
+      }
+    } catch (e) {
+      logger.error(`[Backup] Restore failed on ${table}:`, e)
+      return { ok: false, error: 'insert_failed', table, inserted }
+    }
+  }
+
+  if (prepared.profile) {
+    try {
+      await port.saveProfile(prepared.profile)
+    } catch (e) {
+      // Data rows are in; settings can be re-entered by hand.
+      logger.error('[Backup] Restoring profile settings failed:', e)
+    }
+  }
+
+  return { ok: true, inserted }
+}
@@ -0,0 +1,24 @@
+/**
+ * Application: Backup Ports
+ *
+ * Interfaces the export / restore use-cases need. Infrastructure provides the
+ * Supabase implementation.
+ */
+
+import type { BackupRow, BackupTable } from '../../../domain/backup/backup'
+
+/**
+ * Port: raw access to the user's rows.
+ * Implementations return rows as stored (all columns) and must treat a table
+ * that does not exist yet (migration not applied) as empty.
+ */
+export interface BackupDataPort {
+  loadProfile(userId: string): Promise<BackupRow | null>
+  loadTable(userId: string, table: BackupTable): Promise<BackupRow[]>
+  countRows(userId: string, table: BackupTable): Promise<number>
+
+  /** Insert rows (already owned by the target user). Throws on failure. */
+  insertRows(table: BackupTable, rows: BackupRow[]): Promise<void>
+  /** Create or update the target user's profile row. Throws on failure. */
+  saveProfile(profile: BackupRow): Promise<void>
+}
@@ -0,0 +1,88 @@
+/**
+ * Application: Budget Alert Service
+ *
+ * Checks the current cycle's category spending against the alert thresholds
+ * after a transaction is saved, logs what fired and hands it to the notifier.
+ *
+ * Clean Architecture rules:
+ * - No Supabase / IndexedDB / localStorage calls — everything goes through
+ *   `BudgetAlertSourcePort` and `BudgetAlertNotifierPort`.
+ * - Domain (`evaluateBudgetAlerts`) decides WHAT fires; this service only
+ *   loads the inputs, records the result and delivers it.
+ *
+ * With rollover on, a category's budget is its envelope (the cycle's budget
+ * plus what carried in), the same amount the transactions page shows.
+ *
+ * Alerts are logged before they are delivered, so a failed notification is
+ * not retried on every later save.
+ */
+
+import { getActiveMonthRange } from '../../domain/period/period'
+import { computeSpentByCategory } from '../../domain/finance/finance'
+import { toCycleStartKey } from '../../domain/budget/budget-cycle'
+import { getEffectiveBudgets } from '../../domain/budget/budget-history'
+import { envelopeBudgetMap, hasRollover } from '../../domain/budget/envelope'
+import { evaluateBudgetAlerts, type BudgetAlert } from '../../domain/budget/budget-alert'
+import { computeCategoryEnvelopes, envelopeLookbackStart } from './budget-service'
+import type { BudgetAlertNotifierPort, BudgetAlertSourcePort } from './ports/budget-alert-ports'
+
+export type BudgetAlertCheckInput = {
+  userId: string
+  /** Current date/time. Injectable so the service is deterministic in tests. */
+  now: Date
+  /** Defaults to `console`. */
+  logger?: Pick<Console, 'error'>
+}
+
+function toDateStr(d: Date): string {
+  const y = d.getFullYear()
+  const m = String(d.getMonth() + 1).padStart(2, '0')
+  const day = String(d.getDate()).padStart(2, '0')
+  return `${y}-${m}-${day}`
+}
+
+/** Evaluate the current cycle and fire new alerts. Resolves to what fired. */
+export async function checkBudgetAlerts(
+  input: BudgetAlertCheckInput,
+  source: BudgetAlertSourcePort,
+  notifier: BudgetAlertNotifierPort,
+): Promise<BudgetAlert[]> {
+  const logger = input.logger ?? console
+  const salaryDay = await source.loadSalaryDay(input.userId)
+  const range = getActiveMonthRange(input.now, salaryDay)
+  const cycleStart = toCycleStartKey({ startDate: range.start })
+
+  const budgetHistory = await source.loadBudgetHistory(input.userId)
+  const cycleBudgets = getEffectiveBudgets(budgetHistory, cycleStart)
+  if (Object.keys(cycleBudgets).length === 0) return []
+
+  // Envelopes need the earlier cycles' spending too.
+  const salaryConfig = { salaryDay }
+  const rolloverRules = await source.loadRolloverRules(input.userId)
+  const rollover = hasRollover(rolloverRules)
+  const from = rollover ? envelopeLookbackStart(input.now, salaryConfig) : cycleStart
+  const transactions = await source.loadTransactions(input.userId, from, toDateStr(range.end))
+  const budgets = rollover
+    ? envelopeBudgetMap(
+        computeCategoryEnvelopes({ asOf: input.now, salaryConfig, budgetHistory, transactions, rolloverRules }),
+      )
+    : cycleBudgets
+
+  const alerts = evaluateBudgetAlerts({
+    cycleStart,
+    budgets,
+    spentByCategory: computeSpentByCategory(transactions, range),
+    thresholds: source.loadThresholds(),
+    log: source.loadLog(),
+  })
+  if (alerts.length === 0) return []
+
+  const firedAt = input.now.toISOString()
+  source.recordAlerts(alerts.map((alert) => ({ ...alert, firedAt })))
+  try {
+    await notifier.notify(alerts)
+  } catch (e) {
+    logger.error('[BudgetAlerts] Failed to deliver alerts:', e)
+  }
+  return alerts
+}
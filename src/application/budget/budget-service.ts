@@ -6,11 +6,11 @@
  * Clean Architecture rules (enforced here):
  * - NO I/O: no Supabase calls, no localStorage reads, no fetch.
  * - Pure computation: every dependency arrives as a function parameter.
- * - Depends only on domain modules (period, finance, forecast, budget-cycle).
+ * - Depends only on domain modules (period, finance, forecast, budget-cycle, budget-history, envelope).
  *
  * The caller (page component / hook) is responsible for:
  * 1. Loading transactions from Supabase / IndexedDB.
- * 2. Loading category budgets.
+ * 2. Loading the category budget history (budgets per cycle).
  * 3. Computing carry-forward from previous cycle.
  * 4. Passing everything into `computeBudgetCycleResult`.
  */
@@ -20,6 +20,9 @@ import {
   type TransactionLike,
   computeSpentByCategory,
 } from '../../domain/finance/finance'
+import { filterTransactionsByAccounts } from '../../domain/account/account'
+import { computeNetTransferFlow } from '../../domain/transfer/transfer'
+import type { RecurringRule } from '../../domain/recurring/recurring'
 import {
   computeVariableDailyRate,
   computePlannedRemaining,
@@ -34,7 +37,22 @@ import {
   calculateDailySafeSpend,
   formatCycleLabel,
   formatCycleLabelEN,
+  getCycleStartKey,
+  shiftCycleStartKey,
 } from '../../domain/budget/budget-cycle'
+import {
+  type BudgetHistory,
+  type BudgetMap,
+  getEffectiveBudgets,
+  totalBudget as sumBudgets,
+} from '../../domain/budget/budget-history'
+import {
+  ENVELOPE_LOOKBACK_CYCLES,
+  computeEnvelopes,
+  type Envelope,
+  type EnvelopeCycle,
+  type RolloverRules,
+} from '../../domain/budget/envelope'
 
 // ─── Input / Output types ─────────────────────────────────────────────────────
 
@@ -43,8 +61,12 @@ export type BudgetServiceInput = {
   today: Date
   /** Salary cycle configuration (salaryDay maps to month_end_day in DB). */
   salaryConfig: SalaryConfig
-  /** Per-category budget allocation for the cycle (category name → ฿). */
-  budgetMap: Record<string, number>
+  /**
+   * Per-category budgets by cycle (cycle start → category name → ฿).
+   * The set effective for the cycle containing `today` is used, so past
+   * cycles are judged against the budgets they had.
+   */
+  budgetHistory: BudgetHistory
   /**
    * ALL user transactions (not pre-filtered by date).
    * This service filters to the cycle window internally.
@@ -67,6 +89,51 @@ export type BudgetServiceInput = {
    * back to the seeded defaults in `forecast.ts`.
    */
   categoryClassification?: ExpenseCategoryClassification
+  /**
+   * Restrict every metric (balance, spending, forecast) to these accounts.
+   * Omit or pass [] for all accounts; include `null` to keep transactions
+   * that have no account assigned. The carry-forward amount is NOT filtered
+   * here — compute it over the same subset before calling.
+   */
+  accountIds?: readonly (string | null)[]
+  /**
+   * Declared recurring rules. When given, upcoming expense occurrences drive
+   * the planned-remaining forecast instead of the median-history heuristic.
+   * Rules are scoped by `accountIds` the same way transactions are.
+   */
+  recurringRules?: readonly RecurringRule[]
+  /**
+   * Zero-based budgeting: when given, every baht of the cycle's income must
+   * be assigned across category budgets, savings and debt payments; the
+   * result then reports what is unassigned (or over-assigned).
+   */
+  zeroBased?: ZeroBasedAssignments
+}
+
+/** Assignments besides category budgets (฿ per cycle). */
+export type ZeroBasedAssignments = {
+  savings: number
+  debtPayments: number
+}
+
+/**
+ * - 'unassigned'    — income left to assign
+ * - 'balanced'      — every baht assigned
+ * - 'over_assigned' — more assigned than the cycle's income
+ */
+export type ZeroBasedStatus = 'unassigned' | 'balanced' | 'over_assigned'
+
+export type ZeroBasedBudget = {
+  /** Income transactions inside the cycle (฿). */
+  income: number
+  /** Sum of the category budgets effective for the cycle (฿). */
+  assignedToCategories: number
+  savings: number
+  debtPayments: number
+  totalAssigned: number
+  /** income − totalAssigned. Negative when over-assigned. */
+  unassigned: number
+  status: ZeroBasedStatus
 }
 
 export type BudgetCycleResult = {
@@ -88,6 +155,10 @@ export type BudgetCycleResult = {
   forecast: ForecastResult
   /** Per-category expense totals for this cycle (for breakdown UI). */
   spentByCategory: Record<string, number>
+  /** Per-category budgets effective for this cycle (category name → ฿). */
+  budgetMap: BudgetMap
+  /** Income assignment; null unless `zeroBased` was given. */
+  zeroBased: ZeroBasedBudget | null
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -111,7 +182,7 @@ function toDateStr(d: Date): string {
  * const result = computeBudgetCycleResult({
  *   today: new Date(),
  *   salaryConfig: { salaryDay: 27 },
- *   budgetMap: { อาหาร: 5000, เดินทาง: 2000 },
+ *   budgetHistory: { '2026-02-27': { อาหาร: 5000, เดินทาง: 2000 } },
  *   transactions: allTransactions,
  *   carryForwardEnabled: true,
  *   carryForwardAmount: 1500,   // from previous cycle
@@ -125,13 +196,20 @@ export function computeBudgetCycleResult(input: BudgetServiceInput): BudgetCycle
   const {
     today,
     salaryConfig,
-    budgetMap,
-    transactions,
+    budgetHistory,
     carryForwardEnabled,
     carryForwardAmount,
     categoryClassification,
+    accountIds,
+    recurringRules,
+    zeroBased,
   } = input
 
+  // ── 0. Scope to the selected accounts (no-op when none selected) ─────────
+  // Everything below — including the 14-day variable rate and fixed-bill
+  // history — only sees transactions from the chosen wallets.
+  const transactions = filterTransactionsByAccounts(input.transactions, accountIds)
+
   // ── 1. Resolve cycle date window ─────────────────────────────────────────
   // Period module handles all edge cases: Feb 28/29, salaryDay=31, etc.
   const cycleRange = getActiveMonthRange(today, salaryConfig.salaryDay)
@@ -157,7 +235,9 @@ export function computeBudgetCycleResult(input: BudgetServiceInput): BudgetCycle
   const spentByCategory = computeSpentByCategory(transactions, cycleRange)
 
   // ── 5. Budget totals ──────────────────────────────────────────────────────
-  const totalBudget = Object.values(budgetMap).reduce((sum, v) => sum + v, 0)
+  // The budgets effective for THIS cycle — not today's numbers applied to the past.
+  const budgetMap = getEffectiveBudgets(budgetHistory, cycleStartStr)
+  const totalBudget = sumBudgets(budgetMap)
   const effectiveCarryForward = carryForwardEnabled ? carryForwardAmount : 0
   // remainingBudget = unspent allocation + carry-forward surplus/deficit
   const remainingBudget = totalBudget - cycleExpense + effectiveCarryForward
@@ -172,7 +252,10 @@ export function computeBudgetCycleResult(input: BudgetServiceInput): BudgetCycle
   const dailySafeSpend = calculateDailySafeSpend(remainingBudget, daysLeft)
 
   // ── 8. Actual balance (cash position) ────────────────────────────────────
-  const currentBalance = cycleIncome - cycleExpense + effectiveCarryForward
+  // Transfers are not income/expense, but they do move cash between wallets.
+  // Net flow is 0 across all accounts and only matters when scoped by accountIds.
+  const cycleNetTransfer = computeNetTransferFlow(cycleTx)
+  const currentBalance = cycleIncome - cycleExpense + cycleNetTransfer + effectiveCarryForward
 
   // ── 9. End-of-cycle forecast ──────────────────────────────────────────────
   // Variable daily rate uses last 14 days across all transactions (may span cycles).
@@ -188,6 +271,15 @@ export function computeBudgetCycleResult(input: BudgetServiceInput): BudgetCycle
     cycleRange.start,
     cycleRange.end,
     categoryClassification?.fixed,
+    recurringRules
+      ? {
+          rules: filterTransactionsByAccounts(
+            recurringRules.map((r) => ({ ...r, account_id: r.accountId ?? null })),
+            accountIds,
+          ),
+          salaryDay: salaryConfig.salaryDay,
+        }
+      : undefined,
   )
   const forecast = computeForecastEnd(currentBalance, variableDailyRate, plannedRemaining, daysLeft)
 
@@ -210,5 +302,87 @@ export function computeBudgetCycleResult(input: BudgetServiceInput): BudgetCycle
     dailySafeSpend,
     forecast,
     spentByCategory,
+    budgetMap,
+    zeroBased: zeroBased ? computeZeroBasedBudget(cycleIncome, budgetMap, zeroBased) : null,
+  }
+}
+
+// ─── Zero-based budgeting ─────────────────────────────────────────────────────
+
+/** Below half a baht counts as fully assigned (inputs are whole baht, income may not be). */
+const ZERO_BASED_TOLERANCE = 0.5
+
+/**
+ * How the cycle's income is assigned across category budgets, savings and
+ * debt payments. Zero-based budgeting aims for `unassigned` = 0.
+ */
+export function computeZeroBasedBudget(
+  cycleIncome: number,
+  budgetMap: BudgetMap,
+  assignments: ZeroBasedAssignments,
+): ZeroBasedBudget {
+  const assignedToCategories = sumBudgets(budgetMap)
+  const savings = Math.max(0, assignments.savings)
+  const debtPayments = Math.max(0, assignments.debtPayments)
+  const totalAssigned = assignedToCategories + savings + debtPayments
+  const unassigned = cycleIncome - totalAssigned
+  const status: ZeroBasedStatus =
+    Math.abs(unassigned) < ZERO_BASED_TOLERANCE ? 'balanced' : unassigned > 0 ? 'unassigned' : 'over_assigned'
+  return { income: cycleIncome, assignedToCategories, savings, debtPayments, totalAssigned, unassigned, status }
+}
+
+// ─── Category envelopes ───────────────────────────────────────────────────────
+
+export type CategoryEnvelopesInput = {
+  /** Any date inside the cycle to compute envelopes for. */
+  asOf: Date
+  salaryConfig: SalaryConfig
+  budgetHistory: BudgetHistory
+  /** Transactions covering the lookback cycles (others are ignored). */
+  transactions: TransactionLike[]
+  rolloverRules: RolloverRules
+  /** Earlier cycles whose leftovers can still carry in. Defaults to ENVELOPE_LOOKBACK_CYCLES. */
+  lookbackCycles?: number
+}
+
+/** First date (`YYYY-MM-DD`) whose transactions `computeCategoryEnvelopes` looks at. */
+export function envelopeLookbackStart(
+  asOf: Date,
+  salaryConfig: SalaryConfig,
+  lookbackCycles: number = ENVELOPE_LOOKBACK_CYCLES,
+): string {
+  return shiftCycleStartKey(getCycleStartKey(asOf, salaryConfig), salaryConfig, -lookbackCycles)
+}
+
+/**
+ * Per-category envelopes for the cycle containing `asOf`: each earlier
+ * cycle in the lookback is judged against the budgets it had, and what is
+ * left (or overspent) carries in according to each category's rule.
+ * Cycles before the first transaction are skipped — an unused budget from
+ * before the user started recording is not savings. Nor does anything carry
+ * from before a category's rule took effect or it had a budget (`computeEnvelopes`).
+ */
+export function computeCategoryEnvelopes(input: CategoryEnvelopesInput): Record<string, Envelope> {
+  const { asOf, salaryConfig, budgetHistory, transactions, rolloverRules } = input
+  const lookback = input.lookbackCycles ?? ENVELOPE_LOOKBACK_CYCLES
+  const currentStart = getCycleStartKey(asOf, salaryConfig)
+
+  const firstDate = transactions.reduce<string | null>(
+    (min, t) => (min === null || t.date < min ? t.date : min),
+    null,
+  )
+
+  const cycles: EnvelopeCycle[] = []
+  for (let offset = -lookback; offset <= 0; offset++) {
+    const cycleStart = shiftCycleStartKey(currentStart, salaryConfig, offset)
+    const [y, m, d] = cycleStart.split('-').map(Number)
+    const range = getActiveMonthRange(new Date(y, m - 1, d), salaryConfig.salaryDay)
+    if (offset < 0 && (firstDate === null || toDateStr(range.end) < firstDate)) continue
+    cycles.push({
+      budgets: getEffectiveBudgets(budgetHistory, cycleStart),
+      spentByCategory: computeSpentByCategory(transactions, range),
+      endDate: toDateStr(range.end),
+    })
   }
+  return computeEnvelopes(cycles, rolloverRules)
 }
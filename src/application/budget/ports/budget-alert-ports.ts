@@ -0,0 +1,40 @@
+/**
+ * Application: Budget Alert Ports
+ *
+ * Interfaces the budget-alert use-case needs. Infrastructure provides the
+ * implementations (offline-first data repository, localStorage, toasts and
+ * the service worker).
+ */
+
+import type { TransactionLike } from '../../../domain/finance/finance'
+import type { BudgetHistory } from '../../../domain/budget/budget-history'
+import type { RolloverRules } from '../../../domain/budget/envelope'
+import type {
+  BudgetAlert,
+  BudgetAlertRecord,
+  BudgetAlertThresholds,
+} from '../../../domain/budget/budget-alert'
+
+/**
+ * Port: where the budgets, spending, thresholds and log come from.
+ *
+ * Implementations must work offline: reads serve this device's copy
+ * (including transactions still waiting to sync) when the server is out of reach.
+ */
+export interface BudgetAlertSourcePort {
+  /** Profile salary day (`month_end_day`). */
+  loadSalaryDay(userId: string): Promise<number>
+  loadBudgetHistory(userId: string): Promise<BudgetHistory>
+  /** Per-category rollover rules ({} = every category resets). */
+  loadRolloverRules(userId: string): Promise<RolloverRules>
+  /** Transactions dated `from`..`to` (inclusive, `YYYY-MM-DD`). */
+  loadTransactions(userId: string, from: string, to: string): Promise<TransactionLike[]>
+  loadThresholds(): BudgetAlertThresholds
+  loadLog(): BudgetAlertRecord[]
+  recordAlerts(records: BudgetAlertRecord[]): void
+}
+
+/** Port: shows fired alerts to the user (toast, system notification). */
+export interface BudgetAlertNotifierPort {
+  notify(alerts: BudgetAlert[]): Promise<void>
+}
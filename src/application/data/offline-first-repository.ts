@@ -0,0 +1,189 @@
+/**
+ * Application: Offline-first repository (stale-while-revalidate reads)
+ *
+ * Every read:
+ * 1. serves this device's copy right away (IndexedDB), if there is one;
+ * 2. when online, asks the server and serves its answer too (revalidate).
+ *    Transactions from the server get the changes still queued on this device
+ *    applied; categories are stored locally for next time (the sync does not
+ *    mirror them).
+ *
+ * Callers receive each version through `onData` (local first, then remote)
+ * and the promise resolves to the last one served. An empty local copy is
+ * only served early when no server answer is coming. A failed server read
+ * keeps the local copy (logged, not thrown), so pages work offline; it only
+ * throws when this device has nothing to serve instead.
+ *
+ * Clean Architecture rules:
+ * - No Supabase / IndexedDB calls — everything goes through the data ports.
+ */
+
+import type { TransactionSearchQuery } from '../../domain/search/transaction-search'
+import type { NetworkStatusPort } from '../sync/ports/sync-ports'
+import type {
+  DataModels,
+  DateRange,
+  LocalDataPort,
+  RemoteDataPort,
+  SearchPage,
+  SearchResult,
+} from './ports/data-ports'
+
+export type DataSource = 'local' | 'remote'
+
+export type OnData<T> = (value: T, source: DataSource) => void
+
+export type OfflineFirstRepositoryDeps<M extends DataModels> = {
+  local: LocalDataPort<M>
+  remote: RemoteDataPort<M>
+  network: NetworkStatusPort
+  logger?: Pick<Console, 'warn'>
+}
+
+type Read<T> = {
+  /** For logs. */
+  name: string
+  local: () => Promise<T>
+  remote: () => Promise<T>
+  /** A local value worth showing before the server answers (e.g. not an empty first-run copy). */
+  hasData: (value: T) => boolean
+  /** Store the server answer locally (data the sync does not mirror). */
+  store?: (value: T) => Promise<void>
+}
+
+const noop = () => {}
+
+export class OfflineFirstRepository<M extends DataModels> {
+  private readonly local: LocalDataPort<M>
+  private readonly remote: RemoteDataPort<M>
+  private readonly network: NetworkStatusPort
+  private readonly logger: Pick<Console, 'warn'>
+
+  constructor(deps: OfflineFirstRepositoryDeps<M>) {
+    this.local = deps.local
+    this.remote = deps.remote
+    this.network = deps.network
+    this.logger = deps.logger ?? console
+  }
+
+  /** The user's transactions (optionally within `range`), newest first. */
+  transactions(
+    userId: string,
+    range?: DateRange,
+    onData: OnData<M['transaction'][]> = noop
+  ): Promise<M['transaction'][]> {
+    return this.read(
+      {
+        name: 'transactions',
+        local: () => this.local.getTransactions(userId, range),
+        remote: async () =>
+          this.local.withPendingTransactions(userId, await this.remote.fetchTransactions(userId, range), range),
+        hasData: (rows) => rows.length > 0,
+      },
+      onData
+    )
+  }
+
+  /**
+   * One page of a transaction search. Server pages do not include creates
+   * still queued on this device (they appear once synced).
+   */
+  searchTransactions(
+    userId: string,
+    query: TransactionSearchQuery,
+    knownCategories: readonly string[],
+    page: SearchPage,
+    onData: OnData<SearchResult<M['transaction']>> = noop
+  ): Promise<SearchResult<M['transaction']>> {
+    return this.read(
+      {
+        name: 'transaction search',
+        local: () => this.local.searchTransactions(userId, query, knownCategories, page),
+        remote: () => this.remote.searchTransactions(userId, query, knownCategories, page),
+        hasData: (result) => result.total > 0,
+      },
+      onData
+    )
+  }
+
+  profile(userId: string, onData: OnData<M['profile'] | null> = noop): Promise<M['profile'] | null> {
+    return this.read(
+      {
+        name: 'profile',
+        local: () => this.local.getProfile(userId),
+        remote: () => this.remote.fetchProfile(userId),
+        hasData: (profile) => profile != null,
+      },
+      onData
+    )
+  }
+
+  categoryBudgets(
+    userId: string,
+    onData: OnData<M['categoryBudgets'] | null> = noop
+  ): Promise<M['categoryBudgets'] | null> {
+    return this.read<M['categoryBudgets'] | null>(
+      {
+        name: 'category budgets',
+        local: () => this.local.getCategoryBudgets(userId),
+        remote: () => this.remote.fetchCategoryBudgets(userId),
+        hasData: (budgets) => budgets != null,
+      },
+      onData
+    )
+  }
+
+  expenseCategories(
+    userId: string,
+    onData: OnData<M['expenseCategory'][] | null> = noop
+  ): Promise<M['expenseCategory'][] | null> {
+    return this.read<M['expenseCategory'][] | null>(
+      {
+        name: 'expense categories',
+        local: () => this.local.getExpenseCategories(userId),
+        remote: () => this.remote.fetchExpenseCategories(userId),
+        hasData: (rows) => rows != null && rows.length > 0,
+        store: (rows) => (rows ? this.local.saveExpenseCategories(userId, rows) : Promise.resolve()),
+      },
+      onData
+    )
+  }
+
+  private async read<T>(read: Read<T>, onData: OnData<T>): Promise<T> {
+    let current: T | undefined
+    let served = false
+    try {
+      current = await read.local()
+      if (read.hasData(current)) {
+        onData(current, 'local')
+        served = true
+      }
+    } catch (e) {
+      this.logger.warn(`[OfflineFirstRepository] Local ${read.name} unavailable:`, e)
+    }
+
+    // No server answer coming: serve the local copy even when empty.
+    const settleLocal = (): T => {
+      if (!served) onData(current as T, 'local')
+      return current as T
+    }
+
+    if (!this.network.isOnline()) {
+      if (current === undefined) throw new Error(`No local copy of ${read.name} (offline)`)
+      return settleLocal()
+    }
+
+    try {
+      const fresh = await read.remote()
+      onData(fresh, 'remote')
+      if (read.store) {
+        await read.store(fresh).catch((e) => this.logger.warn(`[OfflineFirstRepository] Failed to store ${read.name}:`, e))
+      }
+      return fresh
+    } catch (e) {
+      this.logger.warn(`[OfflineFirstRepository] Failed to revalidate ${read.name}:`, e)
+      if (current === undefined || !read.hasData(current)) throw e
+      return settleLocal()
+    }
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Application: Data read ports
+ *
+ * What the offline-first repository needs to read the user's data from two
+ * places: this device (IndexedDB: the sync mirror plus queued changes, or a
+ * cached copy) and the server (Supabase).
+ *
+ * Row shapes are the app's own (`DataModels`); the repository never looks
+ * inside them.
+ */
+
+import type { TransactionSearchQuery } from '../../../domain/search/transaction-search'
+
+/** Inclusive `yyyy-MM-dd` date range. */
+export type DateRange = { from: string; to: string }
+
+export type SearchPage = { offset: number; limit: number }
+
+export type SearchResult<T> = { rows: T[]; total: number }
+
+/** Row types served by the repository. */
+export type DataModels = {
+  transaction: unknown
+  profile: unknown
+  /** Budgets of all categories (one value, not a list of rows). */
+  categoryBudgets: unknown
+  expenseCategory: unknown
+}
+
+/**
+ * Port: this device's copy.
+ * Reads resolve to "nothing" (empty list / null) when no copy exists yet.
+ */
+export interface LocalDataPort<M extends DataModels> {
+  /** Transactions as this device sees them (server copy + queued changes), newest first. */
+  getTransactions(userId: string, range?: DateRange): Promise<M['transaction'][]>
+  searchTransactions(
+    userId: string,
+    query: TransactionSearchQuery,
+    knownCategories: readonly string[],
+    page: SearchPage
+  ): Promise<SearchResult<M['transaction']>>
+  /** Server rows with changes still queued on this device applied (creates, edits, deletes). */
+  withPendingTransactions(
+    userId: string,
+    rows: M['transaction'][],
+    range?: DateRange
+  ): Promise<M['transaction'][]>
+
+  getProfile(userId: string): Promise<M['profile'] | null>
+  getCategoryBudgets(userId: string): Promise<M['categoryBudgets'] | null>
+
+  /** Categories are not mirrored by the sync: the repository stores each server answer. */
+  getExpenseCategories(userId: string): Promise<M['expenseCategory'][] | null>
+  saveExpenseCategories(userId: string, rows: M['expenseCategory'][]): Promise<void>
+}
+
+/**
+ * Port: the server.
+ * Reads throw on failure (network, missing table…) so the repository keeps
+ * the local copy instead of replacing it with nothing.
+ */
+export interface RemoteDataPort<M extends DataModels> {
+  fetchTransactions(userId: string, range?: DateRange): Promise<M['transaction'][]>
+  searchTransactions(
+    userId: string,
+    query: TransactionSearchQuery,
+    knownCategories: readonly string[],
+    page: SearchPage
+  ): Promise<SearchResult<M['transaction']>>
+  fetchProfile(userId: string): Promise<M['profile'] | null>
+  fetchCategoryBudgets(userId: string): Promise<M['categoryBudgets']>
+  /** Null when the server has no category list (callers fall back to defaults). */
+  fetchExpenseCategories(userId: string): Promise<M['expenseCategory'][] | null>
+}
@@ -0,0 +1,31 @@
+/**
+ * Application: Recurring Ports
+ *
+ * Interfaces the recurring auto-post use-case needs. Infrastructure provides
+ * the implementations (Supabase + IndexedDB offline store).
+ */
+
+import type { RecurringOccurrence, RecurringRule } from '../../../domain/recurring/recurring'
+
+/**
+ * Port: where rules come from and where posted occurrences go.
+ *
+ * Implementations must be offline-capable: `postOccurrence` should queue the
+ * transaction locally (and sync later) rather than fail when the network is down.
+ */
+export interface RecurringPostingPort {
+  /** Active + paused rules for the user (cached copy when offline). */
+  loadRules(userId: string): Promise<RecurringRule[]>
+
+  /**
+   * Keys (`occurrenceKey(recurring_id, date)`) of occurrences that already exist
+   * as transactions — both synced rows and offline rows waiting to sync.
+   */
+  loadPostedKeys(userId: string, sinceDate: string): Promise<Set<string>>
+
+  /** Save one occurrence as a real transaction (with `recurring_id` set). */
+  postOccurrence(userId: string, occurrence: RecurringOccurrence): Promise<void>
+
+  /** Advance the rule's `last_posted_date` cursor. Best-effort. */
+  markPostedThrough(ruleId: string, date: string): Promise<void>
+}
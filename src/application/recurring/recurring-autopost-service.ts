@@ -0,0 +1,91 @@
+/**
+ * Application: Recurring Auto-Post Service
+ *
+ * Materializes due occurrences of auto-post rules as real transactions.
+ *
+ * Clean Architecture rules:
+ * - No Supabase / IndexedDB calls — everything goes through `RecurringPostingPort`.
+ * - Domain (`getDueOccurrences`) decides WHAT is due; this service only
+ *   orchestrates loading, posting and advancing each rule's cursor.
+ *
+ * Idempotency:
+ * - Occurrences already present as transactions (`recurring_id` + `date`) are skipped.
+ * - The server also enforces unique (recurring_id, date), so two devices
+ *   posting the same occurrence converge on one row.
+ */
+
+import {
+  getDueOccurrences,
+  type RecurringOccurrence,
+} from '../../domain/recurring/recurring'
+import type { RecurringPostingPort } from './ports/recurring-ports'
+
+export type AutoPostInput = {
+  userId: string
+  /** Current date. Injectable so the service is deterministic in tests. */
+  today: Date
+  /** Profile salary day (`month_end_day`) for `salary_day` rules. */
+  salaryDay?: number
+  /** Defaults to `console`. */
+  logger?: Pick<Console, 'error'>
+}
+
+export type AutoPostResult = {
+  posted: RecurringOccurrence[]
+  /** Occurrences that failed to post; they will be retried on the next run. */
+  failed: RecurringOccurrence[]
+}
+
+function earliestStartDate(rules: { startDate: string; lastPostedDate?: string | null }[]): string {
+  return rules
+    .map((r) => (r.lastPostedDate && r.lastPostedDate > r.startDate ? r.lastPostedDate : r.startDate))
+    .reduce((min, d) => (d < min ? d : min), '9999-12-31')
+}
+
+/**
+ * Post every due occurrence, oldest first. A failure on one occurrence stops
+ * that rule (so its cursor never skips past a gap) but other rules continue.
+ */
+export async function autoPostDueRecurrences(
+  input: AutoPostInput,
+  port: RecurringPostingPort,
+): Promise<AutoPostResult> {
+  const logger = input.logger ?? console
+  const rules = (await port.loadRules(input.userId)).filter((r) => r.autoPost && r.isActive !== false)
+  if (rules.length === 0) return { posted: [], failed: [] }
+
+  const alreadyPosted = await port.loadPostedKeys(input.userId, earliestStartDate(rules))
+  const due = getDueOccurrences(rules, input.today, { salaryDay: input.salaryDay, alreadyPosted })
+
+  const posted: RecurringOccurrence[] = []
+  const failed: RecurringOccurrence[] = []
+  const blockedRules = new Set<string>()
+  const lastPostedByRule = new Map<string, string>()
+
+  for (const occ of due) {
+    if (blockedRules.has(occ.ruleId)) {
+      failed.push(occ)
+      continue
+    }
+    try {
+      await port.postOccurrence(input.userId, occ)
+      posted.push(occ)
+      lastPostedByRule.set(occ.ruleId, occ.date)
+    } catch (e) {
+      logger.error('[RecurringAutoPost] Failed to post occurrence:', occ, e)
+      failed.push(occ)
+      blockedRules.add(occ.ruleId)
+    }
+  }
+
+  for (const [ruleId, date] of Array.from(lastPostedByRule)) {
+    try {
+      await port.markPostedThrough(ruleId, date)
+    } catch (e) {
+      // Cursor is an optimisation; posted-key dedupe still prevents duplicates.
+      logger.error('[RecurringAutoPost] Failed to advance cursor:', ruleId, e)
+    }
+  }
+
+  return { posted, failed }
+}
@@ -10,6 +10,12 @@
  * - Infrastructure layer provides HOW to do it (adapters implementing these ports).
  */
 
+import type { ConflictOutcome, ConflictPolicy } from '../../../domain/sync/conflict'
+import type { OutboxItemKind, RetryState } from '../../../domain/sync/retry'
+import type { SyncRunRecord, SyncSkipReason } from '../../../domain/sync/sync-history'
+
+export type { OutboxItemKind }
+
 export type UUID = string
 
 export type SyncTrigger =
@@ -21,7 +27,15 @@ export type SyncTrigger =
   | 'startup'
   | (string & {})
 
-export type TransactionType = 'income' | 'expense'
+export type TransactionType = 'income' | 'expense' | 'transfer'
+
+export type TransferDirection = 'out' | 'in'
+
+/** One line of a split transaction (see domain `split`). */
+export type TransactionSplit = {
+  category: string
+  amount: number
+}
 
 /**
  * Session returned by your auth provider.
@@ -42,6 +56,24 @@ export interface AuthSessionPort {
   getSession(): Promise<AuthSession | null>
 }
 
+/**
+ * A server version of a transaction: the editable columns + its `updated_at`.
+ * An offline edit stores the version it started from as `base`.
+ */
+export type TransactionVersion = {
+  type: TransactionType
+  amount: number
+  category?: string | null
+  description?: string | null
+  date: string
+  account_id?: UUID | null
+  transfer_id?: UUID | null
+  transfer_direction?: TransferDirection | null
+  recurring_id?: UUID | null
+  splits?: TransactionSplit[] | null
+  updated_at?: string | null
+}
+
 /**
  * Transaction shape used for syncing.
  * Notes:
@@ -59,11 +91,51 @@ export type OfflineTransaction = {
   category?: string
   description?: string
   date: string
+  /** Account / wallet id. Undefined = never set (legacy), null = explicitly unassigned. */
+  account_id?: UUID | null
+  /** Set on both legs of a transfer (type = 'transfer'). */
+  transfer_id?: UUID | null
+  transfer_direction?: TransferDirection | null
+  /** Recurring rule this row was auto-posted from. */
+  recurring_id?: UUID | null
+  /** Split lines (category + amount); null = not split. */
+  splits?: TransactionSplit[] | null
 
   created_at?: string
   updated_at?: string
 
   synced?: boolean
+  /** Tombstone: the row was deleted on this device; delete it on the server. */
+  deleted?: boolean
+  /**
+   * Edits only: the server version the edit started from. Replaying the edit
+   * compares it with the current server row to detect a conflict.
+   * Absent = no check (last writer wins).
+   */
+  base?: TransactionVersion | null
+}
+
+/**
+ * An offline edit that met a newer server version (see domain `sync/conflict`).
+ * `local` / `server` hold both versions as they were when it was detected;
+ * `server` is null when the row had been deleted on the server.
+ */
+export type SyncConflict = {
+  id: string
+  user_id: UUID
+  table: 'transactions'
+  row_id: UUID
+  base: TransactionVersion
+  local: TransactionVersion
+  server: TransactionVersion | null
+  conflicting_fields: string[]
+  policy: ConflictPolicy
+  /** Which version ended up on the server. */
+  outcome: ConflictOutcome
+  detected_at: string
+  /** Set once the user has reviewed the conflict. */
+  resolved_at?: string | null
+  resolution?: 'local' | 'server' | null
 }
 
 export type OfflineProfile = {
@@ -86,6 +158,58 @@ export type OfflineForecast = {
   temp_id?: string
 }
 
+/** Server tables mirrored into the offline store by the pull phase. */
+export type PullTable = 'transactions' | 'profiles' | 'forecasts' | 'category_budgets' | 'debt_items'
+
+/** A server row as pulled (column → value); `id` is the server UUID. */
+export type PulledRow = Record<string, unknown> & { id: UUID }
+
+/**
+ * Changes of one table since a watermark.
+ * - `complete`: `rows` is the whole table for the user (first pull, or a
+ *   schema without `updated_at`), so local rows missing from it are stale.
+ * - `watermark`: newest server timestamp seen; null = keep the previous one.
+ */
+export type PullResult = {
+  rows: PulledRow[]
+  deleted_ids: UUID[]
+  complete: boolean
+  watermark: string | null
+}
+
+/**
+ * Receipt photo waiting for upload.
+ * `transaction_id` is the server UUID once known; until then the receipt is
+ * tied to the offline transaction's `local_id` and is skipped by the sync.
+ */
+export type OfflineReceipt = {
+  local_id: string
+  user_id?: UUID
+  transaction_id?: UUID | null
+  transaction_local_id?: string | null
+  blob: Blob
+  thumbnail?: Blob | null
+  content_type: string
+  created_at: string
+}
+
+/**
+ * Retry state of one queued item that failed to sync (see domain `sync/retry`).
+ * Items that never failed have no state.
+ * - `key`: `<kind>:<ref>`; `ref` is the item's offline key (`local_id`,
+ *   forecast `temp_id`, or the user id for the profile).
+ */
+export type OutboxItemState = RetryState & {
+  key: string
+  kind: OutboxItemKind
+  ref: string
+  user_id: UUID
+  /** Short description of the item for the UI (e.g. date · description · amount). */
+  label: string
+  last_error: string
+  last_attempt_at: string
+}
+
 /**
  * Port: Offline storage
  * The application layer only cares about reading unsynced data and marking it synced.
@@ -96,6 +220,8 @@ export interface OfflineStorePort {
   markTransactionSynced(localId: string, dbId: UUID): Promise<void>
   markTransactionSyncedById(id: UUID): Promise<void>
   deleteSyncedTransactions(): Promise<void>
+  /** Drop a local row that never reached the server (e.g. a tombstone without server id). */
+  discardTransaction(localId: string): Promise<void>
 
   // Profile
   getProfile(userId: UUID): Promise<OfflineProfile | null>
@@ -104,6 +230,28 @@ export interface OfflineStorePort {
   // Forecasts
   getUnsyncedForecasts(): Promise<OfflineForecast[]>
   saveForecast(forecast: OfflineForecast): Promise<void>
+
+  // Conflicts (kept until the user reviews them)
+  saveConflict(conflict: SyncConflict): Promise<void>
+
+  // Receipts (uploaded receipts are removed from the offline store)
+  getPendingReceipts(): Promise<OfflineReceipt[]>
+  deleteReceipt(localId: string): Promise<void>
+
+  // Outbox retry state (per failed item)
+  getOutboxStates(userId: UUID): Promise<OutboxItemState[]>
+  saveOutboxState(state: OutboxItemState): Promise<void>
+  deleteOutboxState(key: string): Promise<void>
+  /** Drop a queued item for good (its change never reaches the server) and its state. */
+  discardOutboxItem(kind: OutboxItemKind, ref: string): Promise<void>
+
+  // Pull (local mirror of server rows; never touches pending local changes)
+  getPullWatermark(userId: UUID, table: PullTable): Promise<string | null>
+  setPullWatermark(userId: UUID, table: PullTable, watermark: string): Promise<void>
+  applyPulledChanges(userId: UUID, table: PullTable, result: PullResult): Promise<void>
+
+  /** True while the store is encrypted and not unlocked (nothing can be read or written). */
+  isLocked?(): Promise<boolean>
 }
 
 /**
@@ -123,7 +271,20 @@ export interface BackendSyncPort {
     type: TransactionType
     amount: number
     category: string | null
+    /** Omit (undefined) to leave the column untouched. */
+    description?: string | null
     date: string
+    /** Omit (undefined) to leave the column out of the request entirely. */
+    account_id?: UUID | null
+    transfer_id?: UUID | null
+    transfer_direction?: TransferDirection | null
+    /**
+     * (recurring_id, date) is unique server-side; implementations should
+     * return the existing row id when another device already posted it.
+     */
+    recurring_id?: UUID | null
+    /** Omit (undefined) to leave the column out (pre-012 schemas). */
+    splits?: TransactionSplit[] | null
   }): Promise<{ id: UUID }>
 
   /**
@@ -136,10 +297,28 @@ export interface BackendSyncPort {
       type: TransactionType
       amount: number
       category: string | null
+      description?: string | null
       date: string
+      account_id?: UUID | null
+      transfer_id?: UUID | null
+      transfer_direction?: TransferDirection | null
+      recurring_id?: UUID | null
+      splits?: TransactionSplit[] | null
     }
   ): Promise<void>
 
+  /**
+   * Current server version of a transaction (conflict check before replaying
+   * an offline edit). Null when the row no longer exists.
+   */
+  fetchTransactionById(id: UUID): Promise<TransactionVersion | null>
+
+  /**
+   * Delete a transaction by server UUID (replaying an offline tombstone).
+   * Must succeed when the row is already gone, so a retried delete is harmless.
+   */
+  deleteTransactionById(id: UUID): Promise<void>
+
   /**
    * Upsert profile fields.
    * (Keep it aligned with your backend schema; implementation can map fields as needed.)
@@ -161,6 +340,26 @@ export interface BackendSyncPort {
     expense: number
     note?: string
   }): Promise<{ id: UUID }>
+
+  /**
+   * Rows of `table` changed since `since` (an earlier `watermark`), plus ids
+   * deleted since then. `since` null = first pull: return the whole table.
+   */
+  pullChanges(input: { table: PullTable; user_id: UUID; since: string | null }): Promise<PullResult>
+
+  /**
+   * Upload a receipt image (+ thumbnail) for a transaction and record it.
+   * Must be idempotent per `receipt_id` so a retried upload is harmless.
+   */
+  uploadReceipt(input: {
+    receipt_id: string
+    user_id: UUID
+    transaction_id: UUID
+    blob: Blob
+    thumbnail?: Blob | null
+    content_type: string
+    created_at: string
+  }): Promise<void>
 }
 
 /**
@@ -175,7 +374,37 @@ export interface NetworkStatusPort {
  * Port: App eventing (optional)
  * Used to publish "sync complete" events to the UI without coupling.
  */
+/** Result of a run for the UI; `skipReason` is set when the run stopped before syncing. */
+export type SyncCompleteDetail = {
+  successCount: number
+  totalCount: number
+  skipReason?: SyncSkipReason
+}
+
 export interface SyncEventBusPort {
-  emitSyncComplete(detail: { successCount: number; totalCount: number }): void
+  /** A run passed its guards (online, not already running) and is starting. */
+  emitSyncStarted?(detail: { trigger: SyncTrigger }): void
+  /** Emitted once for every `emitSyncStarted`, also when the run was skipped or failed. */
+  emitSyncComplete(detail: SyncCompleteDetail): void
   emitSyncError?(detail: { message: string; cause?: unknown }): void
+  /** Items currently failing to sync (empty = none); emitted after every run. */
+  emitSyncItemsFailed?(detail: { items: OutboxItemState[] }): void
+}
+
+/**
+ * Port: Sync run history (optional)
+ * Keeps a record of each run on this device for the sync status screen.
+ */
+export interface SyncHistoryPort {
+  recordRun(run: SyncRunRecord): void
+}
+
+/**
+ * Port: Cross-context sync lock (optional)
+ * Keeps the page and the service worker from replaying the same queue at once.
+ * `runExclusive` resolves to null, without running `fn`, when another context
+ * holds the lock.
+ */
+export interface SyncLockPort {
+  runExclusive<T>(fn: () => Promise<T>): Promise<T | null>
 }
@@ -9,12 +9,21 @@
  * - It is safe to unit-test by mocking ports.
  *
  * Responsibilities:
- * - Prevent concurrent sync runs.
+ * - Prevent concurrent sync runs (also across tabs / the service worker, via
+ *   an optional lock port).
  * - Ensure network is online before syncing.
  * - Wait for an auth session with retry logic (auth storage can be async on startup).
- * - Sync transactions, profile, and forecasts.
+ * - Sync transactions, profile, and forecasts, then upload pending receipt photos.
+ * - Detect conflicts: an offline edit whose server row changed since the edit
+ *   started is resolved by the conflict policy and kept for the user to review.
+ * - Pull server changes (other devices) into the offline store, per table,
+ *   incrementally from an `updated_at` watermark.
+ * - Track each queued item that fails: exponential backoff between attempts,
+ *   quarantine after repeated failures, and the failing items published via
+ *   the event bus so the UI can offer retry / discard.
  * - Mark local rows as synced and optionally clean up.
- * - Emit a UI-friendly "sync-complete" event via an event bus port.
+ * - Emit UI-friendly "sync-started" / "sync-complete" events via an event bus port.
+ * - Record each run (history port) for the sync status screen.
  */
 
 import type {
@@ -23,12 +32,34 @@ import type {
   NetworkStatusPort,
   OfflineStorePort,
   SyncEventBusPort,
+  SyncHistoryPort,
+  SyncCompleteDetail,
+  SyncLockPort,
   SyncTrigger,
   UUID,
   OfflineTransaction,
   OfflineProfile,
   OfflineForecast,
+  OfflineReceipt,
+  PullTable,
+  SyncConflict,
+  TransactionVersion,
+  OutboxItemKind,
+  OutboxItemState,
 } from "./ports/sync-ports";
+import {
+  DEFAULT_CONFLICT_POLICY,
+  TRANSACTION_CONFLICT_FIELDS,
+  planConflictResolution,
+  type ConflictPolicy,
+} from "../../domain/sync/conflict";
+import {
+  DEFAULT_RETRY_POLICY,
+  isRetryDue,
+  recordFailure,
+  type RetryPolicy,
+} from "../../domain/sync/retry";
+import type { SyncRunCategory, SyncRunRecord, SyncSkipReason } from "../../domain/sync/sync-history";
 
 export type SyncCoordinatorDeps = {
   auth: AuthSessionPort;
@@ -36,6 +67,8 @@ export type SyncCoordinatorDeps = {
   offline: OfflineStorePort;
   network: NetworkStatusPort;
   events?: SyncEventBusPort;
+  history?: SyncHistoryPort;
+  lock?: SyncLockPort;
   logger?: Pick<Console, "log" | "warn" | "error">;
 };
 
@@ -58,6 +91,25 @@ export type SyncCoordinatorOptions = {
    */
   cleanupSyncedTransactions?: boolean;
 
+  /**
+   * If true, pull server changes into the offline store after pushing.
+   * Default: true.
+   */
+  pullChanges?: boolean;
+
+  /**
+   * How to resolve an offline edit that meets a newer server version.
+   * A function is read on every conflict (the user can change the setting).
+   * Default: "merge".
+   */
+  conflictPolicy?: ConflictPolicy | (() => ConflictPolicy);
+
+  /**
+   * Backoff / quarantine of items that fail to sync.
+   * Default: `DEFAULT_RETRY_POLICY` (30s doubling up to 1h, quarantine after 5 failures).
+   */
+  retryPolicy?: Partial<RetryPolicy>;
+
   /**
    * If true, fail-fast when one category fails.
    * Default: false (best-effort, like Promise.allSettled).
@@ -70,7 +122,7 @@ export type SyncRunSummary = {
   startedAt: string;
   finishedAt: string;
   /**
-   * Total categories attempted (transactions/profile/forecasts) that were actually run.
+   * Total categories attempted (transactions/profile/forecasts/receipts/pull) that were actually run.
    * (If no session, totalCount=0)
    */
   totalCount: number;
@@ -80,11 +132,25 @@ export type SyncRunSummary = {
   failureCount: number;
   /** Whether a sync run was skipped because it was offline or already in progress. */
   skipped: boolean;
-  skipReason?: "offline" | "in-progress" | "no-session";
+  skipReason?: SyncSkipReason;
   errors?: Array<{ category: SyncCategory; cause: unknown }>;
+  /** Queued items handled by this run (transactions, forecasts, receipts, profile). */
+  items?: SyncItemCounts;
+};
+
+export type SyncItemCounts = {
+  synced: number;
+  failed: number;
+  /** Skipped: still waiting for their backoff delay. */
+  deferred: number;
+  /** Skipped: quarantined until the user retries or discards them. */
+  quarantined: number;
 };
 
-type SyncCategory = "transactions" | "profile" | "forecasts";
+type SyncCategory = SyncRunCategory;
+
+/** Tables pulled into the offline mirror, in this order. */
+const PULL_TABLES: PullTable[] = ["profiles", "transactions", "forecasts", "category_budgets", "debt_items"];
 
 /** Simple UUID validation to distinguish server ids from temp ids. */
 function isValidUUID(value: string | undefined): value is string {
@@ -93,6 +159,89 @@ function isValidUUID(value: string | undefined): value is string {
   return uuidRegex.test(value);
 }
 
+/**
+ * Replay order for queued rows: oldest change first, so a create → edit →
+ * delete sequence reaches the server in the order it happened. Rows without
+ * timestamps keep their store order ahead of timestamped ones.
+ */
+function byChangeTime(a: OfflineTransaction, b: OfflineTransaction): number {
+  return (a.updated_at ?? a.created_at ?? "").localeCompare(b.updated_at ?? b.created_at ?? "");
+}
+
+/** Editable columns of a queued row (what an UPDATE sends). */
+function transactionFieldsOf(
+  tx: OfflineTransaction | TransactionVersion
+): TransactionVersion & { category: string | null } {
+  return {
+    type: tx.type,
+    amount: Number(tx.amount),
+    category: (tx.category ?? "").trim() ? tx.category!.trim() : null,
+    description: tx.description,
+    date: tx.date,
+    account_id: tx.account_id,
+    transfer_id: tx.transfer_id,
+    transfer_direction: tx.transfer_direction,
+    recurring_id: tx.recurring_id,
+    splits: tx.splits,
+  };
+}
+
+function outboxKey(kind: OutboxItemKind, ref: string): string {
+  return `${kind}:${ref}`;
+}
+
+/** Offline keys used as outbox refs (`local_id` / `temp_id`; stores always set them). */
+function transactionRef(tx: OfflineTransaction): string {
+  return tx.local_id ?? tx.id ?? "";
+}
+
+function forecastRef(forecast: OfflineForecast): string {
+  return forecast.temp_id ?? `month_${forecast.month_index}`;
+}
+
+/** Short UI label of a queued transaction: date · description/category · amount. */
+function transactionLabel(tx: OfflineTransaction): string {
+  const what = tx.description || tx.category || tx.type;
+  return [tx.date, what, Number(tx.amount).toLocaleString("th-TH")].join(" · ");
+}
+
+function errorMessage(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  return typeof e === "string" ? e : JSON.stringify(e);
+}
+
+/** Storable form of a run summary (errors reduced to their messages). */
+export function toSyncRunRecord(summary: SyncRunSummary): SyncRunRecord {
+  const { errors, ...rest } = summary;
+  return {
+    ...rest,
+    errors: errors?.map(({ category, cause }) => ({ category, message: errorMessage(cause) })),
+  };
+}
+
+/** Run skipped because another context (tab / service worker) holds the sync lock. */
+function lockedOutRun(trigger: SyncTrigger): SyncRunSummary {
+  const now = isoNow();
+  return {
+    trigger,
+    startedAt: now,
+    finishedAt: now,
+    totalCount: 0,
+    successCount: 0,
+    failureCount: 0,
+    skipped: true,
+    skipReason: "in-progress",
+  };
+}
+
+function emptyItemCounts(): SyncItemCounts {
+  return { synced: 0, failed: 0, deferred: 0, quarantined: 0 };
+}
+
+function makeConflictId(): string {
+  return `conflict_${Date.now()}_${Math.random().toString(16).slice(2)}`;
+}
+
 function isoNow(): string {
   return new Date().toISOString();
 }
@@ -107,14 +256,23 @@ export class SyncCoordinator {
   private readonly offline: OfflineStorePort;
   private readonly network: NetworkStatusPort;
   private readonly events?: SyncEventBusPort;
+  private readonly history?: SyncHistoryPort;
+  private readonly lock?: SyncLockPort;
   private readonly logger: Pick<Console, "log" | "warn" | "error">;
 
   private readonly maxSessionRetries: number;
   private readonly sessionRetryDelayMs: number;
   private readonly cleanupSyncedTransactions: boolean;
+  private readonly pullEnabled: boolean;
+  private readonly conflictPolicy: () => ConflictPolicy;
+  private readonly retryPolicy: RetryPolicy;
   private readonly failFast: boolean;
 
   private syncInProgress = false;
+  /** Trigger of the run in progress (null when idle). */
+  private currentTrigger: SyncTrigger | null = null;
+  /** Item outcomes of the current `syncAll` run (reset at its start). */
+  private itemCounts: SyncItemCounts = emptyItemCounts();
 
   constructor(deps: SyncCoordinatorDeps, options: SyncCoordinatorOptions = {}) {
     this.auth = deps.auth;
@@ -122,11 +280,17 @@ export class SyncCoordinator {
     this.offline = deps.offline;
     this.network = deps.network;
     this.events = deps.events;
+    this.history = deps.history;
+    this.lock = deps.lock;
     this.logger = deps.logger ?? console;
 
     this.maxSessionRetries = options.maxSessionRetries ?? 3;
     this.sessionRetryDelayMs = options.sessionRetryDelayMs ?? 2000;
     this.cleanupSyncedTransactions = options.cleanupSyncedTransactions ?? true;
+    this.pullEnabled = options.pullChanges ?? true;
+    const policy = options.conflictPolicy ?? DEFAULT_CONFLICT_POLICY;
+    this.conflictPolicy = typeof policy === "function" ? policy : () => policy;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
     this.failFast = options.failFast ?? false;
   }
 
@@ -138,13 +302,33 @@ export class SyncCoordinator {
     return this.syncInProgress;
   }
 
+  /** What started the run in progress (null when no run is in progress). */
+  getCurrentTrigger(): SyncTrigger | null {
+    return this.currentTrigger;
+  }
+
   /**
    * Run a full sync attempt.
    * - Skips if offline
-   * - Skips if another sync is running
+   * - Skips if another sync is running (here, or in another context holding the lock)
    * - Waits for auth session with retries; if no session, skip
+   * - Records the run in the history (except "already in progress" skips)
    */
   async syncAll(trigger: SyncTrigger = "manual"): Promise<SyncRunSummary> {
+    const summary = this.lock
+      ? (await this.lock.runExclusive(() => this.runSyncAll(trigger))) ?? lockedOutRun(trigger)
+      : await this.runSyncAll(trigger);
+    if (this.history && summary.skipReason !== "in-progress") {
+      try {
+        this.history.recordRun(toSyncRunRecord(summary));
+      } catch (e) {
+        this.logger.warn("[SyncCoordinator] Failed to record sync run:", e);
+      }
+    }
+    return summary;
+  }
+
+  private async runSyncAll(trigger: SyncTrigger): Promise<SyncRunSummary> {
     const startedAt = isoNow();
 
     // Guard: online
@@ -178,13 +362,41 @@ export class SyncCoordinator {
     }
 
     this.syncInProgress = true;
+    this.currentTrigger = trigger;
+    this.itemCounts = emptyItemCounts();
+
+    try {
+      this.events?.emitSyncStarted?.({ trigger });
+    } catch (e) {
+      this.logger.warn("[SyncCoordinator] Failed to emit sync-started event:", e);
+    }
+    // Every `sync-started` gets its `sync-complete`, including the skips and
+    // the fatal error below (emitted from `finally`).
+    const completion: SyncCompleteDetail = { successCount: 0, totalCount: 0 };
 
     try {
       this.logger.log(`[SyncCoordinator] Starting sync (trigger: ${trigger})`);
 
+      // Guard: encrypted offline data not unlocked yet (the queue cannot be read)
+      if (await this.offline.isLocked?.()) {
+        this.logger.log("[SyncCoordinator] Skipping sync - offline data is locked");
+        completion.skipReason = "locked";
+        return {
+          trigger,
+          startedAt,
+          finishedAt: isoNow(),
+          totalCount: 0,
+          successCount: 0,
+          failureCount: 0,
+          skipped: true,
+          skipReason: "locked",
+        };
+      }
+
       const session = await this.waitForSession();
       if (!session) {
         this.logger.log("[SyncCoordinator] No session available after retries, skipping sync");
+        completion.skipReason = "no-session";
         return {
           trigger,
           startedAt,
@@ -201,12 +413,21 @@ export class SyncCoordinator {
       this.logger.log(`[SyncCoordinator] Session available for user: ${userId}`);
 
       const errors: Array<{ category: SyncCategory; cause: unknown }> = [];
+      // Receipts need the server ids assigned by the transaction pass, so they
+      // wait for it (whatever its outcome) in both run modes.
+      let transactionsRun: Promise<void> | null = null;
+      const runTransactions = () => (transactionsRun ??= this.syncTransactions(userId));
+
       const categories: Array<() => Promise<void>> = [
-        () => this.syncTransactions(userId),
+        runTransactions,
         () => this.syncProfile(userId),
         () => this.syncForecasts(userId),
+        async () => {
+          await runTransactions().catch(() => undefined);
+          await this.syncReceipts(userId);
+        },
       ];
-      const names: SyncCategory[] = ["transactions", "profile", "forecasts"];
+      const names: SyncCategory[] = ["transactions", "profile", "forecasts", "receipts"];
 
       let successCount = 0;
       let failureCount = 0;
@@ -233,8 +454,25 @@ export class SyncCoordinator {
         });
       }
 
+      // Pull after pushing, so the mirror already contains this device's changes.
+      let pulled = false;
+      let pullFailed = false;
+      if (this.pullEnabled && !(this.failFast && failureCount > 0)) {
+        pulled = true;
+        try {
+          await this.pullChanges(userId);
+          successCount++;
+        } catch (e) {
+          pullFailed = true;
+          failureCount++;
+          errors.push({ category: "pull", cause: e });
+        }
+      }
+
       // Optional cleanup: remove synced transactions from offline DB.
-      if (this.cleanupSyncedTransactions && successCount > 0) {
+      // Skipped when the pull failed: until pulled back into the mirror, the
+      // synced outbox rows are this device's only local copy of them.
+      if (this.cleanupSyncedTransactions && successCount > 0 && !pullFailed) {
         try {
           await this.offline.deleteSyncedTransactions();
           this.logger.log("[SyncCoordinator] Cleaned up synced transactions from offline storage");
@@ -244,7 +482,7 @@ export class SyncCoordinator {
         }
       }
 
-      const totalCount = categories.length;
+      const totalCount = categories.length + (pulled ? 1 : 0);
       const summary: SyncRunSummary = {
         trigger,
         startedAt,
@@ -254,17 +492,12 @@ export class SyncCoordinator {
         failureCount,
         skipped: false,
         errors: errors.length ? errors : undefined,
+        items: { ...this.itemCounts },
       };
 
-      // Emit event for UI (optional)
-      if (this.events) {
-        try {
-          this.events.emitSyncComplete({ successCount, totalCount });
-        } catch (e) {
-          // No-op: eventing is optional
-          this.logger.warn("[SyncCoordinator] Failed to emit sync-complete event:", e);
-        }
-      }
+      await this.emitFailedItems(userId);
+      completion.successCount = successCount;
+      completion.totalCount = totalCount;
 
       // Also optionally surface errors
       if (errors.length && this.events?.emitSyncError) {
@@ -309,7 +542,18 @@ export class SyncCoordinator {
       };
     } finally {
       this.syncInProgress = false;
+      this.currentTrigger = null;
       this.logger.log("[SyncCoordinator] Sync finished");
+
+      // Emit event for UI (optional)
+      if (this.events) {
+        try {
+          this.events.emitSyncComplete(completion);
+        } catch (e) {
+          // No-op: eventing is optional
+          this.logger.warn("[SyncCoordinator] Failed to emit sync-complete event:", e);
+        }
+      }
     }
   }
 
@@ -349,6 +593,11 @@ export class SyncCoordinator {
    * Sync offline transactions:
    * - New offline transactions (no valid UUID id): INSERT → mark synced by local_id with server id
    * - Previously synced transactions modified offline (valid UUID id + synced===false): UPDATE → mark synced by id
+   *   (edits carrying a `base` version are checked for conflicts first, see `replayEdit`)
+   * - Tombstones (deleted===true): DELETE by server id → mark synced by id; without a server id
+   *   the row never reached the server, so it is just discarded locally
+   * - Rows replay in change order (see `byChangeTime`)
+   * - A failing row does not stop the others; it is retried after a backoff (see `runItem`)
    *
    * IMPORTANT identity rules:
    * - `local_id` is offline-only and must never be sent to backend.
@@ -359,59 +608,124 @@ export class SyncCoordinator {
 
     const unsynced = await this.offline.getUnsyncedTransactions();
     // Include rows for this user OR rows without user_id (created offline before session known).
-    const userUnsynced = unsynced.filter((t) => !t.user_id || t.user_id === userId);
+    const userUnsynced = unsynced
+      .filter((t) => !t.user_id || t.user_id === userId)
+      .sort(byChangeTime);
 
     this.logger.log(
       `[SyncCoordinator] Found ${userUnsynced.length} unsynced transaction(s) for current user`
     );
 
+    const states = await this.loadOutboxStates(userId, "transaction", userUnsynced.map(transactionRef));
     if (userUnsynced.length === 0) return;
 
     for (const offlineTx of userUnsynced) {
-      await this.syncSingleTransaction(userId, offlineTx);
+      await this.runItem(
+        userId,
+        states,
+        { kind: "transaction", ref: transactionRef(offlineTx), label: transactionLabel(offlineTx) },
+        () => this.syncSingleTransaction(userId, offlineTx)
+      );
     }
   }
 
   private async syncSingleTransaction(userId: UUID, offlineTx: OfflineTransaction): Promise<void> {
-    try {
-      const hasValidDbId = isValidUUID(offlineTx.id) && offlineTx.synced === false;
+    if (offlineTx.deleted) {
+      if (isValidUUID(offlineTx.id)) {
+        await this.backend.deleteTransactionById(offlineTx.id);
+        await this.offline.markTransactionSyncedById(offlineTx.id);
+      } else if (offlineTx.local_id) {
+        await this.offline.discardTransaction(offlineTx.local_id);
+      }
+      return;
+    }
 
-      if (hasValidDbId && offlineTx.id) {
-        // UPDATE existing server row
-        const dbId = offlineTx.id;
+    const hasValidDbId = isValidUUID(offlineTx.id) && offlineTx.synced === false;
 
-        await this.backend.updateTransactionById(dbId, {
-          type: offlineTx.type,
-          amount: Number(offlineTx.amount),
-          category: (offlineTx.category ?? "").trim() ? offlineTx.category!.trim() : null,
-          date: offlineTx.date,
-        });
+    if (hasValidDbId && offlineTx.id) {
+      await this.replayEdit(userId, offlineTx.id, offlineTx);
+      return;
+    }
 
-        await this.offline.markTransactionSyncedById(dbId);
-        return;
-      }
+    // INSERT new server row
+    if (!offlineTx.local_id) {
+      // Without local_id we can't mark it synced; treat as an error for this row.
+      throw new Error("Offline transaction missing local_id (cannot mark synced after insert).");
+    }
 
-      // INSERT new server row
-      if (!offlineTx.local_id) {
-        // Without local_id we can't mark it synced; treat as an error for this row.
-        throw new Error("Offline transaction missing local_id (cannot mark synced after insert).");
-      }
+    const createdAt = offlineTx.created_at || isoNow();
+
+    const inserted = await this.backend.insertTransaction({
+      user_id: userId,
+      created_at: createdAt,
+      type: offlineTx.type,
+      amount: Number(offlineTx.amount),
+      category: (offlineTx.category ?? "").trim() ? offlineTx.category!.trim() : null,
+      description: offlineTx.description,
+      date: offlineTx.date,
+      account_id: offlineTx.account_id,
+      transfer_id: offlineTx.transfer_id,
+      transfer_direction: offlineTx.transfer_direction,
+      recurring_id: offlineTx.recurring_id,
+      splits: offlineTx.splits,
+    });
+
+    await this.offline.markTransactionSynced(offlineTx.local_id, inserted.id);
+  }
+
+  /**
+   * UPDATE an existing server row from an offline edit.
+   * - No `base` version (or the server row is unchanged since it): plain update.
+   * - Server row deleted since: nothing to update; the edit is kept as a conflict.
+   * - Server row changed since: the conflict policy decides what is written;
+   *   anything but a clean field merge is kept as a conflict for review.
+   */
+  private async replayEdit(userId: UUID, dbId: UUID, offlineTx: OfflineTransaction): Promise<void> {
+    const local = transactionFieldsOf(offlineTx);
+    const base = offlineTx.base;
+
+    if (!base?.updated_at) {
+      await this.backend.updateTransactionById(dbId, local);
+      await this.offline.markTransactionSyncedById(dbId);
+      return;
+    }
+
+    const server = await this.backend.fetchTransactionById(dbId);
+    if (server && server.updated_at === base.updated_at) {
+      await this.backend.updateTransactionById(dbId, local);
+      await this.offline.markTransactionSyncedById(dbId);
+      return;
+    }
 
-      const createdAt = offlineTx.created_at || isoNow();
+    const policy = this.conflictPolicy();
+    const plan = server
+      ? planConflictResolution(policy, base, local, server, TRANSACTION_CONFLICT_FIELDS)
+      : { write: null, outcome: "server" as const, conflictingFields: [], needsReview: true };
 
-      const inserted = await this.backend.insertTransaction({
+    if (plan.needsReview) {
+      const conflict: SyncConflict = {
+        id: makeConflictId(),
         user_id: userId,
-        created_at: createdAt,
-        type: offlineTx.type,
-        amount: Number(offlineTx.amount),
-        category: (offlineTx.category ?? "").trim() ? offlineTx.category!.trim() : null,
-        date: offlineTx.date,
-      });
+        table: "transactions",
+        row_id: dbId,
+        base,
+        local,
+        server,
+        conflicting_fields: plan.conflictingFields,
+        policy,
+        outcome: plan.outcome,
+        detected_at: isoNow(),
+      };
+      await this.offline.saveConflict(conflict);
+      this.logger.warn(`[SyncCoordinator] Conflict on transaction ${dbId} (${policy} → ${plan.outcome})`);
+    }
 
-      await this.offline.markTransactionSynced(offlineTx.local_id, inserted.id);
-    } catch (e) {
-      // Best-effort: do not fail the whole category because one row failed.
-      this.logger.error("[SyncCoordinator] Failed to sync a transaction row:", e, offlineTx);
+    if (plan.write) {
+      await this.backend.updateTransactionById(dbId, transactionFieldsOf(plan.write as TransactionVersion));
+      await this.offline.markTransactionSyncedById(dbId);
+    } else if (offlineTx.local_id) {
+      // The server version stays; the edit now lives in the conflict record.
+      await this.offline.discardTransaction(offlineTx.local_id);
     }
   }
 
@@ -423,21 +737,25 @@ export class SyncCoordinator {
    */
   async syncProfile(userId: UUID): Promise<void> {
     const profile = await this.offline.getProfile(userId);
-    if (!profile || profile.synced) return;
+    const pending = profile && !profile.synced ? profile : null;
+    const states = await this.loadOutboxStates(userId, "profile", pending ? [userId] : []);
+    if (!pending) return;
 
     this.logger.log(`[SyncCoordinator] Syncing profile for user: ${userId}`);
 
-    const result = await this.backend.upsertProfile({
-      id: profile.id,
-      full_name: profile.full_name,
-      email: profile.email,
-      phone: profile.phone,
-    });
+    await this.runItem(userId, states, { kind: "profile", ref: userId, label: pending.full_name ?? "" }, async () => {
+      const result = await this.backend.upsertProfile({
+        id: pending.id,
+        full_name: pending.full_name,
+        email: pending.email,
+        phone: pending.phone,
+      });
 
-    // Mark local profile as synced (by user id)
-    if (result?.id) {
-      await this.offline.markProfileSynced(userId);
-    }
+      // Mark local profile as synced (by user id)
+      if (result?.id) {
+        await this.offline.markProfileSynced(userId);
+      }
+    });
   }
 
   /**
@@ -451,13 +769,15 @@ export class SyncCoordinator {
   async syncForecasts(userId: UUID): Promise<void> {
     const unsynced = await this.offline.getUnsyncedForecasts();
     const userUnsynced = unsynced.filter((f) => f.user_id === userId);
+    const states = await this.loadOutboxStates(userId, "forecast", userUnsynced.map(forecastRef));
 
     if (userUnsynced.length === 0) return;
 
     this.logger.log(`[SyncCoordinator] Syncing ${userUnsynced.length} forecast(s) for user: ${userId}`);
 
     for (const forecast of userUnsynced) {
-      try {
+      const item = { kind: "forecast" as const, ref: forecastRef(forecast), label: `#${forecast.month_index}` };
+      await this.runItem(userId, states, item, async () => {
         const upserted = await this.backend.upsertForecast({
           user_id: forecast.user_id,
           month_index: forecast.month_index,
@@ -471,10 +791,203 @@ export class SyncCoordinator {
           id: upserted.id,
           synced: true,
         });
+      });
+    }
+  }
+
+  /**
+   * Upload receipt photos:
+   * - Only receipts whose transaction has a server id; the rest wait for a later run.
+   * - An uploaded receipt is removed from the offline store (the blob now lives in Storage).
+   */
+  async syncReceipts(userId: UUID): Promise<void> {
+    const pending = await this.offline.getPendingReceipts();
+    const userPending = pending.filter((r) => !r.user_id || r.user_id === userId);
+    const states = await this.loadOutboxStates(userId, "receipt", userPending.map((r) => r.local_id));
+    const ready = userPending.filter((r) => isValidUUID(r.transaction_id ?? undefined));
+
+    if (ready.length === 0) return;
+
+    this.logger.log(`[SyncCoordinator] Uploading ${ready.length} receipt(s) for user: ${userId}`);
+
+    for (const receipt of ready) {
+      await this.runItem(userId, states, { kind: "receipt", ref: receipt.local_id, label: receipt.created_at.slice(0, 10) }, () =>
+        this.syncSingleReceipt(userId, receipt)
+      );
+    }
+  }
+
+  private async syncSingleReceipt(userId: UUID, receipt: OfflineReceipt): Promise<void> {
+    await this.backend.uploadReceipt({
+      receipt_id: receipt.local_id,
+      user_id: userId,
+      transaction_id: receipt.transaction_id as UUID,
+      blob: receipt.blob,
+      thumbnail: receipt.thumbnail,
+      content_type: receipt.content_type,
+      created_at: receipt.created_at,
+    });
+    await this.offline.deleteReceipt(receipt.local_id);
+  }
+
+  // -------------------------
+  // Outbox retry state
+  // -------------------------
+
+  /**
+   * Retry states of one kind, keyed by `key`. States of items no longer queued
+   * (synced elsewhere, deleted locally) are dropped on the way.
+   */
+  private async loadOutboxStates(
+    userId: UUID,
+    kind: OutboxItemKind,
+    queuedRefs: Array<string | undefined>
+  ): Promise<Map<string, OutboxItemState>> {
+    const queued = new Set(queuedRefs.filter((ref): ref is string => !!ref));
+    const states = new Map<string, OutboxItemState>();
+    for (const state of await this.offline.getOutboxStates(userId)) {
+      if (state.kind !== kind) continue;
+      if (queued.has(state.ref)) states.set(state.key, state);
+      else await this.offline.deleteOutboxState(state.key);
+    }
+    return states;
+  }
+
+  /**
+   * Push one queued item, honoring its retry state:
+   * - quarantined, or still inside its backoff delay → skipped;
+   * - success → its retry state is cleared;
+   * - failure → attempts + 1, next attempt pushed back (quarantined after
+   *   `retryPolicy.quarantineAfter` failures). Never throws, so one bad item
+   *   does not stop the rest of its category.
+   */
+  private async runItem(
+    userId: UUID,
+    states: Map<string, OutboxItemState>,
+    item: { kind: OutboxItemKind; ref: string; label: string },
+    push: () => Promise<void>
+  ): Promise<void> {
+    const key = outboxKey(item.kind, item.ref);
+    const state = states.get(key);
+    const now = new Date();
+
+    if (!isRetryDue(state, now)) {
+      if (state?.quarantined) this.itemCounts.quarantined++;
+      else this.itemCounts.deferred++;
+      return;
+    }
+
+    try {
+      await push();
+      this.itemCounts.synced++;
+      if (state) await this.offline.deleteOutboxState(key);
+    } catch (e) {
+      this.itemCounts.failed++;
+      const next: OutboxItemState = {
+        key,
+        kind: item.kind,
+        ref: item.ref,
+        user_id: userId,
+        label: item.label,
+        ...recordFailure(state, now, this.retryPolicy),
+        last_error: errorMessage(e),
+        last_attempt_at: now.toISOString(),
+      };
+      this.logger.error(
+        `[SyncCoordinator] Failed to sync ${key} (attempt ${next.attempts}${next.quarantined ? ", quarantined" : ""}):`,
+        e
+      );
+      try {
+        await this.offline.saveOutboxState(next);
+      } catch (stateError) {
+        this.logger.warn("[SyncCoordinator] Failed to record retry state:", stateError);
+      }
+    }
+  }
+
+  /** Publish the user's failing items (empty list = all clear). */
+  private async emitFailedItems(userId: UUID): Promise<void> {
+    if (!this.events?.emitSyncItemsFailed) return;
+    try {
+      this.events.emitSyncItemsFailed({ items: await this.offline.getOutboxStates(userId) });
+    } catch (e) {
+      this.logger.warn("[SyncCoordinator] Failed to emit failed items:", e);
+    }
+  }
+
+  /**
+   * Count of the user's changes waiting to reach the server: queued
+   * transactions, forecasts and receipt photos, plus an unsynced profile.
+   */
+  async getPendingCount(userId: UUID): Promise<number> {
+    const [transactions, forecasts, receipts, profile] = await Promise.all([
+      this.offline.getUnsyncedTransactions(),
+      this.offline.getUnsyncedForecasts(),
+      this.offline.getPendingReceipts(),
+      this.offline.getProfile(userId),
+    ]);
+    return (
+      transactions.filter((t) => !t.user_id || t.user_id === userId).length +
+      forecasts.filter((f) => f.user_id === userId).length +
+      receipts.filter((r) => !r.user_id || r.user_id === userId).length +
+      (profile && !profile.synced ? 1 : 0)
+    );
+  }
+
+  /** Items currently failing to sync for the user (quarantined included). */
+  async getFailedItems(userId: UUID): Promise<OutboxItemState[]> {
+    return this.offline.getOutboxStates(userId);
+  }
+
+  /**
+   * Make failed items (all, or the given keys) due now, quarantined ones
+   * included, with a fresh attempt count. The next sync run pushes them.
+   */
+  async retryFailedItems(userId: UUID, keys?: string[]): Promise<void> {
+    const now = isoNow();
+    for (const state of await this.offline.getOutboxStates(userId)) {
+      if (keys && !keys.includes(state.key)) continue;
+      await this.offline.saveOutboxState({ ...state, attempts: 0, quarantined: false, next_attempt_at: now });
+    }
+  }
+
+  /** Drop failed items (all, or the given keys): their changes never reach the server. */
+  async discardFailedItems(userId: UUID, keys?: string[]): Promise<void> {
+    for (const state of await this.offline.getOutboxStates(userId)) {
+      if (keys && !keys.includes(state.key)) continue;
+      await this.offline.discardOutboxItem(state.kind, state.ref);
+    }
+    await this.emitFailedItems(userId);
+  }
+
+  /**
+   * Pull server changes into the offline mirror:
+   * - Per table: rows changed since the stored watermark + ids deleted since then.
+   * - The watermark only advances after the changes are stored, so a failed
+   *   table is simply re-pulled next run.
+   * - Best-effort across tables; throws at the end if any table failed.
+   */
+  async pullChanges(userId: UUID): Promise<void> {
+    const failed: PullTable[] = [];
+
+    for (const table of PULL_TABLES) {
+      try {
+        const since = await this.offline.getPullWatermark(userId, table);
+        const result = await this.backend.pullChanges({ table, user_id: userId, since });
+        await this.offline.applyPulledChanges(userId, table, result);
+        if (result.watermark) await this.offline.setPullWatermark(userId, table, result.watermark);
+
+        if (result.rows.length || result.deleted_ids.length) {
+          this.logger.log(
+            `[SyncCoordinator] Pulled ${table}: ${result.rows.length} changed, ${result.deleted_ids.length} deleted`
+          );
+        }
       } catch (e) {
-        // Best-effort: continue with next forecast
-        this.logger.error("[SyncCoordinator] Failed to sync a forecast row:", e, forecast);
+        failed.push(table);
+        this.logger.error(`[SyncCoordinator] Failed to pull ${table}:`, e);
       }
     }
+
+    if (failed.length) throw new Error(`Pull failed for: ${failed.join(", ")}`);
   }
 }
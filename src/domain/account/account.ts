@@ -0,0 +1,169 @@
+/**
+ * Domain: Accounts (บัญชี / กระเป๋าเงิน)
+ *
+ * Money lives in several places at once — cash, bank accounts, e-wallets
+ * (TrueMoney), credit cards. Every transaction belongs to at most one account
+ * via `account_id`; rows created before accounts existed have no account and
+ * are reported under the "unassigned" bucket.
+ *
+ * Rules:
+ * - Pure: no I/O, no browser APIs, safe for unit tests.
+ * - Balances are always DERIVED (opening balance + transactions). Nothing here
+ *   expects a stored running balance.
+ * - A credit-card balance is usually negative (money owed); we do not flip signs.
+ */
+
+import { getTransferSignedAmount, type TransferDirection } from '../transfer/transfer'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type AccountKind = 'cash' | 'bank' | 'ewallet' | 'credit_card'
+
+export type Account = {
+  id: string
+  name: string
+  kind: AccountKind
+  /** Balance before the first recorded transaction (฿). May be negative. */
+  openingBalance: number
+  /** Archived accounts keep their history but are hidden from pickers. */
+  isArchived?: boolean
+}
+
+/**
+ * Minimal transaction shape this module needs. `date` is `YYYY-MM-DD`.
+ * Transfer legs move the balance by `transfer_direction` (see domain/transfer).
+ */
+export type AccountTransactionLike = {
+  type: 'income' | 'expense' | 'transfer'
+  amount: number
+  date: string
+  account_id?: string | null
+  transfer_direction?: TransferDirection | null
+}
+
+export type AccountBalance = {
+  /** Account id, or `null` for transactions without an account. */
+  accountId: string | null
+  name: string
+  kind: AccountKind | null
+  openingBalance: number
+  income: number
+  expense: number
+  /** Money moved in from the user's other accounts. */
+  transferIn: number
+  /** Money moved out to the user's other accounts. */
+  transferOut: number
+  /** openingBalance + income − expense + transferIn − transferOut */
+  balance: number
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Label for transactions that have no `account_id` yet. */
+export const UNASSIGNED_ACCOUNT_LABEL = 'ไม่ระบุบัญชี'
+
+/** Thai display label per account kind (pickers, settings, dashboard). */
+export const ACCOUNT_KIND_LABELS: Record<AccountKind, string> = {
+  cash: 'เงินสด',
+  bank: 'บัญชีธนาคาร',
+  ewallet: 'e-Wallet',
+  credit_card: 'บัตรเครดิต',
+}
+
+export const ACCOUNT_KINDS: readonly AccountKind[] = ['cash', 'bank', 'ewallet', 'credit_card']
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+export function isAccountKind(value: unknown): value is AccountKind {
+  return typeof value === 'string' && (ACCOUNT_KINDS as readonly string[]).includes(value)
+}
+
+/**
+ * Keep only transactions that belong to one of `accountIds`.
+ *
+ * - `accountIds` undefined or empty => no filtering (all accounts).
+ * - Include `null` in the list to keep unassigned transactions.
+ */
+export function filterTransactionsByAccounts<T extends { account_id?: string | null }>(
+  transactions: T[],
+  accountIds?: readonly (string | null)[],
+): T[] {
+  if (!accountIds || accountIds.length === 0) return transactions
+  const wanted = new Set<string | null>(accountIds)
+  return transactions.filter((t) => wanted.has(t.account_id ?? null))
+}
+
+/**
+ * Per-account balances as of `asOfStr` (inclusive, `YYYY-MM-DD`).
+ * Omit `asOfStr` to include every transaction.
+ *
+ * Returns one row per account (in the given order), followed by an
+ * "unassigned" row only when such transactions exist. Transactions that point
+ * to an unknown account id (e.g. deleted on another device) are counted as
+ * unassigned so the grand total still adds up.
+ */
+export function computeAccountBalances(
+  accounts: readonly Account[],
+  transactions: readonly AccountTransactionLike[],
+  asOfStr?: string,
+): AccountBalance[] {
+  const rows = new Map<string | null, AccountBalance>()
+  for (const a of accounts) {
+    rows.set(a.id, {
+      accountId: a.id,
+      name: a.name,
+      kind: a.kind,
+      openingBalance: Number(a.openingBalance) || 0,
+      income: 0,
+      expense: 0,
+      transferIn: 0,
+      transferOut: 0,
+      balance: Number(a.openingBalance) || 0,
+    })
+  }
+
+  let unassigned: AccountBalance | null = null
+
+  for (const t of transactions) {
+    if (asOfStr && t.date > asOfStr) continue
+    let row = t.account_id ? rows.get(t.account_id) : undefined
+    if (!row) {
+      if (!unassigned) {
+        unassigned = {
+          accountId: null,
+          name: UNASSIGNED_ACCOUNT_LABEL,
+          kind: null,
+          openingBalance: 0,
+          income: 0,
+          expense: 0,
+          transferIn: 0,
+          transferOut: 0,
+          balance: 0,
+        }
+      }
+      row = unassigned
+    }
+    const amount = Number(t.amount)
+    if (t.type === 'income') {
+      row.income += amount
+      row.balance += amount
+    } else if (t.type === 'expense') {
+      row.expense += amount
+      row.balance -= amount
+    } else if (t.type === 'transfer') {
+      const signed = getTransferSignedAmount(t)
+      if (signed > 0) row.transferIn += signed
+      else row.transferOut -= signed
+      row.balance += signed
+    }
+  }
+
+  const out = Array.from(rows.values())
+  if (unassigned) out.push(unassigned)
+  return out
+}
+
+/** Sum of balances across the given rows (e.g. net worth across all wallets). */
+export function sumAccountBalances(balances: readonly AccountBalance[]): number {
+  return balances.reduce((sum, b) => sum + b.balance, 0)
+}
@@ -0,0 +1,256 @@
+/**
+ * Domain: Backup archive (export / restore)
+ *
+ * A backup is one versioned JSON document holding every user-owned row:
+ *
+ *   { format: 'moneyplan-backup', version: 1, exportedAt, profile, tables: { accounts: [...], ... } }
+ *
+ * Rules:
+ * - Pure: no I/O. Loading/inserting rows is the application service's job.
+ * - Rows are kept as plain column → value records so new columns survive a
+ *   round trip without code changes here.
+ * - `user_id` is stripped on export; restore stamps the target user and gives
+ *   every row a fresh id (ids are global in the DB, so reusing them would
+ *   collide when restoring into another account of the same project).
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export const BACKUP_FORMAT = 'moneyplan-backup'
+
+/**
+ * Bump when the archive shape changes incompatibly. Older versions stay
+ * readable; newer ones are rejected so an old app never half-restores them.
+ */
+export const BACKUP_VERSION = 1
+
+/** Tables in restore order: referenced tables (accounts, recurring rules, tags) first. */
+export const BACKUP_TABLES = [
+  'accounts',
+  'recurring_transactions',
+  'transactions',
+  'category_budgets',
+  'category_rollover_rules',
+  'debt_items',
+  'expense_categories',
+  'forecasts',
+  'category_rules',
+  'tags',
+  'transaction_tags',
+] as const
+
+export type BackupTable = (typeof BACKUP_TABLES)[number]
+
+export type BackupRow = Record<string, unknown>
+
+export type BackupArchive = {
+  format: typeof BACKUP_FORMAT
+  version: number
+  /** ISO timestamp */
+  exportedAt: string
+  /** Profile settings row (without id); null when the user never saved one. */
+  profile: BackupRow | null
+  tables: Record<BackupTable, BackupRow[]>
+}
+
+export type BackupValidationError = 'not_json' | 'wrong_format' | 'unsupported_version' | 'invalid_tables'
+
+export type ParseBackupResult =
+  | { ok: true; archive: BackupArchive }
+  | { ok: false; error: BackupValidationError }
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+  accounts: 'บัญชี',
+  recurring_transactions: 'รายการประจำ',
+  transactions: 'รายการรับ-จ่าย',
+  category_budgets: 'งบรายหมวด',
+  category_rollover_rules: 'การยกยอดงบรายหมวด',
+  debt_items: 'หนี้',
+  expense_categories: 'หมวดหมู่ที่ปรับเอง',
+  forecasts: 'แผนรายเดือน',
+  category_rules: 'กฎจัดหมวดหมู่',
+  tags: 'แท็ก',
+  transaction_tags: 'การติดแท็ก',
+}
+
+/** Foreign-key columns → the table whose ids they hold. */
+const REFERENCE_COLUMNS: Record<string, BackupTable> = {
+  account_id: 'accounts',
+  recurring_id: 'recurring_transactions',
+  transaction_id: 'transactions',
+  tag_id: 'tags',
+}
+
+/** Columns the DB sets per owner; never exported. */
+const OWNER_COLUMNS = ['user_id']
+
+// ─── Build / parse ───────────────────────────────────────────────────────────
+
+function stripColumns(row: BackupRow, columns: readonly string[]): BackupRow {
+  const out: BackupRow = {}
+  for (const [key, value] of Object.entries(row)) {
+    if (!columns.includes(key)) out[key] = value
+  }
+  return out
+}
+
+function emptyTables(): Record<BackupTable, BackupRow[]> {
+  return BACKUP_TABLES.reduce((acc, t) => ({ ...acc, [t]: [] }), {} as Record<BackupTable, BackupRow[]>)
+}
+
+/** Assemble an archive from raw table rows. Missing tables are exported as []. */
+export function buildBackupArchive(
+  profile: BackupRow | null,
+  tables: Partial<Record<BackupTable, BackupRow[]>>,
+  exportedAt: Date,
+): BackupArchive {
+  const out = emptyTables()
+  for (const table of BACKUP_TABLES) {
+    out[table] = (tables[table] ?? []).map((row) => stripColumns(row, OWNER_COLUMNS))
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    profile: profile ? stripColumns(profile, ['id', ...OWNER_COLUMNS]) : null,
+    tables: out,
+  }
+}
+
+function isRecord(value: unknown): value is BackupRow {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Parse + validate a backup file. Tables unknown to this version are ignored;
+ * tables missing from older archives restore as empty.
+ */
+export function parseBackupArchive(text: string): ParseBackupResult {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return { ok: false, error: 'not_json' }
+  }
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) return { ok: false, error: 'wrong_format' }
+  const version = Number(raw.version)
+  if (!Number.isInteger(version) || version < 1 || version > BACKUP_VERSION) {
+    return { ok: false, error: 'unsupported_version' }
+  }
+  if (!isRecord(raw.tables)) return { ok: false, error: 'invalid_tables' }
+
+  const tables = emptyTables()
+  for (const table of BACKUP_TABLES) {
+    const rows = raw.tables[table]
+    if (rows === undefined) continue
+    if (!Array.isArray(rows) || !rows.every(isRecord)) return { ok: false, error: 'invalid_tables' }
+    tables[table] = rows
+  }
+
+  return {
+    ok: true,
+    archive: {
+      format: BACKUP_FORMAT,
+      version,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      profile: isRecord(raw.profile) ? raw.profile : null,
+      tables,
+    },
+  }
+}
+
+export function describeBackupError(error: BackupValidationError): string {
+  switch (error) {
+    case 'not_json':
+      return 'ไฟล์นี้ไม่ใช่ JSON'
+    case 'wrong_format':
+      return 'ไฟล์นี้ไม่ใช่ไฟล์สำรองข้อมูลของ MoneyPlan'
+    case 'unsupported_version':
+      return `ไฟล์สำรองนี้มาจากแอปเวอร์ชันใหม่กว่า (รองรับถึงเวอร์ชัน ${BACKUP_VERSION}) กรุณาอัปเดตแอปก่อน`
+    case 'invalid_tables':
+      return 'ข้อมูลในไฟล์สำรองไม่ถูกต้อง'
+  }
+}
+
+/** Row count per table, for confirmation screens. */
+export function summarizeBackup(archive: BackupArchive): Record<BackupTable, number> {
+  return BACKUP_TABLES.reduce(
+    (acc, t) => ({ ...acc, [t]: archive.tables[t].length }),
+    {} as Record<BackupTable, number>,
+  )
+}
+
+// ─── Restore preparation ─────────────────────────────────────────────────────
+
+/**
+ * Rows ready to insert for `userId`: fresh ids, `user_id` stamped, and
+ * references (`REFERENCE_COLUMNS` + transfer_id) pointed at the new ids.
+ * A reference to a row that is not in the archive becomes null.
+ */
+export function prepareRestore(
+  archive: BackupArchive,
+  userId: string,
+  newId: () => string,
+): { profile: BackupRow | null; tables: Record<BackupTable, BackupRow[]> } {
+  const idMaps: Partial<Record<BackupTable, Map<unknown, string>>> = {}
+  const transferIds = new Map<unknown, string>()
+
+  const remap = (table: BackupTable, oldId: unknown): string | null =>
+    oldId == null ? null : idMaps[table]?.get(oldId) ?? null
+
+  const tables = emptyTables()
+  for (const table of BACKUP_TABLES) {
+    const map = new Map<unknown, string>()
+    idMaps[table] = map
+    tables[table] = archive.tables[table].map((row) => {
+      const id = newId()
+      if (row.id != null) map.set(row.id, id)
+      const next: BackupRow = { ...stripColumns(row, OWNER_COLUMNS), id, user_id: userId }
+      for (const [column, target] of Object.entries(REFERENCE_COLUMNS)) {
+        if (column in row) next[column] = remap(target, row[column])
+      }
+      if (row.transfer_id != null) {
+        if (!transferIds.has(row.transfer_id)) transferIds.set(row.transfer_id, newId())
+        next.transfer_id = transferIds.get(row.transfer_id)
+      }
+      return next
+    })
+  }
+
+  return {
+    profile: archive.profile ? { ...stripColumns(archive.profile, ['id', ...OWNER_COLUMNS]), id: userId } : null,
+    tables,
+  }
+}
+
+// ─── CSV ─────────────────────────────────────────────────────────────────────
+
+function csvCell(value: unknown): string {
+  if (value == null) return ''
+  const s = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+/**
+ * Rows → CSV text. Columns are the union of keys in first-seen order.
+ * Starts with a UTF-8 BOM so Excel shows Thai text correctly.
+ */
+export function rowsToCsv(rows: readonly BackupRow[]): string {
+  const columns: string[] = []
+  for (const row of rows) {
+    for (const key of Object.keys(row)) if (!columns.includes(key)) columns.push(key)
+  }
+  const lines = [columns.map(csvCell).join(','), ...rows.map((row) => columns.map((c) => csvCell(row[c])).join(','))]
+  return '\uFEFF' + lines.join('\r\n') + '\r\n'
+}
+
+/** One CSV per table (plus profile.csv), named `moneyplan-<table>-<date>.csv`. */
+export function backupToCsvFiles(archive: BackupArchive): { name: string; content: string }[] {
+  const date = archive.exportedAt.slice(0, 10)
+  const files = BACKUP_TABLES.map((table) => ({
+    name: `moneyplan-${table}-${date}.csv`,
+    content: rowsToCsv(archive.tables[table]),
+  }))
+  if (archive.profile) files.unshift({ name: `moneyplan-profile-${date}.csv`, content: rowsToCsv([archive.profile]) })
+  return files
+}
@@ -0,0 +1,177 @@
+/**
+ * Domain: Budget alerts (แจ้งเตือนใช้งบเกิน)
+ *
+ * `computeRemainingBudgetByCategory` stops at 0, so overspending is silent.
+ * Alerts warn when a category's spending in the current cycle crosses one of
+ * its thresholds (percent of the category budget, e.g. 80% and 100%).
+ *
+ * Rules:
+ * - Every category uses DEFAULT_BUDGET_ALERT_THRESHOLDS unless it has its own
+ *   list; an empty list turns alerts off for that category.
+ * - Categories without a budget never alert.
+ * - Each threshold fires at most once per category per cycle; when several
+ *   are crossed at once only the highest is reported (it implies the rest).
+ * - Fired alerts are kept in a log (newest first, BUDGET_ALERT_LOG_LIMIT).
+ *
+ * Pure: no I/O, no browser APIs.
+ */
+
+import type { BudgetMap } from './budget-history'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Category name → thresholds (% of budget). Missing categories use the default. */
+export type BudgetAlertThresholds = Record<string, number[]>
+
+export type BudgetAlert = {
+  /** Start key of the cycle the spending belongs to (`YYYY-MM-DD`). */
+  cycleStart: string
+  category: string
+  /** The threshold crossed (% of budget). */
+  threshold: number
+  spent: number
+  budget: number
+}
+
+/** Stored form of a fired alert. */
+export type BudgetAlertRecord = BudgetAlert & {
+  firedAt: string
+}
+
+export type BudgetAlertThresholdError = 'NOT_A_NUMBER' | 'OUT_OF_RANGE'
+
+export const DEFAULT_BUDGET_ALERT_THRESHOLDS: readonly number[] = [80, 100]
+
+export const BUDGET_ALERT_THRESHOLD_MIN = 1
+export const BUDGET_ALERT_THRESHOLD_MAX = 200
+
+export const BUDGET_ALERT_LOG_LIMIT = 50
+
+// ─── Thresholds ──────────────────────────────────────────────────────────────
+
+export function getAlertThresholds(thresholds: BudgetAlertThresholds, category: string): number[] {
+  return thresholds[category] ?? [...DEFAULT_BUDGET_ALERT_THRESHOLDS]
+}
+
+/**
+ * Parse "80, 100" into sorted, de-duplicated thresholds. Blank input means
+ * no alerts for the category.
+ */
+export function parseAlertThresholds(input: string): number[] | BudgetAlertThresholdError {
+  const parts = input.split(/[,\s]+/).map((p) => p.replace('%', '').trim()).filter(Boolean)
+  const values: number[] = []
+  for (const part of parts) {
+    const n = Number(part)
+    if (!Number.isFinite(n)) return 'NOT_A_NUMBER'
+    if (n < BUDGET_ALERT_THRESHOLD_MIN || n > BUDGET_ALERT_THRESHOLD_MAX) return 'OUT_OF_RANGE'
+    values.push(Math.round(n))
+  }
+  return Array.from(new Set(values)).sort((a, b) => a - b)
+}
+
+export function describeAlertThresholdError(error: BudgetAlertThresholdError): string {
+  switch (error) {
+    case 'NOT_A_NUMBER':
+      return 'กรอกเป็นตัวเลขเปอร์เซ็นต์ คั่นด้วยจุลภาค เช่น 80, 100'
+    case 'OUT_OF_RANGE':
+      return `เปอร์เซ็นต์ต้องอยู่ระหว่าง ${BUDGET_ALERT_THRESHOLD_MIN}–${BUDGET_ALERT_THRESHOLD_MAX}`
+  }
+}
+
+export function formatAlertThresholds(values: readonly number[]): string {
+  return values.join(', ')
+}
+
+/** Guard for thresholds read back from storage (invalid entries dropped). */
+export function toBudgetAlertThresholds(value: unknown): BudgetAlertThresholds {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+  const out: BudgetAlertThresholds = {}
+  for (const [category, list] of Object.entries(value as Record<string, unknown>)) {
+    if (Array.isArray(list)) out[category] = list.filter((n): n is number => typeof n === 'number' && Number.isFinite(n))
+  }
+  return out
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────────────────
+
+/** Highest threshold already fired per category in `cycleStart`. */
+export function firedThresholds(log: readonly BudgetAlertRecord[], cycleStart: string): Record<string, number> {
+  const out: Record<string, number> = {}
+  for (const record of log) {
+    if (record.cycleStart !== cycleStart) continue
+    out[record.category] = Math.max(out[record.category] ?? 0, record.threshold)
+  }
+  return out
+}
+
+/** Spending as a percent of the budget (0 when there is no budget). */
+export function budgetUsedPercent(spent: number, budget: number): number {
+  return budget > 0 ? (spent / budget) * 100 : 0
+}
+
+/**
+ * Alerts to fire now: per category, the highest threshold crossed that is
+ * above everything already fired this cycle.
+ */
+export function evaluateBudgetAlerts(input: {
+  cycleStart: string
+  budgets: BudgetMap
+  spentByCategory: Record<string, number>
+  thresholds: BudgetAlertThresholds
+  log: readonly BudgetAlertRecord[]
+}): BudgetAlert[] {
+  const fired = firedThresholds(input.log, input.cycleStart)
+  const alerts: BudgetAlert[] = []
+
+  for (const [category, budget] of Object.entries(input.budgets)) {
+    if (!(budget > 0)) continue
+    const spent = input.spentByCategory[category] ?? 0
+    const used = budgetUsedPercent(spent, budget)
+    const crossed = getAlertThresholds(input.thresholds, category).filter(
+      (t) => used >= t && t > (fired[category] ?? 0),
+    )
+    if (crossed.length === 0) continue
+    alerts.push({ cycleStart: input.cycleStart, category, threshold: Math.max(...crossed), spent, budget })
+  }
+
+  return alerts
+}
+
+// ─── Log ─────────────────────────────────────────────────────────────────────
+
+/** Log with `records` added, newest first, capped at `limit`. */
+export function appendBudgetAlerts(
+  log: readonly BudgetAlertRecord[],
+  records: readonly BudgetAlertRecord[],
+  limit: number = BUDGET_ALERT_LOG_LIMIT,
+): BudgetAlertRecord[] {
+  return [...records, ...log].slice(0, limit)
+}
+
+/** Guard for records read back from storage. */
+export function isBudgetAlertRecord(value: unknown): value is BudgetAlertRecord {
+  if (!value || typeof value !== 'object') return false
+  const r = value as Record<string, unknown>
+  return (
+    typeof r.cycleStart === 'string' &&
+    typeof r.category === 'string' &&
+    typeof r.threshold === 'number' &&
+    typeof r.spent === 'number' &&
+    typeof r.budget === 'number' &&
+    typeof r.firedAt === 'string'
+  )
+}
+
+// ─── Labels ──────────────────────────────────────────────────────────────────
+
+/** Notification title and body (Thai). */
+export function describeBudgetAlert(alert: BudgetAlert): { title: string; body: string } {
+  const used = Math.round(budgetUsedPercent(alert.spent, alert.budget))
+  const spent = alert.spent.toLocaleString('th-TH')
+  const budget = alert.budget.toLocaleString('th-TH')
+  if (alert.spent > alert.budget) {
+    const over = (alert.spent - alert.budget).toLocaleString('th-TH')
+    return { title: `ใช้งบ${alert.category}เกินแล้ว`, body: `ใช้ไป ฿${spent} จากงบ ฿${budget} (เกิน ฿${over})` }
+  }
+  return { title: `ใช้งบ${alert.category}ไป ${used}% แล้ว`, body: `ใช้ไป ฿${spent} จากงบ ฿${budget}` }
+}
@@ -103,6 +103,38 @@ export function calculateDailySafeSpend(remainingBudget: number, remainingDays:
   return remainingBudget / remainingDays
 }
 
+// ─── Cycle keys ───────────────────────────────────────────────────────────────
+
+/**
+ * Cycle start as `YYYY-MM-DD` — the key cycle-scoped data (e.g. budget
+ * history) is stored under.
+ */
+export function toCycleStartKey(cycle: Pick<BudgetCycle, 'startDate'>): string {
+  const d = cycle.startDate
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+/** Start key of the cycle that contains `asOf`. */
+export function getCycleStartKey(asOf: Date, config: SalaryConfig): string {
+  return toCycleStartKey({ startDate: getActiveMonthRange(asOf, config.salaryDay).start })
+}
+
+/**
+ * Start key of the cycle `offset` cycles away from the one starting at
+ * `cycleStartKey` (-1 = previous, 1 = next).
+ */
+export function shiftCycleStartKey(cycleStartKey: string, config: SalaryConfig, offset: number): string {
+  const [y, m, d] = cycleStartKey.split('-').map(Number)
+  let asOf = new Date(y, m - 1, d)
+  for (let i = 0; i < Math.abs(offset); i++) {
+    const range = getActiveMonthRange(asOf, config.salaryDay)
+    asOf = offset > 0
+      ? new Date(range.end.getFullYear(), range.end.getMonth(), range.end.getDate() + 1)
+      : new Date(range.start.getFullYear(), range.start.getMonth(), range.start.getDate() - 1)
+  }
+  return getCycleStartKey(asOf, config)
+}
+
 // ─── Formatting ───────────────────────────────────────────────────────────────
 
 const THAI_SHORT_MONTHS = [
@@ -0,0 +1,106 @@
+/**
+ * Domain: Budget history (งบรายหมวดตามรอบ)
+ *
+ * Category budgets are kept per budget cycle, keyed by the cycle start
+ * (`toCycleStartKey` in budget-cycle.ts), so changing a budget does not
+ * rewrite how past cycles are judged.
+ *
+ * Rules:
+ * - A cycle uses its own budget set when it has one; otherwise the set of the
+ *   latest earlier cycle that has one ("effective from this cycle on").
+ * - Budgets saved before history existed live under INITIAL_BUDGET_CYCLE_START
+ *   and apply to every cycle until a later set replaces them.
+ * - Editing a past cycle only changes that cycle: the next cycle keeps the
+ *   budget it had (pinned as its own set when it was inheriting).
+ * - A stored set replaces the cycle's whole set: categories it leaves out
+ *   (e.g. after "copy last cycle") no longer have a budget in that cycle.
+ *
+ * Pure: no I/O, no browser APIs.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Category name → budget (฿) for one cycle. */
+export type BudgetMap = Record<string, number>
+
+/** Cycle start (`YYYY-MM-DD`) → the budget set that starts applying there. */
+export type BudgetHistory = Record<string, BudgetMap>
+
+/** One budget set to store. */
+export type CycleBudgetSet = {
+  cycleStart: string
+  budgets: BudgetMap
+}
+
+/** Cycle start of budgets saved before they were kept per cycle. */
+export const INITIAL_BUDGET_CYCLE_START = '1970-01-01'
+
+// ─── Lookup ──────────────────────────────────────────────────────────────────
+
+/** Cycle start of the set that applies to `cycleStart`, or null when none does. */
+export function getEffectiveBudgetCycle(history: BudgetHistory, cycleStart: string): string | null {
+  let found: string | null = null
+  for (const key of Object.keys(history)) {
+    if (key <= cycleStart && (found === null || key > found)) found = key
+  }
+  return found
+}
+
+/** Budgets that apply to the cycle starting at `cycleStart` ({} when none were set yet). */
+export function getEffectiveBudgets(history: BudgetHistory, cycleStart: string): BudgetMap {
+  const key = getEffectiveBudgetCycle(history, cycleStart)
+  return key === null ? {} : { ...history[key] }
+}
+
+/** True when the cycle has its own set (not inherited from an earlier cycle). */
+export function hasOwnBudgets(history: BudgetHistory, cycleStart: string): boolean {
+  return Object.prototype.hasOwnProperty.call(history, cycleStart)
+}
+
+export function totalBudget(budgets: BudgetMap): number {
+  return Object.values(budgets).reduce((sum, v) => sum + v, 0)
+}
+
+// ─── Changes ─────────────────────────────────────────────────────────────────
+
+/**
+ * Sets to store when the budgets of one cycle are edited.
+ * When the edited cycle is before `currentCycleStart` and the next cycle was
+ * inheriting, the next cycle is pinned to what it had so the edit stays in
+ * the past cycle.
+ */
+export function planCycleBudgetEdit(
+  history: BudgetHistory,
+  edit: { cycleStart: string; nextCycleStart: string; budgets: BudgetMap },
+  currentCycleStart: string,
+): CycleBudgetSet[] {
+  const sets: CycleBudgetSet[] = [{ cycleStart: edit.cycleStart, budgets: { ...edit.budgets } }]
+  if (edit.cycleStart < currentCycleStart && !hasOwnBudgets(history, edit.nextCycleStart)) {
+    sets.push({ cycleStart: edit.nextCycleStart, budgets: getEffectiveBudgets(history, edit.nextCycleStart) })
+  }
+  return sets
+}
+
+/**
+ * "Copy last cycle" / "roll forward": give `toCycleStart` the budgets that
+ * apply to `fromCycleStart`. Past cycles are protected the same way as edits.
+ */
+export function planBudgetCopy(
+  history: BudgetHistory,
+  fromCycleStart: string,
+  to: { cycleStart: string; nextCycleStart: string },
+  currentCycleStart: string,
+): CycleBudgetSet[] {
+  return planCycleBudgetEdit(
+    history,
+    { ...to, budgets: getEffectiveBudgets(history, fromCycleStart) },
+    currentCycleStart,
+  )
+}
+
+/** History with `sets` stored, each replacing its cycle's set. */
+export function applyBudgetSets(history: BudgetHistory, sets: readonly CycleBudgetSet[]): BudgetHistory {
+  const next: BudgetHistory = { ...history }
+  for (const set of sets) next[set.cycleStart] = { ...set.budgets }
+  return next
+}
@@ -0,0 +1,138 @@
+/**
+ * Domain: Budget pacing (ใช้งบเร็วกว่ารอบหรือไม่)
+ *
+ * `dailySafeSpend` says how much is left per day overall, not whether each
+ * category is on pace. Pacing compares, per category:
+ * - spent %   — spending so far as a percent of the category budget;
+ * - elapsed % — days of the cycle gone, today included (`getDaysElapsedInPeriod`).
+ *
+ * and projects end-of-cycle spending:
+ * - variable categories: spent + the category's daily rate × the days after
+ *   today. The rate is what the category spent over the last 14 calendar
+ *   days ÷ 14, so one large purchase is spread over the window instead of
+ *   counting as a day's spending repeated every day;
+ * - fixed categories (bills): what was spent — they are paid in lumps, not
+ *   day by day, so neither pace nor a daily rate says anything about them.
+ *
+ * Only categories with a budget are paced.
+ *
+ * Pure: no I/O, no browser APIs.
+ */
+
+import { getDaysElapsedInPeriod, getPeriodDays, type DateRange } from '../period/period'
+import { computeSpentByCategory } from '../finance/finance'
+import { getExpenseCategoryType, type ExpenseCategoryClassification, type TransactionLike } from '../forecast/forecast'
+import type { BudgetMap } from './budget-history'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * - 'over_budget'  — already spent more than the budget
+ * - 'will_overrun' — on course to end the cycle above the budget
+ * - 'ahead'        — spending faster than the cycle elapses, still within budget by the projection
+ * - 'on_pace'      — none of the above
+ */
+export type PacingStatus = 'over_budget' | 'will_overrun' | 'ahead' | 'on_pace'
+
+export type CategoryPacing = {
+  category: string
+  kind: 'fixed' | 'variable'
+  budget: number
+  spent: number
+  /** spent ÷ budget × 100. */
+  spentPercent: number
+  /** Days elapsed ÷ cycle days × 100 (same for every category). */
+  elapsedPercent: number
+  /** ฿/day used for the projection (0 for fixed categories). */
+  dailyRate: number
+  /** Expected spending at the end of the cycle. */
+  projectedSpend: number
+  /** projectedSpend − budget when positive, else 0. */
+  projectedOverrun: number
+  status: PacingStatus
+}
+
+export type BudgetPacingInput = {
+  asOf: Date
+  /** The cycle being paced. */
+  range: DateRange
+  budgets: BudgetMap
+  /** Spending per category inside `range` (`computeSpentByCategory`). */
+  spentByCategory: Record<string, number>
+  /** Transactions covering at least the 14 days before `asOf`, for the daily rate. */
+  transactions: TransactionLike[]
+  /** DB-driven fixed/variable lists; module defaults when omitted. */
+  classification?: ExpenseCategoryClassification
+}
+
+/** Calendar days, today included, whose spending sets a category's daily rate. */
+export const PACING_RATE_DAYS = 14
+
+/** Spent % may run this many points ahead of elapsed % before it counts as 'ahead'. */
+export const PACING_TOLERANCE_PERCENT = 10
+
+export const PACING_STATUS_LABELS: Record<PacingStatus, string> = {
+  over_budget: 'เกินงบแล้ว',
+  will_overrun: 'คาดว่าจะเกินงบ',
+  ahead: 'ใช้เร็วกว่ารอบ',
+  on_pace: 'ตามแผน',
+}
+
+const STATUS_ORDER: Record<PacingStatus, number> = { over_budget: 0, will_overrun: 1, ahead: 2, on_pace: 3 }
+
+// ─── Computation ─────────────────────────────────────────────────────────────
+
+function pacingStatus(p: Omit<CategoryPacing, 'status'>): PacingStatus {
+  if (p.spent > p.budget) return 'over_budget'
+  if (p.projectedOverrun > 0) return 'will_overrun'
+  if (p.kind === 'variable' && p.spentPercent > p.elapsedPercent + PACING_TOLERANCE_PERCENT) return 'ahead'
+  return 'on_pace'
+}
+
+/**
+ * Pacing of every budgeted category, most at risk first (status, then the
+ * largest projected overrun, then how far spending runs ahead of the cycle).
+ */
+export function computeBudgetPacing(input: BudgetPacingInput): CategoryPacing[] {
+  const totalDays = getPeriodDays(input.range)
+  const elapsedDays = getDaysElapsedInPeriod(input.asOf, input.range)
+  const daysAfterToday = Math.max(0, totalDays - elapsedDays)
+  const elapsedPercent = totalDays > 0 ? (elapsedDays / totalDays) * 100 : 0
+  const rateEnd = new Date(input.asOf.getFullYear(), input.asOf.getMonth(), input.asOf.getDate())
+  const rateStart = new Date(rateEnd)
+  rateStart.setDate(rateStart.getDate() - (PACING_RATE_DAYS - 1))
+  const recentSpent = computeSpentByCategory(input.transactions, { start: rateStart, end: rateEnd })
+
+  const out: CategoryPacing[] = []
+  for (const [category, budget] of Object.entries(input.budgets)) {
+    if (!(budget > 0)) continue
+    const kind = getExpenseCategoryType(category, input.classification) === 'fixed' ? 'fixed' : 'variable'
+    const spent = input.spentByCategory[category] ?? 0
+    const dailyRate = kind === 'variable' && daysAfterToday > 0 ? (recentSpent[category] ?? 0) / PACING_RATE_DAYS : 0
+    const projectedSpend = spent + dailyRate * daysAfterToday
+    const pacing: Omit<CategoryPacing, 'status'> = {
+      category,
+      kind,
+      budget,
+      spent,
+      spentPercent: (spent / budget) * 100,
+      elapsedPercent,
+      dailyRate,
+      projectedSpend,
+      projectedOverrun: Math.max(0, projectedSpend - budget),
+    }
+    out.push({ ...pacing, status: pacingStatus(pacing) })
+  }
+
+  return out.sort(
+    (a, b) =>
+      STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+      b.projectedOverrun - a.projectedOverrun ||
+      b.spentPercent - b.elapsedPercent - (a.spentPercent - a.elapsedPercent),
+  )
+}
+
+/** Categories expected to end the cycle above their budget (including those already over). */
+export function getExpectedOverruns(pacing: readonly CategoryPacing[]): CategoryPacing[] {
+  return pacing.filter((p) => p.status === 'over_budget' || p.status === 'will_overrun')
+}
@@ -0,0 +1,176 @@
+/**
+ * Domain: Category envelopes (ยกยอดงบรายหมวด)
+ *
+ * Envelope budgeting per category: what is left of a category's budget at the
+ * end of a cycle can move into the same category next cycle.
+ *
+ * Each category has its own rule:
+ * - 'reset'    — every cycle starts from the budget only (default; the same
+ *                as before rollover existed).
+ * - 'rollover' — unspent budget carries forward, overspending is taken off
+ *                next cycle's envelope.
+ * - 'cap'      — like 'rollover', but at most `cap` ฿ of surplus carries
+ *                forward (overspending still carries in full).
+ *
+ * Built on `computeRemainingBudgetByCategory` (finance.ts): the envelope
+ * balance is what remains minus what was overspent.
+ *
+ * Pure: no I/O, no browser APIs.
+ */
+
+import { computeRemainingBudgetByCategory } from '../finance/finance'
+import type { BudgetMap } from './budget-history'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export const ROLLOVER_MODES = ['reset', 'rollover', 'cap'] as const
+
+export type RolloverMode = (typeof ROLLOVER_MODES)[number]
+
+export type RolloverRule = {
+  mode: RolloverMode
+  /** Most surplus (฿) carried forward; only used by 'cap'. */
+  cap: number | null
+  /**
+   * Date (`YYYY-MM-DD`) the rule started carrying: balances build up from the
+   * cycle containing it. Missing on rules saved before migration 019.
+   */
+  effectiveFrom?: string | null
+}
+
+/** Category name → rule. Missing categories use DEFAULT_ROLLOVER_RULE. */
+export type RolloverRules = Record<string, RolloverRule>
+
+/** One cycle's budgets and spending, as input to `computeEnvelopes`. */
+export type EnvelopeCycle = {
+  budgets: BudgetMap
+  spentByCategory: Record<string, number>
+  /** Last day (`YYYY-MM-DD`); a rule that took effect after it carries nothing out of this cycle. */
+  endDate?: string
+}
+
+export type Envelope = {
+  /** This cycle's budget. */
+  budget: number
+  /** Carried in from earlier cycles (negative = overspending taken off). */
+  carriedIn: number
+  /** budget + carriedIn, never below 0. */
+  available: number
+  spent: number
+  /** Left to spend this cycle (≥ 0). */
+  remaining: number
+  /** Spent beyond what was available (≥ 0). */
+  overspent: number
+}
+
+export const DEFAULT_ROLLOVER_RULE: RolloverRule = { mode: 'reset', cap: null }
+
+/** Cycles looked back over when building envelope balances. */
+export const ENVELOPE_LOOKBACK_CYCLES = 12
+
+export const ROLLOVER_MODE_LABELS: Record<RolloverMode, string> = {
+  reset: 'เริ่มใหม่ทุกรอบ',
+  rollover: 'ยกยอดไปรอบถัดไป',
+  cap: 'ยกยอดไม่เกินเพดาน',
+}
+
+export function isRolloverMode(value: unknown): value is RolloverMode {
+  return typeof value === 'string' && (ROLLOVER_MODES as readonly string[]).includes(value)
+}
+
+export function getRolloverRule(rules: RolloverRules, category: string): RolloverRule {
+  return rules[category] ?? DEFAULT_ROLLOVER_RULE
+}
+
+/**
+ * `rule` as saved over `previous`: a rule that starts carrying takes effect
+ * `today`; changing the mode or cap of one that already carries keeps its start.
+ */
+export function withEffectiveFrom(previous: RolloverRule, rule: RolloverRule, today: string): RolloverRule {
+  if (rule.mode === 'reset') return { ...rule, effectiveFrom: null }
+  return { ...rule, effectiveFrom: previous.mode === 'reset' ? today : previous.effectiveFrom ?? null }
+}
+
+/** True when at least one category carries anything between cycles. */
+export function hasRollover(rules: RolloverRules): boolean {
+  return Object.values(rules).some((rule) => rule.mode !== 'reset')
+}
+
+// ─── Computation ─────────────────────────────────────────────────────────────
+
+/** What an end-of-cycle balance (negative = overspent) carries into the next cycle. */
+export function carryForward(balance: number, rule: RolloverRule): number {
+  switch (rule.mode) {
+    case 'reset':
+      return 0
+    case 'rollover':
+      return balance
+    case 'cap':
+      return Math.min(balance, Math.max(0, rule.cap ?? 0))
+  }
+}
+
+/**
+ * Envelopes of the LAST cycle in `cycles` (ordered oldest first); earlier
+ * cycles only build up what is carried in. A category starts carrying at the
+ * first cycle, once its rule is in effect, that has a budget for it: spending
+ * before it had a budget is not a deficit, and a budget from before the rule
+ * was set is not savings.
+ */
+export function computeEnvelopes(
+  cycles: readonly EnvelopeCycle[],
+  rules: RolloverRules,
+): Record<string, Envelope> {
+  let carry: Record<string, number> = {}
+  let envelopes: Record<string, Envelope> = {}
+  const started = new Set<string>()
+
+  for (const cycle of cycles) {
+    const categories = new Set([
+      ...Object.keys(cycle.budgets),
+      ...Object.keys(cycle.spentByCategory),
+      ...Object.keys(carry),
+    ])
+    const available: Record<string, number> = {}
+    categories.forEach((cat) => {
+      available[cat] = Math.max(0, (cycle.budgets[cat] ?? 0) + (carry[cat] ?? 0))
+    })
+    const remaining = computeRemainingBudgetByCategory(available, cycle.spentByCategory)
+    // Same helper the other way round: what was spent beyond the envelope.
+    const overspent = computeRemainingBudgetByCategory(cycle.spentByCategory, available)
+
+    envelopes = {}
+    const nextCarry: Record<string, number> = {}
+    categories.forEach((cat) => {
+      const budget = cycle.budgets[cat] ?? 0
+      const carriedIn = carry[cat] ?? 0
+      envelopes[cat] = {
+        budget,
+        carriedIn,
+        available: available[cat],
+        spent: cycle.spentByCategory[cat] ?? 0,
+        remaining: remaining[cat] ?? 0,
+        overspent: overspent[cat] ?? 0,
+      }
+      // A deficit deeper than the envelope (carried-in debt not covered by
+      // the budget) keeps counting against the next cycle.
+      const rule = getRolloverRule(rules, cat)
+      const inEffect = !rule.effectiveFrom || !cycle.endDate || rule.effectiveFrom <= cycle.endDate
+      if (inEffect && budget > 0) started.add(cat)
+      if (!started.has(cat)) return
+      const balance = budget + carriedIn - envelopes[cat].spent
+      const out = carryForward(balance, rule)
+      if (out !== 0) nextCarry[cat] = out
+    })
+    carry = nextCarry
+  }
+
+  return envelopes
+}
+
+/** Envelope amounts as a budget map (category → available ฿) for per-category remaining / daily budget. */
+export function envelopeBudgetMap(envelopes: Record<string, Envelope>): BudgetMap {
+  const out: BudgetMap = {}
+  for (const [cat, envelope] of Object.entries(envelopes)) out[cat] = envelope.available
+  return out
+}
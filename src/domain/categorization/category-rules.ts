@@ -0,0 +1,271 @@
+/**
+ * Domain: Rule-based auto-categorization
+ *
+ * A category rule says "transactions that look like X go to category Y":
+ * - description contains a keyword, or matches a regex
+ * - amount within [minAmount, maxAmount]
+ * - paid from / into a given account
+ *
+ * Every condition set on a rule must hold. Rules are tried in priority order
+ * (lower number first); the first match wins.
+ *
+ * "Learn from corrections": when the user keeps moving similar descriptions to
+ * the same category, `proposeRulesFromCorrections` suggests a `contains` rule.
+ *
+ * Rules:
+ * - Pure: no I/O. Persistence lives in infrastructure (Supabase + localStorage).
+ * - Transfers are never categorized.
+ */
+
+import { normalizeCategoryName } from '../finance/finance'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type CategoryRuleMatchType = 'contains' | 'regex'
+
+export type CategoryRule = {
+  id: string
+  /** How `pattern` is compared with the description. */
+  matchType: CategoryRuleMatchType
+  /** Keyword (contains) or regex source. Empty = no description condition. */
+  pattern?: string | null
+  minAmount?: number | null
+  maxAmount?: number | null
+  accountId?: string | null
+  /** Only apply to this transaction type. Null = both income and expense. */
+  transactionType?: 'income' | 'expense' | null
+  category: string
+  /** Lower runs first. */
+  priority: number
+  isActive?: boolean
+}
+
+/** Minimal transaction shape the rules look at. */
+export type CategorizableTransaction = {
+  type: 'income' | 'expense' | 'transfer'
+  amount: number
+  description?: string | null
+  account_id?: string | null
+}
+
+export type CategorizationResult = {
+  category: string
+  ruleId: string
+}
+
+export type CategoryRuleValidationError =
+  | 'missing_category'
+  | 'no_conditions'
+  | 'invalid_regex'
+  | 'invalid_amount_range'
+
+/** One "the user changed this row's category" event. */
+export type CategoryCorrection = {
+  description: string
+  fromCategory: string | null
+  toCategory: string
+  /** ISO timestamp */
+  at: string
+}
+
+export type CategoryRuleProposal = {
+  pattern: string
+  category: string
+  /** Distinct corrected descriptions that contain `pattern`. */
+  occurrences: number
+  examples: string[]
+}
+
+export const CATEGORY_RULE_MATCH_TYPE_LABELS: Record<CategoryRuleMatchType, string> = {
+  contains: 'มีคำว่า',
+  regex: 'ตรงรูปแบบ (regex)',
+}
+
+// ─── Matching ────────────────────────────────────────────────────────────────
+
+/** Regexes are user input — cache compiled ones and treat bad patterns as "no match". */
+const regexCache = new Map<string, RegExp | null>()
+
+function compileRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'))
+    } catch {
+      regexCache.set(pattern, null)
+    }
+  }
+  return regexCache.get(pattern) ?? null
+}
+
+export function isValidRegex(pattern: string): boolean {
+  return compileRegex(pattern) != null
+}
+
+function hasPattern(rule: CategoryRule): boolean {
+  return (rule.pattern ?? '').trim() !== ''
+}
+
+function hasAnyCondition(rule: CategoryRule): boolean {
+  return hasPattern(rule) || rule.minAmount != null || rule.maxAmount != null || !!rule.accountId
+}
+
+/** Does `rule` apply to `tx`? Rules without any condition never match. */
+export function ruleMatches(rule: CategoryRule, tx: CategorizableTransaction): boolean {
+  if (rule.isActive === false || tx.type === 'transfer') return false
+  if (!hasAnyCondition(rule)) return false
+  if (rule.transactionType && rule.transactionType !== tx.type) return false
+
+  const amount = Math.abs(Number(tx.amount) || 0)
+  if (rule.minAmount != null && amount < rule.minAmount) return false
+  if (rule.maxAmount != null && amount > rule.maxAmount) return false
+  if (rule.accountId && rule.accountId !== tx.account_id) return false
+
+  if (hasPattern(rule)) {
+    const description = tx.description ?? ''
+    const pattern = rule.pattern!.trim()
+    if (rule.matchType === 'regex') {
+      const re = compileRegex(pattern)
+      if (!re || !re.test(description)) return false
+    } else if (!description.toLowerCase().includes(pattern.toLowerCase())) {
+      return false
+    }
+  }
+  return true
+}
+
+/** Rules in evaluation order: priority ascending, stable for ties. */
+export function sortRulesByPriority<T extends Pick<CategoryRule, 'priority'>>(rules: readonly T[]): T[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => a.rule.priority - b.rule.priority || a.index - b.index)
+    .map((x) => x.rule)
+}
+
+/**
+ * Category for `tx` from the first matching rule, or null.
+ * The result is normalized so legacy aliases resolve to the canonical name.
+ */
+export function categorizeTransaction(
+  tx: CategorizableTransaction,
+  rules: readonly CategoryRule[],
+): CategorizationResult | null {
+  for (const rule of sortRulesByPriority(rules)) {
+    if (ruleMatches(rule, tx)) {
+      return { category: normalizeCategoryName(rule.category), ruleId: rule.id }
+    }
+  }
+  return null
+}
+
+export function validateCategoryRule(
+  rule: Pick<CategoryRule, 'matchType' | 'pattern' | 'minAmount' | 'maxAmount' | 'accountId' | 'category'>,
+): CategoryRuleValidationError | null {
+  if (!rule.category?.trim()) return 'missing_category'
+  const asRule = { ...rule, id: '', priority: 0 } as CategoryRule
+  if (!hasAnyCondition(asRule)) return 'no_conditions'
+  if (hasPattern(asRule) && rule.matchType === 'regex' && !isValidRegex(rule.pattern!.trim())) return 'invalid_regex'
+  if (rule.minAmount != null && rule.maxAmount != null && rule.minAmount > rule.maxAmount) return 'invalid_amount_range'
+  return null
+}
+
+export function describeCategoryRuleError(error: CategoryRuleValidationError): string {
+  switch (error) {
+    case 'missing_category':
+      return 'กรุณาเลือกหมวดหมู่'
+    case 'no_conditions':
+      return 'กรุณาระบุเงื่อนไขอย่างน้อย 1 ข้อ (คำในรายละเอียด, ช่วงจำนวนเงิน หรือบัญชี)'
+    case 'invalid_regex':
+      return 'รูปแบบ regex ไม่ถูกต้อง'
+    case 'invalid_amount_range':
+      return 'จำนวนเงินต่ำสุดต้องไม่มากกว่าสูงสุด'
+  }
+}
+
+/** Short Thai summary of a rule's conditions, e.g. `มีคำว่า "grab" · ≤ ฿500`. */
+export function describeCategoryRule(rule: CategoryRule, accountName?: (id: string) => string | undefined): string {
+  const parts: string[] = []
+  if (hasPattern(rule)) parts.push(`${CATEGORY_RULE_MATCH_TYPE_LABELS[rule.matchType]} "${rule.pattern!.trim()}"`)
+  if (rule.minAmount != null && rule.maxAmount != null) parts.push(`฿${rule.minAmount}–${rule.maxAmount}`)
+  else if (rule.minAmount != null) parts.push(`≥ ฿${rule.minAmount}`)
+  else if (rule.maxAmount != null) parts.push(`≤ ฿${rule.maxAmount}`)
+  if (rule.accountId) parts.push(`บัญชี ${accountName?.(rule.accountId) ?? ''}`.trim())
+  if (rule.transactionType) parts.push(rule.transactionType === 'income' ? 'รายรับ' : 'รายจ่าย')
+  return parts.join(' · ')
+}
+
+// ─── Learning from corrections ───────────────────────────────────────────────
+
+/** Stable key of a proposal, used to remember dismissals. */
+export function proposalKey(proposal: Pick<CategoryRuleProposal, 'pattern' | 'category'>): string {
+  return `${proposal.pattern}|${proposal.category}`
+}
+
+/**
+ * Keywords of a description worth turning into a rule: lowercase words of 3+
+ * characters with digits removed (bank descriptions end with branch / ref numbers).
+ */
+export function descriptionKeywords(description: string): string[] {
+  const words = (description ?? '')
+    .toLowerCase()
+    .replace(/\d+/g, ' ')
+    .split(/[\s,.;:/\\|()[\]{}*#"'_+=-]+/)
+    .filter((w) => w.length >= 3)
+  return Array.from(new Set(words))
+}
+
+/**
+ * Suggest `contains` rules from repeated corrections.
+ *
+ * A keyword is proposed for category Y when at least `minOccurrences` distinct
+ * descriptions containing it were corrected to Y and none to another category.
+ * Keywords the current rules already send to Y are skipped.
+ *
+ * Sorted by occurrences (most first); longer keywords win ties because they are
+ * more specific.
+ */
+export function proposeRulesFromCorrections(
+  corrections: readonly CategoryCorrection[],
+  rules: readonly CategoryRule[],
+  { minOccurrences = 2 }: { minOccurrences?: number } = {},
+): CategoryRuleProposal[] {
+  // keyword -> category -> distinct descriptions
+  const seen = new Map<string, Map<string, Set<string>>>()
+  for (const c of corrections) {
+    const category = normalizeCategoryName(c.toCategory)
+    if (!category) continue
+    for (const keyword of descriptionKeywords(c.description)) {
+      const byCategory = seen.get(keyword) ?? new Map<string, Set<string>>()
+      const descriptions = byCategory.get(category) ?? new Set<string>()
+      descriptions.add(c.description.trim())
+      byCategory.set(category, descriptions)
+      seen.set(keyword, byCategory)
+    }
+  }
+
+  const proposals: CategoryRuleProposal[] = []
+  seen.forEach((byCategory, keyword) => {
+    // Ambiguous keyword (corrected to several categories) → not a good rule.
+    if (byCategory.size !== 1) return
+    const [[category, descriptions]] = Array.from(byCategory.entries())
+    if (descriptions.size < minOccurrences) return
+
+    const examples = Array.from(descriptions)
+    const alreadyCovered = examples.every(
+      (description) =>
+        categorizeTransaction({ type: 'expense', amount: 0, description }, rules)?.category === category,
+    )
+    if (alreadyCovered) return
+
+    proposals.push({ pattern: keyword, category, occurrences: descriptions.size, examples: examples.slice(0, 3) })
+  })
+
+  // Keep one proposal per set of descriptions (the most specific keyword).
+  proposals.sort((a, b) => b.occurrences - a.occurrences || b.pattern.length - a.pattern.length)
+  const covered = new Set<string>()
+  return proposals.filter((p) => {
+    const key = `${p.category}|${[...p.examples].sort().join('|')}`
+    if (covered.has(key)) return false
+    covered.add(key)
+    return true
+  })
+}
@@ -8,7 +8,15 @@
  * - Date calculations should be date-only (ignore time-of-day) unless explicitly stated.
  */
 
-export type TransactionType = 'income' | 'expense'
+import type { TransferDirection } from '../transfer/transfer'
+import { getCategoryAmounts, type TransactionSplit } from '../split/split'
+
+/**
+ * `transfer` rows move money between the user's own accounts. Every helper in
+ * this module filters on `'income'` / `'expense'` explicitly, so transfers
+ * never count towards totals, category breakdowns or daily spending.
+ */
+export type TransactionType = 'income' | 'expense' | 'transfer'
 
 export type TransactionLike = {
   type: TransactionType
@@ -19,6 +27,15 @@ export type TransactionLike = {
    * (We treat it as a lexicographically sortable date string.)
    */
   date: string
+  /** Account / wallet the money moved through. `null`/missing = unassigned (legacy rows). */
+  account_id?: string | null
+  /** Shared by both legs of a transfer; `null` for income/expense. */
+  transfer_id?: string | null
+  transfer_direction?: TransferDirection | null
+  /** Recurring rule this row was posted from (migration 010); `null` otherwise. */
+  recurring_id?: string | null
+  /** Split lines (migration 012); category breakdowns attribute each line to its own category. */
+  splits?: readonly TransactionSplit[] | null
 }
 
 export type CategorySummary = {
@@ -176,6 +193,11 @@ export function getTodayExpense(transactions: TransactionLike[], todayStr: strin
     .reduce((sum, t) => sum + Number(t.amount), 0)
 }
 
+/** Income categories offered in pickers (income has no DB-backed category list). */
+export const INCOME_CATEGORIES = [
+  'เงินเดือน', 'โบนัส', 'รายได้เสริม', 'เงินปันผล', 'ดอกเบี้ย', 'รายได้อื่นๆ',
+] as const
+
 /**
  * Maps legacy category names (from older DB records) to current canonical names.
  * This ensures budget lookups match even when old transactions exist.
@@ -208,6 +230,7 @@ export function getLegacyCategoryNames(): string[] {
  * Sum of expenses per category within range (inclusive),
  * using date strings (YYYY-MM-DD) which are lexicographically sortable.
  * Normalizes legacy category names to current canonical names so budget matching works.
+ * Split transactions count each line towards its own category.
  */
 export function computeSpentByCategory(transactions: TransactionLike[], range: DateRange): Record<string, number> {
   const startStr = formatDate(range.start)
@@ -220,12 +243,14 @@ export function computeSpentByCategory(transactions: TransactionLike[], range: D
       (t) =>
         t.type === 'expense' &&
         t.date >= startStr &&
-        t.date <= endStr &&
-        (t.category ?? '').trim() !== ''
+        t.date <= endStr
     )
     .forEach((t) => {
-      const cat = normalizeCategoryName(t.category ?? '')
-      out[cat] = (out[cat] ?? 0) + Number(t.amount)
+      getCategoryAmounts(t).forEach((line) => {
+        if (line.category.trim() === '') return
+        const cat = normalizeCategoryName(line.category)
+        out[cat] = (out[cat] ?? 0) + line.amount
+      })
     })
 
   return out
@@ -309,7 +334,7 @@ export function getDaysWithExpense(transactions: TransactionLike[], startDate: D
   return set.size
 }
 
-/** Top N expense categories by total amount, with percentage of total expense. */
+/** Top N expense categories by total amount (split lines counted separately), with percentage of total expense. */
 export function getTopExpenseCategories(transactions: TransactionLike[], limit: number): CategorySummary[] {
   const expenseOnly = transactions.filter((t) => t.type === 'expense')
   const totalExpense = expenseOnly.reduce((sum, t) => sum + Number(t.amount), 0)
@@ -317,9 +342,11 @@ export function getTopExpenseCategories(transactions: TransactionLike[], limit:
 
   const byCategory = new Map<string, number>()
   expenseOnly.forEach((t) => {
-    const raw = t.category?.trim()
-    const cat = raw === '' || raw === undefined ? 'ไม่ระบุหมวด' : normalizeCategoryName(raw)
-    byCategory.set(cat, (byCategory.get(cat) || 0) + Number(t.amount))
+    getCategoryAmounts(t).forEach((line) => {
+      const raw = line.category.trim()
+      const cat = raw === '' ? 'ไม่ระบุหมวด' : normalizeCategoryName(raw)
+      byCategory.set(cat, (byCategory.get(cat) || 0) + line.amount)
+    })
   })
 
   const list = Array.from(byCategory.entries())
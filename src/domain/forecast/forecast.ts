@@ -18,6 +18,9 @@
  * - UI state
  */
 
+import { expandRecurringRules, occurrenceKey, type RecurringRule } from '../recurring/recurring'
+import { getCategoryAmounts, type TransactionSplit } from '../split/split'
+
 /**
  * Default category classification (seed list — matches migration 007 seed).
  *
@@ -101,12 +104,28 @@ function normalizeCat(cat: string): string {
 /**
  * Minimal transaction shape required by this domain module.
  * - `date` must be `YYYY-MM-DD` (lexicographically sortable)
+ * - `transfer` rows are ignored (only `expense` feeds the forecast)
  */
 export type TransactionLike = {
-  type: 'income' | 'expense'
+  type: 'income' | 'expense' | 'transfer'
   amount: number
   category?: string
   date: string
+  /** Set when the row was posted from a recurring rule. */
+  recurring_id?: string | null
+  /** Split lines; only the variable-category lines count towards the daily rate. */
+  splits?: readonly TransactionSplit[] | null
+}
+
+/**
+ * Recurring rules the user declared explicitly. When passed to
+ * `computePlannedRemaining`, their upcoming expense occurrences replace the
+ * median-history guess for the categories they cover.
+ */
+export type DeclaredRecurrences = {
+  rules: readonly RecurringRule[]
+  /** Salary day from the profile — needed to place `salary_day` rules. */
+  salaryDay?: number
 }
 
 /**
@@ -167,6 +186,7 @@ function parseDateStr(s: string): Date {
 /**
  * Variable daily rate:
  * - Compute daily total of VARIABLE expenses over last 14 days (inclusive).
+ *   Split transactions contribute only their variable-category lines.
  * - If we have at least 3 distinct days, use median (robust to spikes).
  * - Otherwise fall back to mean (or 0 if no values).
  */
@@ -176,9 +196,13 @@ export function computeVariableDailyRate(
   variableCategories: readonly string[] = VARIABLE_EXPENSE_CATEGORIES
 ): number {
   const variableSet = new Set<string>(variableCategories)
-  const expenseOnly = transactions.filter(
-    (t) => t.type === 'expense' && t.category != null && variableSet.has(normalizeCat(t.category))
-  )
+  const variableLines = transactions
+    .filter((t) => t.type === 'expense')
+    .flatMap((t) =>
+      getCategoryAmounts(t)
+        .filter((line) => variableSet.has(normalizeCat(line.category)))
+        .map((line) => ({ date: t.date, amount: line.amount }))
+    )
 
   const end = toDateOnly(today)
   const start = new Date(end)
@@ -188,9 +212,9 @@ export function computeVariableDailyRate(
   const endStr = toDateStr(end)
 
   const byDay = new Map<string, number>()
-  expenseOnly.forEach((t) => {
+  variableLines.forEach((t) => {
     if (t.date >= startStr && t.date <= endStr) {
-      byDay.set(t.date, (byDay.get(t.date) ?? 0) + Number(t.amount))
+      byDay.set(t.date, (byDay.get(t.date) ?? 0) + t.amount)
     }
   })
 
@@ -200,54 +224,79 @@ export function computeVariableDailyRate(
 }
 
 /**
- * Planned remaining fixed expenses in the period:
- * For each FIXED category:
+ * Planned remaining fixed expenses in the period.
+ *
+ * Declared recurrences (optional) win:
+ * - Every active expense rule contributes its occurrences in (today..periodEnd),
+ *   skipping any occurrence already posted (a transaction with the same
+ *   `recurring_id` + `date`).
+ * - Categories covered by such a rule are excluded from the heuristic below.
+ *
+ * Heuristic, for each remaining FIXED category:
  * - Look back up to 3 months to learn "typical amount" and "typical day-of-month".
  * - If the category has NOT been paid yet in this period (periodStart..today),
  *   and the typical day-of-month still exists ahead in (today..periodEnd),
  *   then count typicalAmount as "planned remaining".
+ * - Split transactions count each line toward its own category.
  */
 export function computePlannedRemaining(
   transactions: TransactionLike[],
   today: Date,
   periodStart: Date,
   periodEnd: Date,
-  fixedCategories: readonly string[] = FIXED_EXPENSE_CATEGORIES
+  fixedCategories: readonly string[] = FIXED_EXPENSE_CATEGORIES,
+  declared?: DeclaredRecurrences
 ): number {
   const todayStr = toDateStr(today)
   const periodStartStr = toDateStr(periodStart)
   const periodEndStr = toDateStr(periodEnd)
 
+  let total = 0
+  const declaredCategories = new Set<string>()
+
+  if (declared) {
+    const expenseRules = declared.rules.filter((r) => r.type === 'expense' && r.isActive !== false)
+    for (const r of expenseRules) {
+      if (r.category) declaredCategories.add(normalizeCat(r.category))
+    }
+    const posted = new Set(
+      transactions
+        .filter((t) => t.recurring_id)
+        .map((t) => occurrenceKey(t.recurring_id as string, t.date))
+    )
+    const upcoming = expandRecurringRules(
+      expenseRules,
+      { start: toDateOnly(today), end: toDateOnly(periodEnd) },
+      { salaryDay: declared.salaryDay }
+    )
+    for (const occ of upcoming) {
+      if (!posted.has(occurrenceKey(occ.ruleId, occ.date))) total += occ.amount
+    }
+  }
+
   const threeMonthsAgo = new Date(toDateOnly(today))
   threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3)
   const threeMonthsAgoStr = toDateStr(threeMonthsAgo)
 
-  let total = 0
+  const expenseLines = transactions
+    .filter((t) => t.type === 'expense' && t.date <= todayStr)
+    .flatMap((t) =>
+      getCategoryAmounts(t).map((line) => ({ date: t.date, amount: line.amount, category: normalizeCat(line.category) }))
+    )
 
   for (const cat of fixedCategories) {
-    const historical = transactions.filter(
-      (t) =>
-        t.type === 'expense' &&
-        normalizeCat(t.category ?? '') === cat &&
-        t.date >= threeMonthsAgoStr &&
-        t.date <= todayStr
-    )
+    if (declaredCategories.has(normalizeCat(cat))) continue
+    const historical = expenseLines.filter((line) => line.category === cat && line.date >= threeMonthsAgoStr)
 
     if (historical.length === 0) continue
 
-    const amounts = historical.map((t) => Number(t.amount))
+    const amounts = historical.map((line) => line.amount)
     const typicalAmount = median(amounts)
 
-    const daysOfMonth = historical.map((t) => parseDateStr(t.date).getDate())
+    const daysOfMonth = historical.map((line) => parseDateStr(line.date).getDate())
     const typicalDayOfMonth = Math.round(median(daysOfMonth))
 
-    const paidThisPeriod = transactions.some(
-      (t) =>
-        t.type === 'expense' &&
-        normalizeCat(t.category ?? '') === cat &&
-        t.date >= periodStartStr &&
-        t.date <= todayStr
-    )
+    const paidThisPeriod = expenseLines.some((line) => line.category === cat && line.date >= periodStartStr)
     if (paidThisPeriod) continue
 
     const typicalDayStillAhead = (() => {
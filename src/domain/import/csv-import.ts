@@ -0,0 +1,418 @@
+/**
+ * Domain: Bank statement CSV import
+ *
+ * Turns a bank CSV export into transaction drafts:
+ * 1. `parseCsv` — text → rows (quotes, CRLF, BOM).
+ * 2. `findHeaderRow` / `guessColumnMapping` — skip the account preamble banks
+ *    put above the table and guess which column is which.
+ * 3. `mapRowsToDrafts` — apply a `ColumnMapping`, parsing Thai dates (พ.ศ.
+ *    years, Thai month abbreviations) and amounts with thousands separators.
+ * 4. `flagLikelyDuplicates` — compare drafts with rows already in the app.
+ *
+ * Rules:
+ * - Pure: no I/O, no browser APIs (file reading + text decoding happen in the UI).
+ * - Every draft amount is positive; `type` carries the direction.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * Which column (0-based) holds what. Use either `amountColumn` (one signed
+ * column) or `withdrawalColumn` / `depositColumn` (two unsigned columns).
+ */
+export type ColumnMapping = {
+  dateColumn: number
+  descriptionColumn?: number | null
+  amountColumn?: number | null
+  withdrawalColumn?: number | null
+  depositColumn?: number | null
+  /**
+   * For a single signed amount column: by default negative = expense.
+   * Set true when the bank exports expenses as positive numbers.
+   */
+  positiveIsExpense?: boolean
+  /** Order of day/month in ambiguous dates like 03/04/2567. Thai banks use DMY. */
+  dateOrder?: 'DMY' | 'MDY'
+}
+
+/** A saved mapping, matched to future files by their header row. */
+export type ImportPreset = {
+  name: string
+  /** `headerSignature(headerRow)`; empty for built-in layouts. */
+  signature: string
+  /** Rows to skip before the header (bank preamble). */
+  headerRowIndex?: number
+  mapping: ColumnMapping
+}
+
+export type ImportDraft = {
+  /** 1-based line number in the file (for error messages). */
+  rowNumber: number
+  /** `YYYY-MM-DD` (Common Era) */
+  date: string
+  type: 'income' | 'expense'
+  /** Always positive. */
+  amount: number
+  description: string
+}
+
+export type ImportRowError = {
+  rowNumber: number
+  reason: string
+}
+
+/** Minimal shape of an existing transaction for duplicate checks. */
+export type ExistingTransactionLike = {
+  date: string
+  amount: number
+  type?: string
+  description?: string | null
+}
+
+// ─── CSV parsing ─────────────────────────────────────────────────────────────
+
+/**
+ * Parse CSV text (RFC 4180-ish): quoted fields, escaped quotes (""),
+ * commas/newlines inside quotes, CRLF or LF, optional UTF-8 BOM.
+ * Blank lines are dropped. Cells are trimmed.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(cell.trim())
+    if (row.some((c) => c !== '')) rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        cell += ch
+      }
+      continue
+    }
+    if (ch === '"') inQuotes = true
+    else if (ch === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (ch === '\n') endRow()
+    else if (ch === '\r') {
+      if (src[i + 1] === '\n') i++
+      endRow()
+    } else cell += ch
+  }
+  if (cell !== '' || row.length > 0) endRow()
+  return rows
+}
+
+// ─── Value parsing ───────────────────────────────────────────────────────────
+
+const THAI_MONTHS: Record<string, number> = {
+  'ม.ค.': 1, 'ก.พ.': 2, 'มี.ค.': 3, 'เม.ย.': 4, 'พ.ค.': 5, 'มิ.ย.': 6,
+  'ก.ค.': 7, 'ส.ค.': 8, 'ก.ย.': 9, 'ต.ค.': 10, 'พ.ย.': 11, 'ธ.ค.': 12,
+}
+
+const EN_MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+}
+
+/**
+ * Normalize a year to Common Era.
+ * - 4 digits ≥ 2400 → Buddhist Era (พ.ศ.), subtract 543.
+ * - 2 digits ≥ 40 → short พ.ศ. (67 = 2567 = 2024); below 40 → 20yy.
+ */
+export function normalizeYear(year: number, digits: number): number {
+  if (digits <= 2) return year >= 40 ? 2500 + year - 543 : 2000 + year
+  return year >= 2400 ? year - 543 : year
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+function isValidYmd(y: number, m: number, d: number): boolean {
+  if (!(m >= 1 && m <= 12 && d >= 1 && d <= 31 && y >= 1900 && y <= 2200)) return false
+  const dt = new Date(y, m - 1, d)
+  return dt.getFullYear() === y && dt.getMonth() === m - 1 && dt.getDate() === d
+}
+
+/**
+ * Parse a statement date to `YYYY-MM-DD` (CE). Returns null when unrecognized.
+ *
+ * Accepts: 15/01/2567, 15-01-67, 2024-01-15, 15 ม.ค. 2567, 15 Jan 2024,
+ * and any of those followed by a time ("15/01/2567 10:32").
+ */
+export function parseStatementDate(raw: string, order: 'DMY' | 'MDY' = 'DMY'): string | null {
+  const s = (raw ?? '').trim()
+  if (!s) return null
+
+  let m = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (m) {
+    const y = normalizeYear(Number(m[1]), 4)
+    const mo = Number(m[2])
+    const d = Number(m[3])
+    return isValidYmd(y, mo, d) ? `${y}-${pad2(mo)}-${pad2(d)}` : null
+  }
+
+  m = s.match(/^(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{2}|\d{4})(?!\d)/)
+  if (m) {
+    const [a, b] = [Number(m[1]), Number(m[2])]
+    const [d, mo] = order === 'DMY' ? [a, b] : [b, a]
+    const y = normalizeYear(Number(m[3]), m[3].length)
+    return isValidYmd(y, mo, d) ? `${y}-${pad2(mo)}-${pad2(d)}` : null
+  }
+
+  m = s.match(/^(\d{1,2})\s*([^\s\d]+)\s*(\d{2}|\d{4})(?!\d)/)
+  if (m) {
+    const token = m[2].trim()
+    const mo = THAI_MONTHS[token] ?? EN_MONTHS[token.slice(0, 3).toLowerCase()]
+    if (!mo) return null
+    const d = Number(m[1])
+    const y = normalizeYear(Number(m[3]), m[3].length)
+    return isValidYmd(y, mo, d) ? `${y}-${pad2(mo)}-${pad2(d)}` : null
+  }
+
+  return null
+}
+
+/**
+ * Parse an amount cell. Handles "1,234.50", "฿1,234", "-500", "(500.00)",
+ * "500.00-", "+500" and surrounding spaces. Empty / "-" → null.
+ */
+export function parseAmount(raw: string): number | null {
+  let s = (raw ?? '').trim().replace(/[฿\s]/g, '').replace(/THB/i, '')
+  if (s === '' || s === '-') return null
+  let negative = false
+  if (/^\(.*\)$/.test(s)) {
+    negative = true
+    s = s.slice(1, -1)
+  }
+  if (s.endsWith('-')) {
+    negative = true
+    s = s.slice(0, -1)
+  }
+  if (s.startsWith('-')) {
+    negative = !negative
+    s = s.slice(1)
+  } else if (s.startsWith('+')) {
+    s = s.slice(1)
+  }
+  s = s.replace(/,/g, '')
+  if (!/^\d*\.?\d+$/.test(s)) return null
+  const n = Number(s)
+  if (!Number.isFinite(n)) return null
+  return negative ? -n : n
+}
+
+// ─── Column mapping ──────────────────────────────────────────────────────────
+
+/** Header keywords per role (Thai + English, compared lowercased). */
+const HEADER_ALIASES = {
+  date: ['วันที่', 'วันที่ทำรายการ', 'วัน/เวลา', 'วันที่/เวลา', 'date', 'transaction date', 'trans date', 'posting date'],
+  description: ['รายละเอียด', 'รายการ', 'คำอธิบาย', 'description', 'details', 'transaction', 'remark', 'หมายเหตุ'],
+  withdrawal: ['ถอนเงิน', 'ถอน', 'จำนวนเงินถอน', 'เดบิต', 'withdrawal', 'withdraw', 'debit', 'ถอนเงิน/โอนออก'],
+  deposit: ['ฝากเงิน', 'ฝาก', 'จำนวนเงินฝาก', 'เครดิต', 'deposit', 'credit', 'ฝากเงิน/โอนเข้า'],
+  amount: ['จำนวนเงิน', 'amount', 'ยอดเงิน'],
+} as const
+
+function normalizeHeader(cell: string): string {
+  return cell.trim().toLowerCase()
+}
+
+/** Exact header matches win over prefix matches, and earlier aliases over later ones. */
+function findColumn(header: readonly string[], aliases: readonly string[], taken: Set<number>): number | null {
+  const cells = header.map(normalizeHeader)
+  const pick = (matches: (cell: string, alias: string) => boolean) => {
+    for (const alias of aliases) {
+      const idx = cells.findIndex((cell, i) => !taken.has(i) && matches(cell, alias))
+      if (idx >= 0) return idx
+    }
+    return -1
+  }
+  let idx = pick((cell, alias) => cell === alias)
+  if (idx < 0) idx = pick((cell, alias) => cell.startsWith(alias))
+  if (idx < 0) return null
+  taken.add(idx)
+  return idx
+}
+
+/**
+ * Guess a mapping from a header row. Returns null unless at least a date column
+ * and some amount column(s) are found.
+ */
+export function guessColumnMapping(header: readonly string[]): ColumnMapping | null {
+  const taken = new Set<number>()
+  const dateColumn = findColumn(header, HEADER_ALIASES.date, taken)
+  if (dateColumn == null) return null
+  const withdrawalColumn = findColumn(header, HEADER_ALIASES.withdrawal, taken)
+  const depositColumn = findColumn(header, HEADER_ALIASES.deposit, taken)
+  const amountColumn =
+    withdrawalColumn == null && depositColumn == null ? findColumn(header, HEADER_ALIASES.amount, taken) : null
+  if (withdrawalColumn == null && depositColumn == null && amountColumn == null) return null
+  const descriptionColumn = findColumn(header, HEADER_ALIASES.description, taken)
+  return { dateColumn, descriptionColumn, amountColumn, withdrawalColumn, depositColumn, dateOrder: 'DMY' }
+}
+
+/**
+ * Index of the header row, skipping the preamble (account name, number, period…)
+ * that bank exports put above the table. Looks at the first `maxScan` rows;
+ * returns 0 when nothing looks like a header.
+ */
+export function findHeaderRow(rows: readonly string[][], maxScan = 20): number {
+  const limit = Math.min(rows.length, maxScan)
+  for (let i = 0; i < limit; i++) {
+    if (guessColumnMapping(rows[i])) return i
+  }
+  return 0
+}
+
+/** Stable signature of a header row, used to find a saved preset for the next file. */
+export function headerSignature(header: readonly string[]): string {
+  return header.map((c) => c.trim().toLowerCase()).join('|')
+}
+
+/**
+ * Built-in layouts modelled on common Thai bank exports. Column positions are
+ * a starting point — the user can adjust and save their own preset.
+ */
+export const BUILT_IN_PRESETS: readonly ImportPreset[] = [
+  {
+    // วันที่ | เวลา | รายการ | ถอนเงิน | ฝากเงิน | ยอดคงเหลือ | ช่องทาง | รายละเอียด
+    name: 'KBank (กสิกรไทย)',
+    signature: '',
+    mapping: { dateColumn: 0, descriptionColumn: 7, withdrawalColumn: 3, depositColumn: 4, dateOrder: 'DMY' },
+  },
+  {
+    // Date | Time | Code | Channel | Debit | Credit | Balance | Description
+    name: 'SCB (ไทยพาณิชย์)',
+    signature: '',
+    mapping: { dateColumn: 0, descriptionColumn: 7, withdrawalColumn: 4, depositColumn: 5, dateOrder: 'DMY' },
+  },
+  {
+    // วันที่ | รายการ | ถอน | ฝาก | คงเหลือ
+    name: 'ttb (ทีทีบี)',
+    signature: '',
+    mapping: { dateColumn: 0, descriptionColumn: 1, withdrawalColumn: 2, depositColumn: 3, dateOrder: 'DMY' },
+  },
+]
+
+// ─── Rows → drafts ───────────────────────────────────────────────────────────
+
+function cellAt(row: readonly string[], col: number | null | undefined): string {
+  return col == null || col < 0 ? '' : row[col] ?? ''
+}
+
+/**
+ * Apply `mapping` to data rows. `firstRowNumber` is the 1-based file line of
+ * `rows[0]` so errors point at the right line.
+ *
+ * Rows without a parsable date or a non-zero amount go to `errors` (bank
+ * exports often end with totals / footer lines — those land here too).
+ */
+export function mapRowsToDrafts(
+  rows: readonly string[][],
+  mapping: ColumnMapping,
+  firstRowNumber = 1,
+): { drafts: ImportDraft[]; errors: ImportRowError[] } {
+  const drafts: ImportDraft[] = []
+  const errors: ImportRowError[] = []
+
+  rows.forEach((row, i) => {
+    const rowNumber = firstRowNumber + i
+    const date = parseStatementDate(cellAt(row, mapping.dateColumn), mapping.dateOrder)
+    if (!date) {
+      errors.push({ rowNumber, reason: 'อ่านวันที่ไม่ได้' })
+      return
+    }
+
+    let signed: number | null = null
+    if (mapping.withdrawalColumn != null || mapping.depositColumn != null) {
+      const out = parseAmount(cellAt(row, mapping.withdrawalColumn))
+      const inn = parseAmount(cellAt(row, mapping.depositColumn))
+      if (out) signed = -Math.abs(out)
+      else if (inn) signed = Math.abs(inn)
+    } else {
+      const amount = parseAmount(cellAt(row, mapping.amountColumn))
+      if (amount != null) signed = mapping.positiveIsExpense ? -amount : amount
+    }
+
+    if (!signed) {
+      errors.push({ rowNumber, reason: 'ไม่มีจำนวนเงิน' })
+      return
+    }
+
+    drafts.push({
+      rowNumber,
+      date,
+      type: signed < 0 ? 'expense' : 'income',
+      amount: Math.round(Math.abs(signed) * 100) / 100,
+      description: cellAt(row, mapping.descriptionColumn).replace(/\s+/g, ' ').trim(),
+    })
+  })
+
+  return { drafts, errors }
+}
+
+// ─── Duplicate detection ─────────────────────────────────────────────────────
+
+/** Lowercase, drop punctuation/whitespace (keeps Thai, latin letters and digits). */
+export function normalizeDescription(s: string | null | undefined): string {
+  return (s ?? '').toLowerCase().replace(/[^0-9a-z\u0E00-\u0E7F]+/g, '')
+}
+
+function descriptionsMatch(a: string, b: string): boolean {
+  // Manual entries often have no note — then date + amount is all we can go on.
+  if (!a || !b) return true
+  return a === b || a.includes(b) || b.includes(a)
+}
+
+/**
+ * Flag drafts that likely already exist: same date, same amount (to the satang),
+ * same type when known, and compatible descriptions.
+ *
+ * Matching is one-to-one — two identical coffees on the same day in the file
+ * against one in the app flags only one of them.
+ *
+ * @returns indexes into `drafts` that look like duplicates
+ */
+export function flagLikelyDuplicates(
+  drafts: readonly ImportDraft[],
+  existing: readonly ExistingTransactionLike[],
+): Set<number> {
+  const pool = new Map<string, { type?: string; description: string; used: boolean }[]>()
+  for (const t of existing) {
+    const key = `${t.date}|${Math.round(Number(t.amount) * 100)}`
+    const list = pool.get(key) ?? []
+    list.push({ type: t.type, description: normalizeDescription(t.description), used: false })
+    pool.set(key, list)
+  }
+
+  const flagged = new Set<number>()
+  drafts.forEach((d, i) => {
+    const candidates = pool.get(`${d.date}|${Math.round(d.amount * 100)}`)
+    if (!candidates) return
+    const desc = normalizeDescription(d.description)
+    const match = candidates.find(
+      (c) => !c.used && (!c.type || c.type === d.type) && descriptionsMatch(desc, c.description),
+    )
+    if (match) {
+      match.used = true
+      flagged.add(i)
+    }
+  })
+  return flagged
+}
@@ -10,6 +10,20 @@
  */
 
 export * from "./finance/finance";
+export * from "./account/account";
+export * from "./transfer/transfer";
+export * from "./split/split";
+export * from "./search/transaction-search";
+export * from "./tag/tag";
+export * from "./receipt/receipt";
+export * from "./recurring/recurring";
+export * from "./import/csv-import";
+export * from "./categorization/category-rules";
+export * from "./sync/conflict";
+export * from "./sync/retry";
+export * from "./sync/sync-history";
+export * from "./security/offline-encryption";
+export * from "./security/app-lock";
 
 // Avoid wildcard export here because both finance + period export `DateRange`.
 // Re-export period explicitly to prevent name collisions in the barrel.
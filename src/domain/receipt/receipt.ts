@@ -0,0 +1,82 @@
+/**
+ * Domain: Receipt images (รูปใบเสร็จ)
+ *
+ * A transaction can carry any number of receipt photos.
+ *
+ * Storage model (see migration 014):
+ * - Files live in the private `receipts` Storage bucket under
+ *   `<user_id>/<transaction_id>/<receipt_id>.<ext>` (+ a `-thumb` variant).
+ * - `receipts` rows hold the metadata; `path` is unique so a retried upload
+ *   never creates a second row.
+ * - Photos taken offline wait in IndexedDB and are uploaded by the next sync.
+ *
+ * Receipts are not part of the backup archive: the files belong to a user
+ * folder in Storage and cannot be moved by a table restore.
+ *
+ * Pure: no I/O, no browser APIs.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type ReceiptValidationError = 'UNSUPPORTED_TYPE' | 'TOO_LARGE'
+
+/** Largest original photo accepted before it is downscaled on the device. */
+export const MAX_RECEIPT_SOURCE_BYTES = 20 * 1024 * 1024
+
+/** Longest edge of the stored image / list thumbnail, in pixels. */
+export const RECEIPT_IMAGE_MAX_EDGE = 1600
+export const RECEIPT_THUMB_MAX_EDGE = 160
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+}
+
+// ─── Rules ───────────────────────────────────────────────────────────────────
+
+export function validateReceiptFile(file: { type: string; size: number }): ReceiptValidationError | null {
+  if (!file.type.startsWith('image/')) return 'UNSUPPORTED_TYPE'
+  if (file.size > MAX_RECEIPT_SOURCE_BYTES) return 'TOO_LARGE'
+  return null
+}
+
+/** Thai message for a validation error (shown in alerts). */
+export function describeReceiptError(error: ReceiptValidationError): string {
+  switch (error) {
+    case 'UNSUPPORTED_TYPE':
+      return 'แนบได้เฉพาะไฟล์รูปภาพ'
+    case 'TOO_LARGE':
+      return `รูปใหญ่เกินไป (ไม่เกิน ${MAX_RECEIPT_SOURCE_BYTES / 1024 / 1024} MB)`
+  }
+}
+
+/**
+ * Size that fits `width × height` inside a `maxEdge` square, keeping the
+ * aspect ratio. Never upscales.
+ */
+export function fitWithin(width: number, height: number, maxEdge: number): { width: number; height: number } {
+  const longest = Math.max(width, height)
+  if (longest <= maxEdge || longest <= 0) return { width, height }
+  const scale = maxEdge / longest
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) }
+}
+
+// ─── Storage paths ───────────────────────────────────────────────────────────
+
+/**
+ * Storage paths for one receipt. The first folder must be the owner's id
+ * (enforced by the bucket policy).
+ */
+export function buildReceiptPaths(input: {
+  userId: string
+  transactionId: string
+  receiptId: string
+  contentType: string
+}): { path: string; thumbPath: string } {
+  const ext = EXTENSIONS[input.contentType] ?? 'jpg'
+  const base = `${input.userId}/${input.transactionId}/${input.receiptId}`
+  return { path: `${base}.${ext}`, thumbPath: `${base}-thumb.jpg` }
+}
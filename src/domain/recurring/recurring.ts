@@ -0,0 +1,250 @@
+/**
+ * Domain: Recurring transactions (รายการประจำ)
+ *
+ * A recurring rule declares money that moves on a schedule — rent on the 5th,
+ * salary on every salary day, a weekly allowance, a yearly insurance premium.
+ * This module expands rules into dated occurrences for any date range and
+ * decides which occurrences are due to be posted as real transactions.
+ *
+ * Rules:
+ * - Pure: no I/O, no browser APIs, safe for unit tests.
+ * - Dates are local date-only; occurrences carry `YYYY-MM-DD` strings.
+ * - Day-of-month past the end of a short month is clamped to its last day
+ *   (31 → Feb 28/29, Apr 30), the same way salary-day cycles are clamped.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type RecurrenceFrequency = 'monthly' | 'salary_day' | 'weekly' | 'yearly'
+
+export type RecurringRule = {
+  id: string
+  type: 'income' | 'expense'
+  amount: number
+  category?: string | null
+  description?: string | null
+  accountId?: string | null
+  frequency: RecurrenceFrequency
+  /** 1–31. Required for `monthly` and `yearly`. */
+  dayOfMonth?: number | null
+  /** 0 (Sunday) – 6 (Saturday). Required for `weekly`. */
+  dayOfWeek?: number | null
+  /** 1–12. Required for `yearly`. */
+  monthOfYear?: number | null
+  /** First date the rule can occur on (`YYYY-MM-DD`, inclusive). */
+  startDate: string
+  /** Last date the rule can occur on (`YYYY-MM-DD`, inclusive). `null` = open-ended. */
+  endDate?: string | null
+  /** Post due occurrences as real transactions automatically. */
+  autoPost?: boolean
+  /** Latest occurrence already auto-posted (`YYYY-MM-DD`). */
+  lastPostedDate?: string | null
+  /** Paused rules are neither expanded nor posted. Defaults to active. */
+  isActive?: boolean
+}
+
+export type RecurringOccurrence = {
+  ruleId: string
+  /** `YYYY-MM-DD` */
+  date: string
+  type: 'income' | 'expense'
+  amount: number
+  category: string | null
+  description: string | null
+  accountId: string | null
+}
+
+export type RecurrenceOptions = {
+  /**
+   * Salary day from the profile (`month_end_day`). 0 = calendar month, which
+   * makes `salary_day` rules fall on the 1st.
+   */
+  salaryDay?: number
+}
+
+export type RecurrenceRange = { start: Date; end: Date }
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+export const RECURRENCE_FREQUENCIES: readonly RecurrenceFrequency[] = ['monthly', 'salary_day', 'weekly', 'yearly']
+
+/** Thai display label per frequency (settings list + picker). */
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  monthly: 'ทุกเดือน',
+  salary_day: 'ทุกวันเงินเดือนออก',
+  weekly: 'ทุกสัปดาห์',
+  yearly: 'ทุกปี',
+}
+
+export const WEEKDAY_LABELS = ['อาทิตย์', 'จันทร์', 'อังคาร', 'พุธ', 'พฤหัสบดี', 'ศุกร์', 'เสาร์'] as const
+
+// ─── Date helpers ────────────────────────────────────────────────────────────
+
+function toDateOnly(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate())
+}
+
+function toDateStr(d: Date): string {
+  const y = d.getFullYear()
+  const m = String(d.getMonth() + 1).padStart(2, '0')
+  const day = String(d.getDate()).padStart(2, '0')
+  return `${y}-${m}-${day}`
+}
+
+function parseDateStr(s: string): Date {
+  const [y, m, d] = s.split('-').map(Number)
+  return new Date(y, (m || 1) - 1, d || 1)
+}
+
+function addDaysStr(s: string, days: number): string {
+  const d = parseDateStr(s)
+  d.setDate(d.getDate() + days)
+  return toDateStr(d)
+}
+
+/** Day `day` of (year, monthIndex), clamped to the month's last day. */
+function clampedDate(year: number, monthIndex: number, day: number): Date {
+  const lastDay = new Date(year, monthIndex + 1, 0).getDate()
+  return new Date(year, monthIndex, Math.min(Math.max(day, 1), lastDay))
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+export function isRecurrenceFrequency(value: unknown): value is RecurrenceFrequency {
+  return typeof value === 'string' && (RECURRENCE_FREQUENCIES as readonly string[]).includes(value)
+}
+
+/** Short Thai description, e.g. "ทุกเดือน วันที่ 5" or "ทุกสัปดาห์ วันจันทร์". */
+export function describeRecurrence(rule: Pick<RecurringRule, 'frequency' | 'dayOfMonth' | 'dayOfWeek' | 'monthOfYear'>): string {
+  const label = RECURRENCE_FREQUENCY_LABELS[rule.frequency]
+  switch (rule.frequency) {
+    case 'monthly':
+      return `${label} วันที่ ${rule.dayOfMonth ?? '-'}`
+    case 'weekly':
+      return `${label} วัน${WEEKDAY_LABELS[rule.dayOfWeek ?? 0]}`
+    case 'yearly':
+      return `${label} วันที่ ${rule.dayOfMonth ?? '-'}/${rule.monthOfYear ?? '-'}`
+    case 'salary_day':
+      return label
+  }
+}
+
+/** Stable key for "this rule on this date" — used to avoid posting twice. */
+export function occurrenceKey(ruleId: string, date: string): string {
+  return `${ruleId}|${date}`
+}
+
+/**
+ * Expand one rule into occurrences within `range` (inclusive), clipped to the
+ * rule's own start/end dates. Inactive or malformed rules yield nothing.
+ */
+export function expandRecurringRule(
+  rule: RecurringRule,
+  range: RecurrenceRange,
+  options: RecurrenceOptions = {},
+): RecurringOccurrence[] {
+  if (rule.isActive === false) return []
+
+  const rangeStartStr = toDateStr(toDateOnly(range.start))
+  const rangeEndStr = toDateStr(toDateOnly(range.end))
+  const fromStr = rule.startDate > rangeStartStr ? rule.startDate : rangeStartStr
+  const toStr = rule.endDate && rule.endDate < rangeEndStr ? rule.endDate : rangeEndStr
+  if (fromStr > toStr) return []
+
+  const from = parseDateStr(fromStr)
+  const to = parseDateStr(toStr)
+  const dates: Date[] = []
+
+  switch (rule.frequency) {
+    case 'weekly': {
+      const dow = rule.dayOfWeek
+      if (dow == null || dow < 0 || dow > 6) return []
+      const d = new Date(from)
+      d.setDate(d.getDate() + ((dow - d.getDay() + 7) % 7))
+      while (d.getTime() <= to.getTime()) {
+        dates.push(new Date(d))
+        d.setDate(d.getDate() + 7)
+      }
+      break
+    }
+    case 'monthly':
+    case 'salary_day': {
+      const day =
+        rule.frequency === 'monthly'
+          ? rule.dayOfMonth
+          : options.salaryDay && options.salaryDay > 0
+            ? options.salaryDay
+            : 1
+      if (day == null || day < 1 || day > 31) return []
+      const cursor = new Date(from.getFullYear(), from.getMonth(), 1)
+      while (cursor.getTime() <= to.getTime()) {
+        dates.push(clampedDate(cursor.getFullYear(), cursor.getMonth(), day))
+        cursor.setMonth(cursor.getMonth() + 1)
+      }
+      break
+    }
+    case 'yearly': {
+      const day = rule.dayOfMonth
+      const month = rule.monthOfYear
+      if (day == null || month == null || month < 1 || month > 12) return []
+      for (let y = from.getFullYear(); y <= to.getFullYear(); y++) {
+        dates.push(clampedDate(y, month - 1, day))
+      }
+      break
+    }
+  }
+
+  return dates
+    .map(toDateStr)
+    .filter((s) => s >= fromStr && s <= toStr)
+    .map((date) => ({
+      ruleId: rule.id,
+      date,
+      type: rule.type,
+      amount: Number(rule.amount),
+      category: rule.category ?? null,
+      description: rule.description ?? null,
+      accountId: rule.accountId ?? null,
+    }))
+}
+
+/** Expand every rule and return occurrences sorted by date. */
+export function expandRecurringRules(
+  rules: readonly RecurringRule[],
+  range: RecurrenceRange,
+  options: RecurrenceOptions = {},
+): RecurringOccurrence[] {
+  return rules
+    .flatMap((r) => expandRecurringRule(r, range, options))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.ruleId.localeCompare(b.ruleId))
+}
+
+/**
+ * Occurrences of auto-post rules that are due (on or before `today`) and not
+ * yet posted.
+ *
+ * "Not yet posted" means after the rule's `lastPostedDate` AND not present in
+ * `alreadyPosted` (keys from `occurrenceKey`, built from existing transactions'
+ * `recurring_id` + `date`, including offline rows that have not synced yet).
+ */
+export function getDueOccurrences(
+  rules: readonly RecurringRule[],
+  today: Date,
+  options: RecurrenceOptions & { alreadyPosted?: ReadonlySet<string> } = {},
+): RecurringOccurrence[] {
+  const todayOnly = toDateOnly(today)
+  const due: RecurringOccurrence[] = []
+  for (const rule of rules) {
+    if (!rule.autoPost) continue
+    const start = parseDateStr(
+      rule.lastPostedDate && rule.lastPostedDate >= rule.startDate
+        ? addDaysStr(rule.lastPostedDate, 1)
+        : rule.startDate,
+    )
+    for (const occ of expandRecurringRule(rule, { start, end: todayOnly }, options)) {
+      if (options.alreadyPosted?.has(occurrenceKey(occ.ruleId, occ.date))) continue
+      due.push(occ)
+    }
+  }
+  return due.sort((a, b) => a.date.localeCompare(b.date) || a.ruleId.localeCompare(b.ruleId))
+}
@@ -0,0 +1,218 @@
+/**
+ * Domain: Transaction search & filters (ค้นหา / กรองรายการ)
+ *
+ * The transactions page combines two inputs into one `TransactionSearchQuery`:
+ * - the category chips (persisted via `getVisibleCategories`), and
+ * - the advanced filter: free text, income/expense, amount range, tags and
+ *   an explicit date range that may span several budget cycles.
+ *
+ * The query is executed server-side (Supabase, paginated) by infrastructure;
+ * `matchesTransactionSearch` is the same rule set in memory so both paths
+ * agree (and so the rules are unit-testable).
+ *
+ * Pure: no I/O, no browser APIs.
+ */
+
+import { getCategoryAmounts, type TransactionSplit } from '../split/split'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type TransactionTypeFilter = 'all' | 'income' | 'expense'
+
+export type TransactionFilter = {
+  /** Matched (case-insensitive, substring) against description and category. */
+  text: string
+  type: TransactionTypeFilter
+  minAmount: number | null
+  maxAmount: number | null
+  /** `YYYY-MM-DD`. When either bound is set the selected period is ignored. */
+  dateFrom: string | null
+  dateTo: string | null
+  /** Rows carrying any of these tags; [] = no tag filter. */
+  tagIds: string[]
+}
+
+/** A named filter the user saved (stored in localStorage). */
+export type TransactionFilterPreset = {
+  name: string
+  filter: TransactionFilter
+  /** Category chips, including the "uncategorized" chip; [] = all categories. */
+  categories: string[]
+}
+
+/** Everything the list query needs. Null bounds are open-ended. */
+export type TransactionSearchQuery = {
+  text: string
+  type: TransactionTypeFilter
+  minAmount: number | null
+  maxAmount: number | null
+  dateFrom: string | null
+  dateTo: string | null
+  /** Known category names to include; [] with `includeUncategorized = false` = no category filter. */
+  categories: string[]
+  /** Also include rows whose category is empty or not in the known list. */
+  includeUncategorized: boolean
+  /** Rows carrying any of these tags; [] = no tag filter. */
+  tagIds: string[]
+}
+
+export type TransactionFilterError = 'AMOUNT_RANGE' | 'DATE_RANGE'
+
+/** Minimal row shape `matchesTransactionSearch` reads. */
+export type SearchableTransaction = {
+  type: 'income' | 'expense' | 'transfer'
+  amount: number
+  category?: string | null
+  description?: string | null
+  date: string
+  transfer_direction?: 'out' | 'in' | null
+  splits?: readonly TransactionSplit[] | null
+  tag_ids?: readonly string[] | null
+}
+
+export const EMPTY_TRANSACTION_FILTER: TransactionFilter = {
+  text: '',
+  type: 'all',
+  minAmount: null,
+  maxAmount: null,
+  dateFrom: null,
+  dateTo: null,
+  tagIds: [],
+}
+
+export const TRANSACTION_TYPE_FILTER_LABELS: Record<TransactionTypeFilter, string> = {
+  all: 'ทั้งหมด',
+  income: 'รายรับ',
+  expense: 'รายจ่าย',
+}
+
+// ─── Filter helpers ──────────────────────────────────────────────────────────
+
+/** True when anything beyond the defaults is set (the category chips are separate). */
+export function hasAdvancedFilter(filter: TransactionFilter): boolean {
+  return (
+    filter.text.trim() !== '' ||
+    filter.type !== 'all' ||
+    filter.minAmount != null ||
+    filter.maxAmount != null ||
+    !!filter.dateFrom ||
+    !!filter.dateTo ||
+    filter.tagIds.length > 0
+  )
+}
+
+/** True when the filter replaces the selected period with its own date range. */
+export function hasCustomDateRange(filter: TransactionFilter): boolean {
+  return !!filter.dateFrom || !!filter.dateTo
+}
+
+export function validateTransactionFilter(filter: TransactionFilter): TransactionFilterError | null {
+  if (filter.minAmount != null && filter.maxAmount != null && filter.minAmount > filter.maxAmount) {
+    return 'AMOUNT_RANGE'
+  }
+  if (filter.dateFrom && filter.dateTo && filter.dateFrom > filter.dateTo) return 'DATE_RANGE'
+  return null
+}
+
+/** Thai message for a validation error (shown under the filter form). */
+export function describeTransactionFilterError(error: TransactionFilterError): string {
+  switch (error) {
+    case 'AMOUNT_RANGE':
+      return 'จำนวนเงินต่ำสุดต้องไม่มากกว่าสูงสุด'
+    case 'DATE_RANGE':
+      return 'วันที่เริ่มต้องไม่หลังวันที่สิ้นสุด'
+  }
+}
+
+/** Short Thai labels for the active parts of a filter (for summary chips). */
+export function describeTransactionFilter(filter: TransactionFilter): string[] {
+  const out: string[] = []
+  if (filter.text.trim()) out.push(`“${filter.text.trim()}”`)
+  if (filter.type !== 'all') out.push(TRANSACTION_TYPE_FILTER_LABELS[filter.type])
+  if (filter.minAmount != null && filter.maxAmount != null) out.push(`฿${filter.minAmount}–${filter.maxAmount}`)
+  else if (filter.minAmount != null) out.push(`≥ ฿${filter.minAmount}`)
+  else if (filter.maxAmount != null) out.push(`≤ ฿${filter.maxAmount}`)
+  if (filter.dateFrom || filter.dateTo) out.push(`${filter.dateFrom ?? '…'} ถึง ${filter.dateTo ?? '…'}`)
+  if (filter.tagIds.length > 0) out.push(`แท็ก ${filter.tagIds.length}`)
+  return out
+}
+
+/**
+ * Combine the advanced filter, the selected period and the category chips.
+ * `period` bounds are `YYYY-MM-DD`; `uncategorizedLabel` is the chip that
+ * stands for "no / unknown category".
+ */
+export function buildTransactionSearchQuery(input: {
+  filter: TransactionFilter
+  period: { start: string; end: string }
+  selectedCategories: readonly string[]
+  uncategorizedLabel: string
+}): TransactionSearchQuery {
+  const { filter, period, selectedCategories, uncategorizedLabel } = input
+  const custom = hasCustomDateRange(filter)
+  return {
+    text: filter.text.trim(),
+    type: filter.type,
+    minAmount: filter.minAmount,
+    maxAmount: filter.maxAmount,
+    dateFrom: custom ? filter.dateFrom : period.start,
+    dateTo: custom ? filter.dateTo : period.end,
+    categories: selectedCategories.filter((c) => c !== uncategorizedLabel),
+    includeUncategorized: selectedCategories.includes(uncategorizedLabel),
+    tagIds: filter.tagIds,
+  }
+}
+
+export function hasCategoryFilter(query: Pick<TransactionSearchQuery, 'categories' | 'includeUncategorized'>): boolean {
+  return query.categories.length > 0 || query.includeUncategorized
+}
+
+// ─── Matching ────────────────────────────────────────────────────────────────
+
+/**
+ * In-memory equivalent of the server query:
+ * - Transfers appear once (outgoing leg) and only without type/category filters.
+ * - A split row matches a category when any of its lines does.
+ * - A tag filter matches rows carrying any of the selected tags.
+ */
+export function matchesTransactionSearch(
+  tx: SearchableTransaction,
+  query: TransactionSearchQuery,
+  knownCategories: readonly string[],
+): boolean {
+  if (query.dateFrom && tx.date < query.dateFrom) return false
+  if (query.dateTo && tx.date > query.dateTo) return false
+
+  const amount = Number(tx.amount)
+  if (query.minAmount != null && amount < query.minAmount) return false
+  if (query.maxAmount != null && amount > query.maxAmount) return false
+
+  if (tx.type === 'transfer') {
+    if (query.type !== 'all' || hasCategoryFilter(query)) return false
+    if (tx.transfer_direction === 'in') return false
+  } else if (query.type !== 'all' && tx.type !== query.type) {
+    return false
+  }
+
+  if (hasCategoryFilter(query)) {
+    const wanted = new Set(query.categories)
+    const known = new Set(knownCategories)
+    const lineMatches = getCategoryAmounts(tx).some((line) => {
+      const cat = line.category.trim()
+      if (wanted.has(cat)) return true
+      return query.includeUncategorized && (cat === '' || !known.has(cat))
+    })
+    if (!lineMatches) return false
+  }
+
+  if (query.tagIds.length > 0 && !query.tagIds.some((id) => tx.tag_ids?.includes(id))) return false
+
+  const text = query.text.toLowerCase()
+  if (text) {
+    const inDescription = (tx.description ?? '').toLowerCase().includes(text)
+    const inCategory = (tx.category ?? '').toLowerCase().includes(text)
+    if (!inDescription && !inCategory) return false
+  }
+
+  return true
+}
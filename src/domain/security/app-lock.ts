@@ -0,0 +1,114 @@
+/**
+ * Domain: App lock (ล็อกแอปด้วย PIN)
+ *
+ * A local lock in front of the app, separate from the Supabase sign-in (the
+ * session stays signed in; the PIN only hides the screens on this device).
+ *
+ * - The PIN is 4–6 digits and only its salted hash is stored.
+ * - The app locks on start, and again when it comes back from the
+ *   background after the configured timeout (0 = as soon as it is hidden).
+ * - After a few wrong PINs in a row the unlock form waits before the next try.
+ *
+ * Pure: no I/O, no browser APIs.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type AppLockPinError = 'NOT_DIGITS' | 'LENGTH' | 'MISMATCH'
+
+/** Stored instead of the PIN (hex strings). */
+export type AppLockPinHash = {
+  salt: string
+  hash: string
+  iterations: number
+}
+
+/** Wrong PINs in a row and when the last one was entered (epoch ms). */
+export type AppLockFailedAttempts = {
+  attempts: number
+  lastAt: number | null
+}
+
+export const APP_LOCK_PIN_MIN_LENGTH = 4
+export const APP_LOCK_PIN_MAX_LENGTH = 6
+
+/** Minutes in the background before the app asks for the PIN again (0 = immediately). */
+export const APP_LOCK_TIMEOUT_OPTIONS = [0, 1, 5, 15] as const
+
+export const DEFAULT_APP_LOCK_TIMEOUT_MINUTES = 1
+
+/** Wrong PINs in a row before the unlock form waits. */
+export const APP_LOCK_MAX_ATTEMPTS = 5
+
+export const APP_LOCK_COOLDOWN_MS = 30_000
+
+// ─── PIN ─────────────────────────────────────────────────────────────────────
+
+export function validateNewPin(pin: string, confirmation: string): AppLockPinError | null {
+  if (!/^\d*$/.test(pin)) return 'NOT_DIGITS'
+  if (pin.length < APP_LOCK_PIN_MIN_LENGTH || pin.length > APP_LOCK_PIN_MAX_LENGTH) return 'LENGTH'
+  if (pin !== confirmation) return 'MISMATCH'
+  return null
+}
+
+/** Thai message for a validation error (shown in form hints). */
+export function describePinError(error: AppLockPinError): string {
+  switch (error) {
+    case 'NOT_DIGITS':
+      return 'PIN ต้องเป็นตัวเลขเท่านั้น'
+    case 'LENGTH':
+      return `PIN ต้องมี ${APP_LOCK_PIN_MIN_LENGTH}–${APP_LOCK_PIN_MAX_LENGTH} หลัก`
+    case 'MISMATCH':
+      return 'PIN ทั้งสองช่องไม่ตรงกัน'
+  }
+}
+
+export function isAppLockPinHash(value: unknown): value is AppLockPinHash {
+  if (!value || typeof value !== 'object') return false
+  const v = value as Record<string, unknown>
+  return (
+    typeof v.salt === 'string' &&
+    typeof v.hash === 'string' &&
+    typeof v.iterations === 'number' &&
+    v.iterations > 0
+  )
+}
+
+export function isAppLockFailedAttempts(value: unknown): value is AppLockFailedAttempts {
+  if (!value || typeof value !== 'object') return false
+  const v = value as Record<string, unknown>
+  return (
+    typeof v.attempts === 'number' &&
+    v.attempts >= 0 &&
+    (v.lastAt === null || typeof v.lastAt === 'number')
+  )
+}
+
+// ─── Locking ─────────────────────────────────────────────────────────────────
+
+/** Stored setting, or the default when missing / not one of the options. */
+export function normalizeAppLockTimeout(value: unknown): number {
+  if (value === null || value === undefined || value === '') return DEFAULT_APP_LOCK_TIMEOUT_MINUTES
+  const n = Number(value)
+  return (APP_LOCK_TIMEOUT_OPTIONS as readonly number[]).includes(n) ? n : DEFAULT_APP_LOCK_TIMEOUT_MINUTES
+}
+
+/** Label of a timeout option. */
+export function formatAppLockTimeout(minutes: number): string {
+  return minutes === 0 ? 'ทันที' : `${minutes} นาที`
+}
+
+/**
+ * True when the app came back from the background (hidden at `hiddenAt`)
+ * after the timeout. `hiddenAt` null = it was not hidden.
+ */
+export function shouldLockOnReturn(hiddenAt: number | null, now: number, timeoutMinutes: number): boolean {
+  if (hiddenAt === null) return false
+  return now - hiddenAt >= timeoutMinutes * 60_000
+}
+
+/** Milliseconds left before the next try is allowed (0 = may try now). */
+export function unlockCooldownLeft(failedAttempts: number, lastFailedAt: number | null, now: number): number {
+  if (failedAttempts < APP_LOCK_MAX_ATTEMPTS || lastFailedAt === null) return 0
+  return Math.max(0, lastFailedAt + APP_LOCK_COOLDOWN_MS - now)
+}
@@ -0,0 +1,56 @@
+/**
+ * Domain: Offline data encryption (เข้ารหัสข้อมูลบนเครื่อง)
+ *
+ * Rules for the optional passphrase that encrypts the data kept on this
+ * device, and for locking it again when the app is left alone (shared
+ * family devices).
+ *
+ * The passphrase cannot be recovered: forgetting it means deleting the data
+ * on this device (what is on the server stays).
+ *
+ * Pure: no I/O, no browser APIs.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type PassphraseValidationError = 'TOO_SHORT' | 'MISMATCH'
+
+/** Short enough for a 6-digit PIN, long enough to resist guessing a few times. */
+export const MIN_PASSPHRASE_LENGTH = 6
+
+/** Minutes without any interaction before the data locks again. */
+export const AUTO_LOCK_MINUTES_OPTIONS = [1, 5, 15, 30] as const
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 5
+
+// ─── Rules ───────────────────────────────────────────────────────────────────
+
+export function validateNewPassphrase(
+  passphrase: string,
+  confirmation: string,
+): PassphraseValidationError | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return 'TOO_SHORT'
+  if (passphrase !== confirmation) return 'MISMATCH'
+  return null
+}
+
+/** Thai message for a validation error (shown in form hints). */
+export function describePassphraseError(error: PassphraseValidationError): string {
+  switch (error) {
+    case 'TOO_SHORT':
+      return `รหัสผ่านต้องยาวอย่างน้อย ${MIN_PASSPHRASE_LENGTH} ตัวอักษร`
+    case 'MISMATCH':
+      return 'รหัสผ่านทั้งสองช่องไม่ตรงกัน'
+  }
+}
+
+/** Stored setting, or the default when missing / not one of the options. */
+export function normalizeAutoLockMinutes(value: unknown): number {
+  const n = Number(value)
+  return (AUTO_LOCK_MINUTES_OPTIONS as readonly number[]).includes(n) ? n : DEFAULT_AUTO_LOCK_MINUTES
+}
+
+/** True once `minutes` have passed since the last interaction. */
+export function shouldAutoLock(lastActivityAt: number, now: number, minutes: number): boolean {
+  return now - lastActivityAt >= minutes * 60_000
+}
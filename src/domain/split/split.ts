@@ -0,0 +1,123 @@
+/**
+ * Domain: Split transactions (แยกรายการหลายหมวด)
+ *
+ * One receipt can cover several categories (อาหาร + ของใช้ + ยา). Instead of
+ * one row per category, the transaction keeps its total and carries N split
+ * lines `{ category, amount }` that add up to that total.
+ *
+ * Storage model (see migration 012):
+ * - `transactions.splits` is a jsonb array; NULL / empty = not split.
+ * - `category` still holds the largest line's category, so lists, filters and
+ *   older app versions keep showing something sensible.
+ *
+ * Every category breakdown must go through `getCategoryAmounts` so each line
+ * is attributed to its own category.
+ *
+ * Pure: no I/O, no browser APIs.
+ */
+
+export type TransactionSplit = {
+  category: string
+  amount: number
+}
+
+/** Minimal shape this module reads. */
+export type SplitLike = {
+  amount: number
+  category?: string | null
+  splits?: readonly TransactionSplit[] | null
+}
+
+export type SplitValidationError =
+  | 'TOO_FEW_LINES'
+  | 'MISSING_CATEGORY'
+  | 'INVALID_AMOUNT'
+  | 'SUM_MISMATCH'
+
+/** Compare money in satang so 0.1 + 0.2 style float noise never fails a check. */
+function toSatang(amount: number): number {
+  return Math.round(Number(amount) * 100)
+}
+
+// ─── Reading ─────────────────────────────────────────────────────────────────
+
+export function hasSplits(t: Pick<SplitLike, 'splits'>): boolean {
+  return Array.isArray(t.splits) && t.splits.length > 0
+}
+
+/**
+ * Category → amount lines for one transaction.
+ * - Not split → one line with the row's category and full amount.
+ * - Split → one line per split. If the lines fall short of the total (e.g. an
+ *   edit changed the amount), the remainder stays on the row's category; if
+ *   they exceed it, the split is ignored so totals never inflate.
+ */
+export function getCategoryAmounts(t: SplitLike): TransactionSplit[] {
+  const total = Number(t.amount)
+  const whole = [{ category: t.category ?? '', amount: total }]
+  if (!hasSplits(t)) return whole
+
+  const lines = (t.splits ?? []).filter((s) => Number(s.amount) > 0)
+  const remainder = toSatang(total) - lines.reduce((sum, s) => sum + toSatang(s.amount), 0)
+  if (remainder < 0) return whole
+
+  const out = lines.map((s) => ({ category: s.category ?? '', amount: Number(s.amount) }))
+  if (remainder > 0) out.push({ category: t.category ?? '', amount: remainder / 100 })
+  return out
+}
+
+/** Amount still to assign (total − sum of lines); negative when over-assigned. */
+export function getSplitRemainder(total: number, splits: readonly TransactionSplit[]): number {
+  return (toSatang(total) - splits.reduce((sum, s) => sum + toSatang(s.amount), 0)) / 100
+}
+
+/** Category of the largest line (first one wins ties); '' for no lines. */
+export function getPrimarySplitCategory(splits: readonly TransactionSplit[]): string {
+  let best: TransactionSplit | null = null
+  for (const s of splits) {
+    if (!best || Number(s.amount) > Number(best.amount)) best = s
+  }
+  return best?.category.trim() ?? ''
+}
+
+// ─── Construction ────────────────────────────────────────────────────────────
+
+/**
+ * Tidy lines from a form: trim categories, round to satang, drop blank lines
+ * and merge lines that share a category.
+ */
+export function cleanSplits(splits: readonly TransactionSplit[]): TransactionSplit[] {
+  const out: TransactionSplit[] = []
+  for (const s of splits) {
+    const category = (s.category ?? '').trim()
+    const amount = toSatang(s.amount) / 100
+    if (!category && !amount) continue
+    const existing = category ? out.find((o) => o.category === category) : undefined
+    if (existing) existing.amount = (toSatang(existing.amount) + toSatang(amount)) / 100
+    else out.push({ category, amount })
+  }
+  return out
+}
+
+/** Validate cleaned lines against the transaction total. */
+export function validateSplits(total: number, splits: readonly TransactionSplit[]): SplitValidationError | null {
+  if (splits.length < 2) return 'TOO_FEW_LINES'
+  if (splits.some((s) => !s.category.trim())) return 'MISSING_CATEGORY'
+  if (splits.some((s) => !Number.isFinite(Number(s.amount)) || Number(s.amount) <= 0)) return 'INVALID_AMOUNT'
+  if (getSplitRemainder(total, splits) !== 0) return 'SUM_MISMATCH'
+  return null
+}
+
+/** Thai message for a validation error (shown in alerts / form hints). */
+export function describeSplitError(error: SplitValidationError): string {
+  switch (error) {
+    case 'TOO_FEW_LINES':
+      return 'การแยกรายการต้องมีอย่างน้อย 2 หมวด'
+    case 'MISSING_CATEGORY':
+      return 'กรุณาเลือกหมวดหมู่ให้ครบทุกบรรทัด'
+    case 'INVALID_AMOUNT':
+      return 'จำนวนเงินแต่ละบรรทัดต้องมากกว่า 0'
+    case 'SUM_MISMATCH':
+      return 'ยอดรวมของแต่ละหมวดต้องเท่ากับจำนวนเงินทั้งหมด'
+  }
+}
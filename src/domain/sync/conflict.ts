@@ -0,0 +1,152 @@
+/**
+ * Domain: Sync conflicts (ข้อมูลชนกันระหว่างอุปกรณ์)
+ *
+ * An edit made offline remembers the server version it started from (its
+ * "base"). When the edit is replayed and the server row has changed since that
+ * base, both devices edited the same row and a conflict policy decides:
+ *
+ * - `server-wins`: keep the server row, the offline edit is set aside.
+ * - `client-wins`: the offline edit overwrites the server row.
+ * - `merge` (default): field by field. A field changed on one side only takes
+ *   that side's value; a field changed on both sides to different values keeps
+ *   the server value and is reported as conflicting.
+ *
+ * Whatever the policy applied, a real conflict is kept for the user to review
+ * (and to switch to the other version).
+ *
+ * Pure: no I/O, no browser APIs.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type ConflictPolicy = 'server-wins' | 'client-wins' | 'merge'
+
+export const DEFAULT_CONFLICT_POLICY: ConflictPolicy = 'merge'
+
+/** Which version ended up on the server when the conflict was detected. */
+export type ConflictOutcome = 'server' | 'client' | 'merged'
+
+/** Transaction columns compared between versions (ids and timestamps excluded). */
+export const TRANSACTION_CONFLICT_FIELDS = [
+  'type',
+  'amount',
+  'category',
+  'description',
+  'date',
+  'account_id',
+  'transfer_id',
+  'transfer_direction',
+  'recurring_id',
+  'splits',
+] as const
+
+export type TransactionConflictField = (typeof TRANSACTION_CONFLICT_FIELDS)[number]
+
+export type FieldValues = Readonly<Record<string, unknown>>
+
+export type ConflictPlan = {
+  /** Field values to write to the server; null = leave the server row as is. */
+  write: Record<string, unknown> | null
+  outcome: ConflictOutcome
+  /** Fields changed on both sides to different values. */
+  conflictingFields: string[]
+  /** True when the user should review this (anything but a clean merge). */
+  needsReview: boolean
+}
+
+// ─── Comparison ──────────────────────────────────────────────────────────────
+
+/** null, undefined and '' all mean "no value". */
+function normalize(value: unknown): unknown {
+  return value === undefined || value === '' ? null : value
+}
+
+/** Numeric strings equal their number (`'100'` = `100`); objects compare by JSON. */
+export function sameFieldValue(a: unknown, b: unknown): boolean {
+  const x = normalize(a)
+  const y = normalize(b)
+  if (x === y) return true
+  if (x === null || y === null) return false
+  if (typeof x === 'object' || typeof y === 'object') return JSON.stringify(x) === JSON.stringify(y)
+  return String(x) === String(y)
+}
+
+/** Fields whose value differs between two versions. */
+export function changedFields(from: FieldValues, to: FieldValues, fields: readonly string[]): string[] {
+  return fields.filter((field) => !sameFieldValue(from[field], to[field]))
+}
+
+// ─── Resolution ──────────────────────────────────────────────────────────────
+
+/**
+ * Three-way merge of one row. Fields changed only locally take the local
+ * value; everything else keeps the server value.
+ */
+export function mergeFieldChanges(
+  base: FieldValues,
+  local: FieldValues,
+  server: FieldValues,
+  fields: readonly string[],
+): { merged: Record<string, unknown>; conflictingFields: string[] } {
+  const localChanges = new Set(changedFields(base, local, fields))
+  const serverChanges = new Set(changedFields(base, server, fields))
+  const merged: Record<string, unknown> = {}
+  const conflictingFields: string[] = []
+
+  for (const field of fields) {
+    const mine = localChanges.has(field)
+    const theirs = serverChanges.has(field)
+    if (mine && theirs && !sameFieldValue(local[field], server[field])) conflictingFields.push(field)
+    merged[field] = mine && !theirs ? local[field] : server[field]
+  }
+  return { merged, conflictingFields }
+}
+
+/**
+ * What to do with an offline edit whose server row changed since its base.
+ * (Call only when the server version differs from the base version.)
+ */
+export function planConflictResolution(
+  policy: ConflictPolicy,
+  base: FieldValues,
+  local: FieldValues,
+  server: FieldValues,
+  fields: readonly string[],
+): ConflictPlan {
+  const { merged, conflictingFields } = mergeFieldChanges(base, local, server, fields)
+  const localValues = Object.fromEntries(fields.map((field) => [field, local[field]]))
+
+  switch (policy) {
+    case 'server-wins':
+      return { write: null, outcome: 'server', conflictingFields, needsReview: true }
+    case 'client-wins':
+      return { write: localValues, outcome: 'client', conflictingFields, needsReview: true }
+    case 'merge':
+      return { write: merged, outcome: 'merged', conflictingFields, needsReview: conflictingFields.length > 0 }
+  }
+}
+
+// ─── Labels ──────────────────────────────────────────────────────────────────
+
+export const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  'server-wins': 'ใช้ข้อมูลบนเซิร์ฟเวอร์',
+  'client-wins': 'ใช้ข้อมูลจากเครื่องที่แก้ออฟไลน์',
+  merge: 'รวมทีละช่อง (ช่องที่แก้ทั้งสองฝั่งใช้ของเซิร์ฟเวอร์)',
+}
+
+export const TRANSACTION_FIELD_LABELS: Record<TransactionConflictField, string> = {
+  type: 'ประเภท',
+  amount: 'จำนวนเงิน',
+  category: 'หมวดหมู่',
+  description: 'รายละเอียด',
+  date: 'วันที่',
+  account_id: 'บัญชี',
+  transfer_id: 'การโอน',
+  transfer_direction: 'ทิศทางการโอน',
+  recurring_id: 'รายการประจำ',
+  splits: 'แบ่งหมวดหมู่',
+}
+
+export function isConflictPolicy(value: unknown): value is ConflictPolicy {
+  return value === 'server-wins' || value === 'client-wins' || value === 'merge'
+}
@@ -0,0 +1,83 @@
+/**
+ * Domain: Sync retry (ลองซิงก์ใหม่ทีละรายการ)
+ *
+ * Every queued change (transaction, forecast, receipt photo, profile) is
+ * retried on its own schedule:
+ *
+ * - A failure doubles the wait before the next attempt (exponential backoff,
+ *   capped), so one bad row does not hammer the server on every trigger.
+ * - After `quarantineAfter` failures the item is quarantined ("poison"): the
+ *   sync skips it until the user retries or discards it.
+ *
+ * Pure: no I/O, no browser APIs.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type RetryPolicy = {
+  /** Wait after the first failure. */
+  baseDelayMs: number
+  /** Upper bound for the wait between attempts. */
+  maxDelayMs: number
+  /** Failures after which the item is quarantined. */
+  quarantineAfter: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+  quarantineAfter: 5,
+}
+
+/** Retry bookkeeping of one item (absent until its first failure). */
+export type RetryState = {
+  attempts: number
+  next_attempt_at: string
+  quarantined: boolean
+}
+
+export type OutboxItemKind = 'transaction' | 'forecast' | 'receipt' | 'profile'
+
+// ─── Rules ───────────────────────────────────────────────────────────────────
+
+/** Wait before attempt `attempts + 1`, given `attempts` failures so far (≥ 1). */
+export function retryDelayMs(attempts: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+  const exponent = Math.max(0, attempts - 1)
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** exponent)
+}
+
+/** State after one more failed attempt at `now`. */
+export function recordFailure(
+  previous: Pick<RetryState, 'attempts'> | null | undefined,
+  now: Date,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): RetryState {
+  const attempts = (previous?.attempts ?? 0) + 1
+  return {
+    attempts,
+    next_attempt_at: new Date(now.getTime() + retryDelayMs(attempts, policy)).toISOString(),
+    quarantined: attempts >= policy.quarantineAfter,
+  }
+}
+
+/** True when the sync may try the item again at `now`. */
+export function isRetryDue(state: RetryState | null | undefined, now: Date): boolean {
+  if (!state) return true
+  if (state.quarantined) return false
+  return Date.parse(state.next_attempt_at) <= now.getTime()
+}
+
+// ─── Labels ──────────────────────────────────────────────────────────────────
+
+export const OUTBOX_KIND_LABELS: Record<OutboxItemKind, string> = {
+  transaction: 'รายการ',
+  forecast: 'แผนรายเดือน',
+  receipt: 'รูปใบเสร็จ',
+  profile: 'โปรไฟล์',
+}
+
+/** Banner text, e.g. "3 รายการซิงก์ไม่สำเร็จ". */
+export function describeSyncFailures(count: number, quarantined: number): string {
+  const base = `${count} รายการซิงก์ไม่สำเร็จ`
+  return quarantined > 0 ? `${base} (${quarantined} รายการหยุดลองอัตโนมัติแล้ว)` : base
+}
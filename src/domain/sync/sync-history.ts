@@ -0,0 +1,110 @@
+/**
+ * Domain: Sync history (ประวัติการซิงก์)
+ *
+ * Every sync run leaves a small record (when, why, what succeeded, what
+ * failed) so the user — or support — can see what the sync has been doing on
+ * this device. Only the latest `SYNC_HISTORY_LIMIT` runs are kept.
+ *
+ * Pure: no I/O, no browser APIs.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type SyncRunCategory = 'transactions' | 'profile' | 'forecasts' | 'receipts' | 'pull'
+
+export type SyncSkipReason = 'offline' | 'in-progress' | 'no-session' | 'locked'
+
+/** Stored form of one sync run (errors reduced to messages). */
+export type SyncRunRecord = {
+  trigger: string
+  startedAt: string
+  finishedAt: string
+  totalCount: number
+  successCount: number
+  failureCount: number
+  skipped: boolean
+  skipReason?: SyncSkipReason
+  errors?: Array<{ category: SyncRunCategory; message: string }>
+  items?: { synced: number; failed: number; deferred: number; quarantined: number }
+}
+
+export const SYNC_HISTORY_LIMIT = 20
+
+// ─── Rules ───────────────────────────────────────────────────────────────────
+
+/** History with `run` added, newest first, capped at `limit`. */
+export function appendSyncRun(
+  history: readonly SyncRunRecord[],
+  run: SyncRunRecord,
+  limit: number = SYNC_HISTORY_LIMIT,
+): SyncRunRecord[] {
+  return [run, ...history].slice(0, limit)
+}
+
+/** A run that ran every category without a failure. */
+export function isSuccessfulRun(run: SyncRunRecord): boolean {
+  return !run.skipped && run.totalCount > 0 && run.failureCount === 0
+}
+
+export function lastSuccessfulRun(history: readonly SyncRunRecord[]): SyncRunRecord | null {
+  return history.find(isSuccessfulRun) ?? null
+}
+
+/** Latest run that reported errors, with its first error (null = none kept). */
+export function lastRunError(
+  history: readonly SyncRunRecord[],
+): { at: string; category: SyncRunCategory; message: string } | null {
+  const run = history.find((r) => r.errors && r.errors.length > 0)
+  if (!run) return null
+  const [first] = run.errors!
+  return { at: run.finishedAt, category: first.category, message: first.message }
+}
+
+/** Guard for records read back from storage. */
+export function isSyncRunRecord(value: unknown): value is SyncRunRecord {
+  if (!value || typeof value !== 'object') return false
+  const r = value as Record<string, unknown>
+  return (
+    typeof r.trigger === 'string' &&
+    typeof r.startedAt === 'string' &&
+    typeof r.finishedAt === 'string' &&
+    typeof r.totalCount === 'number' &&
+    typeof r.successCount === 'number' &&
+    typeof r.failureCount === 'number' &&
+    typeof r.skipped === 'boolean'
+  )
+}
+
+// ─── Labels ──────────────────────────────────────────────────────────────────
+
+export const SYNC_TRIGGER_LABELS: Record<string, string> = {
+  manual: 'กดซิงก์เอง',
+  'online-event': 'กลับมาออนไลน์',
+  'offline-event': 'ออฟไลน์',
+  'visibility-change': 'เปิดแอปกลับมา',
+  'focus-event': 'กลับมาที่หน้าต่าง',
+  startup: 'เปิดแอป',
+  'retry-failed': 'ลองรายการที่ล้มเหลวใหม่',
+  'local-change': 'บันทึกหรือลบข้อมูล',
+  'background-sync': 'ซิงก์เบื้องหลังหลังกลับมาออนไลน์',
+  'periodic-sync': 'ซิงก์เบื้องหลังตามรอบ',
+}
+
+export const SYNC_SKIP_REASON_LABELS: Record<SyncSkipReason, string> = {
+  offline: 'ออฟไลน์อยู่',
+  'in-progress': 'กำลังซิงก์อยู่แล้ว',
+  'no-session': 'ยังไม่ได้เข้าสู่ระบบ',
+  locked: 'ข้อมูลบนเครื่องล็อกอยู่',
+}
+
+export const SYNC_CATEGORY_LABELS: Record<SyncRunCategory, string> = {
+  transactions: 'รายการ',
+  profile: 'โปรไฟล์',
+  forecasts: 'แผนรายเดือน',
+  receipts: 'รูปใบเสร็จ',
+  pull: 'ดึงข้อมูลจากอุปกรณ์อื่น',
+}
+
+export function syncTriggerLabel(trigger: string): string {
+  return SYNC_TRIGGER_LABELS[trigger] ?? trigger
+}
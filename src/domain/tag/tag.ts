@@ -0,0 +1,137 @@
+/**
+ * Domain: Tags (แท็ก)
+ *
+ * Categories drive budgets; tags are free-form, cross-cutting labels
+ * ("trip-chiangmai", "wedding", "reimbursable"). A transaction can carry any
+ * number of tags and a tag can span any categories.
+ *
+ * Storage model (see migration 013):
+ * - `tags` holds one row per user + name (names are stored normalized).
+ * - `transaction_tags` links transactions and tags (many-to-many).
+ *
+ * The tag report reuses the finance aggregation helpers, so split lines and
+ * legacy category names are handled the same way as everywhere else.
+ *
+ * Pure: no I/O, no browser APIs.
+ */
+
+import { getTopExpenseCategories, type CategorySummary, type TransactionLike } from '../finance/finance'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type Tag = {
+  id: string
+  name: string
+}
+
+/** A transaction with the ids of its tags attached (see `attachTagIds`). */
+export type TaggedTransaction = TransactionLike & {
+  tag_ids?: readonly string[] | null
+}
+
+export type TagValidationError = 'EMPTY' | 'TOO_LONG' | 'DUPLICATE'
+
+export type TagSpending = {
+  tag: Tag
+  /** Income + expense rows carrying the tag (transfers are never counted). */
+  count: number
+  totalExpense: number
+  totalIncome: number
+  /** Expense per category within the tag, largest first. */
+  byCategory: CategorySummary[]
+}
+
+/** Matches the DB check on `tags.name`. */
+export const MAX_TAG_NAME_LENGTH = 40
+
+// ─── Names ───────────────────────────────────────────────────────────────────
+
+/**
+ * Canonical tag name: trimmed, lower-case, leading '#' dropped and inner
+ * whitespace collapsed to '-', so "Trip Chiangmai" and "#trip-chiangmai" are one tag.
+ */
+export function normalizeTagName(name: string): string {
+  return (name ?? '')
+    .trim()
+    .replace(/^#+/, '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+}
+
+/** Split free text ("wedding, #trip chiangmai") into normalized, unique tag names. */
+export function parseTagInput(input: string): string[] {
+  const out: string[] = []
+  for (const part of (input ?? '').split(/[,#\n]/)) {
+    const name = normalizeTagName(part)
+    if (name && !out.includes(name)) out.push(name)
+  }
+  return out
+}
+
+export function validateTagName(name: string, existing: readonly Tag[], ignoreId?: string): TagValidationError | null {
+  const normalized = normalizeTagName(name)
+  if (!normalized) return 'EMPTY'
+  if (normalized.length > MAX_TAG_NAME_LENGTH) return 'TOO_LONG'
+  if (existing.some((t) => t.id !== ignoreId && t.name === normalized)) return 'DUPLICATE'
+  return null
+}
+
+/** Thai message for a validation error (shown in alerts / form hints). */
+export function describeTagError(error: TagValidationError): string {
+  switch (error) {
+    case 'EMPTY':
+      return 'กรุณาใส่ชื่อแท็ก'
+    case 'TOO_LONG':
+      return `ชื่อแท็กยาวได้ไม่เกิน ${MAX_TAG_NAME_LENGTH} ตัวอักษร`
+    case 'DUPLICATE':
+      return 'มีแท็กชื่อนี้อยู่แล้ว'
+  }
+}
+
+// ─── Links ───────────────────────────────────────────────────────────────────
+
+/** Attach `tag_ids` from `transaction_tags` links to transactions that have an `id`. */
+export function attachTagIds<T extends { id: string }>(
+  transactions: readonly T[],
+  links: readonly { transaction_id: string; tag_id: string }[],
+): (T & { tag_ids: string[] })[] {
+  const byTransaction = new Map<string, string[]>()
+  for (const link of links) {
+    const list = byTransaction.get(link.transaction_id) ?? []
+    if (!list.includes(link.tag_id)) list.push(link.tag_id)
+    byTransaction.set(link.transaction_id, list)
+  }
+  return transactions.map((t) => ({ ...t, tag_ids: byTransaction.get(t.id) ?? [] }))
+}
+
+// ─── Report ──────────────────────────────────────────────────────────────────
+
+/**
+ * Spending per tag, largest expense first. `range` bounds are `YYYY-MM-DD`
+ * (inclusive); null = all time. Tags with no rows in range are left out.
+ */
+export function computeTagSpending(
+  transactions: readonly TaggedTransaction[],
+  tags: readonly Tag[],
+  range: { start: string; end: string } | null,
+): TagSpending[] {
+  const inRange = transactions.filter(
+    (t) => t.type !== 'transfer' && (!range || (t.date >= range.start && t.date <= range.end)),
+  )
+
+  return tags
+    .map((tag) => {
+      const tagged = inRange.filter((t) => t.tag_ids?.includes(tag.id))
+      const byCategory = getTopExpenseCategories(tagged, Number.MAX_SAFE_INTEGER)
+      return {
+        tag,
+        count: tagged.length,
+        totalExpense: byCategory.reduce((sum, c) => sum + c.total, 0),
+        totalIncome: tagged.filter((t) => t.type === 'income').reduce((sum, t) => sum + Number(t.amount), 0),
+        byCategory,
+      }
+    })
+    .filter((s) => s.count > 0)
+    .sort((a, b) => b.totalExpense - a.totalExpense || a.tag.name.localeCompare(b.tag.name))
+}
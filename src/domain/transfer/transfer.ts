@@ -0,0 +1,146 @@
+/**
+ * Domain: Transfers (โอนเงินระหว่างบัญชีตัวเอง)
+ *
+ * A transfer moves money between two of the user's own accounts. It is
+ * neither income nor expense: totals, category breakdowns and forecasts must
+ * ignore it, while per-account balances must still move.
+ *
+ * Storage model (see migration 009):
+ * - One transfer = two `transactions` rows with `type = 'transfer'` sharing a
+ *   `transfer_id`.
+ * - The `out` leg sits on the source account, the `in` leg on the destination.
+ * - `amount` is positive on both legs; the direction carries the sign.
+ *
+ * Pure: no I/O, no browser APIs. The caller supplies `transferId`
+ * (e.g. `crypto.randomUUID()`) so this module stays deterministic.
+ */
+
+export type TransferDirection = 'out' | 'in'
+
+/** Minimal leg shape this module reads. */
+export type TransferLegLike = {
+  type: string
+  amount: number
+  transfer_id?: string | null
+  transfer_direction?: TransferDirection | null
+  account_id?: string | null
+}
+
+/** Fields for one leg, ready to be inserted (caller adds user_id). No category. */
+export type TransferLegInput = {
+  type: 'transfer'
+  amount: number
+  date: string
+  description?: string
+  account_id: string
+  transfer_id: string
+  transfer_direction: TransferDirection
+}
+
+export type TransferRequest = {
+  transferId: string
+  fromAccountId: string
+  toAccountId: string
+  amount: number
+  /** `YYYY-MM-DD` */
+  date: string
+  description?: string
+}
+
+export type TransferValidationError =
+  | 'SAME_ACCOUNT'
+  | 'MISSING_ACCOUNT'
+  | 'INVALID_AMOUNT'
+  | 'INVALID_DATE'
+
+/** Display label for transfer rows (they have no category). */
+export const TRANSFER_LABEL = 'โอนระหว่างบัญชี'
+
+// ─── Predicates ──────────────────────────────────────────────────────────────
+
+export function isTransfer(t: Pick<TransferLegLike, 'type'>): boolean {
+  return t.type === 'transfer'
+}
+
+/**
+ * Signed effect of a leg on its account balance:
+ * `out` → −amount, `in` → +amount, anything else → 0.
+ */
+export function getTransferSignedAmount(t: TransferLegLike): number {
+  if (!isTransfer(t)) return 0
+  const amount = Number(t.amount)
+  if (t.transfer_direction === 'out') return -amount
+  if (t.transfer_direction === 'in') return amount
+  return 0
+}
+
+/**
+ * Net transfer flow across the given legs.
+ * 0 when both legs are present (money stayed inside the user's accounts);
+ * non-zero when only some accounts are in view.
+ */
+export function computeNetTransferFlow(transactions: readonly TransferLegLike[]): number {
+  return transactions.reduce((sum, t) => sum + getTransferSignedAmount(t), 0)
+}
+
+// ─── Construction ────────────────────────────────────────────────────────────
+
+export function validateTransfer(req: TransferRequest): TransferValidationError | null {
+  if (!req.fromAccountId || !req.toAccountId) return 'MISSING_ACCOUNT'
+  if (req.fromAccountId === req.toAccountId) return 'SAME_ACCOUNT'
+  if (!Number.isFinite(req.amount) || req.amount <= 0) return 'INVALID_AMOUNT'
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(req.date)) return 'INVALID_DATE'
+  return null
+}
+
+/** Thai message for a validation error (shown in alerts / form hints). */
+export function describeTransferError(error: TransferValidationError): string {
+  switch (error) {
+    case 'SAME_ACCOUNT':
+      return 'บัญชีต้นทางและปลายทางต้องไม่ใช่บัญชีเดียวกัน'
+    case 'MISSING_ACCOUNT':
+      return 'กรุณาเลือกบัญชีต้นทางและปลายทาง'
+    case 'INVALID_AMOUNT':
+      return 'กรุณากรอกจำนวนเงินที่มากกว่า 0'
+    case 'INVALID_DATE':
+      return 'กรุณาเลือกวันที่'
+  }
+}
+
+/**
+ * Build the two legs of a transfer. Throws on invalid input — call
+ * `validateTransfer` first when you want to show a friendly message.
+ */
+export function buildTransferLegs(req: TransferRequest): [TransferLegInput, TransferLegInput] {
+  const error = validateTransfer(req)
+  if (error) throw new Error(`Invalid transfer: ${error}`)
+
+  const base = {
+    type: 'transfer' as const,
+    amount: Number(req.amount),
+    date: req.date,
+    description: req.description?.trim() || undefined,
+    transfer_id: req.transferId,
+  }
+  return [
+    { ...base, account_id: req.fromAccountId, transfer_direction: 'out' },
+    { ...base, account_id: req.toAccountId, transfer_direction: 'in' },
+  ]
+}
+
+/**
+ * Find the other leg of `leg` in `transactions` (same transfer_id, opposite direction).
+ * Returns undefined when the counterpart is not loaded (e.g. outside the date window).
+ */
+export function findCounterpartLeg<T extends TransferLegLike>(
+  leg: TransferLegLike,
+  transactions: readonly T[],
+): T | undefined {
+  if (!isTransfer(leg) || !leg.transfer_id) return undefined
+  return transactions.find(
+    (t) =>
+      isTransfer(t) &&
+      t.transfer_id === leg.transfer_id &&
+      t.transfer_direction !== leg.transfer_direction,
+  )
+}
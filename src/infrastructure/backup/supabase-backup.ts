@@ -0,0 +1,104 @@
+/**
+ * Infrastructure: Backup (composition root)
+ *
+ * Wires the application-layer export / restore use-cases to Supabase:
+ * - `SupabaseBackupAdapter` implements `BackupDataPort` with plain table reads
+ *   and inserts (RLS keeps every query scoped to the signed-in user).
+ * - `exportUserBackup` flushes the offline queue first so rows saved offline
+ *   are part of the archive.
+ *
+ * Browser-only: call from client components.
+ */
+
+import {
+  exportUserData,
+  restoreUserData,
+  type RestoreResult,
+} from "@/src/application/backup/backup-service";
+import type { BackupDataPort } from "@/src/application/backup/ports/backup-ports";
+import type { BackupArchive, BackupRow, BackupTable } from "@/src/domain/backup/backup";
+import { offlineDB } from "@/src/infrastructure/offline/offline-db";
+import { supabase } from "@/src/infrastructure/supabase/supabase";
+import { syncService } from "@/src/infrastructure/sync/sync-service";
+
+type SupabaseErrorLike = { code?: string; message?: string } | null;
+
+/** 42P01 = undefined_table: the table's migration has not been applied yet. */
+function isMissingTable(error: SupabaseErrorLike): boolean {
+  return error?.code === "42P01" || /relation .* does not exist/i.test(error?.message ?? "");
+}
+
+export class SupabaseBackupAdapter implements BackupDataPort {
+  async loadProfile(userId: string): Promise<BackupRow | null> {
+    const { data, error } = await supabase.from("profiles").select("*").eq("id", userId).maybeSingle();
+    if (error) throw new Error(`loadProfile failed: ${error.message}`);
+    return (data as BackupRow | null) ?? null;
+  }
+
+  /**
+   * Filtering on user_id also leaves out the global `expense_categories`
+   * defaults (user_id IS NULL) — only the user's own overrides are backed up.
+   */
+  async loadTable(userId: string, table: BackupTable): Promise<BackupRow[]> {
+    const { data, error } = await supabase.from(table).select("*").eq("user_id", userId);
+    if (error) {
+      if (isMissingTable(error)) return [];
+      throw new Error(`loadTable(${table}) failed: ${error.message}`);
+    }
+    return (data ?? []) as BackupRow[];
+  }
+
+  async countRows(userId: string, table: BackupTable): Promise<number> {
+    const { count, error } = await supabase
+      .from(table)
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId);
+    if (error) {
+      if (isMissingTable(error)) return 0;
+      throw new Error(`countRows(${table}) failed: ${error.message}`);
+    }
+    return count ?? 0;
+  }
+
+  async insertRows(table: BackupTable, rows: BackupRow[]): Promise<void> {
+    if (rows.length === 0) return;
+    const { error } = await supabase.from(table).insert(rows);
+    if (error) throw new Error(`insertRows(${table}) failed: ${error.message}`);
+  }
+
+  async saveProfile(profile: BackupRow): Promise<void> {
+    const { error } = await supabase.from("profiles").upsert(profile);
+    if (error) throw new Error(`saveProfile failed: ${error.message}`);
+  }
+}
+
+/**
+ * Build a backup for the signed-in user.
+ * `unsynced` > 0 means some offline rows could not be pushed and are missing
+ * from the archive (the UI should warn).
+ */
+export async function exportUserBackup(userId: string): Promise<{ archive: BackupArchive; unsynced: number }> {
+  try {
+    await syncService.syncAll("backup-export");
+  } catch (err) {
+    console.error("[Backup] Pre-export sync failed:", err);
+  }
+
+  const archive = await exportUserData({ userId, now: new Date() }, new SupabaseBackupAdapter());
+
+  let unsynced = 0;
+  try {
+    unsynced = (await offlineDB.getUnsyncedTransactions()).filter((t) => !t.user_id || t.user_id === userId).length;
+  } catch {
+    // IndexedDB unavailable (private mode) → nothing queued offline.
+  }
+  return { archive, unsynced };
+}
+
+/** Restore `archive` into the signed-in user's (empty) account. */
+export async function restoreUserBackup(userId: string, archive: BackupArchive): Promise<RestoreResult> {
+  return restoreUserData(
+    { userId, archive, newId: () => crypto.randomUUID() },
+    new SupabaseBackupAdapter(),
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * Infrastructure: Budget alerts (composition root)
+ *
+ * Wires the application-layer `checkBudgetAlerts` use-case:
+ * - Budgets, profile and transactions are read through `dataRepository`, so
+ *   rows saved offline (still queued in `offlineDB`) count too.
+ * - Rollover rules come from Supabase; without a connection every category
+ *   is judged against its plain budget.
+ * - Thresholds and the alert log live in localStorage (`local-settings.ts`).
+ * - Fired alerts go out as an in-app toast (`BUDGET_ALERT_EVENT_NAME` on
+ *   `window`, shown by `components/BudgetAlertToasts.tsx`) and, once the user
+ *   allowed notifications, as a system notification from the service worker.
+ *
+ * Browser-only: call from client components.
+ */
+
+import { checkBudgetAlerts } from "@/src/application/budget/budget-alert-service";
+import type {
+  BudgetAlertNotifierPort,
+  BudgetAlertSourcePort,
+} from "@/src/application/budget/ports/budget-alert-ports";
+import {
+  describeBudgetAlert,
+  type BudgetAlert,
+  type BudgetAlertRecord,
+  type BudgetAlertThresholds,
+} from "@/src/domain/budget/budget-alert";
+import type { BudgetHistory } from "@/src/domain/budget/budget-history";
+import type { RolloverRules } from "@/src/domain/budget/envelope";
+import type { TransactionLike } from "@/src/domain/finance/finance";
+import { dataRepository } from "@/src/infrastructure/data/data-repository";
+import { fetchCategoryRolloverRules } from "@/src/infrastructure/supabase/supabase";
+import {
+  getBudgetAlertLog,
+  getBudgetAlertThresholds,
+  recordBudgetAlerts,
+} from "@/src/infrastructure/storage/local-settings";
+
+export type BudgetAlertEventDetail = { alerts: BudgetAlert[] };
+
+export const BUDGET_ALERT_EVENT_NAME = "budget-alerts";
+
+/** Notification tag per category and cycle: a newer alert replaces the older one. */
+const notificationTag = (alert: BudgetAlert) => `budget-alert:${alert.cycleStart}:${alert.category}`;
+
+export class DataRepositoryBudgetAlertSource implements BudgetAlertSourcePort {
+  async loadSalaryDay(userId: string): Promise<number> {
+    const profile = await dataRepository.profile(userId);
+    return profile?.month_end_day ?? 0;
+  }
+
+  async loadBudgetHistory(userId: string): Promise<BudgetHistory> {
+    return (await dataRepository.categoryBudgets(userId)) ?? {};
+  }
+
+  async loadRolloverRules(userId: string): Promise<RolloverRules> {
+    try {
+      return await fetchCategoryRolloverRules(userId);
+    } catch {
+      return {};
+    }
+  }
+
+  async loadTransactions(userId: string, from: string, to: string): Promise<TransactionLike[]> {
+    const rows = await dataRepository.transactions(userId, { from, to });
+    return rows.map((t) => ({
+      type: t.type,
+      amount: Number(t.amount),
+      category: t.category ?? undefined,
+      date: t.date,
+      splits: t.splits ?? null,
+    }));
+  }
+
+  loadThresholds(): BudgetAlertThresholds {
+    return getBudgetAlertThresholds();
+  }
+
+  loadLog(): BudgetAlertRecord[] {
+    return getBudgetAlertLog();
+  }
+
+  recordAlerts(records: BudgetAlertRecord[]): void {
+    recordBudgetAlerts(records);
+  }
+}
+
+export class BrowserBudgetAlertNotifier implements BudgetAlertNotifierPort {
+  async notify(alerts: BudgetAlert[]): Promise<void> {
+    if (typeof window === "undefined") return;
+    window.dispatchEvent(new CustomEvent<BudgetAlertEventDetail>(BUDGET_ALERT_EVENT_NAME, { detail: { alerts } }));
+
+    if (!canShowSystemNotifications()) return;
+    const registration = await navigator.serviceWorker.getRegistration();
+    for (const alert of alerts) {
+      const { title, body } = describeBudgetAlert(alert);
+      const options = { body, tag: notificationTag(alert), icon: "/icon-192x192.png", data: { url: "/transactions" } };
+      // Through the service worker (clicks reopen the app); a page-level
+      // notification when no worker is registered (e.g. in development).
+      if (registration) await registration.showNotification(title, options);
+      else new Notification(title, options);
+    }
+  }
+}
+
+export const dataRepositoryBudgetAlertSource = new DataRepositoryBudgetAlertSource();
+export const browserBudgetAlertNotifier = new BrowserBudgetAlertNotifier();
+
+/** Notification API present and the user allowed notifications. */
+export function canShowSystemNotifications(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "Notification" in window &&
+    "serviceWorker" in navigator &&
+    Notification.permission === "granted"
+  );
+}
+
+/**
+ * Check the budget alerts after a transaction was saved (online or offline).
+ * Never throws: a failed check must not fail the save.
+ */
+export async function runBudgetAlertCheck(userId: string): Promise<BudgetAlert[]> {
+  try {
+    return await checkBudgetAlerts(
+      { userId, now: new Date() },
+      dataRepositoryBudgetAlertSource,
+      browserBudgetAlertNotifier,
+    );
+  } catch (e) {
+    console.error("[BudgetAlerts] Check failed:", e);
+    return [];
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Infrastructure: Data repository (composition root)
+ *
+ * Wires the application-layer `OfflineFirstRepository` with IndexedDB (this
+ * device's copy) and Supabase (the server). Pages read through
+ * `dataRepository`; writes still go through Supabase / `syncService`.
+ *
+ * SSR safety:
+ * - Safe to import anywhere; reads only touch IndexedDB / the network when called.
+ */
+
+import { OfflineFirstRepository } from "@/src/application/data/offline-first-repository";
+import { browserNetworkStatusAdapter } from "@/src/infrastructure/sync/browser-network-status";
+import { indexedDbLocalDataAdapter, type AppDataModels } from "@/src/infrastructure/data/indexeddb-local-data";
+import { supabaseRemoteDataAdapter } from "@/src/infrastructure/data/supabase-remote-data";
+
+export type { AppDataModels } from "@/src/infrastructure/data/indexeddb-local-data";
+export type { DataSource } from "@/src/application/data/offline-first-repository";
+
+export const dataRepository = new OfflineFirstRepository<AppDataModels>({
+  local: indexedDbLocalDataAdapter,
+  remote: supabaseRemoteDataAdapter,
+  network: browserNetworkStatusAdapter,
+  logger: console,
+});
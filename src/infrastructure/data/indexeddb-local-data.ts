@@ -0,0 +1,130 @@
+/**
+ * Infrastructure: IndexedDbLocalDataAdapter
+ *
+ * Implements the application-layer `LocalDataPort` on top of `offlineDB`:
+ * - transactions / profile / budgets come from the pull-sync mirror, with the
+ *   changes still queued on this device applied to transactions;
+ * - expense categories (not mirrored) come from the generic cache.
+ *
+ * Every read resolves to "nothing" when IndexedDB is unavailable (SSR, private
+ * mode…); the repository then waits for the server.
+ */
+
+import type { DateRange, LocalDataPort, SearchPage, SearchResult } from "@/src/application/data/ports/data-ports";
+import {
+  matchesTransactionSearch,
+  type TransactionSearchQuery,
+} from "@/src/domain/search/transaction-search";
+import type { BudgetHistory } from "@/src/domain/budget/budget-history";
+import { offlineDB, type OfflineTransaction } from "@/src/infrastructure/offline/offline-db";
+import {
+  toBudgetHistory,
+  type ExpenseCategoryRow,
+  type ProfileRow,
+  type TransactionRow,
+} from "@/src/infrastructure/supabase/supabase";
+
+export type AppDataModels = {
+  transaction: TransactionRow;
+  profile: ProfileRow;
+  categoryBudgets: BudgetHistory;
+  expenseCategory: ExpenseCategoryRow;
+};
+
+/** Categories have no mirror table; the last server answer is kept without expiry. */
+const expenseCategoriesKey = (userId: string) => `expense_categories:${userId}`;
+
+/** Pending creates have no server id yet; their `local_id` stands in for it. */
+function toTransactionRow(userId: string, t: OfflineTransaction): TransactionRow {
+  return {
+    ...t,
+    id: t.id ?? t.local_id!,
+    user_id: t.user_id ?? userId,
+    created_at: t.created_at ?? "",
+  } as TransactionRow;
+}
+
+function inRange(date: string, range?: DateRange): boolean {
+  return !range || (date >= range.from && date <= range.to);
+}
+
+export class IndexedDbLocalDataAdapter implements LocalDataPort<AppDataModels> {
+  async getTransactions(userId: string, range?: DateRange): Promise<TransactionRow[]> {
+    try {
+      const rows = await offlineDB.getLocalTransactions(userId);
+      return rows.filter((t) => inRange(t.date, range)).map((t) => toTransactionRow(userId, t));
+    } catch (e) {
+      console.warn("[LocalData] Offline store unavailable (transactions):", e);
+      return [];
+    }
+  }
+
+  /** Same query and paging as the server search. Tags are not mirrored, so a tag filter matches nothing. */
+  async searchTransactions(
+    userId: string,
+    query: TransactionSearchQuery,
+    knownCategories: readonly string[],
+    page: SearchPage
+  ): Promise<SearchResult<TransactionRow>> {
+    const matches = (await this.getTransactions(userId))
+      .filter((t) => matchesTransactionSearch(t, query, knownCategories))
+      .sort((a, b) => b.date.localeCompare(a.date) || b.created_at.localeCompare(a.created_at));
+    return { rows: matches.slice(page.offset, page.offset + page.limit), total: matches.length };
+  }
+
+  async withPendingTransactions(
+    userId: string,
+    rows: TransactionRow[],
+    range?: DateRange
+  ): Promise<TransactionRow[]> {
+    try {
+      const merged = await offlineDB.applyPendingTransactions(userId, rows as OfflineTransaction[]);
+      return merged.filter((t) => inRange(t.date, range)).map((t) => toTransactionRow(userId, t));
+    } catch (e) {
+      console.warn("[LocalData] Offline store unavailable (pending changes):", e);
+      return rows;
+    }
+  }
+
+  async getProfile(userId: string): Promise<ProfileRow | null> {
+    try {
+      const [profile] = await offlineDB.getMirroredRows<ProfileRow>("profiles", userId);
+      return profile ?? null;
+    } catch (e) {
+      console.warn("[LocalData] Offline store unavailable (profile):", e);
+      return null;
+    }
+  }
+
+  /** Null until the first pull (an empty mirror does not mean "no budgets"). */
+  async getCategoryBudgets(userId: string): Promise<BudgetHistory | null> {
+    try {
+      const rows = await offlineDB.getMirroredRows<{ category?: unknown; budget?: unknown; cycle_start?: unknown }>(
+        "category_budgets",
+        userId
+      );
+      if (rows.length === 0) return null;
+      return toBudgetHistory(rows);
+    } catch (e) {
+      console.warn("[LocalData] Offline store unavailable (category budgets):", e);
+      return null;
+    }
+  }
+
+  async getExpenseCategories(userId: string): Promise<ExpenseCategoryRow[] | null> {
+    try {
+      const rows = await offlineDB.getCachedData(expenseCategoriesKey(userId), Number.POSITIVE_INFINITY);
+      return Array.isArray(rows) ? (rows as ExpenseCategoryRow[]) : null;
+    } catch (e) {
+      console.warn("[LocalData] Offline store unavailable (expense categories):", e);
+      return null;
+    }
+  }
+
+  async saveExpenseCategories(userId: string, rows: ExpenseCategoryRow[]): Promise<void> {
+    await offlineDB.cacheData(expenseCategoriesKey(userId), rows);
+  }
+}
+
+/** Convenience singleton instance. Prefer injecting at a composition root. */
+export const indexedDbLocalDataAdapter = new IndexedDbLocalDataAdapter();
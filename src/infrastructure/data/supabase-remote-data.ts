@@ -0,0 +1,61 @@
+/**
+ * Infrastructure: SupabaseRemoteDataAdapter
+ *
+ * Implements the application-layer `RemoteDataPort` using Supabase.
+ * Every read throws on failure, so the repository keeps this device's copy
+ * instead of replacing it with an empty result.
+ */
+
+import type { DateRange, RemoteDataPort, SearchPage, SearchResult } from "@/src/application/data/ports/data-ports";
+import type { TransactionSearchQuery } from "@/src/domain/search/transaction-search";
+import type { BudgetHistory } from "@/src/domain/budget/budget-history";
+import {
+  fetchExpenseCategories,
+  searchTransactions,
+  supabase,
+  toBudgetHistory,
+  type ExpenseCategoryRow,
+  type ProfileRow,
+  type TransactionRow,
+} from "@/src/infrastructure/supabase/supabase";
+import type { AppDataModels } from "@/src/infrastructure/data/indexeddb-local-data";
+
+export class SupabaseRemoteDataAdapter implements RemoteDataPort<AppDataModels> {
+  async fetchTransactions(userId: string, range?: DateRange): Promise<TransactionRow[]> {
+    let request = supabase.from("transactions").select("*").eq("user_id", userId);
+    if (range) request = request.gte("date", range.from).lte("date", range.to);
+
+    const { data, error } = await request.order("date", { ascending: false });
+    if (error) throw error;
+    return (data || []) as TransactionRow[];
+  }
+
+  searchTransactions(
+    userId: string,
+    query: TransactionSearchQuery,
+    knownCategories: readonly string[],
+    page: SearchPage
+  ): Promise<SearchResult<TransactionRow>> {
+    return searchTransactions(userId, query, knownCategories, page);
+  }
+
+  async fetchProfile(userId: string): Promise<ProfileRow | null> {
+    const { data, error } = await supabase.from("profiles").select("*").eq("id", userId).maybeSingle();
+    if (error) throw error;
+    return (data as ProfileRow | null) ?? null;
+  }
+
+  async fetchCategoryBudgets(userId: string): Promise<BudgetHistory> {
+    // `*`: rows from before migration 016 have no `cycle_start` column.
+    const { data, error } = await supabase.from("category_budgets").select("*").eq("user_id", userId);
+    if (error) throw error;
+    return toBudgetHistory(data || []);
+  }
+
+  fetchExpenseCategories(userId: string): Promise<ExpenseCategoryRow[] | null> {
+    return fetchExpenseCategories(userId);
+  }
+}
+
+/** Convenience singleton instance. Prefer injecting at a composition root. */
+export const supabaseRemoteDataAdapter = new SupabaseRemoteDataAdapter();
@@ -0,0 +1,153 @@
+/**
+ * Infrastructure: Encryption of offline records at rest (WebCrypto)
+ *
+ * Purpose:
+ * - Derive an AES-GCM key from the user's passphrase (PBKDF2-SHA-256) and
+ *   seal IndexedDB records with it, so the financial data of `OfflineDB` is
+ *   unreadable on a shared device without the passphrase.
+ *
+ * Sealed record:
+ * - The fields IndexedDB needs without the key (key path, indexes, sync
+ *   flags) stay readable; everything else is encrypted into `sealed`
+ *   (`Blob` fields, e.g. receipt photos, into `sealed_blobs`).
+ *   Flag updates (e.g. `synced`) therefore still work inside one IndexedDB
+ *   transaction, where WebCrypto cannot be awaited.
+ *
+ * The key is non-extractable and only lives in memory (never stored).
+ */
+
+/** Iterations for PBKDF2-SHA-256 (OWASP 2023 recommendation). */
+export const PBKDF2_ITERATIONS = 600_000
+
+const SALT_BYTES = 16
+const IV_BYTES = 12
+/** Known plaintext sealed with the key, to tell a wrong passphrase from a right one. */
+const KEY_CHECK_TEXT = 'moneyplan-offline-key-check'
+
+type Bytes = Uint8Array<ArrayBuffer>
+
+export type EncryptedPayload = {
+  iv: Bytes
+  data: ArrayBuffer
+}
+
+/** Stored (in the clear) while encryption is on. */
+export type OfflineEncryptionConfig = {
+  salt: Bytes
+  iterations: number
+  check: EncryptedPayload
+}
+
+/** An encrypted `Blob` field (bytes are not JSON, so each one is sealed on its own). */
+export type SealedBlob = EncryptedPayload & { type: string }
+
+export type SealedRecord = Record<string, unknown> & {
+  sealed: EncryptedPayload
+  sealed_blobs?: Record<string, SealedBlob>
+}
+
+function subtle(): SubtleCrypto {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('WebCrypto is not available (needs a secure context)')
+  }
+  return crypto.subtle
+}
+
+export function isWebCryptoAvailable(): boolean {
+  return typeof crypto !== 'undefined' && !!crypto.subtle
+}
+
+export async function deriveKey(passphrase: string, salt: Bytes, iterations: number): Promise<CryptoKey> {
+  const material = await subtle().importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ])
+  return subtle().deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export async function encryptJson(key: CryptoKey, value: unknown): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const data = await subtle().encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)))
+  return { iv, data }
+}
+
+export async function encryptBytes(key: CryptoKey, bytes: ArrayBuffer): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  return { iv, data: await subtle().encrypt({ name: 'AES-GCM', iv }, key, bytes) }
+}
+
+/** Throws when the key is wrong or the payload was tampered with. */
+export function decryptBytes(key: CryptoKey, payload: EncryptedPayload): Promise<ArrayBuffer> {
+  return subtle().decrypt({ name: 'AES-GCM', iv: payload.iv }, key, payload.data)
+}
+
+/** Throws when the key is wrong or the payload was tampered with. */
+export async function decryptJson<T = unknown>(key: CryptoKey, payload: EncryptedPayload): Promise<T> {
+  const plain = await subtle().decrypt({ name: 'AES-GCM', iv: payload.iv }, key, payload.data)
+  return JSON.parse(new TextDecoder().decode(plain)) as T
+}
+
+/** New config (fresh salt) and its key for `passphrase`. */
+export async function createEncryptionConfig(
+  passphrase: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<{ config: OfflineEncryptionConfig; key: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  const key = await deriveKey(passphrase, salt, iterations)
+  return { config: { salt, iterations, check: await encryptJson(key, KEY_CHECK_TEXT) }, key }
+}
+
+/** The key for `passphrase`, or null when the passphrase is wrong. */
+export async function unlockKey(passphrase: string, config: OfflineEncryptionConfig): Promise<CryptoKey | null> {
+  const key = await deriveKey(passphrase, config.salt, config.iterations)
+  try {
+    return (await decryptJson(key, config.check)) === KEY_CHECK_TEXT ? key : null
+  } catch {
+    return null
+  }
+}
+
+export function isSealedRecord(record: unknown): record is SealedRecord {
+  return !!record && typeof record === 'object' && 'sealed' in record
+}
+
+/** Encrypt every field of `record` except `plainFields` (`Blob` fields, e.g. receipt images, included). */
+export async function sealRecord(
+  key: CryptoKey,
+  record: Record<string, unknown>,
+  plainFields: readonly string[]
+): Promise<SealedRecord> {
+  const plain: Record<string, unknown> = {}
+  const secret: Record<string, unknown> = {}
+  const blobs: Record<string, SealedBlob> = {}
+  for (const [field, value] of Object.entries(record)) {
+    if (plainFields.includes(field)) {
+      plain[field] = value
+    } else if (value instanceof Blob) {
+      blobs[field] = { type: value.type, ...(await encryptBytes(key, await value.arrayBuffer())) }
+    } else {
+      secret[field] = value
+    }
+  }
+  const sealed: SealedRecord = { ...plain, sealed: await encryptJson(key, secret) }
+  if (Object.keys(blobs).length > 0) sealed.sealed_blobs = blobs
+  return sealed
+}
+
+/**
+ * The record as written. Readable fields win over sealed ones: they may have
+ * been updated in place (e.g. `synced`) after sealing.
+ */
+export async function openRecord<T>(key: CryptoKey, record: SealedRecord): Promise<T> {
+  const { sealed, sealed_blobs, ...plain } = record
+  const secret = await decryptJson<Record<string, unknown>>(key, sealed)
+  for (const [field, blob] of Object.entries(sealed_blobs ?? {})) {
+    secret[field] = new Blob([await decryptBytes(key, blob)], { type: blob.type })
+  }
+  return { ...secret, ...plain } as T
+}
@@ -0,0 +1,207 @@
+/**
+ * Infrastructure: IndexedDB schema migrations for `OfflineDB`
+ *
+ * Purpose:
+ * - Describe the offline schema as an ordered list of versioned steps (add a
+ *   store, add an index, transform records) instead of one inline
+ *   `onupgradeneeded` block.
+ * - On upgrade, run every step newer than the user's current version, in
+ *   order, inside the upgrade transaction: queued offline changes are kept
+ *   across app updates, and a failing step aborts the whole upgrade (the
+ *   database stays at its old version, data untouched).
+ *
+ * Adding a migration:
+ * - Append `{ version: <last + 1>, description, migrate }` to
+ *   `OFFLINE_DB_MIGRATIONS`; the database version follows the list.
+ * - Never edit or reorder a released step: users may already have run it.
+ * - Steps only get the upgrade transaction: no `await` on anything else
+ *   (the transaction would commit early).
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type OfflineDbMigration = {
+  version: number
+  description: string
+  migrate: (db: IDBDatabase, tx: IDBTransaction) => void
+}
+
+// ─── Step helpers ────────────────────────────────────────────────────────────
+
+/**
+ * Create `name` (or return it if it already exists: databases created before
+ * the migration list made every store on any upgrade).
+ */
+export function ensureStore(
+  db: IDBDatabase,
+  tx: IDBTransaction,
+  name: string,
+  options?: IDBObjectStoreParameters
+): IDBObjectStore {
+  if (db.objectStoreNames.contains(name)) return tx.objectStore(name)
+  return db.createObjectStore(name, options)
+}
+
+export function ensureIndex(
+  store: IDBObjectStore,
+  name: string,
+  keyPath: string | string[],
+  options?: IDBIndexParameters
+): IDBIndex {
+  if (store.indexNames.contains(name)) return store.index(name)
+  return store.createIndex(name, keyPath, options)
+}
+
+/**
+ * Rewrite every record of `storeName`: return the new record, or null to
+ * delete it. Runs inside the upgrade transaction.
+ */
+export function transformRecords<T = unknown>(
+  tx: IDBTransaction,
+  storeName: string,
+  transform: (record: T) => T | null
+): void {
+  const request = tx.objectStore(storeName).openCursor()
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (!cursor) return
+    const next = transform(cursor.value as T)
+    if (next === null) cursor.delete()
+    else cursor.update(next)
+    cursor.continue()
+  }
+}
+
+// ─── Migrations ──────────────────────────────────────────────────────────────
+
+export const OFFLINE_DB_MIGRATIONS: readonly OfflineDbMigration[] = [
+  {
+    version: 1,
+    description: 'transactions, profiles, forecasts and cache stores',
+    migrate: (db, tx) => {
+      const transactions = ensureStore(db, tx, 'transactions', { keyPath: 'local_id', autoIncrement: false })
+      ensureIndex(transactions, 'user_id', 'user_id', { unique: false })
+      ensureIndex(transactions, 'date', 'date', { unique: false })
+      ensureIndex(transactions, 'synced', 'synced', { unique: false })
+      ensureIndex(transactions, 'id', 'id', { unique: false }) // server UUID index
+      ensureIndex(transactions, 'local_id', 'local_id', { unique: true })
+
+      const profiles = ensureStore(db, tx, 'profiles', { keyPath: 'id' })
+      ensureIndex(profiles, 'synced', 'synced', { unique: false })
+
+      const forecasts = ensureStore(db, tx, 'forecasts', { keyPath: 'temp_id', autoIncrement: false })
+      ensureIndex(forecasts, 'user_id', 'user_id', { unique: false })
+      ensureIndex(forecasts, 'synced', 'synced', { unique: false })
+
+      ensureStore(db, tx, 'cache', { keyPath: 'key' })
+    },
+  },
+  {
+    version: 2,
+    description: 'receipts store (photos queued for upload)',
+    migrate: (db, tx) => {
+      const receipts = ensureStore(db, tx, 'receipts', { keyPath: 'local_id' })
+      ensureIndex(receipts, 'transaction_id', 'transaction_id', { unique: false })
+      ensureIndex(receipts, 'transaction_local_id', 'transaction_local_id', { unique: false })
+    },
+  },
+  {
+    version: 3,
+    description: 'mirror store (server rows pulled by the sync)',
+    migrate: (db, tx) => {
+      const mirror = ensureStore(db, tx, 'mirror', { keyPath: ['table', 'id'] })
+      ensureIndex(mirror, 'table_user', ['table', 'user_id'], { unique: false })
+    },
+  },
+  {
+    version: 4,
+    description: 'conflicts store (offline edits that met a newer server version)',
+    migrate: (db, tx) => {
+      const conflicts = ensureStore(db, tx, 'conflicts', { keyPath: 'id' })
+      ensureIndex(conflicts, 'user_id', 'user_id', { unique: false })
+    },
+  },
+  {
+    version: 5,
+    description: 'outbox store (retry state of queued items)',
+    migrate: (db, tx) => {
+      const outbox = ensureStore(db, tx, 'outbox', { keyPath: 'key' })
+      ensureIndex(outbox, 'user_id', 'user_id', { unique: false })
+    },
+  },
+  {
+    version: 6,
+    description: 'meta store (encryption settings of the offline data)',
+    migrate: (db, tx) => {
+      ensureStore(db, tx, 'meta', { keyPath: 'key' })
+    },
+  },
+]
+
+// ─── Runner ──────────────────────────────────────────────────────────────────
+
+/** Throws unless versions start at 1 and go up by one. */
+export function assertMigrationOrder(migrations: readonly OfflineDbMigration[]): void {
+  migrations.forEach((m, i) => {
+    if (m.version !== i + 1) {
+      throw new Error(`Offline DB migration #${i + 1} has version ${m.version} (expected ${i + 1})`)
+    }
+  })
+}
+
+export function latestVersion(migrations: readonly OfflineDbMigration[]): number {
+  return migrations.length === 0 ? 0 : migrations[migrations.length - 1].version
+}
+
+/** Run the steps in (oldVersion, newVersion], in order. Call from `onupgradeneeded`. */
+export function runMigrations(
+  db: IDBDatabase,
+  tx: IDBTransaction,
+  oldVersion: number,
+  newVersion: number,
+  migrations: readonly OfflineDbMigration[] = OFFLINE_DB_MIGRATIONS
+): void {
+  for (const migration of migrations) {
+    if (migration.version > oldVersion && migration.version <= newVersion) {
+      migration.migrate(db, tx)
+    }
+  }
+}
+
+/**
+ * Open (creating or upgrading) `name` at the latest version of `migrations`.
+ * Rejects when a step fails (the upgrade is rolled back). While another tab
+ * keeps an older version open the upgrade waits for it to close (see
+ * `onversionchange` in `OfflineDB`).
+ */
+export function openMigratedDatabase(
+  name: string,
+  migrations: readonly OfflineDbMigration[] = OFFLINE_DB_MIGRATIONS,
+  factory: IDBFactory = indexedDB
+): Promise<IDBDatabase> {
+  assertMigrationOrder(migrations)
+  const version = latestVersion(migrations)
+
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = factory.open(name, version)
+    let upgradeError: unknown = null
+
+    request.onupgradeneeded = (event) => {
+      const tx = request.transaction!
+      try {
+        runMigrations(request.result, tx, event.oldVersion, event.newVersion ?? version, migrations)
+      } catch (e) {
+        upgradeError = e
+        tx.abort()
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      const cause = upgradeError ?? request.error
+      reject(new Error(`Failed to open IndexedDB: ${cause instanceof Error ? cause.message : String(cause)}`))
+    }
+    request.onblocked = () => {
+      console.warn('[OfflineDB] Upgrade waiting for other tabs to close the database')
+    }
+  })
+}
@@ -13,10 +13,53 @@
  * - transactions store uses `local_id` as primary key (temp id) to allow offline creation.
  * - `id` is the server UUID (Supabase) set after successful sync.
  * - `synced` indicates whether the row has been confirmed synced to server.
+ * - `deleted` marks a tombstone: a server row deleted on this device, queued
+ *   until the sync deletes it remotely (then cleaned up like any synced row).
+ * - receipts store (v2) holds receipt photos as Blobs until the sync uploads
+ *   them to Supabase Storage; uploaded rows are deleted.
+ * - mirror store (v3) holds server rows pulled by the sync (other devices'
+ *   changes), keyed by [table, id]. The stores above remain the outbox of local
+ *   changes; reads overlay pending local changes on top of the mirror.
+ * - conflicts store (v4) keeps offline edits that met a newer server version,
+ *   with both versions, until the user reviews them.
+ * - outbox store (v5) holds the retry state (attempts, backoff, quarantine,
+ *   last error) of queued items that failed to sync, keyed `<kind>:<ref>`.
+ *
+ * - meta store (v6) holds the encryption settings (salt, key check).
+ *
+ * Schema changes go through the versioned steps in `offline-db-migrations.ts`
+ * (the database version is the last step's).
+ *
+ * Encryption at rest (optional, see `offline-crypto.ts`):
+ * - With a passphrase set, every store but `meta` is sealed before it is
+ *   written (transactions, profiles, forecasts, receipts, mirrored server
+ *   rows, conflicts, retry state, cache); key paths, indexed fields and sync
+ *   flags stay readable.
+ * - The settings are re-read before each sealed write, so a tab (or the
+ *   service worker) that opened the database before another one turned
+ *   encryption on or off never writes in the wrong mode.
+ * - Until `unlock()` (and after `lock()`) those records can be neither read
+ *   nor written. The service worker never has the key, so background sync is
+ *   off while encryption is on.
+ *
+ * Also used from the service worker (background sync), so nothing here may
+ * depend on `window`.
  */
 
+import type { TransactionSplit } from '../../domain/split/split'
+import type { ConflictOutcome, ConflictPolicy } from '../../domain/sync/conflict'
+import type { OutboxItemKind } from '../../domain/sync/retry'
+import { openMigratedDatabase } from './offline-db-migrations'
+import {
+  createEncryptionConfig,
+  isSealedRecord,
+  openRecord,
+  sealRecord,
+  unlockKey,
+  type OfflineEncryptionConfig,
+} from './offline-crypto'
+
 const DB_NAME = 'MoneyPlanAI'
-const DB_VERSION = 1
 
 export interface OfflineTransaction {
   /** Server UUID (Supabase). Only set after sync succeeds. */
@@ -29,7 +72,7 @@ export interface OfflineTransaction {
   user_id?: string
 
   /** Transaction data */
-  type: 'income' | 'expense'
+  type: 'income' | 'expense' | 'transfer'
   amount: number
   category?: string
   /**
@@ -39,12 +82,59 @@ export interface OfflineTransaction {
   description?: string
   /** Date string `YYYY-MM-DD` */
   date: string
+  /** Account / wallet id (server UUID). Undefined for rows saved before accounts existed. */
+  account_id?: string | null
+  /** Both legs of a transfer share this id (type = 'transfer'). */
+  transfer_id?: string | null
+  transfer_direction?: 'out' | 'in' | null
+  /** Recurring rule this row was auto-posted from. */
+  recurring_id?: string | null
+  /** Split lines (category + amount); null/undefined = not split. */
+  splits?: TransactionSplit[] | null
 
   created_at?: string
   updated_at?: string
 
   /** Sync state */
   synced?: boolean
+  /** Tombstone: delete the server row on next sync. */
+  deleted?: boolean
+  /** Edits only: server version the edit started from (conflict detection). */
+  base?: OfflineTransactionVersion | null
+}
+
+/** Editable transaction columns + `updated_at`, as on the server. */
+export interface OfflineTransactionVersion {
+  type: 'income' | 'expense' | 'transfer'
+  amount: number
+  category?: string | null
+  description?: string | null
+  date: string
+  account_id?: string | null
+  transfer_id?: string | null
+  transfer_direction?: 'out' | 'in' | null
+  recurring_id?: string | null
+  splits?: TransactionSplit[] | null
+  updated_at?: string | null
+}
+
+export interface OfflineConflict {
+  /** Local id (primary key in IndexedDB). */
+  id: string
+  user_id: string
+  table: 'transactions'
+  /** Server UUID of the row both devices edited. */
+  row_id: string
+  base: OfflineTransactionVersion
+  local: OfflineTransactionVersion
+  /** null = the row had been deleted on the server. */
+  server: OfflineTransactionVersion | null
+  conflicting_fields: string[]
+  policy: ConflictPolicy
+  outcome: ConflictOutcome
+  detected_at: string
+  resolved_at?: string | null
+  resolution?: 'local' | 'server' | null
 }
 
 export interface OfflineProfile {
@@ -73,7 +163,98 @@ export interface OfflineForecast {
   temp_id?: string
 }
 
-type StoreName = 'transactions' | 'profiles' | 'forecasts' | 'cache'
+export interface OfflineReceipt {
+  /** Local id (primary key in IndexedDB); also used as the receipt id in Storage paths. */
+  local_id: string
+  user_id?: string
+
+  /**
+   * Owning transaction: the server UUID when known, otherwise the offline
+   * transaction's `local_id` (filled in with the server id when it syncs).
+   */
+  transaction_id?: string | null
+  transaction_local_id?: string | null
+
+  /** Downscaled image (or the original when it could not be decoded). */
+  blob: Blob
+  /** Small JPEG for lists; null when the image could not be decoded. */
+  thumbnail?: Blob | null
+  content_type: string
+
+  created_at: string
+}
+
+export interface OfflineOutboxState {
+  /** `<kind>:<ref>` (primary key in IndexedDB). */
+  key: string
+  kind: OutboxItemKind
+  /** Offline key of the item: transaction/receipt `local_id`, forecast `temp_id`, or user id (profile). */
+  ref: string
+  user_id: string
+  label: string
+  attempts: number
+  next_attempt_at: string
+  quarantined: boolean
+  last_error: string
+  last_attempt_at: string
+}
+
+/**
+ * What the service worker needs to sync on its own (no page open): the
+ * signed-in user's current access token, shared by the page on every auth
+ * change. The page already keeps the same token in localStorage.
+ */
+export interface OfflineSyncSession {
+  user_id: string
+  access_token: string
+  /** Token expiry (epoch ms); the worker does not refresh tokens. */
+  expires_at: number
+  conflict_policy: ConflictPolicy
+}
+
+/** Cache key of the shared sync session. */
+const SYNC_SESSION_CACHE_KEY = 'sync_session'
+
+/** Server tables mirrored locally (same names as in Supabase). */
+export type MirrorTable = 'transactions' | 'profiles' | 'forecasts' | 'category_budgets' | 'debt_items'
+
+type MirrorRecord = {
+  table: MirrorTable
+  id: string
+  user_id: string
+  row: Record<string, unknown>
+}
+
+type StoreName =
+  | 'transactions'
+  | 'profiles'
+  | 'forecasts'
+  | 'cache'
+  | 'receipts'
+  | 'mirror'
+  | 'conflicts'
+  | 'outbox'
+  | 'meta'
+
+/** Stores sealed while encryption is on, with the fields left readable (key path, indexes, sync flags). */
+const ENCRYPTED_STORES = {
+  transactions: ['local_id', 'id', 'user_id', 'date', 'synced', 'deleted'],
+  profiles: ['id', 'synced'],
+  forecasts: ['temp_id', 'user_id', 'synced'],
+  receipts: ['local_id', 'transaction_id', 'transaction_local_id'],
+  mirror: ['table', 'id', 'user_id'],
+  conflicts: ['id', 'user_id'],
+  outbox: ['key', 'user_id'],
+  cache: ['key', 'timestamp'],
+} as const satisfies Partial<Record<StoreName, readonly string[]>>
+
+type EncryptedStoreName = keyof typeof ENCRYPTED_STORES
+
+const ENCRYPTION_META_KEY = 'encryption'
+
+type EncryptionMetaRecord = OfflineEncryptionConfig & { key: typeof ENCRYPTION_META_KEY }
+
+export type OfflineEncryptionState = 'off' | 'locked' | 'unlocked'
 
 type CacheRecord = {
   key: string
@@ -81,8 +262,14 @@ type CacheRecord = {
   timestamp: number
 }
 
+function sameEncryptionConfig(a: OfflineEncryptionConfig | null, b: OfflineEncryptionConfig | null): boolean {
+  if (!a || !b) return a === b
+  return a.salt.length === b.salt.length && a.salt.every((byte, i) => byte === b.salt[i])
+}
+
+/** Pages and the service worker both have IndexedDB; SSR does not. */
 function isBrowser(): boolean {
-  return typeof window !== 'undefined' && typeof indexedDB !== 'undefined'
+  return typeof indexedDB !== 'undefined'
 }
 
 /**
@@ -96,6 +283,14 @@ function makeTempId(): string {
 class OfflineDB {
   private db: IDBDatabase | null = null
   private initPromise: Promise<void> | null = null
+  /** Loaded by `init()`, re-read by `refreshEncryption()`; null = encryption off. */
+  private encryption: OfflineEncryptionConfig | null = null
+  /** Shared by concurrent `refreshEncryption()` calls. */
+  private encryptionRead: Promise<void> | null = null
+  /** Bumped when this instance changes the settings, so an older read is dropped. */
+  private encryptionVersion = 0
+  /** Only in memory, between `unlock()` and `lock()`. */
+  private key: CryptoKey | null = null
 
   /**
    * Initialize the IndexedDB connection.
@@ -110,56 +305,25 @@ class OfflineDB {
     if (this.db) return
     if (this.initPromise) return this.initPromise
 
-    this.initPromise = new Promise<void>((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION)
-
-      request.onerror = () => {
-        reject(new Error('Failed to open IndexedDB'))
-      }
-
-      request.onsuccess = () => {
-        this.db = request.result
-        resolve()
-      }
-
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result
-
-        // transactions
-        if (!db.objectStoreNames.contains('transactions')) {
-          const store = db.createObjectStore('transactions', {
-            keyPath: 'local_id',
-            autoIncrement: false,
-          })
-          store.createIndex('user_id', 'user_id', { unique: false })
-          store.createIndex('date', 'date', { unique: false })
-          store.createIndex('synced', 'synced', { unique: false })
-          store.createIndex('id', 'id', { unique: false }) // server UUID index
-          store.createIndex('local_id', 'local_id', { unique: true })
+    this.initPromise = openMigratedDatabase(DB_NAME)
+      .then((db) => {
+        // A newer version of the app (another tab, or after an update) needs
+        // to upgrade: let it, and reopen on the next call.
+        db.onversionchange = () => {
+          db.close()
+          this.db = null
+          this.initPromise = null
         }
-
-        // profiles
-        if (!db.objectStoreNames.contains('profiles')) {
-          const store = db.createObjectStore('profiles', { keyPath: 'id' })
-          store.createIndex('synced', 'synced', { unique: false })
-        }
-
-        // forecasts
-        if (!db.objectStoreNames.contains('forecasts')) {
-          const store = db.createObjectStore('forecasts', {
-            keyPath: 'temp_id',
-            autoIncrement: false,
-          })
-          store.createIndex('user_id', 'user_id', { unique: false })
-          store.createIndex('synced', 'synced', { unique: false })
-        }
-
-        // cache
-        if (!db.objectStoreNames.contains('cache')) {
-          db.createObjectStore('cache', { keyPath: 'key' })
-        }
-      }
-    })
+        this.db = db
+        return this.readEncryptionConfig(db)
+      })
+      .then((config) => {
+        this.encryption = config
+      })
+      .catch((e) => {
+        this.initPromise = null
+        throw e
+      })
 
     return this.initPromise
   }
@@ -196,6 +360,161 @@ class OfflineDB {
     })
   }
 
+  // -------------------------
+  // Encryption at rest
+  // -------------------------
+
+  private readEncryptionConfig(db: IDBDatabase): Promise<OfflineEncryptionConfig | null> {
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(['meta'], 'readonly').objectStore('meta').get(ENCRYPTION_META_KEY)
+      request.onsuccess = () => resolve((request.result as EncryptionMetaRecord | undefined) ?? null)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  /**
+   * Re-read the settings: another tab or the service worker may have turned
+   * encryption on or off since `init()`. A different config drops the key
+   * (it belongs to the old passphrase).
+   */
+  private async refreshEncryption(): Promise<void> {
+    if (!this.db) await this.init()
+    if (!this.encryptionRead) {
+      const version = this.encryptionVersion
+      this.encryptionRead = this.readEncryptionConfig(this.db!)
+        .then((config) => {
+          if (version !== this.encryptionVersion) return
+          if (!sameEncryptionConfig(config, this.encryption)) this.key = null
+          this.encryption = config
+        })
+        .finally(() => {
+          this.encryptionRead = null
+        })
+    }
+    return this.encryptionRead
+  }
+
+  async getEncryptionState(): Promise<OfflineEncryptionState> {
+    await this.refreshEncryption()
+    if (!this.encryption) return 'off'
+    return this.key ? 'unlocked' : 'locked'
+  }
+
+  /** Resolves to false when the passphrase is wrong. */
+  async unlock(passphrase: string): Promise<boolean> {
+    await this.refreshEncryption()
+    if (!this.encryption) return true
+    this.key = await unlockKey(passphrase, this.encryption)
+    return this.key != null
+  }
+
+  /** Forget the key: encrypted records stay unreadable until the next `unlock()`. */
+  lock(): void {
+    this.key = null
+  }
+
+  /** Turn encryption on and seal every existing record (leaves the data unlocked). */
+  async enableEncryption(passphrase: string): Promise<void> {
+    await this.refreshEncryption()
+    if (this.encryption) throw new Error('Offline data is already encrypted')
+    const { config, key } = await createEncryptionConfig(passphrase)
+    await this.rewriteEncryptedStores((store, record) => sealRecord(key, record, ENCRYPTED_STORES[store]), {
+      key: ENCRYPTION_META_KEY,
+      ...config,
+    })
+    this.encryptionVersion++
+    this.encryption = config
+    this.key = key
+    // The service worker cannot read the queue any more: stop sharing the session.
+    await this.saveSyncSession(null)
+  }
+
+  /** Turn encryption off and write every record back in the clear. Resolves to false when the passphrase is wrong. */
+  async disableEncryption(passphrase: string): Promise<boolean> {
+    await this.refreshEncryption()
+    if (!this.encryption) return true
+    const key = await unlockKey(passphrase, this.encryption)
+    if (!key) return false
+    await this.rewriteEncryptedStores(
+      async (_store, record) => (isSealedRecord(record) ? openRecord<Record<string, unknown>>(key, record) : record),
+      null
+    )
+    this.encryptionVersion++
+    this.encryption = null
+    this.key = null
+    return true
+  }
+
+  /**
+   * Forgotten passphrase: delete every record on this device (including
+   * changes not synced yet) and turn encryption off. Server data is kept.
+   */
+  async wipeAllData(): Promise<void> {
+    if (!this.db) await this.init()
+    const stores = Array.from(this.db!.objectStoreNames) as StoreName[]
+    await new Promise<void>((resolve, reject) => {
+      const tx = this.db!.transaction(stores, 'readwrite')
+      for (const store of stores) tx.objectStore(store).clear()
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+    this.encryptionVersion++
+    this.encryption = null
+    this.key = null
+  }
+
+  /**
+   * Rewrite every record of the encrypted stores with `transform`, and the
+   * encryption settings (`meta`, null = delete), in one IndexedDB transaction.
+   * WebCrypto cannot run inside a transaction, so records are read first.
+   */
+  private async rewriteEncryptedStores(
+    transform: (store: EncryptedStoreName, record: Record<string, unknown>) => Promise<Record<string, unknown>>,
+    meta: EncryptionMetaRecord | null
+  ): Promise<void> {
+    const stores = Object.keys(ENCRYPTED_STORES) as EncryptedStoreName[]
+    const rewritten = await Promise.all(
+      stores.map(async (store) => {
+        const records = ((await this.withStore<Record<string, unknown>[]>(store, 'readonly', (s) => s.getAll())) ??
+          []) as Record<string, unknown>[]
+        return Promise.all(records.map((record) => transform(store, record)))
+      })
+    )
+
+    await new Promise<void>((resolve, reject) => {
+      const tx = this.db!.transaction([...stores, 'meta'], 'readwrite')
+      stores.forEach((store, i) => {
+        const objectStore = tx.objectStore(store)
+        for (const record of rewritten[i]) objectStore.put(record)
+      })
+      if (meta) tx.objectStore('meta').put(meta)
+      else tx.objectStore('meta').delete(ENCRYPTION_META_KEY)
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  }
+
+  /** `record` as stored in `store`: sealed while encryption is on. */
+  private async seal<T extends object>(store: EncryptedStoreName, record: T): Promise<T> {
+    await this.refreshEncryption()
+    if (!this.encryption) return record
+    if (!this.key) throw new Error('Offline data is locked')
+    return (await sealRecord(this.key, record as Record<string, unknown>, ENCRYPTED_STORES[store])) as unknown as T
+  }
+
+  /** A stored record as written (records written before encryption was on are returned as they are). */
+  private async open<T>(record: unknown): Promise<T> {
+    if (!isSealedRecord(record)) return record as T
+    if (!this.key) throw new Error('Offline data is locked')
+    return openRecord<T>(this.key, record)
+  }
+
+  private openAll<T>(records: unknown[]): Promise<T[]> {
+    return Promise.all(records.map((record) => this.open<T>(record)))
+  }
+
   // -------------------------
   // Transactions
   // -------------------------
@@ -208,27 +527,20 @@ class OfflineDB {
    * - does NOT set server `id` unless provided
    */
   async saveTransaction(transaction: OfflineTransaction): Promise<void> {
-    const data: OfflineTransaction = {
+    const data = await this.seal<OfflineTransaction>('transactions', {
       ...transaction,
       local_id: transaction.local_id || makeTempId(),
       synced: false,
-    }
+    })
 
     await this.withStore('transactions', 'readwrite', (store) => store.put(data))
   }
 
   async getTransactions(userId: string): Promise<OfflineTransaction[]> {
-    if (!this.db) await this.init()
-
-    return new Promise<OfflineTransaction[]>((resolve, reject) => {
-      const tx = this.db!.transaction(['transactions'], 'readonly')
-      const store = tx.objectStore('transactions')
-      const index = store.index('user_id')
-      const request = index.getAll(userId)
-
-      request.onsuccess = () => resolve((request.result as OfflineTransaction[]) || [])
-      request.onerror = () => reject(request.error)
-    })
+    const rows = await this.withStore<unknown[]>('transactions', 'readonly', (store) =>
+      store.index('user_id').getAll(userId)
+    )
+    return this.openAll<OfflineTransaction>(rows || [])
   }
 
   /**
@@ -238,7 +550,7 @@ class OfflineDB {
   async getUnsyncedTransactions(): Promise<OfflineTransaction[]> {
     if (!this.db) await this.init()
 
-    return new Promise<OfflineTransaction[]>((resolve, reject) => {
+    const rows = await new Promise<OfflineTransaction[]>((resolve, reject) => {
       const tx = this.db!.transaction(['transactions'], 'readonly')
       const store = tx.objectStore('transactions')
       const request = store.openCursor()
@@ -259,6 +571,7 @@ class OfflineDB {
 
       request.onerror = () => reject(request.error)
     })
+    return this.openAll<OfflineTransaction>(rows)
   }
 
   /**
@@ -270,27 +583,31 @@ class OfflineDB {
     if (!this.db) await this.init()
 
     return new Promise<void>((resolve, reject) => {
-      const tx = this.db!.transaction(['transactions'], 'readwrite')
+      const tx = this.db!.transaction(['transactions', 'receipts'], 'readwrite')
       const store = tx.objectStore('transactions')
       const getRequest = store.get(localId)
 
       getRequest.onsuccess = () => {
         const data = getRequest.result as OfflineTransaction | undefined
-        if (!data) {
-          // Not found; treat as no-op.
-          resolve()
-          return
-        }
+        if (!data) return // Not found; treat as no-op.
 
         data.id = dbId
         data.synced = true
-
-        const putRequest = store.put(data)
-        putRequest.onsuccess = () => resolve()
-        putRequest.onerror = () => reject(putRequest.error)
+        store.put(data)
+
+        // Receipts attached while the transaction was offline-only now know its server id.
+        const receipts = tx.objectStore('receipts').index('transaction_local_id').openCursor(localId)
+        receipts.onsuccess = () => {
+          const cursor = receipts.result
+          if (!cursor) return
+          cursor.update({ ...(cursor.value as OfflineReceipt), transaction_id: dbId })
+          cursor.continue()
+        }
       }
 
-      getRequest.onerror = () => reject(getRequest.error)
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
     })
   }
 
@@ -331,6 +648,101 @@ class OfflineDB {
     })
   }
 
+  /**
+   * Queue a delete (tombstone). In one IndexedDB transaction:
+   * - never-synced row (no server id, or the `local_id` standing in for it) →
+   *   dropped locally, nothing to replay;
+   * - server row → pending edits for it are replaced by a tombstone;
+   * - receipts still queued for the row are dropped either way.
+   */
+  async deleteTransactionOffline(transaction: OfflineTransaction): Promise<void> {
+    if (!this.db) await this.init()
+    const tombstone = await this.seal<OfflineTransaction>('transactions', {
+      ...transaction,
+      local_id: makeTempId(),
+      deleted: true,
+      synced: false,
+      updated_at: new Date().toISOString(),
+    })
+
+    return new Promise<void>((resolve, reject) => {
+      const tx = this.db!.transaction(['transactions', 'receipts'], 'readwrite')
+      const store = tx.objectStore('transactions')
+      const receipts = tx.objectStore('receipts')
+
+      const dropReceipts = (indexName: 'transaction_id' | 'transaction_local_id', key: string) => {
+        const request = receipts.index(indexName).openCursor(key)
+        request.onsuccess = () => {
+          const cursor = request.result
+          if (!cursor) return
+          cursor.delete()
+          cursor.continue()
+        }
+      }
+
+      if (!transaction.id || transaction.id === transaction.local_id) {
+        if (transaction.local_id) {
+          store.delete(transaction.local_id)
+          dropReceipts('transaction_local_id', transaction.local_id)
+        }
+      } else {
+        const serverId = transaction.id
+        const existing = store.index('id').getAllKeys(serverId)
+        existing.onsuccess = () => {
+          for (const key of existing.result) store.delete(key)
+          store.put(tombstone)
+        }
+        dropReceipts('transaction_id', serverId)
+      }
+
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  }
+
+  /**
+   * Queue an edit of a server row, replacing edits of it still pending (one
+   * UPDATE replays the latest values). The first pending edit's `base` is kept:
+   * that is the server version this device last saw.
+   */
+  async queueTransactionEdit(transaction: OfflineTransaction & { id: string }): Promise<void> {
+    // Sealed rows can only be read outside the write transaction (WebCrypto is async).
+    const existing = await this.openAll<OfflineTransaction>(
+      ((await this.withStore<unknown[]>('transactions', 'readonly', (store) =>
+        store.index('id').getAll(transaction.id)
+      )) ?? []) as unknown[]
+    )
+    const pending = existing.filter((t) => !t.synced)
+    const edit = await this.seal<OfflineTransaction>('transactions', {
+      ...transaction,
+      base: pending.find((t) => t.base)?.base ?? transaction.base ?? null,
+      local_id: makeTempId(),
+      synced: false,
+      updated_at: new Date().toISOString(),
+    })
+
+    return new Promise<void>((resolve, reject) => {
+      const tx = this.db!.transaction(['transactions'], 'readwrite')
+      const store = tx.objectStore('transactions')
+      const keys = store.index('id').getAllKeys(transaction.id)
+      keys.onsuccess = () => {
+        for (const key of keys.result) store.delete(key)
+        store.put(edit)
+      }
+
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  }
+
+  /** Server ids with a delete still queued (hide them from server results). */
+  async getPendingDeletionIds(): Promise<Set<string>> {
+    const rows = await this.getUnsyncedTransactions()
+    return new Set(rows.filter((t) => t.deleted && t.id).map((t) => t.id!))
+  }
+
   /** Delete transaction by local_id. Useful for local-only cleanups. */
   async deleteTransactionByLocalId(localId: string): Promise<void> {
     await this.withStore('transactions', 'readwrite', (store) => store.delete(localId))
@@ -372,15 +784,13 @@ class OfflineDB {
   // -------------------------
 
   async saveProfile(profile: OfflineProfile): Promise<void> {
-    const data: OfflineProfile = { ...profile, synced: false }
+    const data = await this.seal<OfflineProfile>('profiles', { ...profile, synced: false })
     await this.withStore('profiles', 'readwrite', (store) => store.put(data))
   }
 
   async getProfile(userId: string): Promise<OfflineProfile | null> {
-    const result = (await this.withStore<OfflineProfile | undefined>('profiles', 'readonly', (store) =>
-      store.get(userId)
-    )) as OfflineProfile | undefined
-    return result ?? null
+    const result = await this.withStore<unknown>('profiles', 'readonly', (store) => store.get(userId))
+    return result ? this.open<OfflineProfile>(result) : null
   }
 
   async markProfileSynced(userId: string): Promise<void> {
@@ -418,27 +828,29 @@ class OfflineDB {
       temp_id: forecast.temp_id || makeTempId(),
       synced: false,
     }
-    await this.withStore('forecasts', 'readwrite', (store) => store.put(data))
+    const record = await this.seal('forecasts', data)
+    await this.withStore('forecasts', 'readwrite', (store) => store.put(record))
   }
 
   async getForecasts(userId: string): Promise<OfflineForecast[]> {
     if (!this.db) await this.init()
 
-    return new Promise<OfflineForecast[]>((resolve, reject) => {
+    const rows = await new Promise<unknown[]>((resolve, reject) => {
       const tx = this.db!.transaction(['forecasts'], 'readonly')
       const store = tx.objectStore('forecasts')
       const index = store.index('user_id')
       const request = index.getAll(userId)
 
-      request.onsuccess = () => resolve((request.result as OfflineForecast[]) || [])
+      request.onsuccess = () => resolve(request.result || [])
       request.onerror = () => reject(request.error)
     })
+    return this.openAll<OfflineForecast>(rows)
   }
 
   async getUnsyncedForecasts(): Promise<OfflineForecast[]> {
     if (!this.db) await this.init()
 
-    return new Promise<OfflineForecast[]>((resolve, reject) => {
+    const rows = await new Promise<OfflineForecast[]>((resolve, reject) => {
       const tx = this.db!.transaction(['forecasts'], 'readonly')
       const store = tx.objectStore('forecasts')
       const request = store.openCursor()
@@ -459,6 +871,220 @@ class OfflineDB {
 
       request.onerror = () => reject(request.error)
     })
+    return this.openAll<OfflineForecast>(rows)
+  }
+
+  // -------------------------
+  // Receipts
+  // -------------------------
+
+  async saveReceipt(receipt: OfflineReceipt): Promise<void> {
+    const record = await this.seal('receipts', receipt)
+    await this.withStore('receipts', 'readwrite', (store) => store.put(record))
+  }
+
+  /** All receipts still waiting for upload (oldest first). */
+  async getPendingReceipts(): Promise<OfflineReceipt[]> {
+    const rows = (await this.withStore<unknown[]>('receipts', 'readonly', (store) => store.getAll())) as
+      | unknown[]
+      | undefined
+    const receipts = await this.openAll<OfflineReceipt>(rows ?? [])
+    return receipts.sort((a, b) => a.created_at.localeCompare(b.created_at))
+  }
+
+  /** Pending receipts of one transaction, by server id. */
+  async getPendingReceiptsForTransaction(transactionId: string): Promise<OfflineReceipt[]> {
+    const rows = (await this.withStore<unknown[]>('receipts', 'readonly', (store) =>
+      store.index('transaction_id').getAll(transactionId)
+    )) as unknown[] | undefined
+    return this.openAll<OfflineReceipt>(rows ?? [])
+  }
+
+  async deleteReceipt(localId: string): Promise<void> {
+    await this.withStore('receipts', 'readwrite', (store) => store.delete(localId))
+  }
+
+  // -------------------------
+  // Mirror (pulled server rows)
+  // -------------------------
+
+  /**
+   * Apply one pull result in a single IndexedDB transaction. A `complete`
+   * result replaces every mirrored row of the table for the user.
+   */
+  async applyPulledChanges(
+    userId: string,
+    table: MirrorTable,
+    changes: { rows: Record<string, unknown>[]; deleted_ids: string[]; complete: boolean }
+  ): Promise<void> {
+    const records = await Promise.all(
+      changes.rows.map((row) =>
+        this.seal<MirrorRecord>('mirror', { table, id: String(row.id), user_id: userId, row })
+      )
+    )
+
+    return new Promise<void>((resolve, reject) => {
+      const tx = this.db!.transaction(['mirror'], 'readwrite')
+      const store = tx.objectStore('mirror')
+
+      const putRows = () => {
+        for (const id of changes.deleted_ids) store.delete([table, id])
+        for (const record of records) store.put(record)
+      }
+
+      if (changes.complete) {
+        const clear = store.index('table_user').openCursor(IDBKeyRange.only([table, userId]))
+        clear.onsuccess = () => {
+          const cursor = clear.result
+          if (!cursor) {
+            putRows()
+            return
+          }
+          cursor.delete()
+          cursor.continue()
+        }
+      } else {
+        putRows()
+      }
+
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  }
+
+  /** Mirrored server rows of one table for the user (as last pulled). */
+  async getMirroredRows<T = Record<string, unknown>>(table: MirrorTable, userId: string): Promise<T[]> {
+    const records = (await this.withStore<unknown[]>('mirror', 'readonly', (store) =>
+      store.index('table_user').getAll(IDBKeyRange.only([table, userId]))
+    )) as unknown[] | undefined
+    return (await this.openAll<MirrorRecord>(records ?? [])).map((r) => r.row as T)
+  }
+
+  /**
+   * The user's transactions as this device sees them: mirrored server rows
+   * with local edits applied, local deletes removed and pending creates added
+   * (those have no `id` yet, only `local_id`). Newest date first.
+   */
+  async getLocalTransactions(userId: string): Promise<OfflineTransaction[]> {
+    const mirrored = await this.getMirroredRows<OfflineTransaction>('transactions', userId)
+    return this.applyPendingTransactions(userId, mirrored)
+  }
+
+  /**
+   * `serverRows` (mirrored or just fetched) with this device's queued changes
+   * applied, the same way `getLocalTransactions` does. Newest date first.
+   */
+  async applyPendingTransactions(userId: string, serverRows: OfflineTransaction[]): Promise<OfflineTransaction[]> {
+    const local = await this.getTransactions(userId)
+    const byId = new Map(serverRows.map((t) => [t.id!, t]))
+    const created: OfflineTransaction[] = []
+    for (const t of local) {
+      if (t.deleted) {
+        if (t.id) byId.delete(t.id)
+      } else if (!t.id) {
+        created.push(t)
+      } else if (!t.synced || !byId.has(t.id)) {
+        // Pending edit, or pushed but not pulled back yet.
+        byId.set(t.id, t)
+      }
+    }
+    return [...Array.from(byId.values()), ...created].sort((a, b) => b.date.localeCompare(a.date))
+  }
+
+  async getPullWatermark(userId: string, table: MirrorTable): Promise<string | null> {
+    const value = await this.getCachedData(`sync_watermark:${userId}:${table}`, Number.POSITIVE_INFINITY)
+    return typeof value === 'string' ? value : null
+  }
+
+  async setPullWatermark(userId: string, table: MirrorTable, watermark: string): Promise<void> {
+    await this.cacheData(`sync_watermark:${userId}:${table}`, watermark)
+  }
+
+  // -------------------------
+  // Conflicts
+  // -------------------------
+
+  async saveConflict(conflict: OfflineConflict): Promise<void> {
+    const record = await this.seal('conflicts', conflict)
+    await this.withStore('conflicts', 'readwrite', (store) => store.put(record))
+  }
+
+  /** The user's conflicts, newest first; unresolved only unless `includeResolved`. */
+  async getConflicts(userId: string, options: { includeResolved?: boolean } = {}): Promise<OfflineConflict[]> {
+    const rows = (await this.withStore<unknown[]>('conflicts', 'readonly', (store) =>
+      store.index('user_id').getAll(userId)
+    )) as unknown[] | undefined
+    return (await this.openAll<OfflineConflict>(rows ?? []))
+      .filter((c) => options.includeResolved || !c.resolved_at)
+      .sort((a, b) => b.detected_at.localeCompare(a.detected_at))
+  }
+
+  async resolveConflict(id: string, resolution: 'local' | 'server'): Promise<void> {
+    const stored = await this.withStore<unknown>('conflicts', 'readonly', (store) => store.get(id))
+    if (!stored) return
+    const conflict = await this.open<OfflineConflict>(stored)
+    await this.saveConflict({ ...conflict, resolution, resolved_at: new Date().toISOString() })
+  }
+
+  // -------------------------
+  // Outbox retry state
+  // -------------------------
+
+  async getOutboxStates(userId: string): Promise<OfflineOutboxState[]> {
+    const rows = (await this.withStore<unknown[]>('outbox', 'readonly', (store) =>
+      store.index('user_id').getAll(userId)
+    )) as unknown[] | undefined
+    const states = await this.openAll<OfflineOutboxState>(rows ?? [])
+    return states.sort((a, b) => a.last_attempt_at.localeCompare(b.last_attempt_at))
+  }
+
+  async saveOutboxState(state: OfflineOutboxState): Promise<void> {
+    const record = await this.seal('outbox', state)
+    await this.withStore('outbox', 'readwrite', (store) => store.put(record))
+  }
+
+  async deleteOutboxState(key: string): Promise<void> {
+    await this.withStore('outbox', 'readwrite', (store) => store.delete(key))
+  }
+
+  /**
+   * Drop a queued item and its retry state in one IndexedDB transaction.
+   * A discarded transaction takes its queued receipts with it; a discarded
+   * profile change is marked synced (the profile row itself stays).
+   */
+  async discardOutboxItem(kind: OutboxItemKind, ref: string): Promise<void> {
+    if (!this.db) await this.init()
+
+    return new Promise<void>((resolve, reject) => {
+      const stores: StoreName[] =
+        kind === 'transaction' ? ['outbox', 'transactions', 'receipts'] : ['outbox', `${kind}s` as StoreName]
+      const tx = this.db!.transaction(stores, 'readwrite')
+      tx.objectStore('outbox').delete(`${kind}:${ref}`)
+
+      if (kind === 'transaction') {
+        tx.objectStore('transactions').delete(ref)
+        const receipts = tx.objectStore('receipts').index('transaction_local_id').openCursor(ref)
+        receipts.onsuccess = () => {
+          const cursor = receipts.result
+          if (!cursor) return
+          cursor.delete()
+          cursor.continue()
+        }
+      } else if (kind === 'profile') {
+        const profiles = tx.objectStore('profiles')
+        const request = profiles.get(ref)
+        request.onsuccess = () => {
+          if (request.result) profiles.put({ ...request.result, synced: true })
+        }
+      } else {
+        tx.objectStore(`${kind}s`).delete(ref)
+      }
+
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
   }
 
   // -------------------------
@@ -467,23 +1093,41 @@ class OfflineDB {
 
   /**
    * Cache arbitrary data by key, with a timestamp.
-   * NOTE: This is not encrypted. Do not store secrets.
+   * NOTE: Only encrypted while encryption at rest is on. Do not store secrets.
    */
   async cacheData(key: string, data: unknown): Promise<void> {
-    const record: CacheRecord = { key, data, timestamp: Date.now() }
+    const record = await this.seal<CacheRecord>('cache', { key, data, timestamp: Date.now() })
     await this.withStore('cache', 'readwrite', (store) => store.put(record))
   }
 
+  /**
+   * Share (or, with null, forget) the session the service worker syncs with.
+   * Never shared while encryption is on (the worker could not read the queue).
+   */
+  async saveSyncSession(session: OfflineSyncSession | null): Promise<void> {
+    await this.refreshEncryption()
+    if (!session || this.encryption) {
+      await this.withStore('cache', 'readwrite', (store) => store.delete(SYNC_SESSION_CACHE_KEY))
+      return
+    }
+    await this.cacheData(SYNC_SESSION_CACHE_KEY, session)
+  }
+
+  /** Session shared by the page, or null when none / already expired. */
+  async getSyncSession(): Promise<OfflineSyncSession | null> {
+    const session = (await this.getCachedData(SYNC_SESSION_CACHE_KEY, Infinity)) as OfflineSyncSession | null
+    if (!session || session.expires_at <= Date.now()) return null
+    return session
+  }
+
   /**
    * Read cached data by key if not expired.
    * @param maxAgeMs default 24 hours
    */
   async getCachedData(key: string, maxAgeMs: number = 24 * 60 * 60 * 1000): Promise<unknown | null> {
-    const record = (await this.withStore<CacheRecord | undefined>('cache', 'readonly', (store) =>
-      store.get(key)
-    )) as CacheRecord | undefined
-
-    if (!record) return null
+    const stored = await this.withStore<unknown>('cache', 'readonly', (store) => store.get(key))
+    if (!stored) return null
+    const record = await this.open<CacheRecord>(stored)
     const age = Date.now() - Number(record.timestamp || 0)
     if (age > maxAgeMs) return null
     return record.data ?? null
@@ -0,0 +1,128 @@
+/**
+ * Infrastructure: Recurring auto-post (composition root)
+ *
+ * Wires the application-layer `autoPostDueRecurrences` use-case to Supabase +
+ * IndexedDB:
+ * - Rules are read from Supabase when online and cached in `offlineDB` so
+ *   auto-post still works offline.
+ * - Posted occurrences are written to the offline transaction store first and
+ *   pushed by the regular sync (`syncService`), exactly like manual offline saves.
+ *
+ * Browser-only: call from client components.
+ */
+
+import {
+  autoPostDueRecurrences,
+  type AutoPostResult,
+} from "@/src/application/recurring/recurring-autopost-service";
+import type { RecurringPostingPort } from "@/src/application/recurring/ports/recurring-ports";
+import {
+  occurrenceKey,
+  type RecurringOccurrence,
+  type RecurringRule,
+} from "@/src/domain/recurring/recurring";
+import { offlineDB } from "@/src/infrastructure/offline/offline-db";
+import {
+  supabase,
+  fetchRecurringRules,
+  toDomainRecurringRules,
+  updateRecurringRule,
+} from "@/src/infrastructure/supabase/supabase";
+import { syncService } from "@/src/infrastructure/sync/sync-service";
+
+const rulesCacheKey = (userId: string) => `recurring_rules:${userId}`;
+
+function isOnline(): boolean {
+  return typeof navigator === "undefined" ? true : navigator.onLine;
+}
+
+export class SupabaseRecurringPostingAdapter implements RecurringPostingPort {
+  async loadRules(userId: string): Promise<RecurringRule[]> {
+    if (isOnline()) {
+      const rules = toDomainRecurringRules(await fetchRecurringRules(userId));
+      await offlineDB.cacheData(rulesCacheKey(userId), rules);
+      return rules;
+    }
+    const cached = await offlineDB.getCachedData(rulesCacheKey(userId), Number.POSITIVE_INFINITY);
+    return Array.isArray(cached) ? (cached as RecurringRule[]) : [];
+  }
+
+  async loadPostedKeys(userId: string, sinceDate: string): Promise<Set<string>> {
+    const keys = new Set<string>();
+
+    // Offline rows (not yet synced) must count too, or we'd post twice while offline.
+    const local = await offlineDB.getTransactions(userId);
+    for (const t of local) {
+      if (t.recurring_id) keys.add(occurrenceKey(t.recurring_id, t.date));
+    }
+
+    if (isOnline()) {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("recurring_id, date")
+        .eq("user_id", userId)
+        .not("recurring_id", "is", null)
+        .gte("date", sinceDate);
+      if (error) {
+        console.error("[RecurringAutoPost] loadPostedKeys:", error);
+      } else {
+        for (const row of data || []) {
+          if (row.recurring_id) keys.add(occurrenceKey(row.recurring_id, row.date));
+        }
+      }
+    }
+
+    return keys;
+  }
+
+  async postOccurrence(userId: string, occurrence: RecurringOccurrence): Promise<void> {
+    await offlineDB.saveTransaction({
+      user_id: userId,
+      type: occurrence.type,
+      amount: occurrence.amount,
+      category: occurrence.category ?? undefined,
+      description: occurrence.description ?? undefined,
+      date: occurrence.date,
+      account_id: occurrence.accountId,
+      recurring_id: occurrence.ruleId,
+      created_at: new Date().toISOString(),
+    });
+  }
+
+  async markPostedThrough(ruleId: string, date: string): Promise<void> {
+    if (isOnline()) {
+      const { error } = await updateRecurringRule(ruleId, { last_posted_date: date });
+      if (error) throw error;
+    }
+  }
+}
+
+export const supabaseRecurringPostingAdapter = new SupabaseRecurringPostingAdapter();
+
+/**
+ * Post every due recurring occurrence for the user, then kick off a sync so
+ * the new rows reach Supabase when online. Safe to call on every app load.
+ */
+export async function runRecurringAutoPost(userId: string, salaryDay: number): Promise<AutoPostResult> {
+  const result = await autoPostDueRecurrences(
+    { userId, today: new Date(), salaryDay },
+    supabaseRecurringPostingAdapter,
+  );
+
+  if (result.posted.length > 0) {
+    // Keep the cached rules' cursor in step so offline runs don't re-scan old dates.
+    const cached = await offlineDB.getCachedData(rulesCacheKey(userId), Number.POSITIVE_INFINITY);
+    if (Array.isArray(cached)) {
+      const lastByRule = new Map(result.posted.map((o) => [o.ruleId, o.date]));
+      await offlineDB.cacheData(
+        rulesCacheKey(userId),
+        (cached as RecurringRule[]).map((r) =>
+          lastByRule.has(r.id) ? { ...r, lastPostedDate: lastByRule.get(r.id) } : r,
+        ),
+      );
+    }
+    if (isOnline()) await syncService.syncAll("recurring-autopost");
+  }
+
+  return result;
+}
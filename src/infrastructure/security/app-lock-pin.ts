@@ -0,0 +1,51 @@
+/**
+ * Infrastructure: App lock PIN hashing (WebCrypto)
+ *
+ * Purpose:
+ * - Turn the app lock PIN into a salted PBKDF2-SHA-256 hash for localStorage,
+ *   and check a PIN against it. The PIN itself is never stored.
+ *
+ * Notes:
+ * - A 4–6 digit PIN has few combinations; the hash keeps it from being read
+ *   at a glance, the unlock cooldown (domain `app-lock`) slows guessing.
+ */
+
+import type { AppLockPinHash } from '../../domain/security/app-lock'
+
+/** Iterations for PBKDF2-SHA-256; unlocking must stay quick on phones. */
+export const PIN_HASH_ITERATIONS = 100_000
+
+const SALT_BYTES = 16
+const HASH_BITS = 256
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  return bytes
+}
+
+async function derive(pin: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, [
+    'deriveBits',
+  ])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, HASH_BITS)
+  return new Uint8Array(bits)
+}
+
+/** New salted hash of `pin`. */
+export async function hashPin(pin: string, iterations: number = PIN_HASH_ITERATIONS): Promise<AppLockPinHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  return { salt: toHex(salt), hash: toHex(await derive(pin, salt, iterations)), iterations }
+}
+
+export async function verifyPin(pin: string, stored: AppLockPinHash): Promise<boolean> {
+  const hash = toHex(await derive(pin, fromHex(stored.salt), stored.iterations))
+  // Compare every character so the time taken does not depend on where they differ.
+  let diff = hash.length ^ stored.hash.length
+  for (let i = 0; i < hash.length; i++) diff |= hash.charCodeAt(i) ^ stored.hash.charCodeAt(i)
+  return diff === 0
+}
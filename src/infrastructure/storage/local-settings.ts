@@ -11,6 +11,32 @@
  * - All functions here are defensive: they never throw; they fall back to safe defaults.
  */
 
+import type { ImportPreset } from '../../domain/import/csv-import'
+import type { CategoryCorrection } from '../../domain/categorization/category-rules'
+import {
+  EMPTY_TRANSACTION_FILTER,
+  type TransactionFilter,
+  type TransactionFilterPreset,
+} from '../../domain/search/transaction-search'
+import { DEFAULT_CONFLICT_POLICY, isConflictPolicy, type ConflictPolicy } from '../../domain/sync/conflict'
+import { appendSyncRun, isSyncRunRecord, type SyncRunRecord } from '../../domain/sync/sync-history'
+import { DEFAULT_AUTO_LOCK_MINUTES, normalizeAutoLockMinutes } from '../../domain/security/offline-encryption'
+import {
+  DEFAULT_APP_LOCK_TIMEOUT_MINUTES,
+  isAppLockFailedAttempts,
+  isAppLockPinHash,
+  normalizeAppLockTimeout,
+  type AppLockFailedAttempts,
+  type AppLockPinHash,
+} from '../../domain/security/app-lock'
+import {
+  appendBudgetAlerts,
+  isBudgetAlertRecord,
+  toBudgetAlertThresholds,
+  type BudgetAlertRecord,
+  type BudgetAlertThresholds,
+} from '../../domain/budget/budget-alert'
+
 /** localStorage key: selected categories visible in Transactions page. Empty = show all. */
 export const VISIBLE_CATEGORIES_KEY = 'moneyplan_visible_categories'
 
@@ -20,6 +46,48 @@ export const MONTH_END_DAY_KEY = 'moneyplan_month_end_day'
 /** localStorage key: include carried-over balance from previous month in dashboard. true = include (default). */
 export const INCLUDE_CARRIED_OVER_KEY = 'moneyplan_include_carried_over'
 
+/** localStorage key: saved CSV import column mappings (ImportPreset[]). */
+export const IMPORT_PRESETS_KEY = 'moneyplan_import_presets'
+
+/** localStorage key: "learn from my corrections" mode for category rules. true = on (default). */
+export const LEARN_CATEGORY_RULES_KEY = 'moneyplan_learn_category_rules'
+
+/** localStorage key: recent category corrections (CategoryCorrection[]), newest last. */
+export const CATEGORY_CORRECTIONS_KEY = 'moneyplan_category_corrections'
+
+/** localStorage key: rule proposals the user dismissed (`pattern|category` strings). */
+export const DISMISSED_RULE_PROPOSALS_KEY = 'moneyplan_dismissed_rule_proposals'
+
+/** localStorage key: saved transaction search filters (TransactionFilterPreset[]). */
+export const TRANSACTION_FILTER_PRESETS_KEY = 'moneyplan_transaction_filter_presets'
+
+/** localStorage key: how sync resolves edits made on two devices (ConflictPolicy). */
+export const SYNC_CONFLICT_POLICY_KEY = 'moneyplan_sync_conflict_policy'
+
+/** localStorage key: latest sync runs on this device (SyncRunRecord[]), newest first. */
+export const SYNC_RUN_HISTORY_KEY = 'moneyplan_sync_run_history'
+
+/** localStorage key: minutes without interaction before encrypted offline data locks again. */
+export const OFFLINE_AUTO_LOCK_MINUTES_KEY = 'moneyplan_offline_auto_lock_minutes'
+
+/** localStorage key: zero-based budgeting (assign every baht of cycle income). true = on. Default false. */
+export const ZERO_BASED_BUDGETING_KEY = 'moneyplan_zero_based_budgeting'
+
+/** localStorage key: per-category budget alert thresholds (BudgetAlertThresholds). Missing category = default. */
+export const BUDGET_ALERT_THRESHOLDS_KEY = 'moneyplan_budget_alert_thresholds'
+
+/** localStorage key: budget alerts fired on this device (BudgetAlertRecord[]), newest first. */
+export const BUDGET_ALERT_LOG_KEY = 'moneyplan_budget_alert_log'
+
+/** localStorage key: salted hash of the app lock PIN (AppLockPinHash). Missing = app lock off. */
+export const APP_LOCK_PIN_KEY = 'moneyplan_app_lock_pin'
+
+/** localStorage key: minutes in the background before the app lock asks for the PIN again. */
+export const APP_LOCK_TIMEOUT_MINUTES_KEY = 'moneyplan_app_lock_timeout_minutes'
+
+/** localStorage key: wrong PINs in a row (AppLockFailedAttempts), so a reload does not reset the cooldown. */
+export const APP_LOCK_FAILED_ATTEMPTS_KEY = 'moneyplan_app_lock_failed_attempts'
+
 /**
  * Expense categories used across the app.
  * (Used for UI filters, budgets, and transaction categorization.)
@@ -167,3 +235,472 @@ export function getSalaryDay(): number {
 export function setSalaryDay(day: number): void {
   setMonthEndDay(day)
 }
+
+// ─── CSV import presets ───────────────────────────────────────────────────────
+
+function isImportPreset(value: unknown): value is ImportPreset {
+  if (!value || typeof value !== 'object') return false
+  const p = value as Partial<ImportPreset>
+  return (
+    typeof p.name === 'string' &&
+    typeof p.signature === 'string' &&
+    !!p.mapping &&
+    typeof p.mapping === 'object' &&
+    typeof p.mapping.dateColumn === 'number'
+  )
+}
+
+/**
+ * Read saved CSV import presets.
+ * - Returns [] when not set or invalid; invalid entries are dropped.
+ */
+export function getImportPresets(): ImportPreset[] {
+  if (!isBrowser()) return []
+  try {
+    const raw = localStorage.getItem(IMPORT_PRESETS_KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter(isImportPreset)
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Save (or replace) a CSV import preset.
+ * Presets are unique by header signature so the same bank layout maps to one preset.
+ */
+export function saveImportPreset(preset: ImportPreset): void {
+  if (!isBrowser()) return
+  try {
+    const others = getImportPresets().filter((p) => p.signature !== preset.signature)
+    localStorage.setItem(IMPORT_PRESETS_KEY, JSON.stringify([...others, preset]))
+  } catch (e) {
+    console.error('saveImportPreset:', e)
+  }
+}
+
+/**
+ * Remove a saved CSV import preset by header signature.
+ */
+export function deleteImportPreset(signature: string): void {
+  if (!isBrowser()) return
+  try {
+    const remaining = getImportPresets().filter((p) => p.signature !== signature)
+    localStorage.setItem(IMPORT_PRESETS_KEY, JSON.stringify(remaining))
+  } catch (e) {
+    console.error('deleteImportPreset:', e)
+  }
+}
+
+// ─── Transaction filter presets ──────────────────────────────────────────────
+
+/** Coerce a stored filter; unknown / malformed fields fall back to the defaults. */
+function toTransactionFilter(value: unknown): TransactionFilter {
+  const f = (value && typeof value === 'object' ? value : {}) as Partial<TransactionFilter>
+  const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : null)
+  const date = (v: unknown) => (typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : null)
+  return {
+    ...EMPTY_TRANSACTION_FILTER,
+    text: typeof f.text === 'string' ? f.text : '',
+    type: f.type === 'income' || f.type === 'expense' ? f.type : 'all',
+    minAmount: num(f.minAmount),
+    maxAmount: num(f.maxAmount),
+    dateFrom: date(f.dateFrom),
+    dateTo: date(f.dateTo),
+    tagIds: Array.isArray(f.tagIds) ? f.tagIds.filter((id): id is string => typeof id === 'string') : [],
+  }
+}
+
+/**
+ * Read saved transaction filters.
+ * - Returns [] when not set or invalid; entries without a name are dropped.
+ */
+export function getTransactionFilterPresets(): TransactionFilterPreset[] {
+  if (!isBrowser()) return []
+  try {
+    const raw = localStorage.getItem(TRANSACTION_FILTER_PRESETS_KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+    return parsed
+      .filter((p) => p && typeof p === 'object' && typeof p.name === 'string' && p.name.trim() !== '')
+      .map((p) => ({
+        name: String(p.name),
+        filter: toTransactionFilter(p.filter),
+        categories: Array.isArray(p.categories) ? p.categories.filter((c: unknown): c is string => typeof c === 'string') : [],
+      }))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Save (or replace) a transaction filter. Presets are unique by name.
+ */
+export function saveTransactionFilterPreset(preset: TransactionFilterPreset): void {
+  if (!isBrowser()) return
+  try {
+    const others = getTransactionFilterPresets().filter((p) => p.name !== preset.name)
+    localStorage.setItem(TRANSACTION_FILTER_PRESETS_KEY, JSON.stringify([...others, preset]))
+  } catch (e) {
+    console.error('saveTransactionFilterPreset:', e)
+  }
+}
+
+/**
+ * Remove a saved transaction filter by name.
+ */
+export function deleteTransactionFilterPreset(name: string): void {
+  if (!isBrowser()) return
+  try {
+    const remaining = getTransactionFilterPresets().filter((p) => p.name !== name)
+    localStorage.setItem(TRANSACTION_FILTER_PRESETS_KEY, JSON.stringify(remaining))
+  } catch (e) {
+    console.error('deleteTransactionFilterPreset:', e)
+  }
+}
+
+// ─── Zero-based budgeting ────────────────────────────────────────────────────
+
+/**
+ * Read the zero-based budgeting mode.
+ * - Returns false when not set (budgets are not tied to income by default).
+ */
+export function getZeroBasedBudgeting(): boolean {
+  if (!isBrowser()) return false
+  try {
+    return localStorage.getItem(ZERO_BASED_BUDGETING_KEY) === 'true'
+  } catch {
+    return false
+  }
+}
+
+export function setZeroBasedBudgeting(value: boolean): void {
+  if (!isBrowser()) return
+  try {
+    localStorage.setItem(ZERO_BASED_BUDGETING_KEY, String(value))
+  } catch (e) {
+    console.error('setZeroBasedBudgeting:', e)
+  }
+}
+
+// ─── Budget alerts ───────────────────────────────────────────────────────────
+
+/**
+ * Read the per-category alert thresholds.
+ * - Returns {} when not set or invalid (every category uses the default).
+ */
+export function getBudgetAlertThresholds(): BudgetAlertThresholds {
+  if (!isBrowser()) return {}
+  try {
+    const raw = localStorage.getItem(BUDGET_ALERT_THRESHOLDS_KEY)
+    return raw ? toBudgetAlertThresholds(JSON.parse(raw)) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Set one category's thresholds ([] = no alerts). `null` goes back to the default.
+ */
+export function setBudgetAlertThresholds(category: string, thresholds: number[] | null): void {
+  if (!isBrowser()) return
+  try {
+    const next = getBudgetAlertThresholds()
+    if (thresholds === null) delete next[category]
+    else next[category] = thresholds
+    localStorage.setItem(BUDGET_ALERT_THRESHOLDS_KEY, JSON.stringify(next))
+  } catch (e) {
+    console.error('setBudgetAlertThresholds:', e)
+  }
+}
+
+/**
+ * Read the budget alert log (newest first).
+ * - Returns [] when not set or invalid; invalid entries are dropped.
+ */
+export function getBudgetAlertLog(): BudgetAlertRecord[] {
+  if (!isBrowser()) return []
+  try {
+    const raw = localStorage.getItem(BUDGET_ALERT_LOG_KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter(isBudgetAlertRecord) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Add fired alerts to the log. Only the latest BUDGET_ALERT_LOG_LIMIT are kept.
+ */
+export function recordBudgetAlerts(records: BudgetAlertRecord[]): void {
+  if (!isBrowser()) return
+  try {
+    localStorage.setItem(BUDGET_ALERT_LOG_KEY, JSON.stringify(appendBudgetAlerts(getBudgetAlertLog(), records)))
+  } catch (e) {
+    console.error('recordBudgetAlerts:', e)
+  }
+}
+
+// ─── Category rule learning ──────────────────────────────────────────────────
+
+/** Keep the correction log small; old corrections say little about current habits. */
+const MAX_CATEGORY_CORRECTIONS = 200
+
+/**
+ * Read "learn from my corrections" mode.
+ * - Returns true if not set (default: on).
+ */
+export function getLearnCategoryRules(): boolean {
+  if (!isBrowser()) return true
+  try {
+    const raw = localStorage.getItem(LEARN_CATEGORY_RULES_KEY)
+    if (raw == null || raw === '') return true
+    return raw === 'true'
+  } catch {
+    return true
+  }
+}
+
+/**
+ * Persist "learn from my corrections" mode.
+ */
+export function setLearnCategoryRules(value: boolean): void {
+  if (!isBrowser()) return
+  try {
+    localStorage.setItem(LEARN_CATEGORY_RULES_KEY, String(value))
+  } catch (e) {
+    console.error('setLearnCategoryRules:', e)
+  }
+}
+
+/**
+ * Read recorded category corrections (oldest first).
+ * - Returns [] when not set or invalid.
+ */
+export function getCategoryCorrections(): CategoryCorrection[] {
+  if (!isBrowser()) return []
+  try {
+    const raw = localStorage.getItem(CATEGORY_CORRECTIONS_KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter(
+      (c): c is CategoryCorrection =>
+        !!c && typeof c.description === 'string' && typeof c.toCategory === 'string' && typeof c.at === 'string'
+    )
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Append a category correction (no-op when learn mode is off).
+ * Only the latest MAX_CATEGORY_CORRECTIONS are kept.
+ */
+export function recordCategoryCorrection(correction: CategoryCorrection): void {
+  if (!isBrowser() || !getLearnCategoryRules()) return
+  if (!correction.description.trim() || correction.fromCategory === correction.toCategory) return
+  try {
+    const next = [...getCategoryCorrections(), correction].slice(-MAX_CATEGORY_CORRECTIONS)
+    localStorage.setItem(CATEGORY_CORRECTIONS_KEY, JSON.stringify(next))
+  } catch (e) {
+    console.error('recordCategoryCorrection:', e)
+  }
+}
+
+/**
+ * Read dismissed rule proposals as `pattern|category` keys.
+ */
+export function getDismissedRuleProposals(): string[] {
+  if (!isBrowser()) return []
+  try {
+    const raw = localStorage.getItem(DISMISSED_RULE_PROPOSALS_KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter((k): k is string => typeof k === 'string')
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Remember that the user does not want a proposal (`pattern|category`) again.
+ */
+export function dismissRuleProposal(key: string): void {
+  if (!isBrowser()) return
+  try {
+    const current = getDismissedRuleProposals()
+    if (current.includes(key)) return
+    localStorage.setItem(DISMISSED_RULE_PROPOSALS_KEY, JSON.stringify([...current, key]))
+  } catch (e) {
+    console.error('dismissRuleProposal:', e)
+  }
+}
+
+// ─── Sync conflicts ──────────────────────────────────────────────────────────
+
+/**
+ * Read the sync conflict policy.
+ * - Returns `DEFAULT_CONFLICT_POLICY` if not set or invalid.
+ */
+export function getSyncConflictPolicy(): ConflictPolicy {
+  if (!isBrowser()) return DEFAULT_CONFLICT_POLICY
+  try {
+    const raw = localStorage.getItem(SYNC_CONFLICT_POLICY_KEY)
+    return isConflictPolicy(raw) ? raw : DEFAULT_CONFLICT_POLICY
+  } catch {
+    return DEFAULT_CONFLICT_POLICY
+  }
+}
+
+/**
+ * Persist the sync conflict policy (read by the sync on every conflict).
+ */
+export function setSyncConflictPolicy(policy: ConflictPolicy): void {
+  if (!isBrowser()) return
+  try {
+    localStorage.setItem(SYNC_CONFLICT_POLICY_KEY, policy)
+  } catch (e) {
+    console.error('setSyncConflictPolicy:', e)
+  }
+}
+
+/**
+ * Read the sync run history (newest first).
+ * - Returns [] when not set or invalid; invalid entries are dropped.
+ */
+export function getSyncRunHistory(): SyncRunRecord[] {
+  if (!isBrowser()) return []
+  try {
+    const raw = localStorage.getItem(SYNC_RUN_HISTORY_KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter(isSyncRunRecord) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Add a sync run to the history. Only the latest SYNC_HISTORY_LIMIT are kept.
+ */
+export function recordSyncRun(run: SyncRunRecord): void {
+  if (!isBrowser()) return
+  try {
+    localStorage.setItem(SYNC_RUN_HISTORY_KEY, JSON.stringify(appendSyncRun(getSyncRunHistory(), run)))
+  } catch (e) {
+    console.error('recordSyncRun:', e)
+  }
+}
+
+// ─── Offline data encryption ─────────────────────────────────────────────────
+
+/**
+ * Read the auto-lock delay (minutes) of encrypted offline data.
+ * - Returns `DEFAULT_AUTO_LOCK_MINUTES` if not set or invalid.
+ */
+export function getOfflineAutoLockMinutes(): number {
+  if (!isBrowser()) return DEFAULT_AUTO_LOCK_MINUTES
+  try {
+    return normalizeAutoLockMinutes(localStorage.getItem(OFFLINE_AUTO_LOCK_MINUTES_KEY))
+  } catch {
+    return DEFAULT_AUTO_LOCK_MINUTES
+  }
+}
+
+export function setOfflineAutoLockMinutes(minutes: number): void {
+  if (!isBrowser()) return
+  try {
+    localStorage.setItem(OFFLINE_AUTO_LOCK_MINUTES_KEY, String(normalizeAutoLockMinutes(minutes)))
+  } catch (e) {
+    console.error('setOfflineAutoLockMinutes:', e)
+  }
+}
+
+// ─── App lock ────────────────────────────────────────────────────────────────
+
+/**
+ * Read the app lock PIN hash.
+ * - Returns null when the app lock is off (or the stored value is invalid).
+ */
+export function getAppLockPin(): AppLockPinHash | null {
+  if (!isBrowser()) return null
+  try {
+    const raw = localStorage.getItem(APP_LOCK_PIN_KEY)
+    if (!raw) return null
+    const parsed: unknown = JSON.parse(raw)
+    return isAppLockPinHash(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Persist the app lock PIN hash; null turns the app lock off.
+ */
+export function setAppLockPin(pin: AppLockPinHash | null): void {
+  if (!isBrowser()) return
+  try {
+    if (pin) localStorage.setItem(APP_LOCK_PIN_KEY, JSON.stringify(pin))
+    else localStorage.removeItem(APP_LOCK_PIN_KEY)
+  } catch (e) {
+    console.error('setAppLockPin:', e)
+  }
+}
+
+/**
+ * Read the app lock timeout (minutes in the background, 0 = immediately).
+ * - Returns `DEFAULT_APP_LOCK_TIMEOUT_MINUTES` if not set or invalid.
+ */
+export function getAppLockTimeoutMinutes(): number {
+  if (!isBrowser()) return DEFAULT_APP_LOCK_TIMEOUT_MINUTES
+  try {
+    return normalizeAppLockTimeout(localStorage.getItem(APP_LOCK_TIMEOUT_MINUTES_KEY))
+  } catch {
+    return DEFAULT_APP_LOCK_TIMEOUT_MINUTES
+  }
+}
+
+export function setAppLockTimeoutMinutes(minutes: number): void {
+  if (!isBrowser()) return
+  try {
+    localStorage.setItem(APP_LOCK_TIMEOUT_MINUTES_KEY, String(normalizeAppLockTimeout(minutes)))
+  } catch (e) {
+    console.error('setAppLockTimeoutMinutes:', e)
+  }
+}
+
+/**
+ * Read the wrong PINs entered in a row.
+ * - Returns no attempts if not set or invalid.
+ */
+export function getAppLockFailedAttempts(): AppLockFailedAttempts {
+  const none: AppLockFailedAttempts = { attempts: 0, lastAt: null }
+  if (!isBrowser()) return none
+  try {
+    const raw = localStorage.getItem(APP_LOCK_FAILED_ATTEMPTS_KEY)
+    if (!raw) return none
+    const parsed: unknown = JSON.parse(raw)
+    return isAppLockFailedAttempts(parsed) ? parsed : none
+  } catch {
+    return none
+  }
+}
+
+/**
+ * Persist the wrong PINs entered in a row; null clears them (after a successful unlock).
+ */
+export function setAppLockFailedAttempts(failed: AppLockFailedAttempts | null): void {
+  if (!isBrowser()) return
+  try {
+    if (failed) localStorage.setItem(APP_LOCK_FAILED_ATTEMPTS_KEY, JSON.stringify(failed))
+    else localStorage.removeItem(APP_LOCK_FAILED_ATTEMPTS_KEY)
+  } catch (e) {
+    console.error('setAppLockFailedAttempts:', e)
+  }
+}
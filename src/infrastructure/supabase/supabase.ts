@@ -1,5 +1,22 @@
 import { createClient } from '@supabase/supabase-js'
-import { normalizeCategoryName, getLegacyCategoryNames } from '../../domain/finance/finance'
+import { normalizeCategoryName } from '../../domain/finance/finance'
+import {
+  INITIAL_BUDGET_CYCLE_START,
+  type BudgetHistory,
+  type BudgetMap,
+  type CycleBudgetSet,
+} from '../../domain/budget/budget-history'
+import { isRolloverMode, type RolloverRule, type RolloverRules } from '../../domain/budget/envelope'
+import { isAccountKind, type Account, type AccountKind } from '../../domain/account/account'
+import {
+  isRecurrenceFrequency,
+  type RecurrenceFrequency,
+  type RecurringRule,
+} from '../../domain/recurring/recurring'
+import type { CategoryRule, CategoryRuleMatchType } from '../../domain/categorization/category-rules'
+import type { TransactionSplit } from '../../domain/split/split'
+import { hasCategoryFilter, type TransactionSearchQuery } from '../../domain/search/transaction-search'
+import { normalizeTagName } from '../../domain/tag/tag'
 
 /**
  * Infrastructure: Supabase client + thin data-access helpers.
@@ -42,6 +59,28 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   },
 })
 
+/**
+ * Client that acts as the user of `accessToken`, without session handling
+ * (no storage, no refresh). For the service worker, which has no
+ * localStorage and must not rotate the page's refresh token.
+ */
+export function createAccessTokenClient(accessToken: string) {
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    db: { schema: 'public' },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+    global: {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'x-client-info': 'moneyplan-ai-sw',
+      },
+    },
+  })
+}
+
 /**
  * Data shapes used by the current app.
  * (Later we can map these to domain models via mappers in application/presentation.)
@@ -67,11 +106,22 @@ export type TransactionRow = {
   id: string
   user_id: string
   created_at: string
-  type: 'income' | 'expense'
+  type: 'income' | 'expense' | 'transfer'
   amount: number
   category?: string
   description?: string
   date: string
+  /** NULL = not assigned to an account (rows created before migration 008) */
+  account_id?: string | null
+  /** Set on both legs of a transfer (migration 009); NULL otherwise. */
+  transfer_id?: string | null
+  transfer_direction?: 'out' | 'in' | null
+  /** Recurring rule this row was posted from (migration 010); NULL otherwise. */
+  recurring_id?: string | null
+  /** Split lines `{ category, amount }` summing to `amount` (migration 012); NULL = not split. */
+  splits?: TransactionSplit[] | null
+  /** Set by the server on every write (migration 015); used to detect sync conflicts. */
+  updated_at?: string
 }
 
 export type ForecastRow = {
@@ -88,6 +138,8 @@ export type CategoryBudgetRow = {
   user_id: string
   category: string
   budget: number
+  /** `YYYY-MM-DD` cycle the budget applies from (see domain `budget-history`). */
+  cycle_start: string
   updated_at?: string
 }
 
@@ -117,69 +169,319 @@ export type DebtItemRow = {
   updated_at?: string
 }
 
-/** Load per-category monthly budgets (บาท) for the user. Keys are normalized to canonical names so they match transaction categories and calculations are correct. */
-export async function fetchCategoryBudgets(userId: string): Promise<Record<string, number>> {
+export type AccountRow = {
+  id: string
+  user_id: string
+  name: string
+  kind: AccountKind
+  opening_balance: number
+  sort_order: number
+  is_archived: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export type RecurringRuleRow = {
+  id: string
+  user_id: string
+  type: 'income' | 'expense'
+  amount: number
+  category: string | null
+  description: string | null
+  account_id: string | null
+  frequency: RecurrenceFrequency
+  day_of_month: number | null
+  day_of_week: number | null
+  month_of_year: number | null
+  /** `YYYY-MM-DD` */
+  start_date: string
+  end_date: string | null
+  auto_post: boolean
+  last_posted_date: string | null
+  is_active: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export type RecurringRuleInput = {
+  type: 'income' | 'expense'
+  amount: number
+  category?: string | null
+  description?: string | null
+  account_id?: string | null
+  frequency: RecurrenceFrequency
+  day_of_month?: number | null
+  day_of_week?: number | null
+  month_of_year?: number | null
+  start_date: string
+  end_date?: string | null
+  auto_post?: boolean
+}
+
+export type CategoryRuleRow = {
+  id: string
+  user_id: string
+  match_type: CategoryRuleMatchType
+  pattern: string | null
+  min_amount: number | null
+  max_amount: number | null
+  account_id: string | null
+  transaction_type: 'income' | 'expense' | null
+  category: string
+  priority: number
+  source: 'manual' | 'learned'
+  is_active: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export type CategoryRuleInput = {
+  match_type: CategoryRuleMatchType
+  pattern?: string | null
+  min_amount?: number | null
+  max_amount?: number | null
+  account_id?: string | null
+  transaction_type?: 'income' | 'expense' | null
+  category: string
+  priority?: number
+  source?: 'manual' | 'learned'
+}
+
+export type TagRow = {
+  id: string
+  user_id: string
+  /** Normalized (see `normalizeTagName`). */
+  name: string
+  created_at?: string
+}
+
+export type TransactionTagLink = {
+  transaction_id: string
+  tag_id: string
+}
+
+/** Row from public.receipts (migration 014). Paths are in the `receipts` bucket. */
+export type ReceiptRow = {
+  id: string
+  user_id: string
+  transaction_id: string
+  path: string
+  thumb_path: string | null
+  content_type: string
+  size_bytes: number
+  created_at?: string
+}
+
+/**
+ * Load the user's per-cycle category budgets (บาท). Keys are normalized to canonical
+ * names so they match transaction categories and calculations are correct.
+ */
+export async function fetchCategoryBudgets(userId: string): Promise<BudgetHistory> {
+  // `*`: rows from before migration 016 have no `cycle_start` column.
   const { data, error } = await supabase
     .from('category_budgets')
-    .select('category, budget')
+    .select('*')
     .eq('user_id', userId)
 
   if (error) {
     console.error('fetchCategoryBudgets:', error)
     return {}
   }
+  return toBudgetHistory(data || [])
+}
 
-  const result: Record<string, number> = {}
-  for (const row of data || []) {
-    const n = Number((row as any).budget)
-    const category = String((row as any).category ?? '').trim()
-    if (category && !Number.isNaN(n) && n >= 0) {
+/**
+ * Category of the row marking that a cycle has its own budget set (migration
+ * 018), so a set left empty is stored too and the cycle does not inherit an
+ * earlier one. Not a budget.
+ */
+const BUDGET_SET_MARKER_CATEGORY = ''
+
+/**
+ * `category_budgets` rows as cycle start → (category → budget), keyed by canonical
+ * category name. Rows without `cycle_start` are the initial budgets.
+ */
+export function toBudgetHistory(
+  rows: ReadonlyArray<{ category?: unknown; budget?: unknown; cycle_start?: unknown }>
+): BudgetHistory {
+  const result: BudgetHistory = {}
+  for (const row of rows) {
+    const n = Number(row.budget)
+    const category = String(row.category ?? '').trim()
+    const cycleStart =
+      typeof row.cycle_start === 'string' && row.cycle_start ? row.cycle_start.slice(0, 10) : INITIAL_BUDGET_CYCLE_START
+    if (category === BUDGET_SET_MARKER_CATEGORY) {
+      result[cycleStart] ??= {}
+    } else if (!Number.isNaN(n) && n >= 0) {
       const canonical = normalizeCategoryName(category)
-      result[canonical] = (result[canonical] ?? 0) + n
+      const budgets = (result[cycleStart] ??= {})
+      budgets[canonical] = (budgets[canonical] ?? 0) + n
     }
   }
   return result
 }
 
-/**
- * Save per-category monthly budgets (upsert by user_id + category).
- * Returns `{ error }` to match the existing code’s calling style.
- */
-export async function saveCategoryBudgets(
+/** Rows that store `budgets` as the set of one cycle: one per canonical category, plus the set marker. */
+export function toCategoryBudgetRows(
   userId: string,
-  budgets: Record<string, number>
-): Promise<{ error: Error | null }> {
-  const canonicalMap: Record<string, number> = {}
+  cycleStart: string,
+  budgets: BudgetMap
+): { user_id: string; category: string; cycle_start: string; budget: number }[] {
+  const canonicalMap: BudgetMap = {}
   for (const [category, budget] of Object.entries(budgets)) {
     const canonical = normalizeCategoryName(category.trim())
     canonicalMap[canonical] = (canonicalMap[canonical] ?? 0) + (Number(budget) || 0)
   }
-  const rows = Object.entries(canonicalMap).map(([category, budget]) => ({
-    user_id: userId,
-    category,
-    budget: Number(budget) || 0,
-    updated_at: new Date().toISOString(),
-  }))
+  return [
+    ...Object.entries(canonicalMap).map(([category, budget]) => ({
+      user_id: userId,
+      category,
+      cycle_start: cycleStart,
+      budget,
+    })),
+    { user_id: userId, category: BUDGET_SET_MARKER_CATEGORY, cycle_start: cycleStart, budget: 0 },
+  ]
+}
 
-  const { error } = await supabase.from('category_budgets').upsert(rows, {
-    onConflict: 'user_id,category',
+/**
+ * Save the category budgets of one cycle. `budgets` is the cycle's whole set
+ * (possibly empty): its other rows (categories left out, legacy names of the
+ * saved ones) are deleted, in one database transaction (`replace_cycle_budget_set`,
+ * migration 018).
+ * Returns `{ error }` to match the existing code’s calling style.
+ */
+export async function saveCategoryBudgets(
+  userId: string,
+  cycleStart: string,
+  budgets: BudgetMap
+): Promise<{ error: Error | null }> {
+  const rows = toCategoryBudgetRows(userId, cycleStart, budgets)
+  const { error } = await supabase.rpc('replace_cycle_budget_set', {
+    p_cycle_start: cycleStart,
+    p_budgets: Object.fromEntries(
+      rows.filter((r) => r.category !== BUDGET_SET_MARKER_CATEGORY).map((r) => [r.category, r.budget])
+    ),
   })
+  if (!error) return { error: null }
+  if ((error as { code?: string }).code !== 'PGRST202') {
+    console.error('saveCategoryBudgets:', error)
+    return { error }
+  }
+  // Function not created yet (migration 018 not run): the same steps as separate requests.
+  return replaceCycleBudgetRows(userId, cycleStart, rows)
+}
 
+async function replaceCycleBudgetRows(
+  userId: string,
+  cycleStart: string,
+  rows: ReturnType<typeof toCategoryBudgetRows>
+): Promise<{ error: Error | null }> {
+  const { error } = await supabase.from('category_budgets').upsert(
+    rows.map((row) => ({ ...row, updated_at: new Date().toISOString() })),
+    { onConflict: 'user_id,category,cycle_start' }
+  )
   if (error) {
     console.error('saveCategoryBudgets:', error)
     return { error }
   }
 
-  const canonicalKeys = new Set(Object.keys(canonicalMap))
-  for (const legacyName of getLegacyCategoryNames()) {
-    if (canonicalKeys.has(normalizeCategoryName(legacyName))) {
-      await supabase.from('category_budgets').delete().eq('user_id', userId).eq('category', legacyName)
+  const { data: stored, error: readError } = await supabase
+    .from('category_budgets')
+    .select('category')
+    .eq('user_id', userId)
+    .eq('cycle_start', cycleStart)
+  if (readError) {
+    console.error('saveCategoryBudgets:', readError)
+    return { error: readError }
+  }
+
+  const kept = new Set(rows.map((row) => row.category))
+  const stale = ((stored || []) as { category: string }[])
+    .map((row) => row.category)
+    .filter((category) => !kept.has(category))
+  if (stale.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('category_budgets')
+      .delete()
+      .eq('user_id', userId)
+      .eq('cycle_start', cycleStart)
+      .in('category', stale)
+    if (deleteError) {
+      console.error('saveCategoryBudgets:', deleteError)
+      return { error: deleteError }
     }
   }
 
   return { error: null }
 }
 
+/** Save several cycles' budget sets (an edit, "copy last cycle", "roll forward"); each replaces its cycle's set. */
+export async function saveCycleBudgetSets(
+  userId: string,
+  sets: readonly CycleBudgetSet[]
+): Promise<{ error: Error | null }> {
+  for (const set of sets) {
+    const { error } = await saveCategoryBudgets(userId, set.cycleStart, set.budgets)
+    if (error) return { error }
+  }
+  return { error: null }
+}
+
+/**
+ * Load the user's per-category rollover rules (migrations 017, 019), keyed by canonical
+ * category name. Returns {} when the table does not exist yet (every category resets).
+ */
+export async function fetchCategoryRolloverRules(userId: string): Promise<RolloverRules> {
+  // `*`: rules from before migration 019 have no `effective_from` column.
+  const { data, error } = await supabase
+    .from('category_rollover_rules')
+    .select('*')
+    .eq('user_id', userId)
+  if (error) {
+    const code = (error as { code?: string } | null)?.code
+    if (code !== '42P01') console.error('fetchCategoryRolloverRules:', error)
+    return {}
+  }
+  const rules: RolloverRules = {}
+  for (const row of (data || []) as { category?: unknown; mode?: unknown; cap?: unknown; effective_from?: unknown }[]) {
+    const category = String(row.category ?? '').trim()
+    if (!category || !isRolloverMode(row.mode)) continue
+    rules[normalizeCategoryName(category)] = {
+      mode: row.mode,
+      cap: row.cap != null ? Number(row.cap) : null,
+      effectiveFrom: typeof row.effective_from === 'string' && row.effective_from ? row.effective_from.slice(0, 10) : null,
+    }
+  }
+  return rules
+}
+
+/** Save one category's rollover rule (upsert by user_id + category). */
+export async function saveCategoryRolloverRule(
+  userId: string,
+  category: string,
+  rule: RolloverRule
+): Promise<{ error: Error | null }> {
+  const row = {
+    user_id: userId,
+    category: normalizeCategoryName(category.trim()),
+    mode: rule.mode,
+    cap: rule.mode === 'cap' ? Math.max(0, Number(rule.cap) || 0) : null,
+    updated_at: new Date().toISOString(),
+  }
+  let { error } = await supabase
+    .from('category_rollover_rules')
+    .upsert({ ...row, effective_from: rule.effectiveFrom ?? null }, { onConflict: 'user_id,category' })
+  // Column not created yet (migration 019 not run): save the rule without its start.
+  if ((error as { code?: string } | null)?.code === 'PGRST204') {
+    ;({ error } = await supabase.from('category_rollover_rules').upsert(row, { onConflict: 'user_id,category' }))
+  }
+  if (error) {
+    console.error('saveCategoryRolloverRule:', error)
+    return { error }
+  }
+  return { error: null }
+}
+
 /**
  * Load the user's effective expense-category list.
  *
@@ -190,7 +492,7 @@ export async function saveCategoryBudgets(
  *
  * If the table does not exist yet (migration 007 not applied), returns null
  * so callers can fall back to a hardcoded default list and keep the app
- * working through the rollout window.
+ * working through the rollout window. Other errors (e.g. network) throw.
  */
 export async function fetchExpenseCategories(
   userId: string
@@ -210,7 +512,7 @@ export async function fetchExpenseCategories(
       return null
     }
     console.error('fetchExpenseCategories:', error)
-    return null
+    throw error
   }
 
   const byName = new Map<string, ExpenseCategoryRow>()
@@ -303,3 +605,577 @@ export async function deleteDebtItem(id: string): Promise<{ error: Error | null
   }
   return { error: null }
 }
+
+/**
+ * Load the user's accounts (wallets), ordered by sort_order then creation.
+ * Returns [] when the table does not exist yet (migration 008 not applied) so
+ * the app keeps treating everything as one blended balance.
+ */
+export async function fetchAccounts(userId: string): Promise<AccountRow[]> {
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true })
+  if (error) {
+    const code = (error as { code?: string } | null)?.code
+    if (code !== '42P01') console.error('fetchAccounts:', error)
+    return []
+  }
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    user_id: row.user_id,
+    name: String(row.name ?? ''),
+    kind: isAccountKind(row.kind) ? row.kind : 'cash',
+    opening_balance: Number(row.opening_balance) || 0,
+    sort_order: Number(row.sort_order) || 0,
+    is_archived: Boolean(row.is_archived),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }))
+}
+
+export async function insertAccount(
+  userId: string,
+  item: { name: string; kind: AccountKind; opening_balance?: number }
+): Promise<AccountRow | null> {
+  const existing = await fetchAccounts(userId)
+  const { data, error } = await supabase
+    .from('accounts')
+    .insert({
+      user_id: userId,
+      name: item.name.trim(),
+      kind: item.kind,
+      opening_balance: Number(item.opening_balance) || 0,
+      sort_order: existing.length,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single()
+  if (error) {
+    console.error('insertAccount:', error)
+    return null
+  }
+  return data as AccountRow
+}
+
+export async function updateAccount(
+  id: string,
+  updates: { name?: string; kind?: AccountKind; opening_balance?: number; is_archived?: boolean }
+): Promise<{ error: Error | null }> {
+  const row: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (updates.name !== undefined) row.name = updates.name.trim()
+  if (updates.kind !== undefined) row.kind = updates.kind
+  if (updates.opening_balance !== undefined) row.opening_balance = updates.opening_balance
+  if (updates.is_archived !== undefined) row.is_archived = updates.is_archived
+  const { error } = await supabase.from('accounts').update(row).eq('id', id)
+  if (error) {
+    console.error('updateAccount:', error)
+    return { error }
+  }
+  return { error: null }
+}
+
+export async function deleteAccount(id: string): Promise<{ error: Error | null }> {
+  const { error } = await supabase.from('accounts').delete().eq('id', id)
+  if (error) {
+    console.error('deleteAccount:', error)
+    return { error }
+  }
+  return { error: null }
+}
+
+/** Map DB rows to the domain `Account` shape used by balance calculations. */
+export function toDomainAccounts(rows: AccountRow[]): Account[] {
+  return rows.map((r) => ({
+    id: r.id,
+    name: r.name,
+    kind: r.kind,
+    openingBalance: Number(r.opening_balance) || 0,
+    isArchived: r.is_archived,
+  }))
+}
+
+/**
+ * Load the user's recurring rules (migration 010).
+ * Returns [] when the table does not exist yet so forecasts fall back to the
+ * median-history heuristic.
+ */
+export async function fetchRecurringRules(userId: string): Promise<RecurringRuleRow[]> {
+  const { data, error } = await supabase
+    .from('recurring_transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+  if (error) {
+    const code = (error as { code?: string } | null)?.code
+    if (code !== '42P01') console.error('fetchRecurringRules:', error)
+    return []
+  }
+  return (data || [])
+    .filter((row: any) => isRecurrenceFrequency(row.frequency))
+    .map((row: any) => ({
+      id: row.id,
+      user_id: row.user_id,
+      type: row.type === 'income' ? 'income' : 'expense',
+      amount: Number(row.amount) || 0,
+      category: row.category ?? null,
+      description: row.description ?? null,
+      account_id: row.account_id ?? null,
+      frequency: row.frequency,
+      day_of_month: row.day_of_month ?? null,
+      day_of_week: row.day_of_week ?? null,
+      month_of_year: row.month_of_year ?? null,
+      start_date: String(row.start_date),
+      end_date: row.end_date ?? null,
+      auto_post: Boolean(row.auto_post),
+      last_posted_date: row.last_posted_date ?? null,
+      is_active: row.is_active ?? true,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    }))
+}
+
+export async function insertRecurringRule(
+  userId: string,
+  item: RecurringRuleInput
+): Promise<RecurringRuleRow | null> {
+  const { data, error } = await supabase
+    .from('recurring_transactions')
+    .insert({
+      user_id: userId,
+      ...item,
+      category: item.category?.trim() || null,
+      description: item.description?.trim() || null,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single()
+  if (error) {
+    console.error('insertRecurringRule:', error)
+    return null
+  }
+  return data as RecurringRuleRow
+}
+
+export async function updateRecurringRule(
+  id: string,
+  updates: Partial<RecurringRuleInput> & { is_active?: boolean; last_posted_date?: string | null }
+): Promise<{ error: Error | null }> {
+  const { error } = await supabase
+    .from('recurring_transactions')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+  if (error) {
+    console.error('updateRecurringRule:', error)
+    return { error }
+  }
+  return { error: null }
+}
+
+export async function deleteRecurringRule(id: string): Promise<{ error: Error | null }> {
+  const { error } = await supabase.from('recurring_transactions').delete().eq('id', id)
+  if (error) {
+    console.error('deleteRecurringRule:', error)
+    return { error }
+  }
+  return { error: null }
+}
+
+/** Map DB rows to the domain `RecurringRule` shape used by the recurrence engine. */
+export function toDomainRecurringRules(rows: RecurringRuleRow[]): RecurringRule[] {
+  return rows.map((r) => ({
+    id: r.id,
+    type: r.type,
+    amount: Number(r.amount) || 0,
+    category: r.category,
+    description: r.description,
+    accountId: r.account_id,
+    frequency: r.frequency,
+    dayOfMonth: r.day_of_month,
+    dayOfWeek: r.day_of_week,
+    monthOfYear: r.month_of_year,
+    startDate: r.start_date,
+    endDate: r.end_date,
+    autoPost: r.auto_post,
+    lastPostedDate: r.last_posted_date,
+    isActive: r.is_active,
+  }))
+}
+
+/**
+ * Load the user's category rules (migration 011), in evaluation order.
+ * Returns [] when the table does not exist yet so entry/import simply skip
+ * auto-categorization.
+ */
+export async function fetchCategoryRules(userId: string): Promise<CategoryRuleRow[]> {
+  const { data, error } = await supabase
+    .from('category_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true })
+  if (error) {
+    const code = (error as { code?: string } | null)?.code
+    if (code !== '42P01') console.error('fetchCategoryRules:', error)
+    return []
+  }
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    user_id: row.user_id,
+    match_type: row.match_type === 'regex' ? 'regex' : 'contains',
+    pattern: row.pattern ?? null,
+    min_amount: row.min_amount != null ? Number(row.min_amount) : null,
+    max_amount: row.max_amount != null ? Number(row.max_amount) : null,
+    account_id: row.account_id ?? null,
+    transaction_type: row.transaction_type === 'income' || row.transaction_type === 'expense' ? row.transaction_type : null,
+    category: String(row.category ?? ''),
+    priority: Number(row.priority) || 0,
+    source: row.source === 'learned' ? 'learned' : 'manual',
+    is_active: row.is_active ?? true,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }))
+}
+
+export async function insertCategoryRule(
+  userId: string,
+  item: CategoryRuleInput
+): Promise<CategoryRuleRow | null> {
+  const { data, error } = await supabase
+    .from('category_rules')
+    .insert({
+      user_id: userId,
+      ...item,
+      pattern: item.pattern?.trim() || null,
+      category: normalizeCategoryName(item.category),
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single()
+  if (error) {
+    console.error('insertCategoryRule:', error)
+    return null
+  }
+  return data as CategoryRuleRow
+}
+
+export async function updateCategoryRule(
+  id: string,
+  updates: Partial<CategoryRuleInput> & { is_active?: boolean }
+): Promise<{ error: Error | null }> {
+  const { error } = await supabase
+    .from('category_rules')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+  if (error) {
+    console.error('updateCategoryRule:', error)
+    return { error }
+  }
+  return { error: null }
+}
+
+export async function deleteCategoryRule(id: string): Promise<{ error: Error | null }> {
+  const { error } = await supabase.from('category_rules').delete().eq('id', id)
+  if (error) {
+    console.error('deleteCategoryRule:', error)
+    return { error }
+  }
+  return { error: null }
+}
+
+/** Map DB rows to the domain `CategoryRule` shape used by the categorization engine. */
+export function toDomainCategoryRules(rows: CategoryRuleRow[]): CategoryRule[] {
+  return rows.map((r) => ({
+    id: r.id,
+    matchType: r.match_type,
+    pattern: r.pattern,
+    minAmount: r.min_amount,
+    maxAmount: r.max_amount,
+    accountId: r.account_id,
+    transactionType: r.transaction_type,
+    category: r.category,
+    priority: r.priority,
+    isActive: r.is_active,
+  }))
+}
+
+/**
+ * Quote a value for a PostgREST `or(...)` filter. Values may contain commas,
+ * dots or parentheses (e.g. 'มือถือ (AIS)'), which would otherwise split the filter.
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/**
+ * One page of the transactions list, filtered server-side (newest first).
+ *
+ * Mirrors `matchesTransactionSearch`, with one approximation: the
+ * "uncategorized" chip only looks at the row's own category, not split lines.
+ * `knownCategories` decides which categories count as "uncategorized".
+ * A tag filter inner-joins `transaction_tags` (migration 013). Throws on error.
+ */
+export async function searchTransactions(
+  userId: string,
+  query: TransactionSearchQuery,
+  knownCategories: readonly string[],
+  page: { offset: number; limit: number }
+): Promise<{ rows: TransactionRow[]; total: number }> {
+  const byTag = query.tagIds.length > 0
+  let request = supabase
+    .from('transactions')
+    .select(byTag ? '*, transaction_tags!inner(tag_id)' : '*', { count: 'exact' })
+    .eq('user_id', userId)
+
+  if (byTag) request = request.in('transaction_tags.tag_id', query.tagIds)
+
+  if (query.dateFrom) request = request.gte('date', query.dateFrom)
+  if (query.dateTo) request = request.lte('date', query.dateTo)
+  if (query.minAmount != null) request = request.gte('amount', query.minAmount)
+  if (query.maxAmount != null) request = request.lte('amount', query.maxAmount)
+
+  if (query.type !== 'all') request = request.eq('type', query.type)
+  else if (hasCategoryFilter(query)) request = request.neq('type', 'transfer')
+  // A transfer is two legs; list it once (outgoing leg).
+  else request = request.or('transfer_direction.is.null,transfer_direction.neq.in')
+
+  if (hasCategoryFilter(query)) {
+    const clauses: string[] = []
+    if (query.categories.length > 0) {
+      clauses.push(`category.in.(${query.categories.map(quoteFilterValue).join(',')})`)
+      for (const category of query.categories) {
+        clauses.push(`splits.cs.${quoteFilterValue(JSON.stringify([{ category }]))}`)
+      }
+    }
+    if (query.includeUncategorized) {
+      clauses.push('category.is.null', 'category.eq.""')
+      if (knownCategories.length > 0) {
+        clauses.push(`category.not.in.(${knownCategories.map(quoteFilterValue).join(',')})`)
+      }
+    }
+    request = request.or(clauses.join(','))
+  }
+
+  if (query.text) {
+    // LIKE wildcards and filter syntax characters become single-character wildcards.
+    const pattern = quoteFilterValue(`*${query.text.replace(/[%_*\\",()]/g, '_')}*`)
+    request = request.or(`description.ilike.${pattern},category.ilike.${pattern}`)
+  }
+
+  const { data, error, count } = await request
+    .order('date', { ascending: false })
+    .order('created_at', { ascending: false })
+    .range(page.offset, page.offset + page.limit - 1)
+  if (error) {
+    console.error('searchTransactions:', error)
+    throw error
+  }
+  const rows = ((data || []) as any[]).map(({ transaction_tags: _links, ...row }) => row as TransactionRow)
+  return { rows, total: count ?? 0 }
+}
+
+/** Both legs of the given transfers (to show "from → to" for a paged list). */
+export async function fetchTransferLegs(userId: string, transferIds: string[]): Promise<TransactionRow[]> {
+  if (transferIds.length === 0) return []
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .in('transfer_id', transferIds)
+  if (error) {
+    console.error('fetchTransferLegs:', error)
+    return []
+  }
+  return (data || []) as TransactionRow[]
+}
+
+/**
+ * Server id of a row created on this device, found by the `created_at` the
+ * sync sends when it inserts the queued row. Null until that row has synced.
+ */
+export async function fetchTransactionIdByCreatedAt(userId: string, createdAt: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('created_at', createdAt)
+    .limit(1)
+  if (error) {
+    console.error('fetchTransactionIdByCreatedAt:', error)
+    return null
+  }
+  return ((data || [])[0]?.id as string | undefined) ?? null
+}
+
+// ─── Tags (migration 013) ────────────────────────────────────────────────────
+
+/** Load the user's tags by name. Returns [] when the table does not exist yet. */
+export async function fetchTags(userId: string): Promise<TagRow[]> {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true })
+  if (error) {
+    const code = (error as { code?: string } | null)?.code
+    if (code !== '42P01') console.error('fetchTags:', error)
+    return []
+  }
+  return (data || []) as TagRow[]
+}
+
+export async function insertTag(userId: string, name: string): Promise<TagRow | null> {
+  const { data, error } = await supabase
+    .from('tags')
+    .insert({ user_id: userId, name: normalizeTagName(name) })
+    .select()
+    .single()
+  if (error) {
+    console.error('insertTag:', error)
+    return null
+  }
+  return data as TagRow
+}
+
+export async function updateTag(id: string, name: string): Promise<{ error: Error | null }> {
+  const { error } = await supabase.from('tags').update({ name: normalizeTagName(name) }).eq('id', id)
+  if (error) {
+    console.error('updateTag:', error)
+    return { error }
+  }
+  return { error: null }
+}
+
+/** Deleting a tag removes its links too (ON DELETE CASCADE); transactions stay. */
+export async function deleteTag(id: string): Promise<{ error: Error | null }> {
+  const { error } = await supabase.from('tags').delete().eq('id', id)
+  if (error) {
+    console.error('deleteTag:', error)
+    return { error }
+  }
+  return { error: null }
+}
+
+/** Tag links for the given transactions. [] when the table does not exist yet. */
+export async function fetchTransactionTagLinks(userId: string, transactionIds: string[]): Promise<TransactionTagLink[]> {
+  if (transactionIds.length === 0) return []
+  const { data, error } = await supabase
+    .from('transaction_tags')
+    .select('transaction_id, tag_id')
+    .eq('user_id', userId)
+    .in('transaction_id', transactionIds)
+  if (error) {
+    const code = (error as { code?: string } | null)?.code
+    if (code !== '42P01') console.error('fetchTransactionTagLinks:', error)
+    return []
+  }
+  return (data || []) as TransactionTagLink[]
+}
+
+/** Replace a transaction's tags with `tagIds`. */
+export async function setTransactionTags(
+  userId: string,
+  transactionId: string,
+  tagIds: string[]
+): Promise<{ error: Error | null }> {
+  const { error: deleteError } = await supabase
+    .from('transaction_tags')
+    .delete()
+    .eq('transaction_id', transactionId)
+  if (deleteError) {
+    console.error('setTransactionTags:', deleteError)
+    return { error: deleteError }
+  }
+  if (tagIds.length === 0) return { error: null }
+  const { error } = await supabase
+    .from('transaction_tags')
+    .insert(tagIds.map((tag_id) => ({ user_id: userId, transaction_id: transactionId, tag_id })))
+  if (error) {
+    console.error('setTransactionTags:', error)
+    return { error }
+  }
+  return { error: null }
+}
+
+/**
+ * Every transaction that carries at least one tag, with `tag_ids` attached
+ * (for the tag report). `range` bounds are `YYYY-MM-DD`; null = all time.
+ */
+export async function fetchTaggedTransactions(
+  userId: string,
+  range: { start: string; end: string } | null
+): Promise<(TransactionRow & { tag_ids: string[] })[]> {
+  let request = supabase
+    .from('transactions')
+    .select('*, transaction_tags!inner(tag_id)')
+    .eq('user_id', userId)
+  if (range) request = request.gte('date', range.start).lte('date', range.end)
+  const { data, error } = await request.order('date', { ascending: false })
+  if (error) {
+    const code = (error as { code?: string } | null)?.code
+    if (code !== '42P01' && code !== 'PGRST200') console.error('fetchTaggedTransactions:', error)
+    return []
+  }
+  return ((data || []) as any[]).map(({ transaction_tags: links, ...row }) => ({
+    ...(row as TransactionRow),
+    tag_ids: ((links || []) as { tag_id: string }[]).map((l) => l.tag_id),
+  }))
+}
+
+// ─── Receipts (migration 014) ────────────────────────────────────────────────
+// Uploads happen in the sync adapter (photos are queued in IndexedDB first).
+
+const RECEIPTS_BUCKET = 'receipts'
+
+/** Receipt metadata for the given transactions, oldest first. [] when the table does not exist yet. */
+export async function fetchReceipts(userId: string, transactionIds: string[]): Promise<ReceiptRow[]> {
+  if (transactionIds.length === 0) return []
+  const { data, error } = await supabase
+    .from('receipts')
+    .select('*')
+    .eq('user_id', userId)
+    .in('transaction_id', transactionIds)
+    .order('created_at', { ascending: true })
+  if (error) {
+    const code = (error as { code?: string } | null)?.code
+    if (code !== '42P01') console.error('fetchReceipts:', error)
+    return []
+  }
+  return (data || []) as ReceiptRow[]
+}
+
+/** Short-lived signed URLs (path → url) for files in the private bucket. */
+export async function createReceiptUrls(paths: string[], expiresInSeconds = 60 * 60): Promise<Record<string, string>> {
+  if (paths.length === 0) return {}
+  const { data, error } = await supabase.storage.from(RECEIPTS_BUCKET).createSignedUrls(paths, expiresInSeconds)
+  if (error) {
+    console.error('createReceiptUrls:', error)
+    return {}
+  }
+  const out: Record<string, string> = {}
+  for (const item of data || []) {
+    if (item.path && item.signedUrl) out[item.path] = item.signedUrl
+  }
+  return out
+}
+
+function receiptFilePaths(rows: ReceiptRow[]): string[] {
+  return rows.flatMap((r) => (r.thumb_path ? [r.path, r.thumb_path] : [r.path]))
+}
+
+/** Delete one receipt: its files, then its row. */
+export async function deleteReceipt(row: ReceiptRow): Promise<{ error: Error | null }> {
+  const { error: storageError } = await supabase.storage.from(RECEIPTS_BUCKET).remove(receiptFilePaths([row]))
+  if (storageError) {
+    console.error('deleteReceipt:', storageError)
+    return { error: storageError }
+  }
+  const { error } = await supabase.from('receipts').delete().eq('id', row.id)
+  if (error) {
+    console.error('deleteReceipt:', error)
+    return { error }
+  }
+  return { error: null }
+}
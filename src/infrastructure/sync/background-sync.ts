@@ -0,0 +1,57 @@
+/**
+ * Infrastructure: Background Sync registration (page side)
+ *
+ * Asks the browser to wake the service worker (`public/sw.js`) so it can
+ * replay the offline outbox:
+ * - a one-off Background Sync tag when changes are queued offline — fired
+ *   once the network is back, even if the app was closed meanwhile;
+ * - a Periodic Background Sync (installed app only; the browser picks the
+ *   actual interval).
+ *
+ * Both APIs are optional (Chromium only at the time of writing): without them
+ * the queue simply waits for the app's own online / focus triggers.
+ *
+ * Keep the tags in sync with `public/sw.js`.
+ */
+
+export const BACKGROUND_SYNC_TAG = "moneyplan-outbox";
+export const PERIODIC_SYNC_TAG = "moneyplan-periodic-sync";
+
+/** Minimum interval asked for periodic sync (the browser may wait longer). */
+const PERIODIC_SYNC_MIN_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+// Not in TypeScript's DOM lib yet.
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+};
+
+/** The app's registration, if any (`ready` would wait forever without one). */
+async function activeRegistration(): Promise<SyncRegistration | null> {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return null;
+  const registration = (await navigator.serviceWorker.getRegistration()) as SyncRegistration | undefined;
+  return registration?.active ? registration : null;
+}
+
+/** Ask for a one-off background sync of the outbox. Never throws. */
+export async function requestBackgroundSync(): Promise<void> {
+  try {
+    const registration = await activeRegistration();
+    await registration?.sync?.register(BACKGROUND_SYNC_TAG);
+  } catch (e) {
+    console.warn("[Background Sync] Registration failed:", e);
+  }
+}
+
+/** Ask for periodic syncs (needs an installed app; denied otherwise). Never throws. */
+export async function registerPeriodicSync(): Promise<void> {
+  try {
+    const registration = await activeRegistration();
+    await registration?.periodicSync?.register(PERIODIC_SYNC_TAG, {
+      minInterval: PERIODIC_SYNC_MIN_INTERVAL_MS,
+    });
+  } catch (e) {
+    // Expected when the app is not installed or the permission is denied.
+    console.log("[Background Sync] Periodic sync not available:", e);
+  }
+}
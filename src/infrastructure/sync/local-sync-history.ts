@@ -0,0 +1,22 @@
+/**
+ * Infrastructure: LocalSyncHistoryAdapter
+ *
+ * Implements the application-layer `SyncHistoryPort` on top of localStorage
+ * (see `local-settings.ts`), so the sync status screen can list recent runs.
+ *
+ * SSR safety:
+ * - On the server there is no `localStorage`, so recording becomes a no-op.
+ */
+
+import type { SyncHistoryPort } from "@/src/application/sync/ports/sync-ports";
+import type { SyncRunRecord } from "@/src/domain/sync/sync-history";
+import { recordSyncRun } from "@/src/infrastructure/storage/local-settings";
+
+export class LocalSyncHistoryAdapter implements SyncHistoryPort {
+  recordRun(run: SyncRunRecord): void {
+    recordSyncRun(run);
+  }
+}
+
+/** Convenience singleton instance. Prefer injecting at a composition root. */
+export const localSyncHistoryAdapter = new LocalSyncHistoryAdapter();
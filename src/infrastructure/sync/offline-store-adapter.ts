@@ -13,8 +13,14 @@
 import type {
   OfflineForecast,
   OfflineProfile,
+  OfflineReceipt,
   OfflineStorePort,
   OfflineTransaction,
+  OutboxItemKind,
+  OutboxItemState,
+  PullResult,
+  PullTable,
+  SyncConflict,
   UUID,
 } from "@/src/application/sync/ports/sync-ports";
 
@@ -22,6 +28,7 @@ import {
   offlineDB,
   type OfflineForecast as InfraOfflineForecast,
   type OfflineProfile as InfraOfflineProfile,
+  type OfflineReceipt as InfraOfflineReceipt,
   type OfflineTransaction as InfraOfflineTransaction,
 } from "@/src/infrastructure/offline/offline-db";
 
@@ -35,9 +42,16 @@ function toAppTransaction(t: InfraOfflineTransaction): OfflineTransaction {
     category: t.category,
     description: t.description,
     date: t.date,
+    account_id: t.account_id as UUID | null | undefined,
+    transfer_id: t.transfer_id as UUID | null | undefined,
+    transfer_direction: t.transfer_direction,
+    recurring_id: t.recurring_id as UUID | null | undefined,
+    splits: t.splits,
     created_at: t.created_at,
     updated_at: t.updated_at,
     synced: t.synced,
+    deleted: t.deleted,
+    base: t.base as OfflineTransaction["base"],
   };
 }
 
@@ -78,6 +92,19 @@ function toInfraForecast(f: OfflineForecast): InfraOfflineForecast {
   };
 }
 
+function toAppReceipt(r: InfraOfflineReceipt): OfflineReceipt {
+  return {
+    local_id: r.local_id,
+    user_id: r.user_id as UUID | undefined,
+    transaction_id: r.transaction_id as UUID | null | undefined,
+    transaction_local_id: r.transaction_local_id,
+    blob: r.blob,
+    thumbnail: r.thumbnail,
+    content_type: r.content_type,
+    created_at: r.created_at,
+  };
+}
+
 /**
  * Adapter class that satisfies `OfflineStorePort` by delegating to `offlineDB`.
  */
@@ -100,6 +127,10 @@ export class OfflineStoreAdapter implements OfflineStorePort {
     await offlineDB.deleteSyncedTransactions();
   }
 
+  async discardTransaction(localId: string): Promise<void> {
+    await offlineDB.deleteTransactionByLocalId(localId);
+  }
+
   // Profile
   async getProfile(userId: UUID): Promise<OfflineProfile | null> {
     const profile = await offlineDB.getProfile(userId);
@@ -119,6 +150,55 @@ export class OfflineStoreAdapter implements OfflineStorePort {
   async saveForecast(forecast: OfflineForecast): Promise<void> {
     await offlineDB.saveForecast(toInfraForecast(forecast));
   }
+
+  // Conflicts
+  async saveConflict(conflict: SyncConflict): Promise<void> {
+    await offlineDB.saveConflict(conflict);
+  }
+
+  // Receipts
+  async getPendingReceipts(): Promise<OfflineReceipt[]> {
+    const rows = await offlineDB.getPendingReceipts();
+    return rows.map(toAppReceipt);
+  }
+
+  async deleteReceipt(localId: string): Promise<void> {
+    await offlineDB.deleteReceipt(localId);
+  }
+
+  // Outbox retry state
+  async getOutboxStates(userId: UUID): Promise<OutboxItemState[]> {
+    return offlineDB.getOutboxStates(userId);
+  }
+
+  async saveOutboxState(state: OutboxItemState): Promise<void> {
+    await offlineDB.saveOutboxState(state);
+  }
+
+  async deleteOutboxState(key: string): Promise<void> {
+    await offlineDB.deleteOutboxState(key);
+  }
+
+  async discardOutboxItem(kind: OutboxItemKind, ref: string): Promise<void> {
+    await offlineDB.discardOutboxItem(kind, ref);
+  }
+
+  // Pull
+  async getPullWatermark(userId: UUID, table: PullTable): Promise<string | null> {
+    return offlineDB.getPullWatermark(userId, table);
+  }
+
+  async setPullWatermark(userId: UUID, table: PullTable, watermark: string): Promise<void> {
+    await offlineDB.setPullWatermark(userId, table, watermark);
+  }
+
+  async applyPulledChanges(userId: UUID, table: PullTable, result: PullResult): Promise<void> {
+    await offlineDB.applyPulledChanges(userId, table, result);
+  }
+
+  async isLocked(): Promise<boolean> {
+    return (await offlineDB.getEncryptionState()) === "locked";
+  }
 }
 
 /** Convenience singleton instance. Prefer injecting this at the composition root. */
@@ -0,0 +1,64 @@
+/**
+ * Infrastructure: Service worker sync (composition root for the worker)
+ *
+ * Purpose:
+ * - Let `public/sw.js` replay the IndexedDB outbox on a Background Sync /
+ *   Periodic Background Sync event, even when no page of the app is open
+ *   (e.g. a transaction entered in the subway, tab closed before reconnecting).
+ * - Reuse the same `SyncCoordinator` as the page; only the adapters differ.
+ *
+ * Build:
+ * - Bundled on its own by `scripts/build-sync-worker.mjs` into
+ *   `public/sync-worker.js` (global `moneyplanSync`), loaded by the service
+ *   worker with `importScripts`. Nothing reachable from here may touch
+ *   `window`, `document` or `localStorage`.
+ *
+ * Auth:
+ * - The worker cannot read the page's Supabase session (localStorage), so the
+ *   page shares the current access token through IndexedDB (see
+ *   `SyncService`). The worker never refreshes it: once it expires, the queue
+ *   waits for the next page visit.
+ */
+
+import { SyncCoordinator, type SyncRunSummary } from "@/src/application/sync/sync-coordinator";
+import type { SyncTrigger } from "@/src/application/sync/ports/sync-ports";
+
+import { SupabaseBackendSyncAdapter } from "@/src/infrastructure/sync/supabase-backend-sync";
+import { offlineStoreAdapter } from "@/src/infrastructure/sync/offline-store-adapter";
+import { browserNetworkStatusAdapter } from "@/src/infrastructure/sync/browser-network-status";
+import { webLocksSyncLock } from "@/src/infrastructure/sync/web-locks-sync-lock";
+
+import { offlineDB } from "@/src/infrastructure/offline/offline-db";
+import { createAccessTokenClient } from "@/src/infrastructure/supabase/supabase";
+
+/**
+ * Replay the outbox and pull changes as the user the page last shared.
+ * Resolves to null (nothing attempted) when no unexpired session is shared.
+ */
+export async function drainOutbox(trigger: SyncTrigger = "background-sync"): Promise<SyncRunSummary | null> {
+  const session = await offlineDB.getSyncSession();
+  if (!session) {
+    console.log("[Sync Worker] No shared session (signed out or token expired), leaving the queue for the app");
+    return null;
+  }
+
+  const coordinator = new SyncCoordinator(
+    {
+      auth: { getSession: async () => ({ user: { id: session.user_id } }) },
+      backend: new SupabaseBackendSyncAdapter(createAccessTokenClient(session.access_token)),
+      offline: offlineStoreAdapter,
+      network: browserNetworkStatusAdapter,
+      lock: webLocksSyncLock,
+      logger: console,
+    },
+    {
+      maxSessionRetries: 1,
+      sessionRetryDelayMs: 0,
+      cleanupSyncedTransactions: true,
+      conflictPolicy: session.conflict_policy,
+      failFast: false,
+    }
+  );
+
+  return coordinator.syncAll(trigger);
+}
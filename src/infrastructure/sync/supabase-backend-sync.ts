@@ -5,12 +5,49 @@
  *
  * Clean Architecture notes:
  * - This file is infrastructure (I/O allowed).
- * - It depends on Supabase client from `src/infrastructure/supabase/supabase.ts`.
+ * - It depends on Supabase client from `src/infrastructure/supabase/supabase.ts`
+ *   (or one passed in, e.g. the service worker's access-token client).
  * - Application layer should only see the `BackendSyncPort` interface, not Supabase details.
  */
 
-import type { BackendSyncPort, UUID } from "@/src/application/sync/ports/sync-ports";
+import type {
+  BackendSyncPort,
+  PulledRow,
+  PullResult,
+  PullTable,
+  TransactionSplit,
+  TransactionType,
+  TransactionVersion,
+  TransferDirection,
+  UUID,
+} from "@/src/application/sync/ports/sync-ports";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { supabase } from "@/src/infrastructure/supabase/supabase";
+import { buildReceiptPaths } from "@/src/domain/receipt/receipt";
+
+/** Private Storage bucket for receipt photos (migration 014). */
+const RECEIPTS_BUCKET = "receipts";
+
+/** PostgREST caps responses (1000 rows by default); pull pages at that size. */
+const PULL_PAGE_SIZE = 1000;
+
+/**
+ * Re-read this far behind the watermark. `updated_at` is the writing
+ * transaction's start time, so a row committed just after a pull can carry an
+ * older timestamp; re-reading a window of rows is harmless (upserts).
+ */
+const PULL_OVERLAP_MS = 60_000;
+
+/** 42703 = undefined_column: `updated_at` missing (migration 015 not applied). */
+function isMissingColumn(error: SupabaseErrorLike | null): boolean {
+  return error?.code === "42703";
+}
+
+function laterOf(a: string | null, b: string | null | undefined): string | null {
+  if (!b) return a;
+  if (!a) return b;
+  return Date.parse(b) > Date.parse(a) ? b : a;
+}
 
 type SupabaseErrorLike = {
   message?: string;
@@ -36,21 +73,58 @@ function throwIfSupabaseError(error: SupabaseErrorLike | null, context: string):
   throw new Error(`${context}${parts.length ? ` (${parts.join(", ")})` : ""}`);
 }
 
+/**
+ * Transfer columns only exist after migration 009; omit them for regular rows
+ * so older schemas keep accepting income/expense writes.
+ */
+function transferFields(input: {
+  transfer_id?: UUID | null;
+  transfer_direction?: TransferDirection | null;
+}): { transfer_id?: UUID | null; transfer_direction?: TransferDirection | null } {
+  if (input.transfer_id === undefined && input.transfer_direction === undefined) return {};
+  return {
+    transfer_id: input.transfer_id ?? null,
+    transfer_direction: input.transfer_direction ?? null,
+  };
+}
+
+/**
+ * `splits` only exists after migration 012. Inserts send it only for split
+ * rows; updates send it whenever the caller passed it (null clears a split).
+ */
+function splitFields(
+  input: { splits?: TransactionSplit[] | null },
+  mode: "insert" | "update"
+): { splits?: TransactionSplit[] | null } {
+  const splits = input.splits && input.splits.length > 0 ? input.splits : null;
+  if (mode === "insert") return splits ? { splits } : {};
+  return input.splits === undefined ? {} : { splits };
+}
+
 /**
  * Adapter class (simple, stateless).
  * You can create one instance and reuse it.
  */
 export class SupabaseBackendSyncAdapter implements BackendSyncPort {
+  /** `client` defaults to the app's signed-in client (the service worker passes its own). */
+  constructor(private readonly client: SupabaseClient = supabase) {}
+
   async insertTransaction(input: {
     user_id: UUID;
     created_at: string;
-    type: "income" | "expense";
+    type: TransactionType;
     amount: number;
     category: string | null;
+    description?: string | null;
     date: string;
+    account_id?: UUID | null;
+    transfer_id?: UUID | null;
+    transfer_direction?: TransferDirection | null;
+    recurring_id?: UUID | null;
+    splits?: TransactionSplit[] | null;
   }): Promise<{ id: UUID }> {
     try {
-      const result = await supabase
+      const result = await this.client
         .from("transactions")
         .insert({
           user_id: input.user_id,
@@ -58,11 +132,31 @@ export class SupabaseBackendSyncAdapter implements BackendSyncPort {
           type: input.type,
           amount: Number(input.amount),
           category: input.category ?? null,
+          ...(input.description !== undefined ? { description: input.description || null } : {}),
           date: input.date,
+          // Only send account_id when set, so pre-008 schemas keep accepting inserts.
+          ...(input.account_id !== undefined ? { account_id: input.account_id } : {}),
+          // Same for transfer fields (migration 009), recurring_id (010) and splits (012).
+          ...transferFields(input),
+          ...(input.recurring_id !== undefined ? { recurring_id: input.recurring_id } : {}),
+          ...splitFields(input, "insert"),
         })
         .select("id")
         .single();
 
+      // Another device already posted this recurring occurrence → adopt its row.
+      if (result.error?.code === "23505" && input.recurring_id) {
+        const existing = await this.client
+          .from("transactions")
+          .select("id")
+          .eq("recurring_id", input.recurring_id)
+          .eq("date", input.date)
+          .single();
+        throwIfSupabaseError(existing.error as any, "insertTransaction duplicate lookup failed");
+        const existingId = (existing.data as any)?.id as UUID | undefined;
+        if (existingId) return { id: existingId };
+      }
+
       throwIfSupabaseError(result.error as any, "insertTransaction failed");
 
       const id = (result.data as any)?.id as UUID | undefined;
@@ -76,20 +170,31 @@ export class SupabaseBackendSyncAdapter implements BackendSyncPort {
   async updateTransactionById(
     id: UUID,
     input: {
-      type: "income" | "expense";
+      type: TransactionType;
       amount: number;
       category: string | null;
+      description?: string | null;
       date: string;
+      account_id?: UUID | null;
+      transfer_id?: UUID | null;
+      transfer_direction?: TransferDirection | null;
+      recurring_id?: UUID | null;
+      splits?: TransactionSplit[] | null;
     }
   ): Promise<void> {
     try {
-      const result = await supabase
+      const result = await this.client
         .from("transactions")
         .update({
           type: input.type,
           amount: Number(input.amount),
           category: input.category ?? null,
+          ...(input.description !== undefined ? { description: input.description || null } : {}),
           date: input.date,
+          ...(input.account_id !== undefined ? { account_id: input.account_id } : {}),
+          ...transferFields(input),
+          ...(input.recurring_id !== undefined ? { recurring_id: input.recurring_id } : {}),
+          ...splitFields(input, "update"),
         })
         .eq("id", id)
         .select("id")
@@ -107,6 +212,37 @@ export class SupabaseBackendSyncAdapter implements BackendSyncPort {
     }
   }
 
+  async fetchTransactionById(id: UUID): Promise<TransactionVersion | null> {
+    try {
+      const result = await this.client.from("transactions").select("*").eq("id", id).maybeSingle();
+      throwIfSupabaseError(result.error as any, `fetchTransactionById failed (id=${id})`);
+      return (result.data as TransactionVersion | null) ?? null;
+    } catch (e) {
+      throw toError(e, "SupabaseBackendSyncAdapter.fetchTransactionById");
+    }
+  }
+
+  async deleteTransactionById(id: UUID): Promise<void> {
+    try {
+      // Receipt files are not covered by the FK cascade (migration 014); remove them first.
+      // A missing receipts table (pre-014) just means there is nothing to remove.
+      const receipts = await this.client.from("receipts").select("path, thumb_path").eq("transaction_id", id);
+      const paths = ((receipts.data || []) as { path: string; thumb_path: string | null }[]).flatMap((r) =>
+        r.thumb_path ? [r.path, r.thumb_path] : [r.path]
+      );
+      if (paths.length > 0) {
+        const removed = await this.client.storage.from(RECEIPTS_BUCKET).remove(paths);
+        throwIfSupabaseError(removed.error as any, `deleteTransactionById receipt files failed (id=${id})`);
+      }
+
+      // Deleting zero rows is not an error: the row is already gone.
+      const result = await this.client.from("transactions").delete().eq("id", id);
+      throwIfSupabaseError(result.error as any, `deleteTransactionById failed (id=${id})`);
+    } catch (e) {
+      throw toError(e, "SupabaseBackendSyncAdapter.deleteTransactionById");
+    }
+  }
+
   async upsertProfile(input: {
     id: UUID;
     full_name?: string;
@@ -114,7 +250,7 @@ export class SupabaseBackendSyncAdapter implements BackendSyncPort {
     phone?: string;
   }): Promise<{ id: UUID }> {
     try {
-      const result = await supabase
+      const result = await this.client
         .from("profiles")
         .upsert({
           id: input.id,
@@ -143,7 +279,7 @@ export class SupabaseBackendSyncAdapter implements BackendSyncPort {
     note?: string;
   }): Promise<{ id: UUID }> {
     try {
-      const result = await supabase
+      const result = await this.client
         .from("forecasts")
         .upsert({
           user_id: input.user_id,
@@ -164,6 +300,110 @@ export class SupabaseBackendSyncAdapter implements BackendSyncPort {
       throw toError(e, "SupabaseBackendSyncAdapter.upsertForecast");
     }
   }
+
+  async pullChanges(input: { table: PullTable; user_id: UUID; since: string | null }): Promise<PullResult> {
+    try {
+      // profiles are keyed by the user id itself.
+      const ownerColumn = input.table === "profiles" ? "id" : "user_id";
+      const from = input.since ? new Date(Date.parse(input.since) - PULL_OVERLAP_MS).toISOString() : null;
+
+      const fetchPages = async (incremental: boolean): Promise<{ rows: PulledRow[]; error: SupabaseErrorLike | null }> => {
+        const rows: PulledRow[] = [];
+        for (let offset = 0; ; offset += PULL_PAGE_SIZE) {
+          let request = this.client.from(input.table).select("*").eq(ownerColumn, input.user_id);
+          if (incremental && from) request = request.gte("updated_at", from);
+          const result = await request
+            .order(incremental ? "updated_at" : "id", { ascending: true })
+            .order("id", { ascending: true })
+            .range(offset, offset + PULL_PAGE_SIZE - 1);
+          if (result.error) return { rows, error: result.error as SupabaseErrorLike };
+          const page = (result.data || []) as PulledRow[];
+          rows.push(...page);
+          if (page.length < PULL_PAGE_SIZE) return { rows, error: null };
+        }
+      };
+
+      let { rows, error } = await fetchPages(true);
+      if (isMissingColumn(error)) {
+        // No `updated_at` yet: full snapshot every time, no watermark.
+        ({ rows, error } = await fetchPages(false));
+        throwIfSupabaseError(error, `pullChanges snapshot failed (table=${input.table})`);
+        return { rows, deleted_ids: [], complete: true, watermark: null };
+      }
+      throwIfSupabaseError(error, `pullChanges failed (table=${input.table})`);
+
+      let watermark = input.since;
+      for (const row of rows) watermark = laterOf(watermark, row.updated_at as string | undefined);
+
+      // Deletions only matter incrementally; a first pull is complete anyway.
+      const deleted_ids: UUID[] = [];
+      if (from && input.table !== "profiles") {
+        const deletions = await this.client
+          .from("sync_deletions")
+          .select("row_id, deleted_at")
+          .eq("user_id", input.user_id)
+          .eq("table_name", input.table)
+          .gte("deleted_at", from);
+        // Missing table (pre-015) → no deletion log yet.
+        if (deletions.error && deletions.error.code !== "42P01") {
+          throwIfSupabaseError(deletions.error as any, `pullChanges deletions failed (table=${input.table})`);
+        }
+        for (const d of (deletions.data || []) as { row_id: UUID; deleted_at: string }[]) {
+          deleted_ids.push(d.row_id);
+          watermark = laterOf(watermark, d.deleted_at);
+        }
+      }
+
+      return { rows, deleted_ids, complete: !from, watermark };
+    } catch (e) {
+      throw toError(e, "SupabaseBackendSyncAdapter.pullChanges");
+    }
+  }
+
+  async uploadReceipt(input: {
+    receipt_id: string;
+    user_id: UUID;
+    transaction_id: UUID;
+    blob: Blob;
+    thumbnail?: Blob | null;
+    content_type: string;
+    created_at: string;
+  }): Promise<void> {
+    try {
+      const { path, thumbPath } = buildReceiptPaths({
+        userId: input.user_id,
+        transactionId: input.transaction_id,
+        receiptId: input.receipt_id,
+        contentType: input.content_type,
+      });
+      const bucket = this.client.storage.from(RECEIPTS_BUCKET);
+
+      // upsert: a retry after a half-finished run overwrites instead of failing.
+      const image = await bucket.upload(path, input.blob, { contentType: input.content_type, upsert: true });
+      throwIfSupabaseError(image.error as any, `uploadReceipt image failed (path=${path})`);
+
+      if (input.thumbnail) {
+        const thumb = await bucket.upload(thumbPath, input.thumbnail, { contentType: "image/jpeg", upsert: true });
+        throwIfSupabaseError(thumb.error as any, `uploadReceipt thumbnail failed (path=${thumbPath})`);
+      }
+
+      const result = await this.client.from("receipts").upsert(
+        {
+          user_id: input.user_id,
+          transaction_id: input.transaction_id,
+          path,
+          thumb_path: input.thumbnail ? thumbPath : null,
+          content_type: input.content_type,
+          size_bytes: input.blob.size,
+          created_at: input.created_at,
+        },
+        { onConflict: "path", ignoreDuplicates: true }
+      );
+      throwIfSupabaseError(result.error as any, "uploadReceipt insert failed");
+    } catch (e) {
+      throw toError(e, "SupabaseBackendSyncAdapter.uploadReceipt");
+    }
+  }
 }
 
 /**
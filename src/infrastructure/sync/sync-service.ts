@@ -10,21 +10,55 @@
  * - This module is infrastructure because it touches browser globals and concrete adapters.
  * - During the incremental refactor, `lib/sync-service.ts` can re-export from here.
  *
+ * Background sync:
+ * - Changes queued while offline also register a Background Sync tag, so the
+ *   service worker can replay them after reconnecting even if the app is
+ *   closed (see `service-worker-sync.ts`). The worker signs in with the access
+ *   token shared here on every auth change, and a Web Lock keeps the page and
+ *   the worker from replaying the queue at the same time.
+ *
  * SSR safety:
  * - This module is safe to import in Next.js, but calling `initialize()` should only happen on the client.
  */
 
-import { SyncCoordinator } from "@/src/application/sync/sync-coordinator";
+import { SyncCoordinator, type SyncRunSummary } from "@/src/application/sync/sync-coordinator";
 import type { SyncTrigger } from "@/src/application/sync/ports/sync-ports";
+import type { Session } from "@supabase/supabase-js";
+import type { SyncRunRecord } from "@/src/domain/sync/sync-history";
 
 import { supabaseAuthSessionAdapter } from "@/src/infrastructure/sync/supabase-auth-session";
 import { supabaseBackendSyncAdapter } from "@/src/infrastructure/sync/supabase-backend-sync";
 import { offlineStoreAdapter } from "@/src/infrastructure/sync/offline-store-adapter";
 import { browserNetworkStatusAdapter } from "@/src/infrastructure/sync/browser-network-status";
 import { windowSyncEventBus } from "@/src/infrastructure/sync/window-sync-event-bus";
-
-import { offlineDB, type OfflineForecast, type OfflineProfile, type OfflineTransaction } from "@/src/infrastructure/offline/offline-db";
+import { localSyncHistoryAdapter } from "@/src/infrastructure/sync/local-sync-history";
+import { webLocksSyncLock } from "@/src/infrastructure/sync/web-locks-sync-lock";
+import { registerPeriodicSync, requestBackgroundSync } from "@/src/infrastructure/sync/background-sync";
+
+import {
+  offlineDB,
+  type OfflineConflict,
+  type OfflineForecast,
+  type OfflineProfile,
+  type OfflineReceipt,
+  type OfflineTransaction,
+} from "@/src/infrastructure/offline/offline-db";
 import { supabase } from "@/src/infrastructure/supabase/supabase";
+import { getSyncConflictPolicy, getSyncRunHistory } from "@/src/infrastructure/storage/local-settings";
+
+/** Snapshot for the sync status screen. */
+export type SyncStatus = {
+  online: boolean;
+  syncing: boolean;
+  /** What started the run in progress (null when idle). */
+  currentTrigger: SyncTrigger | null;
+  /** Changes on this device waiting to reach the server. */
+  pendingCount: number;
+  /** Queued items that failed to sync (quarantined included). */
+  failedCount: number;
+  /** Recent runs on this device, newest first. */
+  history: SyncRunRecord[];
+};
 
 /**
  * `SyncService`:
@@ -51,12 +85,15 @@ export class SyncService {
         offline: offlineStoreAdapter,
         network: browserNetworkStatusAdapter,
         events: windowSyncEventBus,
+        history: localSyncHistoryAdapter,
+        lock: webLocksSyncLock,
         logger: console,
       },
       {
         maxSessionRetries: 3,
         sessionRetryDelayMs: 2000,
         cleanupSyncedTransactions: true,
+        conflictPolicy: getSyncConflictPolicy,
         failFast: false,
       }
     );
@@ -67,6 +104,7 @@ export class SyncService {
    * - online/offline
    * - visibilitychange
    * - focus
+   * - auth changes (shared with the service worker) and its sync requests
    */
   initialize(): void {
     if (this.initialized) return;
@@ -79,6 +117,14 @@ export class SyncService {
     document.addEventListener("visibilitychange", this.handleVisibilityChange);
     window.addEventListener("focus", this.handleFocus);
 
+    supabase.auth.onAuthStateChange((_event, session) => {
+      this.shareSessionWithWorker(session);
+    });
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker.addEventListener("message", this.handleWorkerMessage);
+      registerPeriodicSync();
+    }
+
     this.initialized = true;
     console.log("[Sync Service] Event listeners initialized");
   }
@@ -87,8 +133,52 @@ export class SyncService {
    * Manual entrypoint: trigger a full sync.
    * This is safe to call from UI buttons or after an offline save.
    */
-  async syncAll(trigger: SyncTrigger = "manual"): Promise<void> {
-    await this.coordinator.syncAll(trigger);
+  async syncAll(trigger: SyncTrigger = "manual"): Promise<SyncRunSummary> {
+    return this.coordinator.syncAll(trigger);
+  }
+
+  /**
+   * Current sync state for the status screen. Counts are 0 without a session.
+   */
+  async getStatus(): Promise<SyncStatus> {
+    const userId = await this.currentUserId();
+    const [pendingCount, failed] = userId
+      ? await Promise.all([this.coordinator.getPendingCount(userId), this.coordinator.getFailedItems(userId)])
+      : [0, []];
+
+    return {
+      online: this.isOnlineStatus(),
+      syncing: this.coordinator.isSyncing(),
+      currentTrigger: this.coordinator.getCurrentTrigger(),
+      pendingCount,
+      failedCount: failed.length,
+      history: getSyncRunHistory(),
+    };
+  }
+
+  /**
+   * Retry queued items that failed to sync (quarantined ones included) now.
+   */
+  async retryFailedItems(keys?: string[]): Promise<void> {
+    const userId = await this.currentUserId();
+    if (!userId) return;
+    await this.coordinator.retryFailedItems(userId, keys);
+    await this.coordinator.syncAll("retry-failed");
+  }
+
+  /**
+   * Give up on queued items that failed to sync; their changes are dropped.
+   */
+  async discardFailedItems(keys?: string[]): Promise<void> {
+    const userId = await this.currentUserId();
+    if (!userId) return;
+    await this.coordinator.discardFailedItems(userId, keys);
+  }
+
+  private async currentUserId(): Promise<string | undefined> {
+    const { data } = await supabase.auth.getSession();
+    const session = (data as any)?.session;
+    return session?.user?.id as string | undefined;
   }
 
   /**
@@ -110,30 +200,132 @@ export class SyncService {
   /**
    * Save transaction to offline store and attempt quick sync (fire-and-forget).
    * This mirrors previous behavior for incremental refactor safety.
+   * A row with a server `id` is an edit: it replaces edits of that row still
+   * queued, and its `base` (server version it started from) is checked for
+   * conflicts when it replays.
    */
   async saveTransactionOffline(transaction: OfflineTransaction): Promise<void> {
-    // Ensure local_id exists (offline identity)
-    const txWithLocalId: OfflineTransaction = {
-      ...transaction,
-      local_id: transaction.local_id || `temp_${Date.now()}_${Math.random().toString(16).slice(2)}`,
-    };
-
-    await offlineDB.saveTransaction(txWithLocalId);
+    if (transaction.id && transaction.id !== transaction.local_id) {
+      await offlineDB.queueTransactionEdit({ ...transaction, id: transaction.id });
+    } else {
+      // Ensure local_id exists (offline identity)
+      const txWithLocalId: OfflineTransaction = {
+        ...transaction,
+        id: undefined,
+        local_id: transaction.local_id || `temp_${Date.now()}_${Math.random().toString(16).slice(2)}`,
+      };
+
+      await offlineDB.saveTransaction(txWithLocalId);
+    }
 
     if (this.isOnlineStatus()) {
-      // Best-effort: try immediate sync for the current user if session exists.
-      const { data } = await supabase.auth.getSession();
-      const session = (data as any)?.session;
-      const userId = session?.user?.id as string | undefined;
-
-      if (userId) {
-        this.coordinator.syncTransactions(userId).catch((err) => {
-          console.error("[Sync Service] Immediate transaction sync failed:", err);
-        });
-      }
+      // Best-effort: try an immediate sync (skipped when one is already running).
+      this.syncAll("local-change").catch((err) => {
+        console.error("[Sync Service] Immediate transaction sync failed:", err);
+      });
+    } else {
+      this.scheduleBackgroundSync();
+    }
+  }
+
+  /**
+   * Save many transactions (e.g. a CSV import) to the offline store, then run
+   * one sync for the batch instead of one per row.
+   * Resolves after that sync attempt so callers can reload server data.
+   *
+   * Every replay after a local change goes through `syncAll`: it holds the
+   * sync lock and the in-progress flag, so two replays of the same queue
+   * (another tab, the service worker) cannot insert a row twice.
+   */
+  async saveTransactionsOffline(transactions: OfflineTransaction[]): Promise<void> {
+    for (const transaction of transactions) {
+      await offlineDB.saveTransaction({
+        ...transaction,
+        local_id: transaction.local_id || `temp_${Date.now()}_${Math.random().toString(16).slice(2)}`,
+      });
+    }
+
+    if (!this.isOnlineStatus()) {
+      this.scheduleBackgroundSync();
+      return;
+    }
+
+    try {
+      await this.syncAll("local-change");
+    } catch (err) {
+      console.error("[Sync Service] Batch transaction sync failed:", err);
+    }
+  }
+
+  /**
+   * Delete transactions through the sync pipeline: queue tombstones, then try
+   * to replay them right away. Offline (or on failure) the deletes stay queued
+   * and replay in order with other pending creates / edits on the next sync.
+   * Resolves after that attempt so callers can reload server data.
+   */
+  async deleteTransactionsOffline(transactions: OfflineTransaction[]): Promise<void> {
+    for (const transaction of transactions) {
+      await offlineDB.deleteTransactionOffline(transaction);
+    }
+
+    if (!this.isOnlineStatus()) {
+      this.scheduleBackgroundSync();
+      return;
+    }
+
+    try {
+      await this.syncAll("local-change");
+    } catch (err) {
+      console.error("[Sync Service] Delete sync failed:", err);
+    }
+  }
+
+  /**
+   * Queue receipt photos in the offline store, then try to upload them.
+   * Offline (or on failure) they stay queued for the next sync run.
+   * Resolves after the upload attempt so callers can reload server data.
+   */
+  async saveReceiptsOffline(receipts: OfflineReceipt[]): Promise<void> {
+    for (const receipt of receipts) {
+      await offlineDB.saveReceipt(receipt);
+    }
+
+    if (!this.isOnlineStatus()) {
+      this.scheduleBackgroundSync();
+      return;
+    }
+
+    try {
+      await this.syncAll("local-change");
+    } catch (err) {
+      console.error("[Sync Service] Receipt upload failed:", err);
     }
   }
 
+  /**
+   * Close a conflict with the version the user picked. When that version is
+   * not the one on the server, it is queued as a plain edit (no `base`: the
+   * user has seen both versions), or as a new row when the server row was deleted.
+   */
+  async resolveConflict(conflict: OfflineConflict, choice: "local" | "server"): Promise<void> {
+    const chosen = choice === "local" ? conflict.local : conflict.server;
+    const alreadyApplied =
+      (choice === "local" && conflict.outcome === "client") || (choice === "server" && conflict.outcome === "server");
+
+    if (chosen && !alreadyApplied) {
+      const { updated_at: _version, ...fields } = chosen;
+      await this.saveTransactionOffline({
+        ...fields,
+        category: fields.category ?? undefined,
+        description: fields.description ?? undefined,
+        user_id: conflict.user_id,
+        ...(conflict.server ? { id: conflict.row_id, base: null } : { created_at: new Date().toISOString() }),
+      });
+    }
+
+    await offlineDB.resolveConflict(conflict.id, choice);
+  }
+
   /**
    * Save profile to offline store and attempt quick sync.
    */
@@ -141,11 +333,11 @@ export class SyncService {
     await offlineDB.saveProfile(profile);
 
     if (this.isOnlineStatus()) {
-      const userId = profile.id;
-      // Best-effort: keep the same behavior (sync that specific profile)
-      this.coordinator.syncProfile(userId).catch((err) => {
+      this.syncAll("local-change").catch((err) => {
         console.error("[Sync Service] Immediate profile sync failed:", err);
       });
+    } else {
+      this.scheduleBackgroundSync();
     }
   }
 
@@ -156,22 +348,65 @@ export class SyncService {
     await offlineDB.saveForecast(forecast);
 
     if (this.isOnlineStatus()) {
-      const { data } = await supabase.auth.getSession();
-      const session = (data as any)?.session;
-      const userId = session?.user?.id as string | undefined;
-
-      if (userId) {
-        this.coordinator.syncForecasts(userId).catch((err) => {
-          console.error("[Sync Service] Immediate forecast sync failed:", err);
-        });
-      }
+      this.syncAll("local-change").catch((err) => {
+        console.error("[Sync Service] Immediate forecast sync failed:", err);
+      });
+    } else {
+      this.scheduleBackgroundSync();
     }
   }
 
+  // -------------------------
+  // Background sync (service worker)
+  // -------------------------
+
+  /**
+   * Share the current access token (and conflict policy) with the service
+   * worker through IndexedDB; a null session (signed out) removes it.
+   * Never rejects.
+   */
+  private shareSessionWithWorker(session: Session | null): Promise<void> {
+    const shared =
+      session?.user?.id && session.expires_at
+        ? {
+            user_id: session.user.id,
+            access_token: session.access_token,
+            expires_at: session.expires_at * 1000,
+            conflict_policy: getSyncConflictPolicy(),
+          }
+        : null;
+
+    return offlineDB.saveSyncSession(shared).catch((err) => {
+      console.warn("[Sync Service] Failed to share session with the service worker:", err);
+    });
+  }
+
+  /**
+   * Re-share the session (the conflict policy may have changed), then ask for
+   * a background sync of what was just queued offline. Fire-and-forget.
+   */
+  private scheduleBackgroundSync(): void {
+    supabase.auth
+      .getSession()
+      .then(({ data }) => this.shareSessionWithWorker(data.session))
+      .catch(() => undefined)
+      .then(() => requestBackgroundSync());
+  }
+
   // -------------------------
   // Event handlers (bound as arrow fns)
   // -------------------------
 
+  /** The service worker defers to an open page for background / periodic syncs. */
+  private handleWorkerMessage = (event: MessageEvent): void => {
+    if (event.data?.type !== "SYNC_REQUESTED") return;
+
+    const trigger: SyncTrigger = event.data.trigger ?? "background-sync";
+    this.coordinator.syncAll(trigger).catch((err) => {
+      console.error(`[Sync Service] Sync on ${trigger} failed:`, err);
+    });
+  };
+
   private handleOnline = (): void => {
     console.log("[Sync Service] Network online event detected");
     this.isOnlineValue = true;
@@ -0,0 +1,26 @@
+/**
+ * Infrastructure: WebLocksSyncLock
+ *
+ * Implements the application-layer `SyncLockPort` with the Web Locks API,
+ * which is shared by every tab and the service worker of the origin.
+ *
+ * Behavior:
+ * - The lock is only taken if free (`ifAvailable`); a busy lock skips the run.
+ * - Without Web Locks support (older browsers, SSR) runs are not locked.
+ */
+
+import type { SyncLockPort } from "@/src/application/sync/ports/sync-ports";
+
+const SYNC_LOCK_NAME = "moneyplan-sync";
+
+export class WebLocksSyncLock implements SyncLockPort {
+  async runExclusive<T>(fn: () => Promise<T>): Promise<T | null> {
+    const locks = typeof navigator !== "undefined" ? navigator.locks : undefined;
+    if (!locks) return fn();
+
+    return locks.request(SYNC_LOCK_NAME, { ifAvailable: true }, (lock) => (lock ? fn() : null));
+  }
+}
+
+/** Convenience singleton instance. Prefer injecting at a composition root. */
+export const webLocksSyncLock = new WebLocksSyncLock();
@@ -6,6 +6,8 @@
  * Current UI usage in this repo:
  * - `components/ServiceWorkerRegistration.tsx` listens for:
  *   - `window.addEventListener('sync-complete', ...)`
+ *   - `window.addEventListener('sync-items-failed', ...)` (retry / discard banner)
+ * - `app/sync/page.tsx` (sync status) listens for `sync-started` and `sync-complete`
  *
  * Clean Architecture notes:
  * - Application layer depends on `SyncEventBusPort` interface only.
@@ -15,19 +17,35 @@
  * - On the server there is no `window`, so emitting becomes a no-op.
  */
 
-import type { SyncEventBusPort } from "@/src/application/sync/ports/sync-ports";
+import type {
+  OutboxItemState,
+  SyncCompleteDetail,
+  SyncEventBusPort,
+  SyncTrigger,
+} from "@/src/application/sync/ports/sync-ports";
 
-export type SyncCompleteDetail = { successCount: number; totalCount: number };
+export type SyncStartedDetail = { trigger: SyncTrigger };
+export type { SyncCompleteDetail };
 export type SyncErrorDetail = { message: string; cause?: unknown };
+export type SyncItemsFailedDetail = { items: OutboxItemState[] };
 
+export const SYNC_STARTED_EVENT_NAME = "sync-started";
 const SYNC_COMPLETE_EVENT_NAME = "sync-complete";
 const SYNC_ERROR_EVENT_NAME = "sync-error";
+export const SYNC_ITEMS_FAILED_EVENT_NAME = "sync-items-failed";
 
 function hasWindow(): boolean {
   return typeof window !== "undefined" && typeof window.dispatchEvent === "function";
 }
 
 export class WindowSyncEventBus implements SyncEventBusPort {
+  emitSyncStarted(detail: SyncStartedDetail): void {
+    if (!hasWindow()) return;
+
+    const evt = new CustomEvent<SyncStartedDetail>(SYNC_STARTED_EVENT_NAME, { detail });
+    window.dispatchEvent(evt);
+  }
+
   emitSyncComplete(detail: SyncCompleteDetail): void {
     if (!hasWindow()) return;
 
@@ -42,6 +60,13 @@ export class WindowSyncEventBus implements SyncEventBusPort {
     const evt = new CustomEvent<SyncErrorDetail>(SYNC_ERROR_EVENT_NAME, { detail });
     window.dispatchEvent(evt);
   }
+
+  emitSyncItemsFailed(detail: SyncItemsFailedDetail): void {
+    if (!hasWindow()) return;
+
+    const evt = new CustomEvent<SyncItemsFailedDetail>(SYNC_ITEMS_FAILED_EVENT_NAME, { detail });
+    window.dispatchEvent(evt);
+  }
 }
 
 /**
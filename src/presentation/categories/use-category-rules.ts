@@ -0,0 +1,97 @@
+'use client'
+
+/**
+ * React hook + module-level cache for the user's category rules.
+ *
+ * Strategy (same as useExpenseCategories):
+ * - Fetch once per session, shared across hook callers.
+ * - Missing table (migration 011 not applied) → empty list, nothing is auto-categorized.
+ * - Call `reload()` after adding / editing rules.
+ *
+ * Also exposes `getPendingRuleProposals`, which turns the locally recorded
+ * corrections into rule suggestions the user has not dismissed yet.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  fetchCategoryRules,
+  supabase,
+  toDomainCategoryRules,
+  type CategoryRuleRow,
+} from '../../infrastructure/supabase/supabase'
+import {
+  getCategoryCorrections,
+  getDismissedRuleProposals,
+  getLearnCategoryRules,
+} from '../../infrastructure/storage/local-settings'
+import {
+  proposalKey,
+  proposeRulesFromCorrections,
+  type CategoryRule,
+  type CategoryRuleProposal,
+} from '../../domain/categorization/category-rules'
+
+let cache: CategoryRuleRow[] | null = null
+let inflight: Promise<CategoryRuleRow[]> | null = null
+
+async function loadOnce(userId: string): Promise<CategoryRuleRow[]> {
+  if (cache) return cache
+  if (inflight) return inflight
+  inflight = fetchCategoryRules(userId).then((rows) => {
+    cache = rows
+    return rows
+  })
+  try {
+    return await inflight
+  } finally {
+    inflight = null
+  }
+}
+
+/** Invalidate the in-memory cache so the next hook call refetches. */
+export function invalidateCategoryRulesCache(): void {
+  cache = null
+  inflight = null
+}
+
+/**
+ * Rule suggestions from the correction log, minus dismissed ones.
+ * Empty when "learn from my corrections" is off.
+ */
+export function getPendingRuleProposals(rules: readonly CategoryRule[]): CategoryRuleProposal[] {
+  if (!getLearnCategoryRules()) return []
+  const dismissed = new Set(getDismissedRuleProposals())
+  return proposeRulesFromCorrections(getCategoryCorrections(), rules).filter((p) => !dismissed.has(proposalKey(p)))
+}
+
+export type UseCategoryRulesResult = {
+  rows: CategoryRuleRow[]
+  /** Domain shape for `categorizeTransaction`. */
+  rules: CategoryRule[]
+  isLoading: boolean
+  reload: () => Promise<void>
+}
+
+export function useCategoryRules(): UseCategoryRulesResult {
+  const [rows, setRows] = useState<CategoryRuleRow[]>(cache ?? [])
+  const [isLoading, setIsLoading] = useState<boolean>(cache == null)
+
+  const load = useCallback(async (force: boolean) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      setIsLoading(false)
+      return
+    }
+    if (force) invalidateCategoryRulesCache()
+    setRows(await loadOnce(session.user.id))
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    load(false)
+  }, [load])
+
+  const reload = useCallback(() => load(true), [load])
+
+  return { rows, rules: toDomainCategoryRules(rows), isLoading, reload }
+}
@@ -4,7 +4,9 @@
  * React hook + module-level cache for the user's effective expense-category list.
  *
  * Strategy:
- * - Fetch once per session (cached at module scope, shared across hook callers).
+ * - Fetch once per session (cached at module scope, shared across hook callers)
+ *   through `dataRepository`: the list saved on this device shows first, then
+ *   the server's list replaces it.
  * - While loading, serve hardcoded defaults so UI never shows an empty list.
  * - If the DB table does not exist (migration 007 not applied) or fetch fails,
  *   continue with hardcoded defaults — the app keeps working through rollout.
@@ -19,11 +21,8 @@
  */
 
 import { useEffect, useState } from 'react'
-import {
-  fetchExpenseCategories,
-  supabase,
-  type ExpenseCategoryRow,
-} from '../../infrastructure/supabase/supabase'
+import { supabase, type ExpenseCategoryRow } from '../../infrastructure/supabase/supabase'
+import { dataRepository } from '../../infrastructure/data/data-repository'
 import { registerCategoryIcons } from '../category-icons/category-icons'
 import { getDefaultExpenseCategories } from './expense-category-defaults'
 
@@ -43,24 +42,27 @@ registerCategoryIcons(DEFAULTS.rows)
 
 let cache: CacheState | null = null
 let inflight: Promise<CacheState> | null = null
+// Hooks mounted while loading: shown the local list before the fetch settles.
+const listeners = new Set<(state: CacheState) => void>()
 
 async function loadOnce(userId: string): Promise<CacheState> {
   if (cache) return cache
   if (inflight) return inflight
   inflight = (async () => {
+    let loaded: CacheState | null = null
     try {
-      const rows = await fetchExpenseCategories(userId)
-      if (rows && rows.length > 0) {
+      await dataRepository.expenseCategories(userId, (rows) => {
+        if (!rows || rows.length === 0) return
         registerCategoryIcons(rows)
-        const result: CacheState = { rows, source: 'db' }
-        cache = result
-        return result
-      }
+        const state: CacheState = { rows, source: 'db' }
+        loaded = state
+        listeners.forEach((listener) => listener(state))
+      })
     } catch (e) {
       console.error('useExpenseCategories load:', e)
     }
-    cache = DEFAULTS
-    return DEFAULTS
+    cache = loaded ?? DEFAULTS
+    return cache
   })()
   try {
     return await inflight
@@ -105,6 +107,10 @@ export function useExpenseCategories(): UseExpenseCategoriesResult {
 
   useEffect(() => {
     let cancelled = false
+    const onLoaded = (loaded: CacheState) => {
+      if (!cancelled) setState(loaded)
+    }
+    listeners.add(onLoaded)
     ;(async () => {
       const { data: { session } } = await supabase.auth.getSession()
       if (!session) {
@@ -121,6 +127,7 @@ export function useExpenseCategories(): UseExpenseCategoriesResult {
     })()
     return () => {
       cancelled = true
+      listeners.delete(onLoaded)
     }
   }, [])
 
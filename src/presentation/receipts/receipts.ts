@@ -0,0 +1,119 @@
+'use client'
+
+/**
+ * Receipt photos for the transactions UI.
+ *
+ * - `prepareReceiptImage` downscales a picked photo on the device (canvas) and
+ *   makes the list thumbnail, so neither IndexedDB nor Storage holds 10 MB originals.
+ * - `loadReceiptPreviews` merges uploaded receipts (signed Storage URLs) with
+ *   photos still queued offline (object URLs) per transaction.
+ */
+
+import {
+  RECEIPT_IMAGE_MAX_EDGE,
+  RECEIPT_THUMB_MAX_EDGE,
+  fitWithin,
+} from '../../domain/receipt/receipt'
+import { offlineDB } from '../../infrastructure/offline/offline-db'
+import { createReceiptUrls, fetchReceipts, type ReceiptRow } from '../../infrastructure/supabase/supabase'
+
+export type ReceiptPreview = {
+  /** Receipt row id, or the offline `local_id` while pending. */
+  key: string
+  transactionId: string
+  thumbUrl: string
+  fullUrl: string
+  /** True while the photo is only on this device. */
+  pending: boolean
+  /** Set for uploaded receipts (needed to delete them). */
+  row?: ReceiptRow
+}
+
+export type PreparedReceiptImage = {
+  blob: Blob
+  thumbnail: Blob | null
+  contentType: string
+}
+
+async function drawScaled(bitmap: ImageBitmap, maxEdge: number, quality: number): Promise<Blob | null> {
+  const size = fitWithin(bitmap.width, bitmap.height, maxEdge)
+  const canvas = document.createElement('canvas')
+  canvas.width = size.width
+  canvas.height = size.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+  ctx.drawImage(bitmap, 0, 0, size.width, size.height)
+  return new Promise((resolve) => canvas.toBlob((blob) => resolve(blob), 'image/jpeg', quality))
+}
+
+/**
+ * JPEG image (longest edge `RECEIPT_IMAGE_MAX_EDGE`) + thumbnail. Formats the
+ * browser cannot decode (e.g. HEIC outside Safari) are kept as-is without a thumbnail.
+ */
+export async function prepareReceiptImage(file: File): Promise<PreparedReceiptImage> {
+  try {
+    const bitmap = await createImageBitmap(file)
+    try {
+      const [blob, thumbnail] = await Promise.all([
+        drawScaled(bitmap, RECEIPT_IMAGE_MAX_EDGE, 0.85),
+        drawScaled(bitmap, RECEIPT_THUMB_MAX_EDGE, 0.7),
+      ])
+      if (blob) return { blob, thumbnail, contentType: 'image/jpeg' }
+    } finally {
+      bitmap.close()
+    }
+  } catch (e) {
+    console.warn('prepareReceiptImage: keeping original file', e)
+  }
+  return { blob: file, thumbnail: null, contentType: file.type || 'image/jpeg' }
+}
+
+/** Release object URLs created for pending receipts. */
+export function revokeReceiptPreviews(previews: readonly ReceiptPreview[]): void {
+  for (const p of previews) {
+    if (!p.pending) continue
+    URL.revokeObjectURL(p.fullUrl)
+    if (p.thumbUrl !== p.fullUrl) URL.revokeObjectURL(p.thumbUrl)
+  }
+}
+
+/** Previews for the given (server) transaction ids, uploaded ones first. */
+export async function loadReceiptPreviews(userId: string, transactionIds: string[]): Promise<ReceiptPreview[]> {
+  if (transactionIds.length === 0) return []
+  const wanted = new Set(transactionIds)
+
+  const [rows, pending] = await Promise.all([
+    fetchReceipts(userId, transactionIds),
+    offlineDB.getPendingReceipts().catch((e) => {
+      console.warn('loadReceiptPreviews: offline store unavailable', e)
+      return []
+    }),
+  ])
+
+  const urls = await createReceiptUrls(rows.flatMap((r) => (r.thumb_path ? [r.path, r.thumb_path] : [r.path])))
+  const uploaded: ReceiptPreview[] = rows
+    .filter((r) => urls[r.path])
+    .map((r) => ({
+      key: r.id,
+      transactionId: r.transaction_id,
+      thumbUrl: (r.thumb_path && urls[r.thumb_path]) || urls[r.path],
+      fullUrl: urls[r.path],
+      pending: false,
+      row: r,
+    }))
+
+  const local: ReceiptPreview[] = pending
+    .filter((r) => r.transaction_id && wanted.has(r.transaction_id))
+    .map((r) => {
+      const fullUrl = URL.createObjectURL(r.blob)
+      return {
+        key: r.local_id,
+        transactionId: r.transaction_id!,
+        thumbUrl: r.thumbnail ? URL.createObjectURL(r.thumbnail) : fullUrl,
+        fullUrl,
+        pending: true,
+      }
+    })
+
+  return [...uploaded, ...local]
+}
@@ -0,0 +1,55 @@
+'use client'
+
+/**
+ * Helpers for rows read from this device's copy of the user's data (IndexedDB
+ * mirror filled by pull sync, with queued offline changes applied).
+ *
+ * Transactions, profile and budgets are read through `dataRepository`
+ * (offline-first); debt items are not served by it yet.
+ *
+ * Every loader resolves to empty data when IndexedDB is unavailable.
+ */
+
+import {
+  offlineDB,
+  type OfflineTransaction,
+  type OfflineTransactionVersion,
+} from '../../infrastructure/offline/offline-db'
+import type { DebtItemRow, TransactionRow } from '../../infrastructure/supabase/supabase'
+
+/** True for a row created on this device that has not reached the server yet. */
+export function isPendingCreate(row: TransactionRow): boolean {
+  return row.id === (row as OfflineTransaction).local_id
+}
+
+/**
+ * Server version an edit of `row` starts from. A row already edited offline
+ * keeps the version its first edit started from.
+ */
+export function editBaseOf(row: TransactionRow): OfflineTransactionVersion {
+  const queued = (row as OfflineTransaction).base
+  if (queued) return queued
+  return {
+    type: row.type,
+    amount: row.amount,
+    category: row.category ?? null,
+    description: row.description ?? null,
+    date: row.date,
+    account_id: row.account_id,
+    transfer_id: row.transfer_id,
+    transfer_direction: row.transfer_direction,
+    recurring_id: row.recurring_id,
+    splits: row.splits,
+    updated_at: row.updated_at ?? null,
+  }
+}
+
+export async function loadLocalDebtItems(userId: string): Promise<DebtItemRow[]> {
+  try {
+    const rows = await offlineDB.getMirroredRows<DebtItemRow>('debt_items', userId)
+    return rows.sort((a, b) => a.sort_order - b.sort_order)
+  } catch (e) {
+    console.warn('loadLocalDebtItems: offline store unavailable', e)
+    return []
+  }
+}
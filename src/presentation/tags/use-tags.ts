@@ -0,0 +1,66 @@
+'use client'
+
+/**
+ * React hook + module-level cache for the user's tags.
+ *
+ * Strategy (same as useCategoryRules):
+ * - Fetch once per session, shared across hook callers.
+ * - Missing table (migration 013 not applied) → empty list; tag UI stays empty.
+ * - Call `reload()` after creating / renaming / deleting tags.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { fetchTags, supabase, type TagRow } from '../../infrastructure/supabase/supabase'
+
+let cache: TagRow[] | null = null
+let inflight: Promise<TagRow[]> | null = null
+
+async function loadOnce(userId: string): Promise<TagRow[]> {
+  if (cache) return cache
+  if (inflight) return inflight
+  inflight = fetchTags(userId).then((rows) => {
+    cache = rows
+    return rows
+  })
+  try {
+    return await inflight
+  } finally {
+    inflight = null
+  }
+}
+
+/** Invalidate the in-memory cache so the next hook call refetches. */
+export function invalidateTagsCache(): void {
+  cache = null
+  inflight = null
+}
+
+export type UseTagsResult = {
+  tags: TagRow[]
+  isLoading: boolean
+  reload: () => Promise<void>
+}
+
+export function useTags(): UseTagsResult {
+  const [tags, setTags] = useState<TagRow[]>(cache ?? [])
+  const [isLoading, setIsLoading] = useState<boolean>(cache == null)
+
+  const load = useCallback(async (force: boolean) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      setIsLoading(false)
+      return
+    }
+    if (force) invalidateTagsCache()
+    setTags(await loadOnce(session.user.id))
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    load(false)
+  }, [load])
+
+  const reload = useCallback(() => load(true), [load])
+
+  return { tags, isLoading, reload }
+}
@@ -0,0 +1,37 @@
+-- บัญชี / กระเป๋าเงิน ต่อผู้ใช้ (เงินสด, บัญชีธนาคาร, e-wallet, บัตรเครดิต)
+-- และผูกทุกรายการธุรกรรมเข้ากับบัญชีผ่าน transactions.account_id
+-- รันใน Supabase Dashboard > SQL Editor. Idempotent.
+
+CREATE TABLE IF NOT EXISTS public.accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('cash', 'bank', 'ewallet', 'credit_card')),
+  -- ยอดยกมาตอนเริ่มใช้งานบัญชี (บัตรเครดิตที่มียอดค้างให้ใส่ค่าติดลบ)
+  opening_balance numeric NOT NULL DEFAULT 0,
+  sort_order int NOT NULL DEFAULT 0,
+  is_archived boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON public.accounts(user_id);
+
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own accounts" ON public.accounts;
+CREATE POLICY "Users can manage own accounts"
+  ON public.accounts
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ─── transactions.account_id ─────────────────────────────────────────────────
+-- NULL = รายการเดิมที่ยังไม่ได้ระบุบัญชี (แอปแสดงเป็น "ไม่ระบุบัญชี")
+-- ลบบัญชีแล้วรายการยังอยู่ แค่หลุดจากบัญชี (ON DELETE SET NULL)
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_account_id ON public.transactions(account_id);
@@ -0,0 +1,34 @@
+-- การโอนเงินระหว่างบัญชีของตัวเอง (ไม่นับเป็นรายรับ/รายจ่าย)
+-- รันใน Supabase Dashboard > SQL Editor. Idempotent. ต้องรัน 008 ก่อน
+--
+-- โมเดล:
+--   การโอน 1 ครั้ง = 2 แถวใน transactions (type = 'transfer') ที่มี transfer_id เดียวกัน
+--     - ขาออก (transfer_direction = 'out') : account_id = บัญชีต้นทาง
+--     - ขาเข้า (transfer_direction = 'in')  : account_id = บัญชีปลายทาง
+--   amount เป็นบวกเสมอทั้งสองขา; ทิศทางบอกด้วย transfer_direction
+--   ยอดรวมรายรับ/รายจ่ายไม่นับแถว transfer แต่ยอดคงเหลือแต่ละบัญชีขยับตาม
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS transfer_id uuid,
+  ADD COLUMN IF NOT EXISTS transfer_direction text;
+
+ALTER TABLE public.transactions
+  DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_type_check
+  CHECK (type IN ('income', 'expense', 'transfer'));
+
+-- แถว transfer ต้องมี transfer_id + ทิศทาง; แถวอื่นต้องไม่มี
+ALTER TABLE public.transactions
+  DROP CONSTRAINT IF EXISTS transactions_transfer_fields_check;
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_transfer_fields_check
+  CHECK (
+    (type = 'transfer' AND transfer_id IS NOT NULL AND transfer_direction IN ('out', 'in'))
+    OR (type <> 'transfer' AND transfer_id IS NULL AND transfer_direction IS NULL)
+  );
+
+-- หนึ่ง transfer_id มีได้ขาละหนึ่งแถว
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_transfer_leg_unique
+  ON public.transactions (transfer_id, transfer_direction)
+  WHERE transfer_id IS NOT NULL;
@@ -0,0 +1,55 @@
+-- รายการประจำ (recurring) เช่น ค่าเช่าทุกวันที่ 5, เงินเดือนทุกวันเงินเดือนออก, ค่าสมาชิกรายปี
+-- แอปขยายกฎเป็นรายการตามช่วงวันที่ ใช้ในพยากรณ์ และ (ถ้าเปิด auto_post) บันทึกเป็นรายการจริงเมื่อถึงกำหนด
+-- รันใน Supabase Dashboard > SQL Editor. Idempotent. ต้องรัน 008 ก่อน
+
+CREATE TABLE IF NOT EXISTS public.recurring_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('income', 'expense')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  category text,
+  description text,
+  account_id uuid REFERENCES public.accounts(id) ON DELETE SET NULL,
+  -- monthly    : ทุกเดือนวันที่ day_of_month (31 = วันสุดท้ายของเดือนสั้น)
+  -- salary_day : ทุกวันเงินเดือนออก (profiles.month_end_day)
+  -- weekly     : ทุกสัปดาห์วัน day_of_week (0 = อาทิตย์)
+  -- yearly     : ทุกปีวันที่ day_of_month เดือน month_of_year
+  frequency text NOT NULL CHECK (frequency IN ('monthly', 'salary_day', 'weekly', 'yearly')),
+  day_of_month int CHECK (day_of_month BETWEEN 1 AND 31),
+  day_of_week int CHECK (day_of_week BETWEEN 0 AND 6),
+  month_of_year int CHECK (month_of_year BETWEEN 1 AND 12),
+  start_date date NOT NULL DEFAULT current_date,
+  end_date date,
+  -- true = บันทึกเป็นรายการจริงอัตโนมัติเมื่อถึงกำหนด
+  auto_post boolean NOT NULL DEFAULT false,
+  -- วันที่ล่าสุดที่บันทึกอัตโนมัติแล้ว (กันบันทึกซ้ำ)
+  last_posted_date date,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (frequency <> 'monthly' OR day_of_month IS NOT NULL),
+  CHECK (frequency <> 'weekly' OR day_of_week IS NOT NULL),
+  CHECK (frequency <> 'yearly' OR (day_of_month IS NOT NULL AND month_of_year IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_user_id ON public.recurring_transactions(user_id);
+
+ALTER TABLE public.recurring_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own recurring transactions" ON public.recurring_transactions;
+CREATE POLICY "Users can manage own recurring transactions"
+  ON public.recurring_transactions
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ─── transactions.recurring_id ───────────────────────────────────────────────
+-- รายการที่บันทึกจากกฎประจำ; ลบกฎแล้วรายการยังอยู่ (ON DELETE SET NULL)
+-- unique (recurring_id, date) กันสองเครื่องบันทึกรายการเดียวกันซ้ำ
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS recurring_id uuid REFERENCES public.recurring_transactions(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_recurring_occurrence_unique
+  ON public.transactions (recurring_id, date)
+  WHERE recurring_id IS NOT NULL;
@@ -0,0 +1,38 @@
+-- กฎจัดหมวดหมู่อัตโนมัติ ต่อผู้ใช้ (ใช้คู่กับ expense_categories)
+-- เงื่อนไข: คำในรายละเอียด (contains / regex), ช่วงจำนวนเงิน, บัญชี → หมวดหมู่
+-- แอปไล่กฎตาม priority (น้อยก่อน) ตอนเพิ่มรายการและตอนนำเข้า CSV กฎแรกที่ตรงจะถูกใช้
+-- รันใน Supabase Dashboard > SQL Editor. Idempotent. ต้องรัน 008 ก่อน
+
+CREATE TABLE IF NOT EXISTS public.category_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  match_type text NOT NULL DEFAULT 'contains' CHECK (match_type IN ('contains', 'regex')),
+  -- คำ/รูปแบบที่ต้องมีในรายละเอียด (NULL = ไม่ดูรายละเอียด)
+  pattern text,
+  min_amount numeric CHECK (min_amount >= 0),
+  max_amount numeric CHECK (max_amount >= 0),
+  -- ลบบัญชีแล้วกฎที่ผูกบัญชีนั้นลบตามไปด้วย (กฎจะกว้างเกินถ้าแค่ตั้งเป็น NULL)
+  account_id uuid REFERENCES public.accounts(id) ON DELETE CASCADE,
+  -- NULL = ใช้ได้ทั้งรายรับและรายจ่าย
+  transaction_type text CHECK (transaction_type IN ('income', 'expense')),
+  category text NOT NULL,
+  priority int NOT NULL DEFAULT 0,
+  -- manual = ผู้ใช้สร้างเอง, learned = สร้างจากคำแนะนำ "เรียนรู้จากการแก้หมวด"
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'learned')),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (pattern IS NOT NULL OR min_amount IS NOT NULL OR max_amount IS NOT NULL OR account_id IS NOT NULL),
+  CHECK (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_rules_user_id ON public.category_rules(user_id);
+
+ALTER TABLE public.category_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own category rules" ON public.category_rules;
+CREATE POLICY "Users can manage own category rules"
+  ON public.category_rules
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,20 @@
+-- แยกรายการเดียวเป็นหลายหมวด (เช่น ใบเสร็จซูเปอร์มาร์เก็ต = อาหาร + ของใช้ + ยา)
+-- รันใน Supabase Dashboard > SQL Editor. Idempotent.
+--
+-- โมเดล:
+--   splits = jsonb array ของ { "category": text, "amount": number } ที่รวมกันเท่ากับ amount
+--   NULL = ไม่ได้แยก; category ของแถวเก็บหมวดของบรรทัดที่ยอดมากที่สุด
+--   การสรุปรายหมวด (งบ, หมวดที่ใช้มากสุด, อัตราใช้จ่ายรายวัน, สรุปให้ AI) นับแต่ละบรรทัดเข้าหมวดของตัวเอง
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS splits jsonb;
+
+-- ต้องเป็น array ที่มีอย่างน้อย 2 บรรทัด; แถว transfer แยกไม่ได้
+ALTER TABLE public.transactions
+  DROP CONSTRAINT IF EXISTS transactions_splits_check;
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_splits_check
+  CHECK (
+    splits IS NULL
+    OR (type <> 'transfer' AND jsonb_typeof(splits) = 'array' AND jsonb_array_length(splits) >= 2)
+  );
@@ -0,0 +1,47 @@
+-- แท็ก (ป้ายกำกับข้ามหมวดหมู่) เช่น trip-chiangmai, wedding, reimbursable
+-- หมวดหมู่ใช้คุมงบ ส่วนแท็กใช้จัดกลุ่มรายการข้ามหมวด; 1 รายการมีได้หลายแท็ก (many-to-many)
+-- รันใน Supabase Dashboard > SQL Editor. Idempotent.
+
+CREATE TABLE IF NOT EXISTS public.tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- เก็บแบบ normalize แล้ว (ตัวพิมพ์เล็ก, ช่องว่างเป็น -)
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tags_user_id ON public.tags(user_id);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own tags" ON public.tags;
+CREATE POLICY "Users can manage own tags"
+  ON public.tags
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ─── transaction_tags ────────────────────────────────────────────────────────
+-- ลบรายการหรือแท็กแล้วความสัมพันธ์ลบตามไปด้วย
+
+CREATE TABLE IF NOT EXISTS public.transaction_tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transaction_id uuid NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (transaction_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_tags_user_id ON public.transaction_tags(user_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_tags_tag_id ON public.transaction_tags(tag_id);
+
+ALTER TABLE public.transaction_tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own transaction tags" ON public.transaction_tags;
+CREATE POLICY "Users can manage own transaction tags"
+  ON public.transaction_tags
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
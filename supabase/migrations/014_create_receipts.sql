@@ -0,0 +1,42 @@
+-- รูปใบเสร็จแนบรายการ (1 รายการแนบได้หลายรูป)
+-- ไฟล์เก็บใน Supabase Storage bucket "receipts" (private) ที่ path <user_id>/<transaction_id>/<file>
+-- ตาราง receipts เก็บ metadata; ลบรายการแล้วแถว metadata ลบตาม (ไฟล์แอปลบเองก่อนลบรายการ)
+-- รันใน Supabase Dashboard > SQL Editor. Idempotent.
+
+CREATE TABLE IF NOT EXISTS public.receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transaction_id uuid NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  -- path ใน bucket; unique เพื่อให้การอัปโหลดซ้ำ (retry ตอน sync) ไม่สร้างแถวซ้ำ
+  path text NOT NULL UNIQUE,
+  thumb_path text,
+  content_type text NOT NULL DEFAULT 'image/jpeg',
+  size_bytes integer NOT NULL DEFAULT 0 CHECK (size_bytes >= 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_receipts_user_id ON public.receipts(user_id);
+CREATE INDEX IF NOT EXISTS idx_receipts_transaction_id ON public.receipts(transaction_id);
+
+ALTER TABLE public.receipts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own receipts" ON public.receipts;
+CREATE POLICY "Users can manage own receipts"
+  ON public.receipts
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ─── Storage bucket ──────────────────────────────────────────────────────────
+-- โฟลเดอร์แรกของ path ต้องเป็น user_id ของผู้ใช้เอง
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('receipts', 'receipts', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can manage own receipt files" ON storage.objects;
+CREATE POLICY "Users can manage own receipt files"
+  ON storage.objects
+  FOR ALL
+  USING (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,104 @@
+-- รองรับการดึงข้อมูลที่เปลี่ยนจากอุปกรณ์อื่นลงเครื่อง (pull sync)
+-- 1) ทุกตารางที่แอป sync มี updated_at ที่ server ตั้งให้เองทุกครั้งที่ insert/update
+-- 2) sync_deletions จดแถวที่ถูกลบ เพื่อให้อุปกรณ์อื่นลบสำเนาในเครื่องตาม
+-- รันใน Supabase Dashboard > SQL Editor. Idempotent.
+
+CREATE OR REPLACE FUNCTION public.touch_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+ALTER TABLE public.forecasts ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+DROP TRIGGER IF EXISTS trg_transactions_updated_at ON public.transactions;
+CREATE TRIGGER trg_transactions_updated_at
+  BEFORE INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS trg_forecasts_updated_at ON public.forecasts;
+CREATE TRIGGER trg_forecasts_updated_at
+  BEFORE INSERT OR UPDATE ON public.forecasts
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS trg_profiles_updated_at ON public.profiles;
+CREATE TRIGGER trg_profiles_updated_at
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS trg_category_budgets_updated_at ON public.category_budgets;
+CREATE TRIGGER trg_category_budgets_updated_at
+  BEFORE INSERT OR UPDATE ON public.category_budgets
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS trg_debt_items_updated_at ON public.debt_items;
+CREATE TRIGGER trg_debt_items_updated_at
+  BEFORE INSERT OR UPDATE ON public.debt_items
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+-- index สำหรับ query "เปลี่ยนตั้งแต่ watermark"
+CREATE INDEX IF NOT EXISTS idx_transactions_user_updated ON public.transactions(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_forecasts_user_updated ON public.forecasts(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_category_budgets_user_updated ON public.category_budgets(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_debt_items_user_updated ON public.debt_items(user_id, updated_at);
+
+-- ─── sync_deletions ──────────────────────────────────────────────────────────
+-- trigger เป็นคนเขียน (SECURITY DEFINER); ผู้ใช้อ่านได้อย่างเดียว
+-- user_id ไม่มี FK: ตอนลบ user แถวลูกที่ cascade จะเขียนลงตารางนี้ระหว่างลบ user
+
+CREATE TABLE IF NOT EXISTS public.sync_deletions (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL,
+  table_name text NOT NULL,
+  row_id uuid NOT NULL,
+  deleted_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_deletions_user_table ON public.sync_deletions(user_id, table_name, deleted_at);
+
+ALTER TABLE public.sync_deletions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own sync deletions" ON public.sync_deletions;
+CREATE POLICY "Users can read own sync deletions"
+  ON public.sync_deletions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.log_sync_deletion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.sync_deletions (user_id, table_name, row_id)
+  VALUES (OLD.user_id, TG_TABLE_NAME, OLD.id);
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_transactions_log_deletion ON public.transactions;
+CREATE TRIGGER trg_transactions_log_deletion
+  AFTER DELETE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.log_sync_deletion();
+
+DROP TRIGGER IF EXISTS trg_forecasts_log_deletion ON public.forecasts;
+CREATE TRIGGER trg_forecasts_log_deletion
+  AFTER DELETE ON public.forecasts
+  FOR EACH ROW EXECUTE FUNCTION public.log_sync_deletion();
+
+DROP TRIGGER IF EXISTS trg_category_budgets_log_deletion ON public.category_budgets;
+CREATE TRIGGER trg_category_budgets_log_deletion
+  AFTER DELETE ON public.category_budgets
+  FOR EACH ROW EXECUTE FUNCTION public.log_sync_deletion();
+
+DROP TRIGGER IF EXISTS trg_debt_items_log_deletion ON public.debt_items;
+CREATE TRIGGER trg_debt_items_log_deletion
+  AFTER DELETE ON public.debt_items
+  FOR EACH ROW EXECUTE FUNCTION public.log_sync_deletion();
@@ -0,0 +1,15 @@
+-- งบรายหมวดแยกตามรอบงบ (ประวัติงบ): แก้งบแล้วรอบที่ผ่านมาไม่เปลี่ยนตาม
+-- cycle_start = วันเริ่มรอบ (วันเงินเดือนออก) ที่งบชุดนี้เริ่มใช้ มีผลจนกว่าจะมีงบของรอบถัดไป
+-- แถวเดิมได้ 1970-01-01 = "ใช้กับทุกรอบก่อนหน้า" ผลลัพธ์จึงเหมือนเดิมจนกว่าจะแก้งบ
+-- รันใน Supabase Dashboard > SQL Editor. Idempotent.
+
+ALTER TABLE public.category_budgets
+  ADD COLUMN IF NOT EXISTS cycle_start date NOT NULL DEFAULT '1970-01-01';
+
+ALTER TABLE public.category_budgets
+  DROP CONSTRAINT IF EXISTS category_budgets_user_id_category_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS category_budgets_user_category_cycle_unique
+  ON public.category_budgets(user_id, category, cycle_start);
+
+CREATE INDEX IF NOT EXISTS idx_category_budgets_user_cycle ON public.category_budgets(user_id, cycle_start);
@@ -0,0 +1,26 @@
+-- การยกยอดงบรายหมวด (envelope) ต่อผู้ใช้: งบที่เหลือ/ใช้เกินของหมวดหนึ่งยกไปรอบถัดไปหรือไม่
+-- mode: reset = เริ่มใหม่ทุกรอบ (ค่าเริ่มต้น ไม่ต้องมีแถว), rollover = ยกยอดทั้งหมด,
+--       cap = ยกยอดส่วนที่เหลือได้ไม่เกิน cap บาท (ใช้เกินยังยกไปทั้งหมด)
+-- รันใน Supabase Dashboard > SQL Editor. Idempotent.
+
+CREATE TABLE IF NOT EXISTS public.category_rollover_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category text NOT NULL,
+  mode text NOT NULL DEFAULT 'reset' CHECK (mode IN ('reset', 'rollover', 'cap')),
+  cap numeric CHECK (cap >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, category),
+  CHECK (mode <> 'cap' OR cap IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_rollover_rules_user_id ON public.category_rollover_rules(user_id);
+
+ALTER TABLE public.category_rollover_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own category rollover rules" ON public.category_rollover_rules;
+CREATE POLICY "Users can manage own category rollover rules"
+  ON public.category_rollover_rules
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
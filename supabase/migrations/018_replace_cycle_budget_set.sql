@@ -0,0 +1,32 @@
+-- บันทึกงบของรอบหนึ่งทั้งชุดในธุรกรรมเดียว (แก้งบ / คัดลอกงบรอบก่อน / ยกงบไปรอบถัดไป)
+-- หมวดที่ไม่อยู่ในชุดถูกลบ และมีแถวเครื่องหมาย category = '' (budget 0) บอกว่ารอบนี้มีงบชุดของตัวเอง
+-- แม้ชุดจะว่าง รอบนั้นจึงไม่ไปใช้งบของรอบก่อนหน้าแทน
+-- รันใน Supabase Dashboard > SQL Editor. Idempotent.
+
+CREATE OR REPLACE FUNCTION public.replace_cycle_budget_set(p_cycle_start date, p_budgets jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not signed in';
+  END IF;
+
+  DELETE FROM public.category_budgets
+  WHERE user_id = auth.uid()
+    AND cycle_start = p_cycle_start
+    AND category <> ''
+    AND NOT (p_budgets ? category);
+
+  INSERT INTO public.category_budgets (user_id, category, cycle_start, budget)
+  SELECT auth.uid(), b.key, p_cycle_start, b.value::numeric
+  FROM jsonb_each_text(p_budgets) AS b
+  UNION ALL
+  SELECT auth.uid(), '', p_cycle_start, 0
+  ON CONFLICT (user_id, category, cycle_start) DO UPDATE SET budget = EXCLUDED.budget;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.replace_cycle_budget_set(date, jsonb) TO authenticated;
@@ -0,0 +1,10 @@
+-- วันที่เริ่มใช้กฎยกยอดงบรายหมวด: ยอดยกไปเริ่มสะสมตั้งแต่รอบที่มีวันนี้ ไม่ย้อนไปนับรอบก่อนตั้งกฎ
+-- (null = กฎแบบ reset ซึ่งไม่ยกยอดอยู่แล้ว) กฎเดิมใช้วันที่แก้ไขล่าสุดเป็นวันเริ่ม
+-- รันใน Supabase Dashboard > SQL Editor. Idempotent.
+
+ALTER TABLE public.category_rollover_rules
+  ADD COLUMN IF NOT EXISTS effective_from date;
+
+UPDATE public.category_rollover_rules
+SET effective_from = updated_at::date
+WHERE effective_from IS NULL AND mode <> 'reset';